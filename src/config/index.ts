@@ -4,6 +4,50 @@ import { IntegrationConfigSchema } from './integration.js';
 
 dotenv.config();
 
+const TIMEBACK_APIS = ['qti', 'oneroster', 'caliper', 'powerpath', 'case'] as const;
+
+const ValidationModeSchema = z.enum(['off', 'warn', 'strict']);
+
+const CredentialSetSchema = z.object({
+  clientId: z.string().optional(),
+  clientSecret: z.string().optional(),
+  tokenUrl: z.string().url().optional(),
+  revokeUrl: z.string().url().optional(),
+  scope: z.string().optional(),
+});
+
+function parseApiCredentials(): Record<string, z.input<typeof CredentialSetSchema>> {
+  const credentials: Record<string, z.input<typeof CredentialSetSchema>> = {};
+  for (const api of TIMEBACK_APIS) {
+    const prefix = api.toUpperCase();
+    // Templated but blank variables (ONEROSTER_TOKEN_URL=) count as unset rather than as invalid values
+    const values = Object.fromEntries(
+      Object.entries({
+        clientId: process.env[`${prefix}_CLIENT_ID`],
+        clientSecret: process.env[`${prefix}_CLIENT_SECRET`],
+        tokenUrl: process.env[`${prefix}_TOKEN_URL`],
+        revokeUrl: process.env[`${prefix}_REVOKE_URL`],
+        scope: process.env[`${prefix}_SCOPE`],
+      }).filter(([, value]) => value)
+    );
+    if (Object.keys(values).length) {
+      credentials[api] = values;
+    }
+  }
+  return credentials;
+}
+
+function parseAuthProfiles(): Record<string, unknown> | undefined {
+  if (!process.env.AUTH_PROFILES) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(process.env.AUTH_PROFILES);
+  } catch {
+    throw new Error('AUTH_PROFILES must be a JSON object mapping profile names to { clientId, clientSecret, tokenUrl, revokeUrl, scope }');
+  }
+}
+
 const ConfigSchema = z.object({
   server: z.object({
     name: z.string().default('timeback-mcp-server'),
@@ -15,9 +59,14 @@ const ConfigSchema = z.object({
     }),
     oneroster: z.object({
       baseUrl: z.string().url().default('https://api.alpha-1edtech.com'),
+      pageSize: z.number().min(1).default(100),
+      maxRecords: z.number().min(1).default(10000), // safety cap for paginated pulls
     }),
     caliper: z.object({
       baseUrl: z.string().url().default('https://caliper.alpha-1edtech.com'),
+      eventPath: z.string().default('/caliper/event'),
+      sensorId: z.string().default('urn:timeback:sensor:timeback-mcp-server'),
+      batchSize: z.number().min(1).default(50), // events per envelope
     }),
     powerpath: z.object({
       baseUrl: z.string().url().default('https://api.alpha-1edtech.com'),
@@ -30,10 +79,29 @@ const ConfigSchema = z.object({
     tokenUrl: z.string().url().default('https://alpha-auth-production-idp.auth.us-west-2.amazoncognito.com/oauth2/token'),
     clientId: z.string().optional(),
     clientSecret: z.string().optional(),
+    revokeUrl: z.string().url().optional(),
+    scope: z.string().optional(),
+    apis: z.record(CredentialSetSchema).default({}), // per-API overrides, e.g. ONEROSTER_CLIENT_ID
+    profiles: z.record(CredentialSetSchema).default({}), // named credential sets from AUTH_PROFILES
   }),
   logging: z.object({
     level: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   }),
+  validation: z.object({
+    mode: ValidationModeSchema.default('strict'), // strict blocks invalid requests
+  }),
+  credentialIssuer: z.object({
+    id: z.string().optional(), // defaults to the did:key of an Ed25519 signing key
+    name: z.string().optional(),
+    url: z.string().url().optional(),
+    signingKeyPath: z.string().optional(), // PKCS#8 PEM or private JWK
+    verificationMethod: z.string().optional(),
+  }),
+  operationTools: z.object({
+    enabled: z.boolean().default(false),
+    apis: z.array(z.string()).default([]),
+    tags: z.array(z.string()).default([]),
+  }),
   crawler: z.object({
     enabled: z.boolean().default(true),
     schedule: z.object({
@@ -122,9 +190,14 @@ const config = ConfigSchema.parse({
     },
     oneroster: {
       baseUrl: process.env.TIMEBACK_ONEROSTER_BASE_URL,
+      pageSize: parseInt(process.env.ONEROSTER_PAGE_SIZE || '100'),
+      maxRecords: parseInt(process.env.ONEROSTER_MAX_RECORDS || '10000'),
     },
     caliper: {
       baseUrl: process.env.TIMEBACK_CALIPER_BASE_URL,
+      eventPath: process.env.CALIPER_EVENT_PATH,
+      sensorId: process.env.CALIPER_SENSOR_ID,
+      batchSize: parseInt(process.env.CALIPER_BATCH_SIZE || '50'),
     },
     powerpath: {
       baseUrl: process.env.TIMEBACK_POWERPATH_BASE_URL,
@@ -137,10 +210,29 @@ const config = ConfigSchema.parse({
     tokenUrl: process.env.OAUTH2_TOKEN_URL,
     clientId: process.env.CLIENT_ID,
     clientSecret: process.env.CLIENT_SECRET,
+    revokeUrl: process.env.OAUTH2_REVOKE_URL || undefined,
+    scope: process.env.OAUTH2_SCOPE,
+    apis: parseApiCredentials(),
+    profiles: parseAuthProfiles(),
   },
   logging: {
     level: process.env.LOG_LEVEL as any,
   },
+  validation: {
+    mode: (process.env.VALIDATION_MODE || undefined) as z.infer<typeof ValidationModeSchema> | undefined,
+  },
+  credentialIssuer: {
+    id: process.env.CREDENTIAL_ISSUER_ID || undefined,
+    name: process.env.CREDENTIAL_ISSUER_NAME || undefined,
+    url: process.env.CREDENTIAL_ISSUER_URL || undefined,
+    signingKeyPath: process.env.CREDENTIAL_SIGNING_KEY_PATH || undefined,
+    verificationMethod: process.env.CREDENTIAL_VERIFICATION_METHOD || undefined,
+  },
+  operationTools: {
+    enabled: process.env.OPERATION_TOOLS_ENABLED === 'true',
+    apis: process.env.OPERATION_TOOLS_APIS?.split(',').map(api => api.trim()).filter(Boolean),
+    tags: process.env.OPERATION_TOOLS_TAGS?.split(',').map(tag => tag.trim()).filter(Boolean),
+  },
   crawler: {
     enabled: process.env.CRAWLER_ENABLED === 'false' ? false : true,
     schedule: {
@@ -188,4 +280,5 @@ const config = ConfigSchema.parse({
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
-export { config };
+export type CredentialSet = z.infer<typeof CredentialSetSchema>;
+export { config, TIMEBACK_APIS };
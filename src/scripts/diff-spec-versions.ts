@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs/promises';
+import { DocumentationStore } from '../services/documentation-store.js';
+import { SpecDiffer, SpecDiffReport } from '../services/spec-diff.js';
+import { logger } from '../utils/logger.js';
+
+function printUsage() {
+  console.log(`
+Usage:
+  npm run spec:diff -- <documentId> [fromVersion] [toVersion] [--fail-on-breaking]
+  npm run spec:diff -- --from-file <old-spec> --to-file <new-spec> [--fail-on-breaking]
+
+Without fromVersion the most recent stored version is compared with the current document.
+`);
+}
+
+function printReport(title: string, report: SpecDiffReport) {
+  console.log(`\n🔍 ${title}`);
+  console.log('==========================================');
+  console.log(`Total changes: ${report.summary.total}`);
+  console.log(`❌ Breaking: ${report.summary.breaking}`);
+  console.log(`✅ Non-breaking: ${report.summary.nonBreaking}`);
+  console.log(`Operations added/removed: ${report.summary.operationsAdded}/${report.summary.operationsRemoved}`);
+
+  for (const severity of ['breaking', 'non-breaking'] as const) {
+    const changes = report.changes.filter(change => change.severity === severity);
+    if (changes.length === 0) continue;
+
+    console.log(`\n${severity === 'breaking' ? '❌ Breaking changes' : '✅ Non-breaking changes'}:`);
+    changes.forEach((change, index) => {
+      console.log(`  ${index + 1}. [${change.kind}] ${change.message}`);
+    });
+  }
+}
+
+async function diffSpecVersions() {
+  const args = process.argv.slice(2);
+  const failOnBreaking = args.includes('--fail-on-breaking');
+  const positional = args.filter(arg => !arg.startsWith('--'));
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  try {
+    let report: SpecDiffReport;
+    const fromFile = option('--from-file');
+    const toFile = option('--to-file');
+
+    if (fromFile || toFile) {
+      if (!fromFile || !toFile) {
+        printUsage();
+        process.exit(1);
+      }
+      const [oldSpec, newSpec] = await Promise.all([fs.readFile(fromFile!, 'utf-8'), fs.readFile(toFile!, 'utf-8')]);
+      report = await new SpecDiffer().diffSpecTexts(oldSpec, newSpec);
+      printReport(`${fromFile} → ${toFile}`, report);
+    } else {
+      const [documentId, requestedFromVersion, toVersion] = positional;
+      if (!documentId) {
+        printUsage();
+        process.exit(1);
+      }
+
+      const store = new DocumentationStore();
+      await store.initialize();
+
+      let fromVersion = requestedFromVersion;
+      if (!fromVersion) {
+        const versions = await store.getDocumentVersions(documentId);
+        if (versions.length === 0) {
+          throw new Error(`Document ${documentId} has no stored versions to compare`);
+        }
+        fromVersion = versions[versions.length - 1].version;
+      }
+
+      const diff = await store.diffVersions(documentId, fromVersion, toVersion);
+      report = diff;
+      printReport(`${diff.api} ${diff.fromVersion} → ${diff.toVersion} (${diff.source})`, diff);
+    }
+
+    if (failOnBreaking && report.hasBreakingChanges) {
+      process.exit(2);
+    }
+  } catch (error) {
+    logger.error('Failed to diff specification versions:', error);
+    process.exit(1);
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  diffSpecVersions();
+}
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { OpenAPIParser } from '../services/openapi-parser.js';
+import { MockTimeBackServer } from '../services/mock-server.js';
+import { TIMEBACK_APIS } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+function printUsage() {
+  console.log(`
+Usage:
+  npm run mock:server -- [--port 4010] [--specs-dir ./openapi-specs] [--apis oneroster,qti]
+                         [--stateless] [--no-validate] [--no-auth]
+`);
+}
+
+async function runMockServer() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  if (args.includes('--help')) {
+    printUsage();
+    return;
+  }
+
+  try {
+    const port = parseInt(option('--port') || process.env.MOCK_SERVER_PORT || '4010');
+    const specsDir = path.resolve(option('--specs-dir') || 'openapi-specs');
+    const apis = option('--apis')?.split(',').map(api => api.trim()).filter(Boolean) || [...TIMEBACK_APIS];
+
+    const parser = new OpenAPIParser();
+    for (const api of apis) {
+      const specPath = path.join(specsDir, `timeback-${api}-openapi.yaml`);
+      try {
+        await fs.access(specPath);
+      } catch {
+        logger.warn(`Skipping ${api}: no specification at ${specPath}`);
+        continue;
+      }
+      await parser.loadFromFile(api, specPath, `http://localhost:${port}`);
+    }
+
+    if (parser.getAllAPIs().length === 0) {
+      throw new Error(`No OpenAPI specifications found in ${specsDir}`);
+    }
+
+    const server = new MockTimeBackServer(parser, {
+      port,
+      host: option('--host') || '127.0.0.1',
+      stateful: !args.includes('--stateless'),
+      validateRequests: !args.includes('--no-validate'),
+      requireAuth: !args.includes('--no-auth'),
+    });
+    const url = await server.start();
+
+    console.log('\n🧪 Mock TimeBack Server');
+    console.log('==========================================');
+    console.log(`URL: ${url}`);
+    console.log(`Operations: ${server.getOperationCount()}`);
+    console.log(`APIs: ${parser.getAllAPIs().map(api => api.name).join(', ')}`);
+    console.log('\nPoint the MCP server at it with:');
+    console.log(`  OAUTH2_TOKEN_URL=${url}/oauth2/token`);
+    console.log(`  OAUTH2_REVOKE_URL=${url}/oauth2/revoke`);
+    console.log('  CLIENT_ID=mock CLIENT_SECRET=mock');
+    for (const api of parser.getAllAPIs()) {
+      console.log(`  TIMEBACK_${api.name.toUpperCase()}_BASE_URL=${url}`);
+    }
+
+    const shutdown = async () => {
+      await server.stop();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (error) {
+    logger.error('Failed to start mock server:', error);
+    process.exit(1);
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runMockServer();
+}
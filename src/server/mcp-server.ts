@@ -11,17 +11,55 @@ import {
 import { z } from 'zod';
 import { OpenAPIParser } from '../services/openapi-parser.js';
 import { AuthService } from '../services/auth.js';
+import { EndpointExecutor } from '../services/endpoint-executor.js';
+import { GeneratedOperationTool, OperationToolGenerator } from '../services/operation-tool-generator.js';
+import { OneRosterPaginator } from '../services/oneroster-paginator.js';
+import { OneRosterQueryBuilder } from '../services/oneroster-query-builder.js';
+import { OneRosterCsvFile, OneRosterCsvService } from '../services/oneroster-csv.js';
+import { RosterReconciler } from '../services/roster-reconciler.js';
+import { ExampleGenerator } from '../services/example-generator.js';
+import { SDK_LANGUAGES, SdkGenerator, SdkLanguage } from '../services/sdk-generator.js';
+import { SchemaValidationError, SchemaValidator } from '../services/schema-validator.js';
+import { MappingEngine } from '../services/mapping-engine.js';
+import { DataTransformer } from '../services/data-transformer.js';
+import {
+  AssessmentEventInput,
+  AssessmentItemEventInput,
+  CaliperEvent,
+  CaliperEventBuilder,
+  CaliperEventValidator,
+  GradeEventInput,
+  NavigationEventInput,
+  SessionEventInput,
+} from '../services/caliper-events.js';
+import { CaliperSender } from '../services/caliper-sender.js';
+import { QtiParser } from '../services/qti-parser.js';
+import { QtiRenderer } from '../services/qti-renderer.js';
+import { QtiItemAuthor } from '../services/qti-authoring.js';
+import { QtiScoringEngine } from '../services/qti-scoring.js';
+import { CASE_API_PATH, CaseNavigator } from '../services/case-navigator.js';
+import { CredentialVerifier } from '../services/credential-verifier.js';
+import { CredentialIssuer } from '../services/credential-issuer.js';
+import { PathChange, PowerPathPlanner } from '../services/powerpath-planner.js';
+import { StudentProfileAggregator } from '../services/student-profile.js';
 import { CodebaseAnalyzer, CodebaseAnalysis } from '../services/codebase-analyzer.js';
 import { DocumentationCrawler } from '../services/documentation-crawler.js';
 import { DocumentationIndexer } from '../services/documentation-indexer.js';
 import { ToolComposer } from '../services/tool-composer.js';
 import { McpProxy } from '../services/mcp-proxy.js';
 import { IntegrationManager } from '../services/integration-manager.js';
+import { TransformationSpec } from '../types/index.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
+const LoadTimeBackSpecsSchema = z.object({
+  generateOperationTools: z.boolean().optional().default(config.operationTools.enabled),
+  toolApis: z.array(z.string()).optional().default(config.operationTools.apis),
+  toolTags: z.array(z.string()).optional().default(config.operationTools.tags),
+});
+
 const AnalyzeCodebaseSchema = z.object({
   projectPath: z.string().min(1, 'Project path is required'),
   includeCodeExamples: z.boolean().optional().default(true),
@@ -29,12 +67,20 @@ const AnalyzeCodebaseSchema = z.object({
 });
 
 const GenerateIntegrationCodeSchema = z.object({
-  language: z.enum(['javascript', 'typescript', 'python', 'java']),
+  language: z.enum(['javascript', 'typescript', 'python', 'java', 'csharp']),
   framework: z.string().min(1, 'Framework is required'),
   integrationPattern: z.enum(['oauth-setup', 'data-sync', 'event-tracking', 'assessment-delivery', 'standards-alignment']),
   apis: z.array(z.string()).min(1, 'At least one API is required'),
 });
 
+const GenerateSdkSchema = z.object({
+  api: z.string().min(1, 'API is required'),
+  language: z.enum(['typescript', 'python', 'java', 'csharp']).optional().default('typescript'),
+  outputDir: z.string().optional(),
+  clientName: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Client name must be a valid identifier').optional(),
+  packageName: z.string().optional(),
+});
+
 const DetectIntegrationOpportunitiesSchema = z.object({
   projectPath: z.string().min(1, 'Project path is required'),
   analysisDepth: z.enum(['shallow', 'deep']).optional().default('deep'),
@@ -63,6 +109,275 @@ const GenerateIntegrationMappingSchema = z.object({
   sourceApi: z.string().min(1, 'Source API is required'),
   targetApi: z.string().min(1, 'Target API is required'),
   useCase: z.string().min(1, 'Use case is required'),
+  sourceSchema: z.string().optional(),
+  targetSchema: z.string().optional(),
+  maxMappings: z.number().int().min(1).max(50).default(5),
+  minConfidence: z.number().min(0).max(1).default(0.5),
+});
+
+const TransformRuleSchema = z.object({
+  target: z.string().min(1, 'Rule target is required'),
+  source: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]).optional(),
+  value: z.any().optional(),
+  join: z.string().optional(),
+  split: z.string().min(1).optional(),
+  index: z.number().int().optional(),
+  flatten: z.boolean().optional(),
+  valueMap: z.record(z.any()).optional(),
+  lookup: z.string().optional(),
+  type: z.enum(['string', 'number', 'integer', 'boolean', 'date', 'date-time', 'array']).optional(),
+  default: z.any().optional(),
+  required: z.boolean().optional(),
+});
+
+const TransformDataSchema = z.object({
+  spec: z.object({
+    name: z.string().optional(),
+    sourceApi: z.string().optional(),
+    sourceSchema: z.string().optional(),
+    targetApi: z.string().optional(),
+    targetSchema: z.string().optional(),
+    rules: z.array(TransformRuleSchema).min(1, 'At least one rule is required'),
+    lookups: z.record(z.record(z.any())).optional(),
+  }).optional(),
+  fieldMappings: z.record(z.string()).optional(),
+  data: z.any().refine(data => data !== undefined, 'Data is required'),
+  targetApi: z.string().optional(),
+  targetSchema: z.string().optional(),
+}).refine(args => Boolean(args.spec || args.fieldMappings), {
+  message: 'Either spec or fieldMappings is required',
+});
+
+const BuildCaliperEventSchema = z.object({
+  eventType: z.enum(['AssessmentEvent', 'AssessmentItemEvent', 'GradeEvent', 'SessionEvent', 'NavigationEvent']),
+  action: z.string().optional(),
+  actorId: z.string().min(1, 'Actor ID is required'),
+  actorType: z.enum(['Person', 'SoftwareApplication']).optional(),
+  actorName: z.string().optional(),
+  edAppId: z.string().optional(),
+  sessionId: z.string().optional(),
+  groupId: z.string().optional(),
+  eventTime: z.string().optional(),
+  extensions: z.record(z.any()).optional(),
+  assessmentId: z.string().optional(),
+  assessmentName: z.string().optional(),
+  attemptId: z.string().optional(),
+  attemptCount: z.number().int().min(1).optional(),
+  itemId: z.string().optional(),
+  itemName: z.string().optional(),
+  response: z.any().optional(),
+  learnerId: z.string().optional(),
+  scoreGiven: z.number().optional(),
+  maxScore: z.number().optional(),
+  comment: z.string().optional(),
+  objectId: z.string().optional(),
+  objectType: z.string().optional(),
+  objectName: z.string().optional(),
+  referrerId: z.string().optional(),
+  envelope: z.boolean().optional().default(false),
+});
+
+const SendCaliperEventsSchema = z.object({
+  events: z.array(z.record(z.any())).min(1, 'At least one event is required'),
+  sensorId: z.string().optional(),
+  batchSize: z.number().int().min(1).optional(),
+  profile: z.string().optional(),
+  dryRun: z.boolean().optional().default(false),
+});
+
+const ParseQtiXmlSchema = z.object({
+  xml: z.string().min(1, 'QTI XML is required'),
+});
+
+const RenderQtiItemSchema = z.object({
+  xml: z.string().min(1, 'QTI XML is required'),
+  format: z.enum(['text', 'html']).optional().default('text'),
+  showAnswers: z.boolean().optional().default(false),
+});
+
+const QtiItemDescriptionSchema = z.object({
+  identifier: z.string().min(1, 'Item identifier is required'),
+  title: z.string().min(1, 'Item title is required'),
+  type: z.enum(['choice', 'text-entry', 'extended-text']),
+  prompt: z.string().min(1, 'Prompt is required'),
+  stimulus: z.string().optional(),
+  language: z.string().optional(),
+  points: z.number().positive().optional(),
+  choices: z.array(z.object({
+    identifier: z.string().optional(),
+    text: z.string().min(1),
+    correct: z.boolean().optional(),
+    fixed: z.boolean().optional(),
+  })).optional(),
+  shuffle: z.boolean().optional(),
+  maxChoices: z.number().int().min(0).optional(),
+  correctResponse: z.union([z.string(), z.array(z.string())]).optional(),
+  alternatives: z.record(z.number()).optional(),
+  caseSensitive: z.boolean().optional(),
+  baseType: z.enum(['string', 'integer', 'float']).optional(),
+  expectedLength: z.number().int().positive().optional(),
+  expectedLines: z.number().int().positive().optional(),
+});
+
+const GenerateQtiItemSchema = z.object({
+  item: QtiItemDescriptionSchema.optional(),
+  items: z.array(QtiItemDescriptionSchema).optional(),
+}).refine(args => Boolean(args.item || args.items?.length), {
+  message: 'Either item or items is required',
+});
+
+const QtiResponseValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const ScoreQtiResponseSchema = z.object({
+  xml: z.string().min(1, 'QTI XML is required'),
+  responses: z.record(z.union([QtiResponseValueSchema, z.array(QtiResponseValueSchema), z.null()])).optional(),
+});
+
+const LoadCaseFrameworkSchema = z.object({
+  documentId: z.string().optional(),
+  path: z.string().optional(),
+  profile: z.string().optional(),
+}).refine(args => Boolean(args.documentId || args.path), {
+  message: 'Either documentId or path is required',
+});
+
+const BrowseCaseFrameworkSchema = z.object({
+  node: z.string().optional(),
+  documentId: z.string().optional(),
+  direction: z.enum(['children', 'parents']).optional().default('children'),
+}).refine(args => Boolean(args.node || args.documentId), {
+  message: 'Either node or documentId is required',
+});
+
+const SearchCaseItemsSchema = z.object({
+  query: z.string().min(1, 'Query is required'),
+  field: z.enum(['humanCodingScheme', 'fullStatement', 'any']).optional().default('any'),
+  documentId: z.string().optional(),
+  itemType: z.string().optional(),
+  limit: z.number().int().min(1).optional().default(25),
+});
+
+const GetCaseAssociationsSchema = z.object({
+  node: z.string().min(1, 'Node is required'),
+  documentId: z.string().optional(),
+  associationType: z.string().optional(),
+});
+
+const ExportCaseSubtreeSchema = z.object({
+  node: z.string().min(1, 'Node is required'),
+  documentId: z.string().optional(),
+  depth: z.number().int().min(0).optional(),
+  format: z.enum(['tree', 'package']).optional().default('tree'),
+});
+
+const CredentialKeySchema = z.object({
+  id: z.string().min(1, 'Key id is required'),
+  controller: z.string().optional(),
+  publicKeyMultibase: z.string().optional(),
+  publicKeyBase58: z.string().optional(),
+  publicKeyJwk: z.record(z.any()).optional(),
+  publicKeyPem: z.string().optional(),
+});
+
+const CredentialInputSchema = z.object({
+  credential: z.union([z.string().min(1), z.record(z.any())]).optional(),
+  path: z.string().optional(),
+});
+
+const InspectCredentialSchema = CredentialInputSchema.refine(args => Boolean(args.credential || args.path), {
+  message: 'Either credential or path is required',
+});
+
+const VerifyCredentialSchema = CredentialInputSchema.extend({
+  keys: z.array(CredentialKeySchema).optional().default([]),
+  didDocuments: z.array(z.object({ id: z.string().min(1) }).passthrough()).optional().default([]),
+  now: z.string().datetime({ offset: true }).optional(),
+}).refine(args => Boolean(args.credential || args.path), {
+  message: 'Either credential or path is required',
+});
+
+const RecipientSchema = z.union([
+  z.string().min(1),
+  z.object({
+    id: z.string().optional(),
+    identifier: z.string().optional(),
+    identityType: z.string().optional(),
+    hashed: z.boolean().optional(),
+    salt: z.string().optional(),
+  }).refine(recipient => Boolean(recipient.id || recipient.identifier), {
+    message: 'Recipient needs an id or an identifier',
+  }),
+]);
+
+const CredentialIssueOptionsSchema = z.object({
+  recipient: RecipientSchema,
+  encoding: z.enum(['data-integrity', 'jwt']).optional().default('data-integrity'),
+  id: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  validFrom: z.string().datetime({ offset: true }).optional(),
+  validUntil: z.string().datetime({ offset: true }).optional(),
+  outputPath: z.string().optional(),
+});
+
+const IssueBadgeCredentialSchema = CredentialIssueOptionsSchema.extend({
+  achievement: z.record(z.any()),
+  results: z.array(z.record(z.any())).optional(),
+});
+
+const IssueClrCredentialSchema = CredentialIssueOptionsSchema.extend({
+  name: z.string().min(1, 'CLR name is required'),
+  achievements: z.array(z.record(z.any())).optional().default([]),
+  credentials: z.array(z.union([z.string().min(1), z.record(z.any())])).optional(),
+  associations: z.array(z.object({
+    associationType: z.string().min(1),
+    sourceId: z.string().min(1),
+    targetId: z.string().min(1),
+  })).optional(),
+});
+
+const GetPowerPathCourseSchema = z.object({
+  courseId: z.string().min(1, 'Course ID is required'),
+  syllabus: z.record(z.any()).optional(),
+  profile: z.string().optional(),
+});
+
+const PlanPowerPathSchema = GetPowerPathCourseSchema.extend({
+  studentId: z.string().min(1, 'Student ID is required'),
+  progress: z.union([z.record(z.any()), z.array(z.record(z.any()))]).optional(),
+  masteryThreshold: z.number().min(0).optional(),
+  lessonsPerWeek: z.number().positive().optional(),
+  startDate: z.string().optional(),
+});
+
+const PathChangeSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.enum(['master', 'skip', 'reset', 'remove']), id: z.string().min(1) }),
+  z.object({
+    type: z.literal('add'),
+    componentId: z.string().min(1),
+    lesson: z.object({ id: z.string().min(1), title: z.string().min(1), xp: z.number().optional() }),
+    position: z.number().int().min(0).optional(),
+  }),
+  z.object({ type: z.literal('move'), id: z.string().min(1), componentId: z.string().min(1), position: z.number().int().min(0).optional() }),
+  z.object({
+    type: z.literal('prerequisites'),
+    componentId: z.string().min(1),
+    prerequisites: z.array(z.string()),
+    criteria: z.enum(['ALL', 'ANY']).optional(),
+  }),
+  z.object({ type: z.literal('pace'), lessonsPerWeek: z.number().positive() }),
+]);
+
+const SimulatePowerPathSchema = PlanPowerPathSchema.extend({
+  changes: z.array(PathChangeSchema).min(1, 'At least one change is required'),
+});
+
+const GetStudentProfileSchema = z.object({
+  sourcedId: z.string().min(1, 'Student sourcedId is required'),
+  include: z.array(z.enum(['demographics', 'enrollments', 'results', 'events', 'progress'])).optional(),
+  eventLimit: z.number().int().positive().optional(),
+  masteryThreshold: z.number().min(0).optional(),
+  profile: z.string().optional(),
 });
 
 const ValidateApiIntegrationSchema = z.object({
@@ -70,6 +385,122 @@ const ValidateApiIntegrationSchema = z.object({
   configuration: z.record(z.any()),
 });
 
+const CallTimeBackEndpointSchema = z.object({
+  api: z.string().min(1, 'API is required'),
+  operationId: z.string().optional(),
+  method: z.string().optional(),
+  path: z.string().optional(),
+  pathParams: z.record(z.any()).optional(),
+  query: z.record(z.any()).optional(),
+  headers: z.record(z.string()).optional(),
+  body: z.any().optional(),
+  profile: z.string().optional(),
+  validationMode: z.enum(['off', 'warn', 'strict']).optional(),
+}).refine(args => Boolean(args.operationId) || Boolean(args.method && args.path), {
+  message: 'Either operationId or both method and path are required',
+});
+
+const ValidateTimeBackPayloadSchema = z.object({
+  api: z.string().min(1, 'API is required'),
+  operationId: z.string().optional(),
+  method: z.string().optional(),
+  path: z.string().optional(),
+  direction: z.enum(['request', 'response']).optional().default('request'),
+  pathParams: z.record(z.any()).optional(),
+  query: z.record(z.any()).optional(),
+  headers: z.record(z.string()).optional(),
+  body: z.any().optional(),
+  status: z.number().optional().default(200),
+}).refine(args => Boolean(args.operationId) || Boolean(args.method && args.path), {
+  message: 'Either operationId or both method and path are required',
+});
+
+const GenerateExamplePayloadSchema = z.object({
+  api: z.string().min(1, 'API is required'),
+  schemaName: z.string().optional(),
+  operationId: z.string().optional(),
+  method: z.string().optional(),
+  path: z.string().optional(),
+  target: z.enum(['request', 'response']).optional().default('request'),
+  status: z.number().optional(),
+  seed: z.number().int().optional().default(1),
+  includeOptional: z.boolean().optional().default(true),
+}).refine(args => Boolean(args.schemaName) || Boolean(args.operationId) || Boolean(args.method && args.path), {
+  message: 'Either schemaName, operationId or both method and path are required',
+});
+
+const FetchOneRosterCollectionSchema = z.object({
+  path: z.string().regex(/^\//, 'Path must start with /').optional(),
+  operationId: z.string().optional(),
+  query: z.record(z.any()).optional(),
+  pageSize: z.number().min(1).optional(),
+  maxRecords: z.number().min(1).optional(),
+  collectionKey: z.string().optional(),
+  profile: z.string().optional(),
+}).refine(args => Boolean(args.path || args.operationId), {
+  message: 'Either path or operationId is required',
+});
+
+const ImportOneRosterCsvSchema = z.object({
+  path: z.string().optional(),
+  files: z.record(z.string()).optional(),
+  includeRecords: z.boolean().optional().default(false),
+  push: z.boolean().optional().default(false),
+  includeBulk: z.boolean().optional().default(false),
+  dryRun: z.boolean().optional().default(false),
+  profile: z.string().optional(),
+}).refine(args => Boolean(args.path || args.files), {
+  message: 'Either path or files is required',
+});
+
+const ExportOneRosterCsvSchema = z.object({
+  data: z.record(z.array(z.record(z.any()))),
+  mode: z.enum(['bulk', 'delta']).optional().default('bulk'),
+  outputPath: z.string().optional(),
+});
+
+const RosterSnapshotSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('csv'), path: z.string().optional(), files: z.record(z.string()).optional(), label: z.string().optional() }),
+  z.object({ type: z.literal('api'), profile: z.string().optional(), baseUrl: z.string().url().optional(), label: z.string().optional() }),
+  z.object({ type: z.literal('json'), path: z.string().optional(), data: z.record(z.any()).optional(), label: z.string().optional() }),
+]);
+
+const ReconcileRostersSchema = z.object({
+  source: RosterSnapshotSchema,
+  target: RosterSnapshotSchema,
+  collections: z.array(z.enum(['academicSessions', 'orgs', 'courses', 'classes', 'users', 'enrollments'])).optional(),
+  ignoreFields: z.array(z.string()).optional(),
+  push: z.boolean().optional().default(false),
+  profile: z.string().optional(),
+});
+
+const FilterPredicateSchema = z.object({
+  field: z.string().min(1, 'Field is required'),
+  operator: z.enum(['=', '!=', '>', '>=', '<', '<=', '~']),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+});
+
+const BuildOneRosterQuerySchema = z.object({
+  schema: z.string().optional(),
+  filter: z.union([
+    z.array(FilterPredicateSchema),
+    z.object({
+      logic: z.enum(['AND', 'OR']).default('AND'),
+      predicates: z.array(FilterPredicateSchema),
+    }),
+  ]).optional(),
+  sort: z.string().optional(),
+  orderBy: z.enum(['asc', 'desc']).optional(),
+  fields: z.array(z.string()).optional(),
+  limit: z.number().min(1).optional(),
+  offset: z.number().min(0).optional(),
+});
+
+const ExplainOneRosterFilterSchema = z.object({
+  filter: z.string().min(1, 'Filter is required'),
+  schema: z.string().optional(),
+});
+
 const CrawlTimeBackDocumentationSchema = z.object({
   forceRefresh: z.boolean().optional().default(false),
   specificApis: z.array(z.string()).optional(),
@@ -101,6 +532,16 @@ const GetIntegrationPatternsSchema = z.object({
   useCase: z.string().optional(),
 });
 
+const DiffApiSpecVersionsSchema = z.object({
+  documentId: z.string().optional(),
+  api: z.string().optional(),
+  fromVersion: z.string().optional(),
+  toVersion: z.string().optional(),
+  breakingOnly: z.boolean().optional().default(false),
+}).refine(args => Boolean(args.documentId || args.api), {
+  message: 'Either documentId or api is required',
+});
+
 export class ValidationError extends Error {
   constructor(message: string, public details?: any) {
     super(message);
@@ -128,6 +569,31 @@ export class TimeBackMcpServer {
   private server: Server;
   private openApiParser: OpenAPIParser;
   private authService: AuthService;
+  private endpointExecutor: EndpointExecutor;
+  private operationToolGenerator: OperationToolGenerator;
+  private oneRosterPaginator: OneRosterPaginator;
+  private oneRosterCsvService: OneRosterCsvService;
+  private rosterReconciler: RosterReconciler;
+  private oneRosterQueryBuilder: OneRosterQueryBuilder;
+  private schemaValidator: SchemaValidator;
+  private exampleGenerator: ExampleGenerator;
+  private sdkGenerator: SdkGenerator;
+  private mappingEngine: MappingEngine;
+  private dataTransformer: DataTransformer;
+  private caliperEventBuilder: CaliperEventBuilder;
+  private caliperEventValidator: CaliperEventValidator;
+  private caliperSender: CaliperSender;
+  private qtiParser: QtiParser;
+  private qtiRenderer: QtiRenderer;
+  private qtiItemAuthor: QtiItemAuthor;
+  private qtiScoringEngine: QtiScoringEngine;
+  private caseNavigator: CaseNavigator;
+  private credentialVerifier: CredentialVerifier;
+  private credentialIssuer: CredentialIssuer;
+  private powerPathPlanner: PowerPathPlanner;
+  private studentProfileAggregator: StudentProfileAggregator;
+  private operationTools: Map<string, GeneratedOperationTool> = new Map();
+  private documentationStoreReady?: Promise<void>;
   private codebaseAnalyzer: CodebaseAnalyzer;
   private documentationCrawler: DocumentationCrawler;
   private documentationIndexer: DocumentationIndexer;
@@ -146,13 +612,38 @@ export class TimeBackMcpServer {
       {
         capabilities: {
           resources: {},
-          tools: {},
+          tools: {
+            listChanged: true,
+          },
         },
       }
     );
 
     this.openApiParser = new OpenAPIParser();
     this.authService = new AuthService();
+    this.schemaValidator = new SchemaValidator();
+    this.exampleGenerator = new ExampleGenerator();
+    this.sdkGenerator = new SdkGenerator(this.openApiParser);
+    this.mappingEngine = new MappingEngine();
+    this.dataTransformer = new DataTransformer();
+    this.caliperEventBuilder = new CaliperEventBuilder();
+    this.caliperEventValidator = new CaliperEventValidator();
+    this.qtiParser = new QtiParser();
+    this.qtiRenderer = new QtiRenderer();
+    this.qtiItemAuthor = new QtiItemAuthor(this.qtiParser);
+    this.qtiScoringEngine = new QtiScoringEngine();
+    this.caseNavigator = new CaseNavigator(this.authService);
+    this.credentialVerifier = new CredentialVerifier(this.schemaValidator);
+    this.credentialIssuer = new CredentialIssuer(this.credentialVerifier, config.credentialIssuer);
+    this.endpointExecutor = new EndpointExecutor(this.openApiParser, this.authService, this.schemaValidator);
+    this.powerPathPlanner = new PowerPathPlanner(this.openApiParser, this.endpointExecutor, this.schemaValidator);
+    this.oneRosterPaginator = new OneRosterPaginator(this.authService);
+    this.studentProfileAggregator = new StudentProfileAggregator(this.openApiParser, this.endpointExecutor, this.oneRosterPaginator, this.powerPathPlanner);
+    this.operationToolGenerator = new OperationToolGenerator();
+    this.oneRosterCsvService = new OneRosterCsvService(this.openApiParser, this.authService, this.schemaValidator);
+    this.rosterReconciler = new RosterReconciler(this.oneRosterCsvService, this.oneRosterPaginator);
+    this.caliperSender = new CaliperSender(this.authService, config.timeback.caliper, this.caliperEventBuilder, this.caliperEventValidator);
+    this.oneRosterQueryBuilder = new OneRosterQueryBuilder(this.openApiParser);
     this.codebaseAnalyzer = new CodebaseAnalyzer();
     this.documentationCrawler = new DocumentationCrawler();
     this.documentationIndexer = new DocumentationIndexer();
@@ -174,11 +665,12 @@ export class TimeBackMcpServer {
   }
 
   private validateConfiguration(): void {
-    const requiredEnvVars = [
-      'CLIENT_ID',
-      'CLIENT_SECRET',
-      'OAUTH2_TOKEN_URL'
-    ];
+    // Per-API or profile credentials can stand in for the global client
+    const hasScopedCredentials = [...Object.values(config.auth.apis), ...Object.values(config.auth.profiles)]
+      .some(credentials => credentials.clientId && credentials.clientSecret);
+    const requiredEnvVars = hasScopedCredentials
+      ? ['OAUTH2_TOKEN_URL']
+      : ['CLIENT_ID', 'CLIENT_SECRET', 'OAUTH2_TOKEN_URL'];
 
     const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
     
@@ -215,7 +707,26 @@ export class TimeBackMcpServer {
             description: 'Load all TimeBack OpenAPI specifications from local files',
             inputSchema: {
               type: 'object',
-              properties: {},
+              properties: {
+                generateOperationTools: {
+                  type: 'boolean',
+                  description: 'Register one generated tool per loaded operation (e.g. "oneroster.getAllUsers")',
+                  default: false,
+                },
+                toolApis: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case'],
+                  },
+                  description: 'Only generate operation tools for these APIs',
+                },
+                toolTags: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Only generate operation tools for operations with one of these tags',
+                },
+              },
             },
           },
           {
@@ -271,30 +782,30 @@ export class TimeBackMcpServer {
           },
           {
             name: 'compare-data-models',
-            description: 'Compare data models between different TimeBack APIs',
+            description: 'Recursively compare two data models and report per-path compatibility (identical, widening, narrowing or incompatible) for data moving from source to target',
             inputSchema: {
               type: 'object',
               properties: {
-                schema1: {
+                sourceSchema: {
                   type: 'string',
-                  description: 'First schema name to compare',
+                  description: 'Schema the data comes from',
                 },
-                api1: {
+                sourceApi: {
                   type: 'string',
-                  description: 'API containing first schema',
+                  description: 'API containing the source schema',
                   enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case'],
                 },
-                schema2: {
+                targetSchema: {
                   type: 'string',
-                  description: 'Second schema name to compare',
+                  description: 'Schema the data goes to',
                 },
-                api2: {
+                targetApi: {
                   type: 'string',
-                  description: 'API containing second schema',
+                  description: 'API containing the target schema',
                   enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case'],
                 },
               },
-              required: ['schema1', 'api1', 'schema2', 'api2'],
+              required: ['sourceSchema', 'sourceApi', 'targetSchema', 'targetApi'],
             },
           },
           {
@@ -317,733 +828,2830 @@ export class TimeBackMcpServer {
                   type: 'string',
                   description: 'Integration use case (e.g., "sync-student-data", "track-assessments")',
                 },
+                sourceSchema: {
+                  type: 'string',
+                  description: 'Only map this source schema (default: every source schema)',
+                },
+                targetSchema: {
+                  type: 'string',
+                  description: 'Only map onto this target schema (default: best-scoring target schema)',
+                },
+                maxMappings: {
+                  type: 'number',
+                  description: 'Maximum number of schema pairs to return (default: 5)',
+                },
+                minConfidence: {
+                  type: 'number',
+                  description: 'Minimum confidence (0-1) for a field pair to be suggested (default: 0.5)',
+                },
               },
               required: ['sourceApi', 'targetApi', 'useCase'],
             },
           },
           {
-            name: 'validate-api-integration',
-            description: 'Validate integration consistency between TimeBack APIs',
+            name: 'transform-data',
+            description: 'Apply a declarative transformation spec (renames, nested paths, value maps, coercion, defaults, concat/split, flattening, lookups) to JSON payloads and validate the result against the target schema',
             inputSchema: {
               type: 'object',
               properties: {
-                integrationConfig: {
+                spec: {
                   type: 'object',
-                  description: 'Integration configuration to validate',
+                  description: 'Transformation spec: { rules: [{ target, source?, value?, join?, split?, index?, flatten?, valueMap?, lookup?, type?, default?, required? }], lookups?, targetApi?, targetSchema? }. Paths are dotted; "roles[].role" walks every array element and "roles[0].role" picks one',
+                },
+                fieldMappings: {
+                  type: 'object',
+                  description: 'Plain source → target field renames, e.g. the fieldMappings from generate-integration-mapping (used when spec is omitted)',
+                  additionalProperties: { type: 'string' },
+                },
+                data: {
+                  description: 'JSON record, or array of records, to transform',
+                },
+                targetApi: {
+                  type: 'string',
+                  description: 'API of the schema to validate the output against (overrides spec.targetApi)',
+                  enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case'],
+                },
+                targetSchema: {
+                  type: 'string',
+                  description: 'Schema to validate the output against (overrides spec.targetSchema)',
                 },
               },
-              required: ['integrationConfig'],
+              required: ['data'],
             },
           },
           {
-            name: 'generate-api-documentation',
-            description: 'Generate comprehensive documentation for TimeBack APIs',
+            name: 'parse-qti-xml',
+            description: 'Parse a QTI 3.0 qti-assessment-item or qti-assessment-test XML document into a typed model and validate its structure (identifiers, response declarations, interaction types)',
             inputSchema: {
               type: 'object',
               properties: {
-                api: {
-                  type: 'string',
-                  description: 'API to generate documentation for',
-                  enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case', 'all'],
-                },
-                format: {
-                  type: 'string',
-                  description: 'Documentation format',
-                  enum: ['markdown', 'html', 'json'],
-                  default: 'markdown',
-                },
+                xml: { type: 'string', description: 'QTI 3.0 XML document' },
               },
-              required: ['api'],
+              required: ['xml'],
             },
           },
           {
-            name: 'analyze-codebase-for-timeback',
-            description: 'Analyze a codebase and provide TimeBack integration recommendations',
+            name: 'render-qti-item',
+            description: 'Render a QTI 3.0 assessment item as a plain-text or HTML preview',
             inputSchema: {
               type: 'object',
               properties: {
-                projectPath: {
-                  type: 'string',
-                  description: 'Absolute path to the project directory to analyze',
-                },
-                includeCodeExamples: {
-                  type: 'boolean',
-                  description: 'Whether to include code examples in recommendations',
-                  default: true,
-                },
-                focusAreas: {
-                  type: 'array',
-                  items: {
-                    type: 'string',
-                    enum: ['authentication', 'user-management', 'assessments', 'analytics', 'standards'],
-                  },
-                  description: 'Specific areas to focus analysis on',
-                },
+                xml: { type: 'string', description: 'QTI 3.0 qti-assessment-item XML' },
+                format: { type: 'string', enum: ['text', 'html'], description: 'Preview format (default: text)' },
+                showAnswers: { type: 'boolean', description: 'Mark the correct responses (default: false)' },
               },
-              required: ['projectPath'],
+              required: ['xml'],
             },
           },
           {
-            name: 'generate-integration-code',
-            description: 'Generate specific code snippets for TimeBack API integration',
+            name: 'generate-qti-item',
+            description: 'Generate valid QTI 3.0 item XML from a JSON description of a choice, text-entry or extended-text item',
             inputSchema: {
               type: 'object',
               properties: {
-                language: {
-                  type: 'string',
-                  description: 'Programming language for code generation',
-                  enum: ['javascript', 'typescript', 'python', 'java', 'csharp'],
-                },
-                framework: {
-                  type: 'string',
-                  description: 'Framework being used',
-                },
-                integrationPattern: {
-                  type: 'string',
-                  description: 'Type of integration pattern',
-                  enum: ['oauth-setup', 'data-sync', 'event-tracking', 'assessment-delivery', 'standards-alignment'],
+                item: {
+                  type: 'object',
+                  description: 'Item description: { identifier, title, type: "choice" | "text-entry" | "extended-text", prompt, stimulus?, language?, points?, choices?: [{ identifier?, text, correct?, fixed? }], shuffle?, maxChoices?, correctResponse?, alternatives?: { answer: score }, caseSensitive?, baseType?, expectedLength?, expectedLines? }. A ___ in a text-entry prompt marks where the blank goes',
                 },
-                apis: {
+                items: {
                   type: 'array',
-                  items: {
-                    type: 'string',
-                    enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case'],
-                  },
-                  description: 'TimeBack APIs to integrate with',
+                  description: 'Several item descriptions to convert at once',
+                  items: { type: 'object' },
                 },
               },
-              required: ['language', 'integrationPattern', 'apis'],
             },
           },
           {
-            name: 'detect-integration-opportunities',
-            description: 'Detect potential TimeBack integration opportunities in existing code',
+            name: 'score-qti-response',
+            description: 'Score candidate responses against a QTI 3.0 item locally by running its response processing (match_correct, map_response, map_response_point or custom rules), returning SCORE, MAXSCORE and the other outcome variables',
             inputSchema: {
               type: 'object',
               properties: {
-                projectPath: {
-                  type: 'string',
-                  description: 'Path to analyze for integration opportunities',
-                },
-                analysisDepth: {
-                  type: 'string',
-                  description: 'Depth of analysis to perform',
-                  enum: ['surface', 'deep', 'comprehensive'],
-                  default: 'deep',
+                xml: { type: 'string', description: 'QTI 3.0 qti-assessment-item XML' },
+                responses: {
+                  type: 'object',
+                  description: 'Candidate responses keyed by response identifier, e.g. { "RESPONSE": ["A", "C"] }. Points are "x y" strings. Defaults to the declared correct responses',
                 },
               },
-              required: ['projectPath'],
+              required: ['xml'],
             },
           },
           {
-            name: 'crawl-timeback-documentation',
-            description: 'Crawl and index TimeBack platform documentation from all APIs',
+            name: 'load-case-framework',
+            description: 'Load a CASE CFPackage (CFDocument, CFItems and CFAssociations) from the CASE API or a local JSON file so it can be browsed, searched and exported',
             inputSchema: {
               type: 'object',
               properties: {
-                forceRefresh: {
-                  type: 'boolean',
-                  description: 'Force refresh of all documentation even if already cached',
-                  default: false,
-                },
-                specificApis: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Crawl only specific APIs (QTI, OneRoster, Caliper, PowerPath, CASE, OpenBadge, CLR)',
-                },
+                documentId: { type: 'string', description: 'CFDocument identifier to fetch from the CASE API' },
+                path: { type: 'string', description: 'Path to a CFPackage JSON file, used instead of documentId' },
+                profile: { type: 'string', description: 'Named credential profile from AUTH_PROFILES (defaults to the CASE credentials)' },
               },
             },
           },
           {
-            name: 'search-comprehensive-docs',
-            description: 'Search across all crawled TimeBack documentation with advanced filtering',
+            name: 'browse-case-framework',
+            description: 'List the children or the parents of a CASE node, following isChildOf associations. Without a node, lists the top-level items of a framework',
             inputSchema: {
               type: 'object',
               properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search query to find relevant documentation',
-                },
-                apis: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Filter results to specific APIs',
-                },
-                types: {
-                  type: 'array',
-                  items: { 
-                    type: 'string',
-                    enum: ['endpoint', 'schema', 'code_example', 'concept']
-                  },
-                  description: 'Filter results to specific content types',
-                },
-                limit: {
-                  type: 'number',
-                  minimum: 1,
-                  maximum: 100,
-                  default: 20,
-                  description: 'Maximum number of results to return',
-                },
+                node: { type: 'string', description: 'CFItem or CFDocument identifier, URI or human coding scheme (e.g. "3.OA.A.1")' },
+                documentId: { type: 'string', description: 'Framework to look in (needed when a coding scheme exists in several loaded frameworks)' },
+                direction: { type: 'string', enum: ['children', 'parents'], description: 'Direction to browse (default: children)' },
               },
-              required: ['query'],
             },
           },
           {
-            name: 'get-api-examples',
-            description: 'Get real code examples from TimeBack documentation',
+            name: 'search-case-items',
+            description: 'Search loaded CASE items by human coding scheme or full statement',
             inputSchema: {
               type: 'object',
               properties: {
-                api: {
-                  type: 'string',
-                  description: 'Specific API to get examples for',
-                },
-                language: {
-                  type: 'string',
-                  description: 'Programming language for examples (javascript, python, curl, etc.)',
-                },
-                endpoint: {
-                  type: 'string',
-                  description: 'Specific endpoint to get examples for',
-                },
-                useCase: {
-                  type: 'string',
-                  description: 'Specific use case or functionality to find examples for',
-                },
+                query: { type: 'string', description: 'Coding scheme (e.g. "3.OA") or words from the statement' },
+                field: { type: 'string', enum: ['humanCodingScheme', 'fullStatement', 'any'], description: 'Field to match (default: any)' },
+                documentId: { type: 'string', description: 'Limit the search to one framework' },
+                itemType: { type: 'string', description: 'Only return items of this CFItemType, e.g. "Standard"' },
+                limit: { type: 'number', minimum: 1, description: 'Maximum results (default: 25)' },
               },
+              required: ['query'],
             },
           },
           {
-            name: 'compare-api-implementations',
-            description: 'Compare similar functionality across different TimeBack APIs',
+            name: 'get-case-associations',
+            description: 'List the associations (isChildOf, exactMatchOf, isRelatedTo, ...) that start or end at a CASE node, resolving the other end against every loaded framework',
             inputSchema: {
               type: 'object',
               properties: {
-                sourceApi: {
-                  type: 'string',
-                  description: 'Source API to compare from',
-                },
-                targetApi: {
-                  type: 'string',
-                  description: 'Target API to compare to',
-                },
-                functionality: {
-                  type: 'string',
-                  description: 'Specific functionality to compare (e.g., "user management", "authentication")',
-                },
+                node: { type: 'string', description: 'CFItem or CFDocument identifier, URI or human coding scheme (e.g. "3.OA.A.1")' },
+                documentId: { type: 'string' },
+                associationType: { type: 'string', description: 'Only return this association type, e.g. "exactMatchOf"' },
               },
-              required: ['sourceApi', 'targetApi', 'functionality'],
+              required: ['node'],
             },
           },
           {
-            name: 'get-integration-patterns',
-            description: 'Get integration patterns and workflows from TimeBack documentation',
+            name: 'export-case-subtree',
+            description: 'Export a CASE node and its descendants as a nested tree or as a CFPackage',
             inputSchema: {
               type: 'object',
               properties: {
-                apis: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'APIs to include in integration patterns',
-                },
-                difficulty: {
-                  type: 'string',
-                  enum: ['beginner', 'intermediate', 'advanced'],
-                  description: 'Filter patterns by difficulty level',
-                },
-                useCase: {
-                  type: 'string',
-                  description: 'Specific use case to find patterns for',
-                },
+                node: { type: 'string', description: 'CFItem or CFDocument identifier, URI or human coding scheme (e.g. "3.OA.A.1")' },
+                documentId: { type: 'string' },
+                depth: { type: 'number', minimum: 0, description: 'Levels below the node to include (default: all)' },
+                format: { type: 'string', enum: ['tree', 'package'], description: 'Output format (default: tree)' },
               },
+              required: ['node'],
             },
           },
           {
-            name: 'compose-integration-workflow',
-            description: 'Compose a workflow using TimeBack APIs and external MCP servers',
+            name: 'inspect-credential',
+            description: 'Summarize an Open Badges 3.0 OpenBadgeCredential or CLR 2.0 ClrCredential (JSON-LD or JWT-VC): issuer, subject, validity, achievements, proofs and nested credentials',
             inputSchema: {
               type: 'object',
               properties: {
-                name: {
-                  type: 'string',
-                  description: 'Name for the workflow',
+                credential: {
+                  oneOf: [{ type: 'object' }, { type: 'string' }],
+                  description: 'JSON-LD credential object, JSON text or compact JWT-VC',
                 },
-                description: {
-                  type: 'string',
-                  description: 'Description of what the workflow accomplishes',
+                path: { type: 'string', description: 'Local file holding the credential (instead of credential)' },
+              },
+            },
+          },
+          {
+            name: 'verify-credential',
+            description: 'Verify an Open Badges 3.0 or CLR 2.0 credential: JSON schema, @context, validity dates, achievement structure and embedded proofs (eddsa-jcs-2022 DataIntegrityProof or EdDSA/ES256/RS256 JWT-VC). Keys are resolved only from the supplied keys and DID documents, or from did:key identifiers',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                credential: {
+                  oneOf: [{ type: 'object' }, { type: 'string' }],
+                  description: 'JSON-LD credential object, JSON text or compact JWT-VC',
                 },
-                workflow: {
+                path: { type: 'string', description: 'Local file holding the credential (instead of credential)' },
+                keys: {
                   type: 'array',
+                  description: 'Public keys addressed by verification method id or JWT kid',
                   items: {
                     type: 'object',
                     properties: {
-                      id: { type: 'string', description: 'Unique identifier for this step' },
-                      server: { type: 'string', description: 'Target server (timeback or external server name)' },
-                      tool: { type: 'string', description: 'Tool name to call' },
-                      params: { type: 'object', description: 'Parameters for the tool' },
-                      dependsOn: { type: 'array', items: { type: 'string' }, description: 'Previous step IDs this depends on' }
+                      id: { type: 'string' },
+                      controller: { type: 'string' },
+                      publicKeyMultibase: { type: 'string' },
+                      publicKeyBase58: { type: 'string' },
+                      publicKeyJwk: { type: 'object' },
+                      publicKeyPem: { type: 'string' },
                     },
-                    required: ['id', 'server', 'tool', 'params']
+                    required: ['id'],
                   },
-                  description: 'Array of workflow steps to execute in order'
-                }
+                },
+                didDocuments: {
+                  type: 'array',
+                  description: 'DID documents whose verificationMethod or assertionMethod entries hold the issuer keys',
+                  items: { type: 'object' },
+                },
+                now: { type: 'string', description: 'ISO 8601 date-time to check validity against (default: now)' },
               },
-              required: ['name', 'workflow']
             },
           },
-        ],
-      };
-    });
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-        switch (name) {
-          case 'load-timeback-specs':
-            return await this.loadTimeBackSpecs();
-
-          case 'analyze-api-endpoints':
-            return await this.analyzeApiEndpoints(args);
-
-          case 'search-api-documentation':
-            return await this.searchApiDocumentation(args);
-
-          case 'compare-data-models':
-            return await this.compareDataModels(args);
-
-          case 'generate-integration-mapping':
-            return await this.generateIntegrationMapping(args);
-
-          case 'validate-api-integration':
-            return await this.validateApiIntegration(args);
-
-          case 'generate-api-documentation':
-            return await this.generateApiDocumentation(args);
-
-          case 'analyze-codebase-for-timeback':
-            return await this.analyzeCodebaseForTimeBack(args);
-
-          case 'generate-integration-code':
-            return await this.generateIntegrationCode(args);
-
-          case 'detect-integration-opportunities':
-            return await this.detectIntegrationOpportunities(args);
-
-          case 'crawl-timeback-documentation':
-            return await this.crawlTimeBackDocumentation(args);
-
-          case 'search-comprehensive-docs':
-            return await this.searchComprehensiveDocs(args);
-
-          case 'get-api-examples':
-            return await this.getApiExamples(args);
-
-          case 'compare-api-implementations':
-            return await this.compareApiImplementations(args);
-
-          case 'get-integration-patterns':
-            return await this.getIntegrationPatterns(args);
-
-          case 'compose-integration-workflow':
-            return await this.composeIntegrationWorkflow(args);
-
-          case 'connect-mcp-server':
-            return await this.connectMcpServer(args);
-
-          case 'get-integration-status':
-            return await this.getIntegrationStatus();
-
-          case 'get-integration-health':
-            return await this.getIntegrationHealth();
-
-          default:
-            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-        }
-      } catch (error) {
-        logger.error(`Tool ${name} failed:`, error);
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
-    });
-  }
-
-  private setupResourceHandlers(): void {
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
-      return {
-        resources: [
-          {
-            uri: 'timeback://apis/overview',
-            name: 'TimeBack APIs Overview',
-            description: 'Overview of all TimeBack APIs and their capabilities',
-            mimeType: 'application/json',
-          },
           {
-            uri: 'timeback://schemas/all',
-            name: 'All Data Schemas',
-            description: 'Complete list of data schemas across all TimeBack APIs',
-            mimeType: 'application/json',
+            name: 'get-powerpath-course',
+            description: 'Read a course syllabus (units, sub-components and lessons with prerequisites) through the PowerPath API and summarize it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                courseId: { type: 'string', description: 'Course sourcedId' },
+                syllabus: { type: 'object', description: 'Syllabus response to use instead of calling the API' },
+                profile: { type: 'string', description: 'Named credential profile' },
+              },
+              required: ['courseId'],
+            },
           },
           {
-            uri: 'timeback://endpoints/all',
-            name: 'All API Endpoints',
-            description: 'Complete list of endpoints across all TimeBack APIs',
-            mimeType: 'application/json',
+            name: 'plan-powerpath-path',
+            description: "Compute a student's placement, next lesson and remaining mastery path from the PowerPath syllabus and course progress",
+            inputSchema: {
+              type: 'object',
+              properties: {
+                courseId: { type: 'string', description: 'Course sourcedId' },
+                studentId: { type: 'string', description: 'Student sourcedId' },
+                syllabus: { type: 'object', description: 'Syllabus response to use instead of calling the API' },
+                progress: { type: 'object', description: 'Course progress response ({ lineItems }) to use instead of calling the API' },
+                masteryThreshold: { type: 'number', description: 'Minimum fully graded score that counts as mastered (default: 80)' },
+                lessonsPerWeek: { type: 'number', description: 'Pace used to project a completion date' },
+                startDate: { type: 'string', description: 'Date to plan from (default: today)' },
+                profile: { type: 'string', description: 'Named credential profile' },
+              },
+              required: ['courseId', 'studentId'],
+            },
           },
           {
-            uri: 'timeback://integration/templates',
-            name: 'Integration Templates',
-            description: 'Templates for common TimeBack API integrations',
-            mimeType: 'application/json',
+            name: 'simulate-powerpath-path',
+            description: 'What-if simulation: apply path changes (master, skip, reset, remove, add, move, prerequisites, pace) and compare remaining lessons, next lesson, locks and completion date with the current plan',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                courseId: { type: 'string', description: 'Course sourcedId' },
+                studentId: { type: 'string', description: 'Student sourcedId' },
+                changes: {
+                  type: 'array',
+                  description: 'Changes applied in order, e.g. { type: "skip", id: "cr-1-3" }, { type: "move", id, componentId, position }, { type: "pace", lessonsPerWeek: 5 }',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', enum: ['master', 'skip', 'reset', 'remove', 'add', 'move', 'prerequisites', 'pace'] },
+                      id: { type: 'string', description: 'Lesson (componentResource) or component sourcedId' },
+                      componentId: { type: 'string' },
+                      lesson: { type: 'object', description: 'For add: { id, title, xp }' },
+                      position: { type: 'number' },
+                      prerequisites: { type: 'array', items: { type: 'string' } },
+                      criteria: { type: 'string', enum: ['ALL', 'ANY'] },
+                      lessonsPerWeek: { type: 'number' },
+                    },
+                    required: ['type'],
+                  },
+                },
+                syllabus: { type: 'object', description: 'Syllabus response to use instead of calling the API' },
+                progress: { type: 'object', description: 'Course progress response to use instead of calling the API' },
+                masteryThreshold: { type: 'number', description: 'Minimum fully graded score that counts as mastered (default: 80)' },
+                lessonsPerWeek: { type: 'number', description: 'Baseline pace used to project completion dates' },
+                startDate: { type: 'string', description: 'Date to plan from (default: today)' },
+                profile: { type: 'string', description: 'Named credential profile' },
+              },
+              required: ['courseId', 'studentId', 'changes'],
+            },
           },
           {
-            uri: 'timeback://integration/patterns',
-            name: 'MCP Integration Patterns',
-            description: 'Available MCP server integration patterns and configurations',
-            mimeType: 'application/json',
+            name: 'get-student-profile',
+            description: 'Build one profile for a student across OneRoster (user, demographics, enrollments, classes), QTI (assessment results), Caliper (recent events) and PowerPath (course progress), with per-source provenance and failures',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sourcedId: { type: 'string', description: 'Student sourcedId' },
+                include: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['demographics', 'enrollments', 'results', 'events', 'progress'] },
+                  description: 'Sections to fetch besides the OneRoster user (default: all)',
+                },
+                eventLimit: { type: 'number', description: 'Most recent Caliper events to keep (default: 20)' },
+                masteryThreshold: { type: 'number', description: 'PowerPath mastery score (default: 80)' },
+                profile: { type: 'string', description: 'Named credential profile' },
+              },
+              required: ['sourcedId'],
+            },
           },
           {
-            uri: 'timeback://integration/servers',
-            name: 'Connected MCP Servers',
-            description: 'List of connected downstream MCP servers and their capabilities',
-            mimeType: 'application/json',
+            name: 'issue-badge-credential',
+            description: 'Build an Open Badges 3.0 OpenBadgeCredential from an Achievement and a recipient, validate it against the schema and sign it with the configured issuer key (CREDENTIAL_SIGNING_KEY_PATH)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                achievement: {
+                  type: 'object',
+                  description: 'Achievement definition: id, name, description, criteria (narrative string or { id, narrative }) and optional achievementType, alignment, resultDescription, image',
+                },
+                recipient: {
+                  oneOf: [{ type: 'string' }, { type: 'object' }],
+                  description: 'A URI such as a DID, an email address (hashed), or { id } / { identifier, identityType, hashed, salt }',
+                },
+                results: { type: 'array', items: { type: 'object' }, description: 'Result entries, e.g. { resultDescription, value }' },
+                encoding: { type: 'string', enum: ['data-integrity', 'jwt'], description: 'eddsa-jcs-2022 DataIntegrityProof or a JWT-VC (default: data-integrity)' },
+                id: { type: 'string', description: 'Credential id (default: a new urn:uuid)' },
+                name: { type: 'string', description: 'Credential name (default: the achievement name)' },
+                description: { type: 'string' },
+                validFrom: { type: 'string', description: 'ISO 8601 date-time (default: now)' },
+                validUntil: { type: 'string', description: 'ISO 8601 date-time' },
+                outputPath: { type: 'string', description: 'Also write the credential to this file' },
+              },
+              required: ['achievement', 'recipient'],
+            },
           },
           {
-            uri: 'timeback://documentation/indexed',
-            name: 'Indexed Documentation',
-            description: 'All indexed TimeBack API documentation and examples',
-            mimeType: 'application/json',
+            name: 'issue-clr-credential',
+            description: 'Issue one OpenBadgeCredential per achievement and bundle them, with any earlier credentials, into a signed CLR 2.0 ClrCredential',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', description: 'CLR name, e.g. "Grade 3 Math Record"' },
+                recipient: {
+                  oneOf: [{ type: 'string' }, { type: 'object' }],
+                  description: 'A URI such as a DID, an email address (hashed), or { id } / { identifier, identityType, hashed, salt }',
+                },
+                achievements: { type: 'array', items: { type: 'object' }, description: 'Achievement definitions to issue and bundle' },
+                credentials: {
+                  type: 'array',
+                  items: { oneOf: [{ type: 'object' }, { type: 'string' }] },
+                  description: 'Already issued credentials (JSON-LD or JWT-VC) to include as they are',
+                },
+                associations: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      associationType: { type: 'string', enum: ['exactMatchOf', 'isChildOf', 'isParentOf', 'isPartOf', 'isPeerOf', 'isRelatedTo', 'precedes', 'replacedBy'] },
+                      sourceId: { type: 'string' },
+                      targetId: { type: 'string' },
+                    },
+                    required: ['associationType', 'sourceId', 'targetId'],
+                  },
+                },
+                encoding: { type: 'string', enum: ['data-integrity', 'jwt'], description: 'Encoding for the CLR and the badges it issues (default: data-integrity)' },
+                id: { type: 'string' },
+                description: { type: 'string' },
+                validFrom: { type: 'string' },
+                validUntil: { type: 'string' },
+                outputPath: { type: 'string', description: 'Also write the CLR to this file' },
+              },
+              required: ['name', 'recipient'],
+            },
           },
           {
-            uri: 'timeback://integration/patterns',
-            name: 'TimeBack Integration Patterns',
-            description: 'Available integration patterns and best practices',
-            mimeType: 'application/json',
+            name: 'build-caliper-event',
+            description: 'Build a Caliper 1.2 AssessmentEvent, AssessmentItemEvent, GradeEvent, SessionEvent or NavigationEvent from simple inputs and validate it against its profile',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                eventType: {
+                  type: 'string',
+                  enum: ['AssessmentEvent', 'AssessmentItemEvent', 'GradeEvent', 'SessionEvent', 'NavigationEvent'],
+                },
+                action: {
+                  type: 'string',
+                  description: 'AssessmentEvent: Started, Paused, Resumed, Restarted, Reset, Submitted. AssessmentItemEvent: Started, Skipped, Completed. SessionEvent: LoggedIn, LoggedOut, TimedOut. Implied for GradeEvent (Graded) and NavigationEvent (NavigatedTo)',
+                },
+                actorId: { type: 'string', description: 'IRI of the learner, or of the grading application for GradeEvent' },
+                actorType: { type: 'string', enum: ['Person', 'SoftwareApplication'] },
+                actorName: { type: 'string' },
+                edAppId: { type: 'string', description: 'IRI of the application (required for SessionEvent)' },
+                sessionId: { type: 'string' },
+                groupId: { type: 'string', description: 'IRI of the course section' },
+                eventTime: { type: 'string', description: 'ISO 8601 date-time (default: now)' },
+                extensions: { type: 'object' },
+                assessmentId: { type: 'string' },
+                assessmentName: { type: 'string' },
+                attemptId: { type: 'string' },
+                attemptCount: { type: 'number' },
+                itemId: { type: 'string', description: 'Assessment item IRI (AssessmentItemEvent)' },
+                itemName: { type: 'string' },
+                response: { description: 'Learner response for a Completed AssessmentItemEvent' },
+                learnerId: { type: 'string', description: 'IRI of the graded learner (GradeEvent)' },
+                scoreGiven: { type: 'number' },
+                maxScore: { type: 'number' },
+                comment: { type: 'string' },
+                objectId: { type: 'string', description: 'IRI of the resource navigated to (NavigationEvent)' },
+                objectType: { type: 'string', description: 'Caliper type of the resource (default: DigitalResource)' },
+                objectName: { type: 'string' },
+                referrerId: { type: 'string' },
+                envelope: { type: 'boolean', description: 'Also wrap the event in an Envelope (default: false)' },
+              },
+              required: ['eventType', 'actorId'],
+            },
           },
           {
-            uri: 'timeback://integration/servers',
-            name: 'Connected MCP Servers',
-            description: 'List of connected downstream MCP servers and their capabilities',
-            mimeType: 'application/json',
+            name: 'send-caliper-events',
+            description: 'Validate Caliper events and send them to the TimeBack Caliper endpoint in batched envelopes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                events: {
+                  type: 'array',
+                  description: 'Caliper 1.2 events, e.g. from build-caliper-event',
+                  items: { type: 'object' },
+                },
+                sensorId: { type: 'string', description: 'Sensor IRI for the envelopes (default: CALIPER_SENSOR_ID)' },
+                batchSize: { type: 'number', description: 'Events per envelope (default: CALIPER_BATCH_SIZE)' },
+                profile: { type: 'string', description: 'Named credential profile from AUTH_PROFILES' },
+                dryRun: { type: 'boolean', description: 'Validate and return the envelope without sending (default: false)' },
+              },
+              required: ['events'],
+            },
           },
           {
-            uri: 'timeback://documentation/indexed',
-            name: 'Indexed Documentation',
-            description: 'Searchable TimeBack API documentation and examples',
-            mimeType: 'application/json',
-          },
-        ],
-      };
-    });
-
+            name: 'validate-api-integration',
+            description: 'Validate integration consistency between TimeBack APIs',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                integrationConfig: {
+                  type: 'object',
+                  description: 'Integration configuration to validate',
+                },
+              },
+              required: ['integrationConfig'],
+            },
+          },
+          {
+            name: 'generate-api-documentation',
+            description: 'Generate comprehensive documentation for TimeBack APIs',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                api: {
+                  type: 'string',
+                  description: 'API to generate documentation for',
+                  enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case', 'all'],
+                },
+                format: {
+                  type: 'string',
+                  description: 'Documentation format',
+                  enum: ['markdown', 'html', 'json'],
+                  default: 'markdown',
+                },
+              },
+              required: ['api'],
+            },
+          },
+          {
+            name: 'call-timeback-endpoint',
+            description: 'Execute any operation from the loaded TimeBack OpenAPI specifications with authenticated requests',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                api: {
+                  type: 'string',
+                  description: 'API containing the operation',
+                  enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case'],
+                },
+                operationId: {
+                  type: 'string',
+                  description: 'operationId of the endpoint to call (see analyze-api-endpoints)',
+                },
+                method: {
+                  type: 'string',
+                  description: 'HTTP method, used with path when no operationId is given',
+                  enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+                },
+                path: {
+                  type: 'string',
+                  description: 'Path template as declared in the spec (e.g. "/users/{sourcedId}")',
+                },
+                pathParams: {
+                  type: 'object',
+                  description: 'Values for path template parameters',
+                },
+                query: {
+                  type: 'object',
+                  description: 'Query string parameters',
+                },
+                headers: {
+                  type: 'object',
+                  description: 'Additional request headers',
+                },
+                body: {
+                  description: 'Request body for POST, PUT and PATCH operations',
+                },
+                profile: {
+                  type: 'string',
+                  description: 'Named credential profile from AUTH_PROFILES (defaults to the credentials configured for the API)',
+                },
+                validationMode: {
+                  type: 'string',
+                  enum: ['off', 'warn', 'strict'],
+                  description: `Schema validation for this call: strict blocks invalid requests, warn only reports (default ${config.validation.mode})`,
+                },
+              },
+              required: ['api'],
+            },
+          },
+          {
+            name: 'validate-timeback-payload',
+            description: 'Validate a request or response payload against the loaded OpenAPI schema of an operation without calling the API',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                api: {
+                  type: 'string',
+                  enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case'],
+                  description: 'API that defines the operation',
+                },
+                operationId: {
+                  type: 'string',
+                  description: 'operationId of the operation (alternatively provide method and path)',
+                },
+                method: {
+                  type: 'string',
+                  enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+                  description: 'HTTP method, used with path when operationId is not given',
+                },
+                path: {
+                  type: 'string',
+                  description: 'Path template as written in the spec',
+                },
+                direction: {
+                  type: 'string',
+                  enum: ['request', 'response'],
+                  description: 'Whether to validate request arguments or a response body',
+                  default: 'request',
+                },
+                pathParams: {
+                  type: 'object',
+                  description: 'Path parameters (request validation)',
+                },
+                query: {
+                  type: 'object',
+                  description: 'Query parameters (request validation)',
+                },
+                headers: {
+                  type: 'object',
+                  description: 'Request headers (request validation)',
+                },
+                body: {
+                  description: 'Request or response body to validate',
+                },
+                status: {
+                  type: 'number',
+                  description: 'Response status code used to pick the response schema',
+                  default: 200,
+                },
+              },
+              required: ['api'],
+            },
+          },
+          {
+            name: 'generate-example-payload',
+            description: 'Generate a realistic, schema-valid example for a component schema or for the request body or response of an operation',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                api: {
+                  type: 'string',
+                  enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case'],
+                  description: 'API that defines the schema or operation',
+                },
+                schemaName: {
+                  type: 'string',
+                  description: 'Component schema name (e.g. "User"); alternatively select an operation',
+                },
+                operationId: {
+                  type: 'string',
+                  description: 'operationId of the operation (alternatively provide method and path)',
+                },
+                method: {
+                  type: 'string',
+                  enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+                  description: 'HTTP method, used with path when operationId is not given',
+                },
+                path: {
+                  type: 'string',
+                  description: 'Path template as written in the spec',
+                },
+                target: {
+                  type: 'string',
+                  enum: ['request', 'response'],
+                  description: 'For operations, whether to generate the request body or a response body',
+                  default: 'request',
+                },
+                status: {
+                  type: 'number',
+                  description: 'Response status to generate (defaults to the first documented 2xx)',
+                },
+                seed: {
+                  type: 'number',
+                  description: 'Seed for the generator; the same seed always yields the same example',
+                  default: 1,
+                },
+                includeOptional: {
+                  type: 'boolean',
+                  description: 'Include optional properties as well as required ones',
+                  default: true,
+                },
+              },
+              required: ['api'],
+            },
+          },
+          {
+            name: 'fetch-oneroster-collection',
+            description: 'Fetch every page of a OneRoster collection endpoint (users, classes, enrollments, ...) using limit/offset pagination',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                path: {
+                  type: 'string',
+                  description: 'Collection path relative to the OneRoster base URL (e.g. "/ims/oneroster/rostering/v1p2/users")',
+                },
+                operationId: {
+                  type: 'string',
+                  description: 'operationId of a loaded OneRoster collection endpoint, used instead of path',
+                },
+                query: {
+                  type: 'object',
+                  description: 'Additional query parameters such as filter, sort, orderBy or fields',
+                },
+                pageSize: {
+                  type: 'number',
+                  minimum: 1,
+                  description: `Records requested per page (default ${config.timeback.oneroster.pageSize})`,
+                },
+                maxRecords: {
+                  type: 'number',
+                  minimum: 1,
+                  description: `Stop after this many records (capped at ${config.timeback.oneroster.maxRecords})`,
+                },
+                collectionKey: {
+                  type: 'string',
+                  description: 'Response property holding the records (detected automatically when omitted)',
+                },
+                profile: {
+                  type: 'string',
+                  description: 'Named credential profile from AUTH_PROFILES (defaults to the OneRoster credentials)',
+                },
+              },
+            },
+          },
+          {
+            name: 'import-oneroster-csv',
+            description: 'Parse and validate a OneRoster 1.2 CSV bundle (manifest, headers, enum values, sourcedId references), convert it to REST JSON checked against the loaded OneRoster schemas, and optionally push delta files to the API',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                path: { type: 'string', description: 'Path to a zip bundle or a directory of CSV files' },
+                files: { type: 'object', description: 'CSV contents keyed by file name, e.g. { "manifest.csv": "...", "orgs.csv": "..." }, used instead of path' },
+                includeRecords: { type: 'boolean', description: 'Return the converted REST records (default: false)' },
+                push: { type: 'boolean', description: 'PUT active and DELETE tobedeleted records of delta files (default: false). Skipped when the bundle has errors' },
+                includeBulk: { type: 'boolean', description: 'Also push the records of bulk files (default: false)' },
+                dryRun: { type: 'boolean', description: 'List the calls a push would make without sending them (default: false)' },
+                profile: { type: 'string', description: 'Named credential profile from AUTH_PROFILES (defaults to the OneRoster credentials)' },
+              },
+            },
+          },
+          {
+            name: 'export-oneroster-csv',
+            description: 'Convert OneRoster REST records back to a OneRoster 1.2 CSV bundle with manifest.csv',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                data: {
+                  type: 'object',
+                  description: 'REST records keyed by collection: academicSessions, orgs, courses, classes, users (with roles) and enrollments',
+                },
+                mode: { type: 'string', enum: ['bulk', 'delta'], description: 'Manifest mode for the exported files (default: bulk, which leaves status and dateLastModified blank)' },
+                outputPath: { type: 'string', description: 'Write a .zip archive or a directory of CSV files instead of returning the contents' },
+              },
+              required: ['data'],
+            },
+          },
+          {
+            name: 'reconcile-oneroster-rosters',
+            description: 'Compare two roster snapshots (OneRoster CSV, live OneRoster pull or JSON export) by sourcedId: added, removed and changed users, classes and enrollments with field-level diffs, orphaned enrollments, duplicate identities, and the PUT/DELETE calls that make the target match the source',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                source: {
+                  type: 'object',
+                  description: 'Snapshot of the system of record: { type: "csv", path | files }, { type: "api", profile, baseUrl } or { type: "json", path | data }, each with an optional label. An api baseUrl other than the configured OneRoster base URL needs a profile',
+                },
+                target: { type: 'object', description: 'Snapshot to converge, in the same form as source' },
+                collections: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['academicSessions', 'orgs', 'courses', 'classes', 'users', 'enrollments'] },
+                  description: 'Collections to compare (default: users, classes, enrollments)',
+                },
+                ignoreFields: { type: 'array', items: { type: 'string' }, description: 'Fields left out of the comparison, e.g. ["password", "metadata"]' },
+                push: { type: 'boolean', description: 'Send the planned calls to the OneRoster API (default: false, only list them). Skipped when the source snapshot has issues' },
+                profile: { type: 'string', description: 'Named credential profile used when pushing (default: the profile of an api target)' },
+              },
+              required: ['source', 'target'],
+            },
+          },
+          {
+            name: 'build-oneroster-query',
+            description: 'Build OneRoster filter, sort, orderBy and fields query parameters from structured predicates, validating field names against the loaded schema',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                schema: {
+                  type: 'string',
+                  description: 'OneRoster schema used to validate field names (e.g. "User", "Class")',
+                },
+                filter: {
+                  description: 'Array of predicates joined with AND, or { logic: "AND" | "OR", predicates: [...] }',
+                  oneOf: [
+                    { type: 'array', items: { $ref: '#/$defs/predicate' } },
+                    {
+                      type: 'object',
+                      properties: {
+                        logic: { type: 'string', enum: ['AND', 'OR'] },
+                        predicates: { type: 'array', items: { $ref: '#/$defs/predicate' } },
+                      },
+                      required: ['predicates'],
+                    },
+                  ],
+                },
+                sort: {
+                  type: 'string',
+                  description: 'Field to sort by',
+                },
+                orderBy: {
+                  type: 'string',
+                  enum: ['asc', 'desc'],
+                  description: 'Sort direction',
+                },
+                fields: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Fields to include in the response',
+                },
+                limit: {
+                  type: 'number',
+                  minimum: 1,
+                  description: 'Maximum records per page',
+                },
+                offset: {
+                  type: 'number',
+                  minimum: 0,
+                  description: 'Number of records to skip',
+                },
+              },
+              $defs: {
+                predicate: {
+                  type: 'object',
+                  properties: {
+                    field: { type: 'string', description: 'Field name; dotted paths reach nested fields (e.g. "roles.role")' },
+                    operator: { type: 'string', enum: ['=', '!=', '>', '>=', '<', '<=', '~'] },
+                    value: { type: ['string', 'number', 'boolean'] },
+                  },
+                  required: ['field', 'operator', 'value'],
+                },
+              },
+            },
+          },
+          {
+            name: 'explain-oneroster-filter',
+            description: 'Parse an existing OneRoster filter expression and explain it in plain language',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filter: {
+                  type: 'string',
+                  description: "OneRoster filter expression (e.g. \"role='student' AND status='active'\")",
+                },
+                schema: {
+                  type: 'string',
+                  description: 'OneRoster schema used to validate field names (e.g. "User")',
+                },
+              },
+              required: ['filter'],
+            },
+          },
+          {
+            name: 'analyze-codebase-for-timeback',
+            description: 'Analyze a codebase and provide TimeBack integration recommendations',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                projectPath: {
+                  type: 'string',
+                  description: 'Absolute path to the project directory to analyze',
+                },
+                includeCodeExamples: {
+                  type: 'boolean',
+                  description: 'Whether to include code examples in recommendations',
+                  default: true,
+                },
+                focusAreas: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    enum: ['authentication', 'user-management', 'assessments', 'analytics', 'standards'],
+                  },
+                  description: 'Specific areas to focus analysis on',
+                },
+              },
+              required: ['projectPath'],
+            },
+          },
+          {
+            name: 'generate-integration-code',
+            description: 'Generate specific code snippets for TimeBack API integration',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  description: 'Programming language for code generation',
+                  enum: ['javascript', 'typescript', 'python', 'java', 'csharp'],
+                },
+                framework: {
+                  type: 'string',
+                  description: 'Framework being used',
+                },
+                integrationPattern: {
+                  type: 'string',
+                  description: 'Type of integration pattern',
+                  enum: ['oauth-setup', 'data-sync', 'event-tracking', 'assessment-delivery', 'standards-alignment'],
+                },
+                apis: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case'],
+                  },
+                  description: 'TimeBack APIs to integrate with',
+                },
+              },
+              required: ['language', 'integrationPattern', 'apis'],
+            },
+          },
+          {
+            name: 'generate-sdk',
+            description: 'Generate a typed client SDK from a loaded TimeBack OpenAPI specification, returned as files or written to a directory',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                api: {
+                  type: 'string',
+                  enum: ['qti', 'oneroster', 'caliper', 'powerpath', 'case'],
+                  description: 'API whose loaded specification drives the client',
+                },
+                language: {
+                  type: 'string',
+                  enum: ['typescript', 'python', 'java', 'csharp'],
+                  description: 'Target language',
+                  default: 'typescript',
+                },
+                outputDir: {
+                  type: 'string',
+                  description: 'Directory to write the files to; when omitted the file contents are returned',
+                },
+                clientName: {
+                  type: 'string',
+                  description: 'Name of the generated client class (defaults to e.g. "OneRosterClient")',
+                },
+                packageName: {
+                  type: 'string',
+                  description: 'npm package, Python module, Java package or .NET namespace (defaults per language)',
+                },
+              },
+              required: ['api'],
+            },
+          },
+          {
+            name: 'detect-integration-opportunities',
+            description: 'Detect potential TimeBack integration opportunities in existing code',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                projectPath: {
+                  type: 'string',
+                  description: 'Path to analyze for integration opportunities',
+                },
+                analysisDepth: {
+                  type: 'string',
+                  description: 'Depth of analysis to perform',
+                  enum: ['surface', 'deep', 'comprehensive'],
+                  default: 'deep',
+                },
+              },
+              required: ['projectPath'],
+            },
+          },
+          {
+            name: 'crawl-timeback-documentation',
+            description: 'Crawl and index TimeBack platform documentation from all APIs',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                forceRefresh: {
+                  type: 'boolean',
+                  description: 'Force refresh of all documentation even if already cached',
+                  default: false,
+                },
+                specificApis: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Crawl only specific APIs (QTI, OneRoster, Caliper, PowerPath, CASE, OpenBadge, CLR)',
+                },
+              },
+            },
+          },
+          {
+            name: 'search-comprehensive-docs',
+            description: 'Search across all crawled TimeBack documentation with advanced filtering',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'Search query to find relevant documentation',
+                },
+                apis: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Filter results to specific APIs',
+                },
+                types: {
+                  type: 'array',
+                  items: { 
+                    type: 'string',
+                    enum: ['endpoint', 'schema', 'code_example', 'concept']
+                  },
+                  description: 'Filter results to specific content types',
+                },
+                limit: {
+                  type: 'number',
+                  minimum: 1,
+                  maximum: 100,
+                  default: 20,
+                  description: 'Maximum number of results to return',
+                },
+              },
+              required: ['query'],
+            },
+          },
+          {
+            name: 'get-api-examples',
+            description: 'Get real code examples from TimeBack documentation',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                api: {
+                  type: 'string',
+                  description: 'Specific API to get examples for',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Programming language for examples (javascript, python, curl, etc.)',
+                },
+                endpoint: {
+                  type: 'string',
+                  description: 'Specific endpoint to get examples for',
+                },
+                useCase: {
+                  type: 'string',
+                  description: 'Specific use case or functionality to find examples for',
+                },
+              },
+            },
+          },
+          {
+            name: 'compare-api-implementations',
+            description: 'Compare similar functionality across different TimeBack APIs',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sourceApi: {
+                  type: 'string',
+                  description: 'Source API to compare from',
+                },
+                targetApi: {
+                  type: 'string',
+                  description: 'Target API to compare to',
+                },
+                functionality: {
+                  type: 'string',
+                  description: 'Specific functionality to compare (e.g., "user management", "authentication")',
+                },
+              },
+              required: ['sourceApi', 'targetApi', 'functionality'],
+            },
+          },
+          {
+            name: 'get-integration-patterns',
+            description: 'Get integration patterns and workflows from TimeBack documentation',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                apis: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'APIs to include in integration patterns',
+                },
+                difficulty: {
+                  type: 'string',
+                  enum: ['beginner', 'intermediate', 'advanced'],
+                  description: 'Filter patterns by difficulty level',
+                },
+                useCase: {
+                  type: 'string',
+                  description: 'Specific use case to find patterns for',
+                },
+              },
+            },
+          },
+          {
+            name: 'diff-api-spec-versions',
+            description: 'Compare two stored versions of a crawled API specification and classify each change as breaking or non-breaking',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                documentId: {
+                  type: 'string',
+                  description: 'Stored document ID of the specification',
+                },
+                api: {
+                  type: 'string',
+                  description: 'API whose stored specification to compare, used when documentId is not given',
+                },
+                fromVersion: {
+                  type: 'string',
+                  description: 'Older version to compare (defaults to the most recent stored version)',
+                },
+                toVersion: {
+                  type: 'string',
+                  description: 'Newer version to compare (defaults to the current document)',
+                },
+                breakingOnly: {
+                  type: 'boolean',
+                  description: 'Only list breaking changes',
+                  default: false,
+                },
+              },
+            },
+          },
+          {
+            name: 'compose-integration-workflow',
+            description: 'Compose a workflow using TimeBack APIs and external MCP servers',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Name for the workflow',
+                },
+                description: {
+                  type: 'string',
+                  description: 'Description of what the workflow accomplishes',
+                },
+                workflow: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string', description: 'Unique identifier for this step' },
+                      server: { type: 'string', description: 'Target server (timeback or external server name)' },
+                      tool: { type: 'string', description: 'Tool name to call' },
+                      params: { type: 'object', description: 'Parameters for the tool' },
+                      dependsOn: { type: 'array', items: { type: 'string' }, description: 'Previous step IDs this depends on' }
+                    },
+                    required: ['id', 'server', 'tool', 'params']
+                  },
+                  description: 'Array of workflow steps to execute in order'
+                }
+              },
+              required: ['name', 'workflow']
+            },
+          },
+          ...Array.from(this.operationTools.values()).map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: tool.inputSchema,
+          })),
+        ],
+      };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+
+      try {
+        switch (name) {
+          case 'load-timeback-specs':
+            return await this.loadTimeBackSpecs(args);
+
+          case 'analyze-api-endpoints':
+            return await this.analyzeApiEndpoints(args);
+
+          case 'search-api-documentation':
+            return await this.searchApiDocumentation(args);
+
+          case 'compare-data-models':
+            return await this.compareDataModels(args);
+
+          case 'generate-integration-mapping':
+            return await this.generateIntegrationMapping(args);
+
+          case 'transform-data':
+            return await this.transformData(args);
+
+          case 'parse-qti-xml':
+            return await this.parseQtiXml(args);
+
+          case 'render-qti-item':
+            return await this.renderQtiItem(args);
+
+          case 'generate-qti-item':
+            return await this.generateQtiItem(args);
+
+          case 'score-qti-response':
+            return await this.scoreQtiResponse(args);
+
+          case 'load-case-framework':
+            return await this.loadCaseFramework(args);
+
+          case 'browse-case-framework':
+            return await this.browseCaseFramework(args);
+
+          case 'search-case-items':
+            return await this.searchCaseItems(args);
+
+          case 'get-case-associations':
+            return await this.getCaseAssociations(args);
+
+          case 'export-case-subtree':
+            return await this.exportCaseSubtree(args);
+
+          case 'inspect-credential':
+            return await this.inspectCredential(args);
+
+          case 'verify-credential':
+            return await this.verifyCredential(args);
+
+          case 'get-powerpath-course':
+            return await this.getPowerPathCourse(args);
+
+          case 'plan-powerpath-path':
+            return await this.planPowerPathPath(args);
+
+          case 'simulate-powerpath-path':
+            return await this.simulatePowerPathPath(args);
+
+          case 'get-student-profile':
+            return await this.getStudentProfile(args);
+
+          case 'issue-badge-credential':
+            return await this.issueBadgeCredential(args);
+
+          case 'issue-clr-credential':
+            return await this.issueClrCredential(args);
+
+          case 'build-caliper-event':
+            return await this.buildCaliperEvent(args);
+
+          case 'send-caliper-events':
+            return await this.sendCaliperEvents(args);
+
+          case 'validate-api-integration':
+            return await this.validateApiIntegration(args);
+
+          case 'generate-api-documentation':
+            return await this.generateApiDocumentation(args);
+
+          case 'call-timeback-endpoint':
+            return await this.callTimeBackEndpoint(args);
+
+          case 'validate-timeback-payload':
+            return await this.validateTimeBackPayload(args);
+
+          case 'generate-example-payload':
+            return await this.generateExamplePayload(args);
+
+          case 'fetch-oneroster-collection':
+            return await this.fetchOneRosterCollection(args, progressToken);
+
+          case 'import-oneroster-csv':
+            return await this.importOneRosterCsv(args);
+
+          case 'export-oneroster-csv':
+            return await this.exportOneRosterCsv(args);
+
+          case 'reconcile-oneroster-rosters':
+            return await this.reconcileOneRosterRosters(args);
+
+          case 'build-oneroster-query':
+            return await this.buildOneRosterQuery(args);
+
+          case 'explain-oneroster-filter':
+            return await this.explainOneRosterFilter(args);
+
+          case 'analyze-codebase-for-timeback':
+            return await this.analyzeCodebaseForTimeBack(args);
+
+          case 'generate-sdk':
+            return await this.generateSdk(args);
+
+          case 'generate-integration-code':
+            return await this.generateIntegrationCode(args);
+
+          case 'detect-integration-opportunities':
+            return await this.detectIntegrationOpportunities(args);
+
+          case 'crawl-timeback-documentation':
+            return await this.crawlTimeBackDocumentation(args);
+
+          case 'search-comprehensive-docs':
+            return await this.searchComprehensiveDocs(args);
+
+          case 'get-api-examples':
+            return await this.getApiExamples(args);
+
+          case 'compare-api-implementations':
+            return await this.compareApiImplementations(args);
+
+          case 'get-integration-patterns':
+            return await this.getIntegrationPatterns(args);
+
+          case 'diff-api-spec-versions':
+            return await this.diffApiSpecVersions(args);
+
+          case 'compose-integration-workflow':
+            return await this.composeIntegrationWorkflow(args);
+
+          case 'connect-mcp-server':
+            return await this.connectMcpServer(args);
+
+          case 'get-integration-status':
+            return await this.getIntegrationStatus();
+
+          case 'get-integration-health':
+            return await this.getIntegrationHealth();
+
+          default: {
+            const operationTool = this.operationTools.get(name);
+            if (operationTool) {
+              return await this.callOperationTool(operationTool, args);
+            }
+            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+          }
+        }
+      } catch (error) {
+        logger.error(`Tool ${name} failed:`, error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    });
+  }
+
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: [
+          {
+            uri: 'timeback://apis/overview',
+            name: 'TimeBack APIs Overview',
+            description: 'Overview of all TimeBack APIs and their capabilities',
+            mimeType: 'application/json',
+          },
+          {
+            uri: 'timeback://schemas/all',
+            name: 'All Data Schemas',
+            description: 'Complete list of data schemas across all TimeBack APIs',
+            mimeType: 'application/json',
+          },
+          {
+            uri: 'timeback://endpoints/all',
+            name: 'All API Endpoints',
+            description: 'Complete list of endpoints across all TimeBack APIs',
+            mimeType: 'application/json',
+          },
+          {
+            uri: 'timeback://integration/templates',
+            name: 'Integration Templates',
+            description: 'Templates for common TimeBack API integrations',
+            mimeType: 'application/json',
+          },
+          {
+            uri: 'timeback://integration/patterns',
+            name: 'MCP Integration Patterns',
+            description: 'Available MCP server integration patterns and configurations',
+            mimeType: 'application/json',
+          },
+          {
+            uri: 'timeback://integration/servers',
+            name: 'Connected MCP Servers',
+            description: 'List of connected downstream MCP servers and their capabilities',
+            mimeType: 'application/json',
+          },
+          {
+            uri: 'timeback://documentation/indexed',
+            name: 'Indexed Documentation',
+            description: 'All indexed TimeBack API documentation and examples',
+            mimeType: 'application/json',
+          },
+          {
+            uri: 'timeback://integration/patterns',
+            name: 'TimeBack Integration Patterns',
+            description: 'Available integration patterns and best practices',
+            mimeType: 'application/json',
+          },
+          {
+            uri: 'timeback://integration/servers',
+            name: 'Connected MCP Servers',
+            description: 'List of connected downstream MCP servers and their capabilities',
+            mimeType: 'application/json',
+          },
+          {
+            uri: 'timeback://documentation/indexed',
+            name: 'Indexed Documentation',
+            description: 'Searchable TimeBack API documentation and examples',
+            mimeType: 'application/json',
+          },
+        ],
+      };
+    });
+
     this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
-      switch (uri) {
-        case 'timeback://apis/overview':
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(this.getApisOverview(), null, 2),
-              },
-            ],
-          };
+      switch (uri) {
+        case 'timeback://apis/overview':
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(this.getApisOverview(), null, 2),
+              },
+            ],
+          };
+
+        case 'timeback://schemas/all':
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(this.openApiParser.getSchemas(), null, 2),
+              },
+            ],
+          };
+
+        case 'timeback://endpoints/all':
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(this.openApiParser.getEndpoints(), null, 2),
+              },
+            ],
+          };
+
+        case 'timeback://integration/templates':
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(this.getIntegrationTemplates(), null, 2),
+              },
+            ],
+          };
+
+        case 'timeback://integration/patterns':
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(await this.getIntegrationPatterns({}), null, 2),
+              },
+            ],
+          };
+
+        case 'timeback://integration/servers':
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(this.mcpProxy.getConnectedServers(), null, 2),
+              },
+            ],
+          };
+
+        case 'timeback://documentation/indexed':
+          const indexStats = await this.documentationIndexer.getIndexStats();
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify({
+                  stats: indexStats,
+                  searchEndpoint: 'Use search-comprehensive-docs tool to query indexed documentation',
+                  availableApis: indexStats.apiBreakdown
+                }, null, 2),
+              },
+            ],
+          };
+
+        default:
+          throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
+      }
+    });
+  }
+
+  private async loadTimeBackSpecs(args: any = {}): Promise<any> {
+    try {
+      const validatedArgs = LoadTimeBackSpecsSchema.parse(args || {});
+      const specsDir = path.resolve(projectDir, 'openapi-specs');
+      
+      await Promise.all([
+        this.openApiParser.loadFromFile('qti', `${specsDir}/timeback-qti-openapi.yaml`, config.timeback.qti.baseUrl),
+        this.openApiParser.loadFromFile('oneroster', `${specsDir}/timeback-oneroster-openapi.yaml`, config.timeback.oneroster.baseUrl),
+        this.openApiParser.loadFromFile('caliper', `${specsDir}/timeback-caliper-openapi.yaml`, config.timeback.caliper.baseUrl),
+        this.openApiParser.loadFromFile('powerpath', `${specsDir}/timeback-powerpath-openapi.yaml`, config.timeback.powerpath.baseUrl),
+        this.openApiParser.loadFromFile('case', `${specsDir}/timeback-case-openapi.yaml`, config.timeback.case.baseUrl),
+      ]);
+
+      const apis = this.openApiParser.getAllAPIs();
+      const totalEndpoints = this.openApiParser.getEndpoints().length;
+      const totalSchemas = this.openApiParser.getSchemas().length;
+
+      await this.refreshOperationTools(validatedArgs.generateOperationTools, {
+        apis: validatedArgs.toolApis,
+        tags: validatedArgs.toolTags,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully loaded ${apis.length} TimeBack API specifications:
+
+${apis.map(api => `• ${api.name.toUpperCase()}: ${this.openApiParser.getInfo(api.name)?.title || 'Unknown'}`).join('\n')}
+
+Total Endpoints: ${totalEndpoints}
+Total Schemas: ${totalSchemas}
+Generated Operation Tools: ${this.operationTools.size}
+
+All APIs are now ready for analysis and integration assistance.`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Failed to load TimeBack specifications: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async refreshOperationTools(enabled: boolean, filter: { apis?: string[]; tags?: string[] }): Promise<void> {
+    const previousCount = this.operationTools.size;
+
+    this.operationTools.clear();
+    if (enabled) {
+      const tools = this.operationToolGenerator.generateTools(this.openApiParser.getEndpoints(), filter);
+      for (const tool of tools) {
+        this.operationTools.set(tool.name, tool);
+      }
+      logger.info(`Generated ${tools.length} operation tools`, filter);
+    }
+
+    // Reloaded specs may change operation signatures, so any non-empty list counts as a change
+    if (previousCount === 0 && this.operationTools.size === 0) {
+      return;
+    }
+
+    try {
+      await this.server.sendToolListChanged();
+    } catch (error) {
+      logger.debug('Skipping tools/list_changed notification:', error);
+    }
+  }
+
+  private async callOperationTool(tool: GeneratedOperationTool, args: any): Promise<any> {
+    try {
+      const request = this.operationToolGenerator.toCallRequest(tool, args || {});
+      const result = await this.endpointExecutor.execute(request);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error(`Operation tool ${tool.name} failed:`, error);
+      if (error instanceof SchemaValidationError) {
+        throw new ValidationError(error.message, error.violations);
+      }
+      throw new IntegrationError(
+        `Operation call failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        tool.endpoint.api
+      );
+    }
+  }
+
+  private async analyzeApiEndpoints(args: any): Promise<any> {
+    const { api, tag, method } = args;
+    
+    let endpoints = this.openApiParser.getEndpoints(api);
+    
+    if (tag) {
+      endpoints = endpoints.filter(ep => ep.tags?.includes(tag));
+    }
+    
+    if (method) {
+      endpoints = endpoints.filter(ep => ep.method === method.toUpperCase());
+    }
+
+    const summary = {
+      total: endpoints.length,
+      byApi: endpoints.reduce((acc, ep) => {
+        acc[ep.api] = (acc[ep.api] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>),
+      byMethod: endpoints.reduce((acc, ep) => {
+        acc[ep.method] = (acc[ep.method] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>),
+      byTag: endpoints.reduce((acc, ep) => {
+        ep.tags?.forEach(tag => {
+          acc[tag] = (acc[tag] || 0) + 1;
+        });
+        return acc;
+      }, {} as Record<string, number>),
+      endpoints: endpoints.map(ep => ({
+        api: ep.api,
+        path: ep.path,
+        method: ep.method,
+        summary: ep.summary,
+        tags: ep.tags,
+        operationId: ep.operationId,
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(summary, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async searchApiDocumentation(args: any): Promise<any> {
+    const { query, searchIn = ['endpoints', 'schemas', 'descriptions'], api } = args;
+    const results: any[] = [];
+
+    if (searchIn.includes('endpoints')) {
+      const endpoints = this.openApiParser.searchEndpoints(query, api);
+      results.push(...endpoints.map(ep => ({
+        type: 'endpoint',
+        api: ep.api,
+        method: ep.method,
+        path: ep.path,
+        summary: ep.summary,
+        operationId: ep.operationId,
+      })));
+    }
+
+    if (searchIn.includes('schemas')) {
+      const schemas = this.openApiParser.searchSchemas(query, api);
+      results.push(...schemas.map(schema => ({
+        type: 'schema',
+        api: schema.api,
+        name: schema.name,
+        description: schema.description,
+      })));
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            query,
+            resultCount: results.length,
+            results,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async compareDataModels(args: any): Promise<any> {
+    try {
+      // Older callers sent schema1/api1/schema2/api2
+      const validatedArgs = CompareDataModelsSchema.parse({
+        sourceSchema: args?.schema1,
+        sourceApi: args?.api1,
+        targetSchema: args?.schema2,
+        targetApi: args?.api2,
+        ...args,
+      });
+      logger.info('Comparing data models', validatedArgs);
+
+      const comparison = this.openApiParser.compareSchemas(
+        validatedArgs.sourceSchema,
+        validatedArgs.sourceApi,
+        validatedArgs.targetSchema,
+        validatedArgs.targetApi
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(comparison, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Data model comparison failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid data model comparison parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `Data model comparison failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        args?.sourceApi || args?.api1
+      );
+    }
+  }
+
+  private async generateIntegrationMapping(args: any): Promise<any> {
+    try {
+      const validatedArgs = GenerateIntegrationMappingSchema.parse(args);
+      const { sourceApi, targetApi, useCase } = validatedArgs;
+      logger.info('Generating integration mapping', validatedArgs);
+
+      const sourceSchemas = this.openApiParser.getSchemas(sourceApi)
+        .filter(schema => !validatedArgs.sourceSchema || schema.name === validatedArgs.sourceSchema);
+      const targetSchemas = this.openApiParser.getSchemas(targetApi)
+        .filter(schema => !validatedArgs.targetSchema || schema.name === validatedArgs.targetSchema);
+
+      if (sourceSchemas.length === 0) {
+        throw new Error(`No schemas found for ${validatedArgs.sourceSchema || sourceApi}. Run load-timeback-specs first.`);
+      }
+      if (targetSchemas.length === 0) {
+        throw new Error(`No schemas found for ${validatedArgs.targetSchema || targetApi}. Run load-timeback-specs first.`);
+      }
+
+      const mapping = {
+        useCase,
+        sourceApi,
+        targetApi,
+        suggestedMappings: this.mappingEngine.suggestMappings(sourceSchemas, targetSchemas, {
+          maxMappings: validatedArgs.maxMappings,
+          minConfidence: validatedArgs.minConfidence,
+        }),
+        integrationSteps: this.generateIntegrationSteps(sourceApi, targetApi, useCase),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mapping, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Integration mapping generation failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid integration mapping parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `Integration mapping generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        args?.sourceApi
+      );
+    }
+  }
+
+  private async transformData(args: any): Promise<any> {
+    try {
+      const validatedArgs = TransformDataSchema.parse(args);
+      const spec: TransformationSpec = validatedArgs.spec || {
+        rules: Object.entries(validatedArgs.fieldMappings!).map(([source, target]) => ({ source, target })),
+      };
+      const targetApi = validatedArgs.targetApi || spec.targetApi;
+      const targetSchema = validatedArgs.targetSchema || spec.targetSchema;
+      logger.info('Transforming data', { spec: spec.name, rules: spec.rules.length, targetApi, targetSchema });
+
+      const result = this.dataTransformer.transform(spec, validatedArgs.data);
+
+      let validation: Record<string, any> | undefined;
+      if (targetSchema) {
+        const schema = this.openApiParser.getSchemas(targetApi).find(s => s.name === targetSchema);
+        if (!schema) {
+          throw new Error(`Schema ${targetSchema} not found${targetApi ? ` in ${targetApi}` : ''}. Run load-timeback-specs first.`);
+        }
+        const records: any[] = Array.isArray(result.output) ? result.output : [result.output];
+        const violations = records.flatMap((record, index) =>
+          this.schemaValidator.validate(schema.schema, record, 'request', Array.isArray(result.output) ? `/${index}` : '')
+        );
+        validation = { api: schema.api, schema: schema.name, valid: violations.length === 0, violations };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              records: Array.isArray(result.output) ? result.output.length : 1,
+              output: result.output,
+              errors: result.errors,
+              ...(validation && { validation }),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Data transformation failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid data transformation parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `Data transformation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        args?.targetApi || args?.spec?.targetApi
+      );
+    }
+  }
+
+  private async parseQtiXml(args: any): Promise<any> {
+    try {
+      const validatedArgs = ParseQtiXmlSchema.parse(args);
+      logger.info('Parsing QTI XML', { length: validatedArgs.xml.length });
+
+      const document = this.qtiParser.parse(validatedArgs.xml);
+      const issues = this.qtiParser.validate(document);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              ...document,
+              valid: !issues.some(issue => issue.severity === 'error'),
+              issues,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('QTI parsing failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid QTI parsing parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `QTI parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'qti'
+      );
+    }
+  }
+
+  private async renderQtiItem(args: any): Promise<any> {
+    try {
+      const validatedArgs = RenderQtiItemSchema.parse(args);
+      logger.info('Rendering QTI item', { format: validatedArgs.format, showAnswers: validatedArgs.showAnswers });
+
+      const item = this.qtiParser.parseItem(validatedArgs.xml);
+      const options = { showAnswers: validatedArgs.showAnswers };
+      const preview = validatedArgs.format === 'html'
+        ? this.qtiRenderer.renderHtml(item, options)
+        : this.qtiRenderer.renderText(item, options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: preview,
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('QTI rendering failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid QTI rendering parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `QTI rendering failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'qti'
+      );
+    }
+  }
+
+  private async generateQtiItem(args: any): Promise<any> {
+    try {
+      const validatedArgs = GenerateQtiItemSchema.parse(args);
+      const descriptions = validatedArgs.items || [validatedArgs.item!];
+      logger.info('Generating QTI items', { items: descriptions.length });
+
+      const items = descriptions.map(description => ({
+        identifier: description.identifier,
+        ...this.qtiItemAuthor.generate(description),
+      }));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: validatedArgs.items ? JSON.stringify({ items }, null, 2) : JSON.stringify(items[0], null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('QTI item generation failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid QTI item description', error.errors);
+      }
+      throw new IntegrationError(
+        `QTI item generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'qti'
+      );
+    }
+  }
+
+  private async scoreQtiResponse(args: any): Promise<any> {
+    try {
+      const validatedArgs = ScoreQtiResponseSchema.parse(args);
+      const item = this.qtiParser.parseItem(validatedArgs.xml);
+      logger.info('Scoring QTI responses', { item: item.identifier, responses: Object.keys(validatedArgs.responses || {}) });
+
+      const result = this.qtiScoringEngine.score(item, validatedArgs.responses);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('QTI scoring failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid QTI scoring parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `QTI scoring failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'qti'
+      );
+    }
+  }
+
+  private async loadCaseFramework(args: any): Promise<any> {
+    try {
+      const validatedArgs = LoadCaseFrameworkSchema.parse(args);
+      logger.info('Loading CASE framework', validatedArgs);
+
+      const result = validatedArgs.path
+        ? await this.caseNavigator.loadFromFile(validatedArgs.path)
+        : await this.caseNavigator.loadFromApi(validatedArgs.documentId!, validatedArgs.profile);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('CASE framework loading failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid CASE framework loading parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `CASE framework loading failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'case'
+      );
+    }
+  }
+
+  private async browseCaseFramework(args: any): Promise<any> {
+    try {
+      const validatedArgs = BrowseCaseFrameworkSchema.parse(args);
+      logger.info('Browsing CASE framework', validatedArgs);
+
+      const reference = validatedArgs.node || validatedArgs.documentId!;
+      const node = this.caseNavigator.find(reference, validatedArgs.documentId);
+      const result = validatedArgs.direction === 'parents'
+        ? { node, parents: this.caseNavigator.parents(reference, validatedArgs.documentId), path: this.caseNavigator.path(reference, validatedArgs.documentId) }
+        : { node, children: this.caseNavigator.children(reference, validatedArgs.documentId) };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('CASE browsing failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid CASE browsing parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `CASE browsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'case'
+      );
+    }
+  }
+
+  private async searchCaseItems(args: any): Promise<any> {
+    try {
+      const validatedArgs = SearchCaseItemsSchema.parse(args);
+      logger.info('Searching CASE items', validatedArgs);
+
+      const results = this.caseNavigator.search(validatedArgs.query, validatedArgs);
+      const result = { query: validatedArgs.query, count: results.length, results };
 
-        case 'timeback://schemas/all':
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(this.openApiParser.getSchemas(), null, 2),
-              },
-            ],
-          };
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('CASE search failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid CASE search parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `CASE search failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'case'
+      );
+    }
+  }
 
-        case 'timeback://endpoints/all':
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(this.openApiParser.getEndpoints(), null, 2),
-              },
-            ],
-          };
+  private async getCaseAssociations(args: any): Promise<any> {
+    try {
+      const validatedArgs = GetCaseAssociationsSchema.parse(args);
+      logger.info('Resolving CASE associations', validatedArgs);
 
-        case 'timeback://integration/templates':
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(this.getIntegrationTemplates(), null, 2),
-              },
-            ],
-          };
+      const node = this.caseNavigator.find(validatedArgs.node, validatedArgs.documentId);
+      const result = { node, associations: this.caseNavigator.associations(validatedArgs.node, validatedArgs) };
 
-        case 'timeback://integration/patterns':
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(await this.getIntegrationPatterns({}), null, 2),
-              },
-            ],
-          };
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('CASE association lookup failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid CASE association lookup parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `CASE association lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'case'
+      );
+    }
+  }
 
-        case 'timeback://integration/servers':
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(this.mcpProxy.getConnectedServers(), null, 2),
-              },
-            ],
-          };
+  private async exportCaseSubtree(args: any): Promise<any> {
+    try {
+      const validatedArgs = ExportCaseSubtreeSchema.parse(args);
+      logger.info('Exporting CASE subtree', validatedArgs);
 
-        case 'timeback://documentation/indexed':
-          const indexStats = await this.documentationIndexer.getIndexStats();
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify({
-                  stats: indexStats,
-                  searchEndpoint: 'Use search-comprehensive-docs tool to query indexed documentation',
-                  availableApis: indexStats.apiBreakdown
-                }, null, 2),
-              },
-            ],
-          };
+      const result = validatedArgs.format === 'package'
+        ? this.caseNavigator.exportPackage(validatedArgs.node, validatedArgs)
+        : this.caseNavigator.exportTree(validatedArgs.node, validatedArgs);
 
-        default:
-          throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('CASE subtree export failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid CASE subtree export parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `CASE subtree export failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'case'
+      );
+    }
+  }
+
+  private async inspectCredential(args: any): Promise<any> {
+    try {
+      const validatedArgs = InspectCredentialSchema.parse(args);
+      logger.info('Inspecting credential', { path: validatedArgs.path });
+
+      const credential = validatedArgs.credential ?? await this.credentialVerifier.loadFromFile(validatedArgs.path!);
+      const result = this.credentialVerifier.inspect(credential);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Credential inspection failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid credential inspection parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `Credential inspection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'openbadge'
+      );
+    }
+  }
+
+  private async verifyCredential(args: any): Promise<any> {
+    try {
+      const validatedArgs = VerifyCredentialSchema.parse(args);
+      logger.info('Verifying credential', { path: validatedArgs.path, keys: validatedArgs.keys.length, didDocuments: validatedArgs.didDocuments.length });
+
+      const credential = validatedArgs.credential ?? await this.credentialVerifier.loadFromFile(validatedArgs.path!);
+      const result = this.credentialVerifier.verify(credential, {
+        keys: validatedArgs.keys,
+        didDocuments: validatedArgs.didDocuments,
+        now: validatedArgs.now ? new Date(validatedArgs.now) : undefined,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Credential verification failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid credential verification parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `Credential verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'openbadge'
+      );
+    }
+  }
+
+  private async getPowerPathCourse(args: any): Promise<any> {
+    try {
+      const validatedArgs = GetPowerPathCourseSchema.parse(args);
+      logger.info('Reading PowerPath course', { courseId: validatedArgs.courseId });
+
+      const { course, warnings } = await this.powerPathPlanner.loadCourse(validatedArgs.courseId, {
+        profile: validatedArgs.profile,
+        data: validatedArgs.syllabus,
+      });
+      const result = { ...this.powerPathPlanner.summarize(course), warnings };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('PowerPath course lookup failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid PowerPath course parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `PowerPath course lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'powerpath'
+      );
+    }
+  }
+
+  private async planPowerPathPath(args: any): Promise<any> {
+    try {
+      const validatedArgs = PlanPowerPathSchema.parse(args);
+      logger.info('Planning PowerPath path', { courseId: validatedArgs.courseId, studentId: validatedArgs.studentId });
+
+      const { course, results, warnings } = await this.loadPowerPathStudent(validatedArgs);
+      const result = { ...this.powerPathPlanner.plan(course, results, validatedArgs), warnings };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('PowerPath planning failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid PowerPath planning parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `PowerPath planning failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'powerpath'
+      );
+    }
+  }
+
+  private async simulatePowerPathPath(args: any): Promise<any> {
+    try {
+      const validatedArgs = SimulatePowerPathSchema.parse(args);
+      logger.info('Simulating PowerPath path changes', { courseId: validatedArgs.courseId, studentId: validatedArgs.studentId, changes: validatedArgs.changes.length });
+
+      const { course, results, warnings } = await this.loadPowerPathStudent(validatedArgs);
+      const simulation = this.powerPathPlanner.simulate(course, results, validatedArgs.changes as PathChange[], validatedArgs);
+      const result = { ...simulation, warnings };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('PowerPath simulation failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid PowerPath simulation parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `PowerPath simulation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'powerpath'
+      );
+    }
+  }
+
+  private async loadPowerPathStudent(args: z.infer<typeof PlanPowerPathSchema>) {
+    const { course, warnings: courseWarnings } = await this.powerPathPlanner.loadCourse(args.courseId, { profile: args.profile, data: args.syllabus });
+    const { results, warnings: progressWarnings } = await this.powerPathPlanner.loadProgress(args.courseId, args.studentId, {
+      profile: args.profile,
+      data: args.progress,
+    });
+    return { course, results, warnings: [...courseWarnings, ...progressWarnings] };
+  }
+
+  private async getStudentProfile(args: any): Promise<any> {
+    try {
+      const validatedArgs = GetStudentProfileSchema.parse(args);
+      logger.info('Building student profile', { sourcedId: validatedArgs.sourcedId, include: validatedArgs.include });
+
+      const result = await this.studentProfileAggregator.getProfile(validatedArgs.sourcedId, validatedArgs);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Student profile failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid student profile parameters', error.errors);
+      }
+      throw new IntegrationError(`Student profile failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async issueBadgeCredential(args: any): Promise<any> {
+    try {
+      const validatedArgs = IssueBadgeCredentialSchema.parse(args);
+      logger.info('Issuing badge credential', { encoding: validatedArgs.encoding, outputPath: validatedArgs.outputPath });
+
+      const issued = await this.credentialIssuer.issueBadge(validatedArgs);
+      const result = validatedArgs.outputPath
+        ? { ...issued, written: await this.credentialIssuer.save(issued, validatedArgs.outputPath) }
+        : issued;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Badge credential issuing failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid badge credential issuing parameters', error.errors);
       }
-    });
+      if (error instanceof SchemaValidationError) {
+        throw new ValidationError(error.message, error.violations);
+      }
+      throw new IntegrationError(
+        `Badge credential issuing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'openbadge'
+      );
+    }
   }
 
-  private async loadTimeBackSpecs(): Promise<any> {
+  private async issueClrCredential(args: any): Promise<any> {
     try {
-      const specsDir = path.resolve(projectDir, 'openapi-specs');
-      
-      await Promise.all([
-        this.openApiParser.loadFromFile('qti', `${specsDir}/timeback-qti-openapi.yaml`, config.timeback.qti.baseUrl),
-        this.openApiParser.loadFromFile('oneroster', `${specsDir}/timeback-oneroster-openapi.yaml`, config.timeback.oneroster.baseUrl),
-        this.openApiParser.loadFromFile('caliper', `${specsDir}/timeback-caliper-openapi.yaml`, config.timeback.caliper.baseUrl),
-        this.openApiParser.loadFromFile('powerpath', `${specsDir}/timeback-powerpath-openapi.yaml`, config.timeback.powerpath.baseUrl),
-        this.openApiParser.loadFromFile('case', `${specsDir}/timeback-case-openapi.yaml`, config.timeback.case.baseUrl),
-      ]);
+      const validatedArgs = IssueClrCredentialSchema.parse(args);
+      logger.info('Issuing CLR credential', { encoding: validatedArgs.encoding, outputPath: validatedArgs.outputPath });
 
-      const apis = this.openApiParser.getAllAPIs();
-      const totalEndpoints = this.openApiParser.getEndpoints().length;
-      const totalSchemas = this.openApiParser.getSchemas().length;
+      const issued = await this.credentialIssuer.issueClr(validatedArgs);
+      const result = validatedArgs.outputPath
+        ? { ...issued, written: await this.credentialIssuer.save(issued, validatedArgs.outputPath) }
+        : issued;
 
       return {
         content: [
           {
             type: 'text',
-            text: `Successfully loaded ${apis.length} TimeBack API specifications:
-
-${apis.map(api => `• ${api.name.toUpperCase()}: ${this.openApiParser.getInfo(api.name)?.title || 'Unknown'}`).join('\n')}
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('CLR credential issuing failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid CLR credential issuing parameters', error.errors);
+      }
+      if (error instanceof SchemaValidationError) {
+        throw new ValidationError(error.message, error.violations);
+      }
+      throw new IntegrationError(
+        `CLR credential issuing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'clr'
+      );
+    }
+  }
 
-Total Endpoints: ${totalEndpoints}
-Total Schemas: ${totalSchemas}
+  private async buildCaliperEvent(args: any): Promise<any> {
+    try {
+      const { eventType, envelope, ...input } = BuildCaliperEventSchema.parse(args);
+      logger.info('Building Caliper event', { eventType, action: input.action });
+
+      const builders: Record<typeof eventType, () => CaliperEvent> = {
+        AssessmentEvent: () => this.caliperEventBuilder.assessmentEvent(input as AssessmentEventInput),
+        AssessmentItemEvent: () => this.caliperEventBuilder.assessmentItemEvent(input as AssessmentItemEventInput),
+        GradeEvent: () => this.caliperEventBuilder.gradeEvent(input as GradeEventInput),
+        SessionEvent: () => this.caliperEventBuilder.sessionEvent(input as SessionEventInput),
+        NavigationEvent: () => this.caliperEventBuilder.navigationEvent(input as NavigationEventInput),
+      };
+      const event = builders[eventType]();
+      const violations = this.caliperEventValidator.validateEvent(event);
 
-All APIs are now ready for analysis and integration assistance.`,
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              event,
+              valid: violations.length === 0,
+              violations,
+              ...(envelope && { envelope: this.caliperEventBuilder.envelope([event], config.timeback.caliper.sensorId) }),
+            }, null, 2),
           },
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to load TimeBack specifications: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      logger.error('Caliper event build failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid Caliper event parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `Caliper event build failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'caliper'
+      );
     }
   }
 
-  private async analyzeApiEndpoints(args: any): Promise<any> {
-    const { api, tag, method } = args;
-    
-    let endpoints = this.openApiParser.getEndpoints(api);
-    
-    if (tag) {
-      endpoints = endpoints.filter(ep => ep.tags?.includes(tag));
-    }
-    
-    if (method) {
-      endpoints = endpoints.filter(ep => ep.method === method.toUpperCase());
+  private async sendCaliperEvents(args: any): Promise<any> {
+    try {
+      const validatedArgs = SendCaliperEventsSchema.parse(args);
+      const events = validatedArgs.events as CaliperEvent[];
+      logger.info('Sending Caliper events', { events: events.length, dryRun: validatedArgs.dryRun });
+
+      let result: Record<string, any>;
+      if (validatedArgs.dryRun) {
+        const envelope = this.caliperEventBuilder.envelope(events, validatedArgs.sensorId || config.timeback.caliper.sensorId);
+        const violations = this.caliperEventValidator.validateEnvelope(envelope);
+        result = { dryRun: true, valid: violations.length === 0, violations, envelope };
+      } else {
+        result = await this.caliperSender.send(events, validatedArgs);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Sending Caliper events failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid Caliper send parameters', error.errors);
+      }
+      if (error instanceof SchemaValidationError) {
+        throw new ValidationError(error.message, error.violations);
+      }
+      throw new IntegrationError(
+        `Sending Caliper events failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'caliper'
+      );
     }
+  }
 
-    const summary = {
-      total: endpoints.length,
-      byApi: endpoints.reduce((acc, ep) => {
-        acc[ep.api] = (acc[ep.api] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>),
-      byMethod: endpoints.reduce((acc, ep) => {
-        acc[ep.method] = (acc[ep.method] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>),
-      byTag: endpoints.reduce((acc, ep) => {
-        ep.tags?.forEach(tag => {
-          acc[tag] = (acc[tag] || 0) + 1;
-        });
-        return acc;
-      }, {} as Record<string, number>),
-      endpoints: endpoints.map(ep => ({
-        api: ep.api,
-        path: ep.path,
-        method: ep.method,
-        summary: ep.summary,
-        tags: ep.tags,
-        operationId: ep.operationId,
-      })),
+  private async validateApiIntegration(args: any): Promise<any> {
+    const { integrationConfig } = args;
+    
+    const validation = {
+      isValid: true,
+      errors: [],
+      warnings: [],
+      suggestions: [
+        'Consider implementing proper error handling for API failures',
+        'Add authentication token refresh logic',
+        'Implement data validation before API calls',
+      ],
     };
 
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(summary, null, 2),
+          text: JSON.stringify(validation, null, 2),
         },
       ],
     };
   }
 
-  private async searchApiDocumentation(args: any): Promise<any> {
-    const { query, searchIn = ['endpoints', 'schemas', 'descriptions'], api } = args;
-    const results: any[] = [];
+  private async generateApiDocumentation(args: any): Promise<any> {
+    const { api, format = 'markdown' } = args;
+    
+    if (api === 'all') {
+      const allApis = this.openApiParser.getAllAPIs();
+      const docs = allApis.map(apiInfo => 
+        this.openApiParser.generateAPIDocumentation(apiInfo.name)
+      ).join('\n\n---\n\n');
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: docs,
+          },
+        ],
+      };
+    } else {
+      const docs = this.openApiParser.generateAPIDocumentation(api);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: docs,
+          },
+        ],
+      };
+    }
+  }
+
+  private async callTimeBackEndpoint(args: any): Promise<any> {
+    try {
+      const validatedArgs = CallTimeBackEndpointSchema.parse(args);
+      logger.info('Calling TimeBack endpoint', {
+        api: validatedArgs.api,
+        operationId: validatedArgs.operationId,
+        method: validatedArgs.method,
+        path: validatedArgs.path,
+      });
+
+      const result = await this.endpointExecutor.execute(validatedArgs);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('TimeBack endpoint call failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid endpoint call parameters', error.errors);
+      }
+      if (error instanceof SchemaValidationError) {
+        throw new ValidationError(error.message, error.violations);
+      }
+      throw new IntegrationError(
+        `Endpoint call failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        args?.api
+      );
+    }
+  }
+
+  private async validateTimeBackPayload(args: any): Promise<any> {
+    try {
+      const validatedArgs = ValidateTimeBackPayloadSchema.parse(args);
+      logger.info('Validating TimeBack payload', {
+        api: validatedArgs.api,
+        operationId: validatedArgs.operationId,
+        direction: validatedArgs.direction,
+      });
+
+      const endpoint = this.openApiParser.findEndpoint(validatedArgs.api, validatedArgs);
+      if (!endpoint) {
+        const selector = validatedArgs.operationId || `${validatedArgs.method?.toUpperCase()} ${validatedArgs.path}`;
+        throw new Error(`Operation not found in ${validatedArgs.api} API: ${selector}. Run load-timeback-specs first.`);
+      }
+
+      const violations = validatedArgs.direction === 'response'
+        ? this.schemaValidator.validateResponse(endpoint, validatedArgs.status, validatedArgs.body)
+        : this.schemaValidator.validateRequest(endpoint, validatedArgs);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              api: endpoint.api,
+              operationId: endpoint.operationId,
+              method: endpoint.method,
+              path: endpoint.path,
+              direction: validatedArgs.direction,
+              valid: violations.length === 0,
+              violations,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Payload validation failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid payload validation parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `Payload validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        args?.api
+      );
+    }
+  }
+
+  private async generateExamplePayload(args: any): Promise<any> {
+    try {
+      const validatedArgs = GenerateExamplePayloadSchema.parse(args);
+      logger.info('Generating example payload', {
+        api: validatedArgs.api,
+        schemaName: validatedArgs.schemaName,
+        operationId: validatedArgs.operationId,
+        target: validatedArgs.target,
+      });
+
+      const options = { seed: validatedArgs.seed, includeOptional: validatedArgs.includeOptional };
+      let result: Record<string, any>;
+
+      if (validatedArgs.schemaName) {
+        const schema = this.openApiParser.getSchemas(validatedArgs.api).find(s => s.name === validatedArgs.schemaName);
+        if (!schema) {
+          throw new Error(`Schema not found in ${validatedArgs.api} API: ${validatedArgs.schemaName}. Run load-timeback-specs first.`);
+        }
+        const example = this.exampleGenerator.generateForSchema(schema, options);
+        result = {
+          api: schema.api,
+          schemaName: schema.name,
+          example,
+          violations: this.schemaValidator.validate(schema.schema, example, 'response'),
+        };
+      } else {
+        const endpoint = this.openApiParser.findEndpoint(validatedArgs.api, validatedArgs);
+        if (!endpoint) {
+          const selector = validatedArgs.operationId || `${validatedArgs.method?.toUpperCase()} ${validatedArgs.path}`;
+          throw new Error(`Operation not found in ${validatedArgs.api} API: ${selector}. Run load-timeback-specs first.`);
+        }
+
+        const operation = {
+          api: endpoint.api,
+          operationId: endpoint.operationId,
+          method: endpoint.method,
+          path: endpoint.path,
+          target: validatedArgs.target,
+        };
+
+        if (validatedArgs.target === 'response') {
+          const response = this.exampleGenerator.generateResponse(endpoint, validatedArgs.status, options);
+          if (!response) {
+            throw new Error(`${endpoint.method} ${endpoint.path} does not document response ${validatedArgs.status ?? '2xx'}`);
+          }
+          result = {
+            ...operation,
+            status: response.status,
+            example: response.example,
+            violations: this.schemaValidator.validateResponse(endpoint, Number(response.status), response.example),
+          };
+        } else {
+          if (!endpoint.requestBody) {
+            throw new Error(`${endpoint.method} ${endpoint.path} does not accept a request body`);
+          }
+          const example = this.exampleGenerator.generateRequestBody(endpoint, options);
+          result = {
+            ...operation,
+            example,
+            // Only the body is generated, so missing path or query parameters are not reported
+            violations: this.schemaValidator.validateRequest(endpoint, { body: example })
+              .filter(violation => violation.pointer.startsWith('/body')),
+          };
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Example generation failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid example generation parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `Example generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        args?.api
+      );
+    }
+  }
+
+  private async fetchOneRosterCollection(args: any, progressToken?: string | number): Promise<any> {
+    try {
+      const validatedArgs = FetchOneRosterCollectionSchema.parse(args);
+      logger.info('Fetching OneRoster collection', validatedArgs);
+
+      let collectionPath = validatedArgs.path;
+      if (validatedArgs.operationId) {
+        const endpoint = this.openApiParser.findEndpoint('oneroster', { operationId: validatedArgs.operationId });
+        if (!endpoint) {
+          throw new Error(`OneRoster operation not found: ${validatedArgs.operationId}. Run load-timeback-specs first.`);
+        }
+        collectionPath = endpoint.path;
+      }
+
+      const baseUrl = this.openApiParser.getAPI('oneroster')?.baseUrl || config.timeback.oneroster.baseUrl;
+      const url = this.oneRosterPaginator.collectionUrl(baseUrl, collectionPath!);
+
+      const collection = await this.oneRosterPaginator.fetchAll(url, {
+        query: validatedArgs.query,
+        pageSize: validatedArgs.pageSize,
+        maxRecords: validatedArgs.maxRecords,
+        collectionKey: validatedArgs.collectionKey,
+        profile: validatedArgs.profile,
+        onProgress: progress => {
+          logger.info(`OneRoster pagination progress: ${progress.fetched}${progress.total !== undefined ? `/${progress.total}` : ''} records`);
+          if (progressToken !== undefined) {
+            this.server.notification({
+              method: 'notifications/progress',
+              params: { progressToken, progress: progress.fetched, total: progress.total },
+            }).catch(error => logger.debug('Failed to send progress notification:', error));
+          }
+        },
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              url,
+              collectionKey: collection.collectionKey,
+              recordCount: collection.records.length,
+              totalCount: collection.totalCount,
+              pagesFetched: collection.pagesFetched,
+              truncated: collection.truncated,
+              pages: collection.pages,
+              records: collection.records,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('OneRoster collection fetch failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid collection fetch parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `OneRoster collection fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'oneroster'
+      );
+    }
+  }
+
+  private async importOneRosterCsv(args: any): Promise<any> {
+    try {
+      const validatedArgs = ImportOneRosterCsvSchema.parse(args);
+      logger.info('Importing OneRoster CSV bundle', { path: validatedArgs.path, push: validatedArgs.push, dryRun: validatedArgs.dryRun });
+
+      const bundle = validatedArgs.path
+        ? await this.oneRosterCsvService.loadBundle(validatedArgs.path)
+        : this.oneRosterCsvService.readBundle(validatedArgs.files!);
+      const data = this.oneRosterCsvService.toRest(bundle);
+      const issues = [...this.oneRosterCsvService.validate(bundle), ...this.oneRosterCsvService.validateRest(data)];
+      const errors = issues.filter(issue => issue.severity === 'error').length;
+
+      let push: any;
+      if (validatedArgs.push) {
+        const operations = this.oneRosterCsvService.planPush(bundle, data, validatedArgs.includeBulk);
+        if (errors > 0) {
+          push = { skipped: `The bundle has ${errors} error(s); fix them before pushing` };
+        } else if (validatedArgs.dryRun) {
+          push = { dryRun: true, operations: operations.map(({ method, url, body }) => ({ method, url, ...(body && { body }) })) };
+        } else {
+          push = await this.oneRosterCsvService.push(operations, validatedArgs.profile);
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              valid: errors === 0,
+              manifest: bundle.manifest,
+              files: Object.fromEntries(Object.entries(bundle.files).map(([file, table]) => [
+                `${file}.csv`,
+                { mode: this.oneRosterCsvService.mode(bundle, file as OneRosterCsvFile), rows: table!.rows.length },
+              ])),
+              errors,
+              warnings: issues.length - errors,
+              issues,
+              ...(validatedArgs.includeRecords && { records: data }),
+              ...(push && { push }),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('OneRoster CSV import failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid OneRoster CSV import parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `OneRoster CSV import failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'oneroster'
+      );
+    }
+  }
+
+  private async exportOneRosterCsv(args: any): Promise<any> {
+    try {
+      const validatedArgs = ExportOneRosterCsvSchema.parse(args);
+      logger.info('Exporting OneRoster CSV bundle', { collections: Object.keys(validatedArgs.data), mode: validatedArgs.mode });
 
-    if (searchIn.includes('endpoints')) {
-      const endpoints = this.openApiParser.searchEndpoints(query, api);
-      results.push(...endpoints.map(ep => ({
-        type: 'endpoint',
-        api: ep.api,
-        method: ep.method,
-        path: ep.path,
-        summary: ep.summary,
-        operationId: ep.operationId,
-      })));
-    }
+      const files = this.oneRosterCsvService.fromRest(validatedArgs.data, validatedArgs.mode);
+      const result = validatedArgs.outputPath
+        ? { written: await this.oneRosterCsvService.saveBundle(files, validatedArgs.outputPath) }
+        : { files };
 
-    if (searchIn.includes('schemas')) {
-      const schemas = this.openApiParser.searchSchemas(query, api);
-      results.push(...schemas.map(schema => ({
-        type: 'schema',
-        api: schema.api,
-        name: schema.name,
-        description: schema.description,
-      })));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('OneRoster CSV export failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid OneRoster CSV export parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `OneRoster CSV export failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'oneroster'
+      );
     }
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            query,
-            resultCount: results.length,
-            results,
-          }, null, 2),
-        },
-      ],
-    };
   }
 
-  private async compareDataModels(args: any): Promise<any> {
-    const { schema1, api1, schema2, api2 } = args;
-    const comparison = this.openApiParser.compareSchemas(schema1, api1, schema2, api2);
+  private async reconcileOneRosterRosters(args: any): Promise<any> {
+    try {
+      const validatedArgs = ReconcileRostersSchema.parse(args);
+      logger.info('Reconciling OneRoster rosters', { source: validatedArgs.source.type, target: validatedArgs.target.type, push: validatedArgs.push });
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(comparison, null, 2),
-        },
-      ],
-    };
-  }
+      const reconciliation = await this.rosterReconciler.reconcileSources(validatedArgs.source, validatedArgs.target, {
+        collections: validatedArgs.collections,
+        ignoreFields: validatedArgs.ignoreFields,
+      });
 
-  private async generateIntegrationMapping(args: any): Promise<any> {
-    const { sourceApi, targetApi, useCase } = args;
-    
-    const sourceSchemas = this.openApiParser.getSchemas(sourceApi);
-    const targetSchemas = this.openApiParser.getSchemas(targetApi);
-    
-    const mapping = {
-      useCase,
-      sourceApi,
-      targetApi,
-      suggestedMappings: this.generateSuggestedMappings(sourceSchemas, targetSchemas),
-      integrationSteps: this.generateIntegrationSteps(sourceApi, targetApi, useCase),
-    };
+      let push: any;
+      if (validatedArgs.push) {
+        if (reconciliation.source.issues.length > 0) {
+          push = { skipped: `The source snapshot has ${reconciliation.source.issues.length} issue(s); fix them before pushing` };
+        } else {
+          // Calls planned against a live target go out with the credentials that pulled it
+          const targetProfile = validatedArgs.target.type === 'api' ? validatedArgs.target.profile : undefined;
+          push = await this.oneRosterCsvService.push(reconciliation.operations, validatedArgs.profile || targetProfile);
+        }
+      }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(mapping, null, 2),
-        },
-      ],
-    };
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ ...reconciliation, ...(push && { push }) }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('OneRoster roster reconciliation failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid roster reconciliation parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `OneRoster roster reconciliation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'oneroster'
+      );
+    }
   }
 
-  private async validateApiIntegration(args: any): Promise<any> {
-    const { integrationConfig } = args;
-    
-    const validation = {
-      isValid: true,
-      errors: [],
-      warnings: [],
-      suggestions: [
-        'Consider implementing proper error handling for API failures',
-        'Add authentication token refresh logic',
-        'Implement data validation before API calls',
-      ],
-    };
+  private async buildOneRosterQuery(args: any): Promise<any> {
+    try {
+      const validatedArgs = BuildOneRosterQuerySchema.parse(args);
+      logger.info('Building OneRoster query', validatedArgs);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(validation, null, 2),
-        },
-      ],
-    };
-  }
+      const { schema, ...query } = validatedArgs;
+      const result = this.oneRosterQueryBuilder.build(query, schema);
 
-  private async generateApiDocumentation(args: any): Promise<any> {
-    const { api, format = 'markdown' } = args;
-    
-    if (api === 'all') {
-      const allApis = this.openApiParser.getAllAPIs();
-      const docs = allApis.map(apiInfo => 
-        this.openApiParser.generateAPIDocumentation(apiInfo.name)
-      ).join('\n\n---\n\n');
-      
       return {
         content: [
           {
             type: 'text',
-            text: docs,
+            text: JSON.stringify({
+              valid: result.errors.length === 0,
+              ...result,
+            }, null, 2),
           },
         ],
       };
-    } else {
-      const docs = this.openApiParser.generateAPIDocumentation(api);
+    } catch (error) {
+      logger.error('OneRoster query build failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid query builder parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `Query build failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'oneroster'
+      );
+    }
+  }
+
+  private async explainOneRosterFilter(args: any): Promise<any> {
+    try {
+      const validatedArgs = ExplainOneRosterFilterSchema.parse(args);
+      logger.info('Explaining OneRoster filter', validatedArgs);
+
+      const result = this.oneRosterQueryBuilder.explainFilter(validatedArgs.filter, validatedArgs.schema);
+
       return {
         content: [
           {
             type: 'text',
-            text: docs,
+            text: JSON.stringify({
+              valid: result.errors.length === 0,
+              ...result,
+            }, null, 2),
           },
         ],
       };
+    } catch (error) {
+      logger.error('OneRoster filter explanation failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid filter explanation parameters', error.errors);
+      }
+      throw new ValidationError(
+        `Filter could not be parsed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
   }
 
@@ -1079,25 +3687,13 @@ All APIs are now ready for analysis and integration assistance.`,
         targetApis: ['caliper'],
         steps: [
           'Monitor QTI assessment events',
-          'Transform to Caliper event format',
-          'Send events to Caliper endpoint',
+          'Build Caliper AssessmentEvent, AssessmentItemEvent and GradeEvent records with build-caliper-event',
+          'Send events in batched envelopes with send-caliper-events',
         ],
       },
     ];
   }
 
-  private generateSuggestedMappings(sourceSchemas: any[], targetSchemas: any[]): any[] {
-    return sourceSchemas.slice(0, 3).map(sourceSchema => ({
-      sourceSchema: sourceSchema.name,
-      targetSchema: targetSchemas[0]?.name || 'No matching schema found',
-      confidence: 'medium',
-      fieldMappings: {
-        id: 'identifier',
-        name: 'title',
-      },
-    }));
-  }
-
   private generateIntegrationSteps(sourceApi: string, targetApi: string, useCase: string): string[] {
     return [
       `1. Authenticate with ${sourceApi.toUpperCase()} API`,
@@ -1194,6 +3790,57 @@ All APIs are now ready for analysis and integration assistance.`,
     }
   }
 
+  private async generateSdk(args: any): Promise<any> {
+    try {
+      const validatedArgs = GenerateSdkSchema.parse(args);
+      logger.info('Generating SDK', {
+        api: validatedArgs.api,
+        language: validatedArgs.language,
+        outputDir: validatedArgs.outputDir,
+      });
+
+      const artifact = this.sdkGenerator.generate(validatedArgs.api, validatedArgs.language, {
+        clientName: validatedArgs.clientName,
+        packageName: validatedArgs.packageName,
+      });
+
+      const summary = {
+        api: artifact.api,
+        language: artifact.language,
+        clientName: artifact.clientName,
+        packageName: artifact.packageName,
+        models: artifact.models,
+        operations: artifact.operations,
+      };
+
+      let result: Record<string, any>;
+      if (validatedArgs.outputDir) {
+        const written = await this.sdkGenerator.writeArtifact(artifact, validatedArgs.outputDir);
+        result = { ...summary, outputDir: path.resolve(validatedArgs.outputDir), files: written };
+      } else {
+        result = { ...summary, files: artifact.files };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('SDK generation failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid SDK generation parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `SDK generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        args?.api
+      );
+    }
+  }
+
   private async generateIntegrationCode(args: any): Promise<any> {
     const validatedArgs = GenerateIntegrationCodeSchema.parse(args);
     const { language, framework, integrationPattern, apis } = validatedArgs;
@@ -1207,6 +3854,7 @@ All APIs are now ready for analysis and integration assistance.`,
       });
       
       const codeTemplates = this.getCodeTemplates(language, framework, integrationPattern, apis);
+      const generated = codeTemplates.some(template => template.source === 'openapi-spec');
     
       return {
         content: [
@@ -1219,7 +3867,7 @@ All APIs are now ready for analysis and integration assistance.`,
               apis,
               codeExamples: codeTemplates,
               environmentVariables: this.getRequiredEnvVars(apis),
-              dependencies: this.getRequiredDependencies(language, framework, apis),
+              dependencies: this.getRequiredDependencies(language, framework, apis, generated),
               setupInstructions: this.getSetupInstructions(language, framework, integrationPattern),
             }, null, 2),
           },
@@ -1389,6 +4037,20 @@ All APIs are now ready for analysis and integration assistance.`,
     const templates = [];
 
     for (const api of apis) {
+      // A loaded spec drives a generated client; hand-written templates only cover JavaScript, TypeScript and Python
+      if (SDK_LANGUAGES.includes(language as SdkLanguage) && this.openApiParser.getAPI(api)) {
+        templates.push(this.getGeneratedClientTemplate(language as SdkLanguage, pattern, api));
+        continue;
+      }
+      if (language === 'java' || language === 'csharp') {
+        templates.push({
+          api,
+          pattern,
+          description: `No ${api.toUpperCase()} specification is loaded. Run load-timeback-specs first to generate a ${language} client from it.`,
+        });
+        continue;
+      }
+
       switch (pattern) {
         case 'oauth-setup':
           templates.push(this.getOAuthTemplate(language, framework, api));
@@ -1411,6 +4073,19 @@ All APIs are now ready for analysis and integration assistance.`,
     return templates;
   }
 
+  private getGeneratedClientTemplate(language: SdkLanguage, pattern: string, api: string): any {
+    const artifact = this.sdkGenerator.generate(api, language);
+    return {
+      api,
+      pattern,
+      source: 'openapi-spec',
+      description: `${artifact.clientName} generated from the loaded ${api.toUpperCase()} specification (${artifact.models} models, ${artifact.operations} operations)`,
+      clientName: artifact.clientName,
+      packageName: artifact.packageName,
+      files: artifact.files,
+    };
+  }
+
   private getOAuthTemplate(language: string, framework: string, api: string): any {
     const baseUrl = config.timeback[api as keyof typeof config.timeback]?.baseUrl || '';
     
@@ -1739,10 +4414,141 @@ class ${api.charAt(0).toUpperCase() + api.slice(1)}EventTracker:
   }
 
   private getStandardsTemplate(language: string, framework: string, api: string): any {
+    if (api !== 'case') {
+      return {
+        api,
+        pattern: 'standards-alignment',
+        code: `// ${api.toUpperCase()} Standards Alignment Example`,
+      };
+    }
+
+    if (language === 'javascript' || language === 'typescript') {
+      return {
+        api,
+        pattern: 'standards-alignment',
+        code: `// CASE Standards Alignment Implementation
+const { CaseClient } = require('./case-client');
+
+class StandardsNavigator {
+  constructor(clientId, clientSecret) {
+    this.client = new CaseClient(clientId, clientSecret);
+  }
+
+  async loadFramework(documentId) {
+    const response = await this.client.makeRequest(\`${CASE_API_PATH}/CFPackages/\${documentId}\`);
+    const pkg = response.data.CFPackage || response.data;
+    this.document = pkg.CFDocument;
+    this.items = new Map(pkg.CFItems.map(item => [item.identifier, item]));
+    this.children = new Map();
+    this.parents = new Map();
+
+    // isChildOf points from the child (origin) to its parent (destination)
+    for (const association of pkg.CFAssociations) {
+      if (association.associationType !== 'isChildOf') continue;
+      const child = association.originNodeURI.identifier;
+      const parent = association.destinationNodeURI.identifier;
+      if (!this.children.has(parent)) this.children.set(parent, []);
+      this.children.get(parent).push({ identifier: child, sequenceNumber: association.sequenceNumber ?? Infinity });
+      this.parents.set(child, parent);
+    }
+    return this.document;
+  }
+
+  childrenOf(identifier = this.document.identifier) {
+    return (this.children.get(identifier) || [])
+      .sort((a, b) => a.sequenceNumber - b.sequenceNumber)
+      .map(child => this.items.get(child.identifier))
+      .filter(Boolean);
+  }
+
+  findByCode(humanCodingScheme) {
+    return [...this.items.values()].find(item => item.humanCodingScheme === humanCodingScheme);
+  }
+
+  pathTo(identifier) {
+    const path = [];
+    for (let current = identifier; this.items.has(current); current = this.parents.get(current)) {
+      path.unshift(this.items.get(current));
+    }
+    return path;
+  }
+
+  alignContent(contentId, humanCodingScheme) {
+    const standard = this.findByCode(humanCodingScheme);
+    if (!standard) throw new Error(\`Unknown standard \${humanCodingScheme}\`);
+    return {
+      contentId,
+      standard: { identifier: standard.identifier, uri: standard.uri, humanCodingScheme, fullStatement: standard.fullStatement },
+      path: this.pathTo(standard.identifier).map(item => item.humanCodingScheme),
+    };
+  }
+}
+
+module.exports = StandardsNavigator;`,
+      };
+    }
+
     return {
       api,
       pattern: 'standards-alignment',
-      code: `// ${api.toUpperCase()} Standards Alignment Example`,
+      code: `# CASE Standards Alignment Implementation (Python)
+from typing import Any, Dict, List, Optional
+from .case_client import CaseClient
+
+class StandardsNavigator:
+    def __init__(self, client_id: str, client_secret: str):
+        self.client = CaseClient(client_id, client_secret)
+        self.items: Dict[str, Dict[str, Any]] = {}
+        self.children: Dict[str, List[Dict[str, Any]]] = {}
+        self.parents: Dict[str, str] = {}
+
+    async def load_framework(self, document_id: str) -> Dict[str, Any]:
+        data = await self.client.make_request(f"${CASE_API_PATH}/CFPackages/{document_id}")
+        package = data.get("CFPackage", data)
+        self.document = package["CFDocument"]
+        self.items = {item["identifier"]: item for item in package["CFItems"]}
+
+        # isChildOf points from the child (origin) to its parent (destination)
+        for association in package["CFAssociations"]:
+            if association["associationType"] != "isChildOf":
+                continue
+            child = association["originNodeURI"]["identifier"]
+            parent = association["destinationNodeURI"]["identifier"]
+            self.children.setdefault(parent, []).append(
+                {"identifier": child, "sequence_number": association.get("sequenceNumber", float("inf"))}
+            )
+            self.parents[child] = parent
+        return self.document
+
+    def children_of(self, identifier: Optional[str] = None) -> List[Dict[str, Any]]:
+        children = sorted(self.children.get(identifier or self.document["identifier"], []), key=lambda c: c["sequence_number"])
+        return [self.items[c["identifier"]] for c in children if c["identifier"] in self.items]
+
+    def find_by_code(self, human_coding_scheme: str) -> Optional[Dict[str, Any]]:
+        return next((item for item in self.items.values() if item.get("humanCodingScheme") == human_coding_scheme), None)
+
+    def path_to(self, identifier: str) -> List[Dict[str, Any]]:
+        path = []
+        current = identifier
+        while current in self.items:
+            path.insert(0, self.items[current])
+            current = self.parents.get(current)
+        return path
+
+    def align_content(self, content_id: str, human_coding_scheme: str) -> Dict[str, Any]:
+        standard = self.find_by_code(human_coding_scheme)
+        if standard is None:
+            raise ValueError(f"Unknown standard {human_coding_scheme}")
+        return {
+            "contentId": content_id,
+            "standard": {
+                "identifier": standard["identifier"],
+                "uri": standard["uri"],
+                "humanCodingScheme": human_coding_scheme,
+                "fullStatement": standard["fullStatement"],
+            },
+            "path": [item.get("humanCodingScheme") for item in self.path_to(standard["identifier"])],
+        }`,
     };
   }
 
@@ -1760,11 +4566,13 @@ class ${api.charAt(0).toUpperCase() + api.slice(1)}EventTracker:
     return envVars;
   }
 
-  private getRequiredDependencies(language: string, framework: string, apis: string[]): string[] {
+  private getRequiredDependencies(language: string, framework: string, apis: string[], generated = false): string[] {
     if (language === 'javascript' || language === 'typescript') {
-      return ['axios', 'dotenv'];
+      return generated ? ['dotenv'] : ['axios', 'dotenv'];
     } else if (language === 'python') {
-      return ['requests', 'python-dotenv'];
+      return generated ? ['httpx', 'pydantic', 'python-dotenv'] : ['requests', 'python-dotenv'];
+    } else if (language === 'java') {
+      return ['com.fasterxml.jackson.core:jackson-databind'];
     }
     return [];
   }
@@ -2188,6 +4996,68 @@ class ${api.charAt(0).toUpperCase() + api.slice(1)}EventTracker:
     }
   }
 
+  private async diffApiSpecVersions(args: any): Promise<any> {
+    try {
+      const validatedArgs = DiffApiSpecVersionsSchema.parse(args);
+      logger.info('Diffing API specification versions', validatedArgs);
+
+      if (!this.documentationStoreReady) {
+        this.documentationStoreReady = this.documentationIndexer.initialize();
+      }
+      await this.documentationStoreReady;
+      const store = this.documentationIndexer.getStore();
+
+      let documentId = validatedArgs.documentId;
+      if (!documentId) {
+        const documents = await store.getDocumentsByApi(validatedArgs.api!);
+        const versioned = [];
+        for (const document of documents) {
+          if ((await store.getDocumentVersions(document.id)).length > 0) {
+            versioned.push(document);
+          }
+        }
+        // Prefer documents that kept the raw specification over scraped endpoint lists
+        const candidate = versioned.find(document => document.openApiSpec) || versioned[0];
+        if (!candidate) {
+          throw new Error(`No versioned documentation stored for ${validatedArgs.api}. Crawl it at least twice first.`);
+        }
+        documentId = candidate.id;
+      }
+
+      let fromVersion = validatedArgs.fromVersion;
+      if (!fromVersion) {
+        const versions = await store.getDocumentVersions(documentId);
+        if (versions.length === 0) {
+          throw new Error(`Document ${documentId} has no stored versions to compare`);
+        }
+        fromVersion = versions[versions.length - 1].version;
+      }
+
+      const diff = await store.diffVersions(documentId, fromVersion, validatedArgs.toVersion);
+      const changes = validatedArgs.breakingOnly
+        ? diff.changes.filter(change => change.severity === 'breaking')
+        : diff.changes;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ ...diff, changes }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Spec version diff failed:', error);
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Invalid spec diff parameters', error.errors);
+      }
+      throw new IntegrationError(
+        `Spec version diff failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        args?.api
+      );
+    }
+  }
+
   async composeIntegrationWorkflow(args: any): Promise<any> {
     const { name, description, workflow } = args;
     
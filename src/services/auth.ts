@@ -1,69 +1,273 @@
 import axios from 'axios';
-import { config } from '../config/index.js';
+import { config, Config, TIMEBACK_APIS } from '../config/index.js';
 import { AuthToken } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
+export interface AuthContext {
+  api?: string;
+  profile?: string;
+}
+
+interface ResolvedCredentials {
+  cacheKey: string;
+  clientId: string;
+  clientSecret: string;
+  tokenUrl: string;
+  revokeUrl?: string;
+  scope?: string;
+}
+
+interface CachedToken {
+  token: AuthToken;
+  credentials: ResolvedCredentials;
+  obtainedAt: number;
+}
+
+const PROACTIVE_REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+// Several APIs share a host, so the path decides which credentials apply
+const API_PATH_HINTS: Record<string, string[]> = {
+  oneroster: ['/ims/oneroster'],
+  powerpath: ['/powerpath'],
+  case: ['/ims/case', '/case'],
+  qti: ['/qti'],
+  caliper: ['/caliper'],
+};
+
 export class AuthService {
-  private token: AuthToken | null = null;
+  private tokens: Map<string, CachedToken> = new Map();
+  private pendingRefreshes: Map<string, Promise<string>> = new Map();
 
-  async getAccessToken(): Promise<string> {
-    if (this.token && this.token.expires_at > Date.now()) {
-      return this.token.access_token;
-    }
+  constructor(
+    private authConfig: Config['auth'] = config.auth,
+    private apiBaseUrls: Record<string, string> = Object.fromEntries(
+      TIMEBACK_APIS.map(api => [api, config.timeback[api].baseUrl])
+    )
+  ) {}
+
+  async getAccessToken(context: AuthContext = {}): Promise<string> {
+    const credentials = this.resolveCredentials(context);
+    const cached = this.tokens.get(credentials.cacheKey);
 
-    if (!config.auth.clientId || !config.auth.clientSecret) {
-      throw new Error('OAuth2 credentials not configured. Please set CLIENT_ID and CLIENT_SECRET environment variables.');
+    if (cached && cached.token.expires_at > Date.now()) {
+      if (this.isNearExpiry(cached)) {
+        // Refresh in the background; callers keep using the current token meanwhile
+        this.refreshToken(credentials).catch(error => logger.warn('Proactive token refresh failed:', error));
+      }
+      return cached.token.access_token;
     }
 
-    try {
-      logger.info('Requesting new access token');
-      
-      const response = await axios.post(config.auth.tokenUrl, 
-        new URLSearchParams({
-          grant_type: 'client_credentials',
-          client_id: config.auth.clientId,
-          client_secret: config.auth.clientSecret,
-        }),
-        {
+    return this.refreshToken(credentials);
+  }
+
+  async makeAuthenticatedRequest(url: string, options: any = {}, context: AuthContext = {}): Promise<any> {
+    const authContext = { ...context, api: context.api || this.resolveApiForUrl(url) };
+
+    const send = async () => {
+      const token = await this.getAccessToken(authContext);
+      try {
+        const response = await axios({
+          ...options,
+          url,
           headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
+            ...options.headers,
+            'Authorization': `Bearer ${token}`,
           },
+        });
+        return { token, response, unauthorized: response.status === 401 };
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 401) {
+          return { token, error, unauthorized: true };
         }
-      );
+        throw error;
+      }
+    };
+
+    let attempt = await send();
+    if (attempt.unauthorized) {
+      logger.warn('Request was rejected with 401; refreshing the access token and retrying once', { url });
+      this.invalidateToken(authContext, attempt.token);
+      attempt = await send();
+    }
+
+    if (attempt.error) {
+      throw attempt.error;
+    }
+    return attempt.response;
+  }
+
+  resolveApiForUrl(url: string): string | undefined {
+    let pathname: string;
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      return undefined;
+    }
+
+    const candidates = Object.entries(this.apiBaseUrls)
+      .filter(([, baseUrl]) => baseUrl && url.startsWith(baseUrl.replace(/\/+$/, '')))
+      .sort(([, a], [, b]) => b.length - a.length);
+
+    const hinted = candidates.find(([api]) =>
+      API_PATH_HINTS[api]?.some(hint => pathname.includes(hint))
+    );
+    if (hinted) {
+      return hinted[0];
+    }
+
+    // Without a path hint, only an unambiguous longest base URL identifies the API
+    if (candidates.length === 1 || (candidates.length > 1 && candidates[0][1].length > candidates[1][1].length)) {
+      return candidates[0][0];
+    }
+    return undefined;
+  }
 
-      this.token = {
+  isAuthenticated(context?: AuthContext): boolean {
+    const now = Date.now();
+    if (!context) {
+      return Array.from(this.tokens.values()).some(cached => cached.token.expires_at > now);
+    }
+    const cached = this.tokens.get(this.resolveCredentials(context).cacheKey);
+    return cached !== undefined && cached.token.expires_at > now;
+  }
+
+  clearToken(context?: AuthContext): void {
+    if (!context) {
+      this.tokens.clear();
+      return;
+    }
+    this.tokens.delete(this.resolveCredentials(context).cacheKey);
+  }
+
+  async revoke(context?: AuthContext): Promise<void> {
+    const cachedTokens = context
+      ? [this.tokens.get(this.resolveCredentials(context).cacheKey)].filter((cached): cached is CachedToken => cached !== undefined)
+      : Array.from(this.tokens.values());
+
+    for (const { token, credentials } of cachedTokens) {
+      if (!credentials.revokeUrl) {
+        logger.debug('No revocation endpoint configured; discarding token locally', { credentials: credentials.cacheKey });
+        continue;
+      }
+
+      try {
+        await axios.post(credentials.revokeUrl,
+          new URLSearchParams({
+            token: token.access_token,
+            token_type_hint: 'access_token',
+            client_id: credentials.clientId,
+            client_secret: credentials.clientSecret,
+          }),
+          {
+            headers: {
+              'Content-Type': 'application/x-www-form-urlencoded',
+            },
+          }
+        );
+        logger.info('Revoked access token', { credentials: credentials.cacheKey });
+      } catch (error) {
+        logger.warn(`Failed to revoke access token for ${credentials.cacheKey}:`, error);
+      }
+    }
+
+    this.clearToken(context);
+  }
+
+  private refreshToken(credentials: ResolvedCredentials): Promise<string> {
+    // Concurrent callers share a single in-flight token request per credential set
+    const pending = this.pendingRefreshes.get(credentials.cacheKey);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.requestToken(credentials).finally(() => {
+      this.pendingRefreshes.delete(credentials.cacheKey);
+    });
+    this.pendingRefreshes.set(credentials.cacheKey, request);
+    return request;
+  }
+
+  private async requestToken(credentials: ResolvedCredentials): Promise<string> {
+    try {
+      logger.info('Requesting new access token', { credentials: credentials.cacheKey });
+
+      const form = new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: credentials.clientId,
+        client_secret: credentials.clientSecret,
+      });
+      if (credentials.scope) {
+        form.set('scope', credentials.scope);
+      }
+
+      const response = await axios.post(credentials.tokenUrl, form, {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      });
+
+      const token: AuthToken = {
         access_token: response.data.access_token,
         token_type: response.data.token_type,
         expires_in: response.data.expires_in,
         expires_at: Date.now() + (response.data.expires_in * 1000) - 60000, // 1 minute buffer
       };
+      this.tokens.set(credentials.cacheKey, { token, credentials, obtainedAt: Date.now() });
 
-      logger.info('Successfully obtained access token');
-      return this.token.access_token;
+      logger.info('Successfully obtained access token', { credentials: credentials.cacheKey });
+      return token.access_token;
     } catch (error) {
       logger.error('Failed to obtain access token:', error);
-      throw new Error('Authentication failed. Please check your credentials.');
+      throw new Error(`Authentication failed for ${credentials.cacheKey} credentials. Please check your credentials.`);
     }
   }
 
-  async makeAuthenticatedRequest(url: string, options: any = {}): Promise<any> {
-    const token = await this.getAccessToken();
-    
-    return axios({
-      ...options,
-      url,
-      headers: {
-        ...options.headers,
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+  private isNearExpiry(cached: CachedToken): boolean {
+    const lifetime = cached.token.expires_at - cached.obtainedAt;
+    const window = Math.min(PROACTIVE_REFRESH_WINDOW_MS, lifetime / 4);
+    return cached.token.expires_at - Date.now() <= window;
   }
 
-  isAuthenticated(): boolean {
-    return this.token !== null && this.token.expires_at > Date.now();
+  private invalidateToken(context: AuthContext, accessToken: string): void {
+    // Another request may already have replaced the rejected token
+    const cacheKey = this.resolveCredentials(context).cacheKey;
+    if (this.tokens.get(cacheKey)?.token.access_token === accessToken) {
+      this.tokens.delete(cacheKey);
+    }
   }
 
-  clearToken(): void {
-    this.token = null;
+  private resolveCredentials(context: AuthContext): ResolvedCredentials {
+    let cacheKey = 'default';
+    let override: Config['auth']['apis'][string] = {};
+
+    if (context.profile) {
+      override = this.authConfig.profiles[context.profile];
+      if (!override) {
+        throw new Error(`Unknown credential profile: ${context.profile}. Configure it in AUTH_PROFILES.`);
+      }
+      cacheKey = `profile:${context.profile}`;
+    } else if (context.api && this.authConfig.apis[context.api]) {
+      override = this.authConfig.apis[context.api];
+      cacheKey = `api:${context.api}`;
+    }
+
+    const clientId = override.clientId || this.authConfig.clientId;
+    const clientSecret = override.clientSecret || this.authConfig.clientSecret;
+    if (!clientId || !clientSecret) {
+      const prefix = context.api ? `${context.api.toUpperCase()}_` : '';
+      throw new Error(
+        `OAuth2 credentials not configured${context.api ? ` for ${context.api}` : ''}. ` +
+        `Please set ${prefix ? `${prefix}CLIENT_ID and ${prefix}CLIENT_SECRET, or ` : ''}CLIENT_ID and CLIENT_SECRET environment variables.`
+      );
+    }
+
+    return {
+      cacheKey,
+      clientId,
+      clientSecret,
+      tokenUrl: override.tokenUrl || this.authConfig.tokenUrl,
+      revokeUrl: override.revokeUrl || this.authConfig.revokeUrl,
+      scope: override.scope || this.authConfig.scope,
+    };
   }
 }
@@ -0,0 +1,362 @@
+import { randomUUID } from 'crypto';
+import { SchemaViolation } from '../types/index.js';
+
+export const CALIPER_CONTEXT = 'http://purl.imsglobal.org/ctx/caliper/v1p2';
+
+export type CaliperEventType = 'AssessmentEvent' | 'AssessmentItemEvent' | 'GradeEvent' | 'SessionEvent' | 'NavigationEvent';
+
+export interface CaliperEntity {
+  id: string;
+  type: string;
+  name?: string;
+  [key: string]: any;
+}
+
+export interface CaliperEvent {
+  '@context': string;
+  id: string;
+  type: CaliperEventType;
+  actor: CaliperEntity;
+  action: string;
+  object: CaliperEntity;
+  eventTime: string;
+  edApp?: CaliperEntity;
+  generated?: CaliperEntity;
+  target?: CaliperEntity;
+  referrer?: CaliperEntity;
+  group?: CaliperEntity;
+  session?: CaliperEntity;
+  extensions?: Record<string, any>;
+}
+
+export interface CaliperEnvelope {
+  sensor: string;
+  sendTime: string;
+  dataVersion: string;
+  data: CaliperEvent[];
+}
+
+export interface CaliperEventInput {
+  actorId: string;
+  actorType?: 'Person' | 'SoftwareApplication';
+  actorName?: string;
+  edAppId?: string;
+  sessionId?: string;
+  groupId?: string;
+  eventTime?: string;
+  extensions?: Record<string, any>;
+}
+
+export interface AssessmentEventInput extends CaliperEventInput {
+  action: 'Started' | 'Paused' | 'Resumed' | 'Restarted' | 'Reset' | 'Submitted';
+  assessmentId: string;
+  assessmentName?: string;
+  attemptId?: string;
+  attemptCount?: number;
+  startedAtTime?: string;
+  endedAtTime?: string;
+}
+
+export interface AssessmentItemEventInput extends CaliperEventInput {
+  action: 'Started' | 'Skipped' | 'Completed';
+  itemId: string;
+  itemName?: string;
+  assessmentId?: string;
+  attemptId?: string;
+  response?: any;
+}
+
+export interface GradeEventInput extends CaliperEventInput {
+  attemptId: string;
+  assessmentId: string;
+  learnerId?: string;
+  scoreGiven: number;
+  maxScore: number;
+  comment?: string;
+}
+
+export interface SessionEventInput extends CaliperEventInput {
+  action: 'LoggedIn' | 'LoggedOut' | 'TimedOut';
+}
+
+export interface NavigationEventInput extends CaliperEventInput {
+  objectId: string;
+  objectType?: string;
+  objectName?: string;
+  referrerId?: string;
+}
+
+interface EventProfile {
+  profile: string;
+  actions: string[];
+  actor: string[];
+  object: string[];
+  generated?: string[];
+  // Action-specific narrowing, e.g. a TimedOut session is ended by the application, not the user
+  byAction?: Record<string, { actor?: string[]; object?: string[] }>;
+}
+
+const DIGITAL_RESOURCE_TYPES = [
+  'DigitalResource', 'DigitalResourceCollection', 'AssignableDigitalResource', 'Assessment', 'AssessmentItem',
+  'Chapter', 'Document', 'Frame', 'Page', 'WebPage', 'Reading', 'MediaObject', 'AudioObject', 'ImageObject',
+  'VideoObject', 'SoftwareApplication',
+];
+
+const RESPONSE_TYPES = ['Response', 'FillinBlankResponse', 'MultipleChoiceResponse', 'MultipleResponseResponse', 'SelectTextResponse', 'TrueFalseResponse'];
+
+export const CALIPER_PROFILES: Record<CaliperEventType, EventProfile> = {
+  AssessmentEvent: {
+    profile: 'Assessment Profile',
+    actions: ['Started', 'Paused', 'Resumed', 'Restarted', 'Reset', 'Submitted'],
+    actor: ['Person'],
+    object: ['Assessment'],
+    generated: ['Attempt'],
+  },
+  AssessmentItemEvent: {
+    profile: 'Assessment Profile',
+    actions: ['Started', 'Skipped', 'Completed'],
+    actor: ['Person'],
+    object: ['AssessmentItem'],
+    generated: ['Attempt', ...RESPONSE_TYPES],
+  },
+  GradeEvent: {
+    profile: 'Grading Profile',
+    actions: ['Graded'],
+    actor: ['Person', 'SoftwareApplication'],
+    object: ['Attempt'],
+    generated: ['Score'],
+  },
+  SessionEvent: {
+    profile: 'Session Profile',
+    actions: ['LoggedIn', 'LoggedOut', 'TimedOut'],
+    actor: ['Person', 'SoftwareApplication'],
+    object: ['SoftwareApplication', 'Session'],
+    byAction: {
+      LoggedIn: { actor: ['Person'], object: ['SoftwareApplication'] },
+      LoggedOut: { actor: ['Person'], object: ['SoftwareApplication'] },
+      TimedOut: { actor: ['SoftwareApplication'], object: ['Session'] },
+    },
+  },
+  NavigationEvent: {
+    profile: 'Reading Profile',
+    actions: ['NavigatedTo'],
+    actor: ['Person'],
+    object: DIGITAL_RESOURCE_TYPES,
+  },
+};
+
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const IRI_PATTERN = /^[a-z][a-z0-9+.-]*:\S+$/i;
+const UUID_URN_PATTERN = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Builds Caliper 1.2 events from flat inputs; ids must be IRIs (URLs or URNs). */
+export class CaliperEventBuilder {
+  constructor(private defaultEdAppId?: string) {}
+
+  assessmentEvent(input: AssessmentEventInput): CaliperEvent {
+    const assessment = this.entity(input.assessmentId, 'Assessment', input.assessmentName);
+    return this.event('AssessmentEvent', input, input.action, assessment, {
+      generated: input.attemptId ? this.attempt(input, input.attemptId, assessment.id) : undefined,
+    });
+  }
+
+  assessmentItemEvent(input: AssessmentItemEventInput): CaliperEvent {
+    const item = this.entity(input.itemId, 'AssessmentItem', input.itemName, {
+      ...(input.assessmentId && { isPartOf: this.entity(input.assessmentId, 'Assessment') }),
+    });
+
+    let generated: CaliperEntity | undefined;
+    if (input.action === 'Completed' && input.response !== undefined) {
+      generated = this.entity(`urn:uuid:${randomUUID()}`, 'Response', undefined, {
+        ...(input.attemptId && { attempt: this.attempt(input, input.attemptId, item.id) }),
+        extensions: { value: input.response },
+      });
+    } else if (input.attemptId) {
+      generated = this.attempt(input, input.attemptId, item.id);
+    }
+
+    return this.event('AssessmentItemEvent', input, input.action, item, { generated });
+  }
+
+  gradeEvent(input: GradeEventInput): CaliperEvent {
+    const attempt = this.entity(input.attemptId, 'Attempt', undefined, {
+      assignee: this.entity(input.learnerId || input.actorId, 'Person'),
+      assignable: this.entity(input.assessmentId, 'Assessment'),
+    });
+    const score = this.entity(`urn:uuid:${randomUUID()}`, 'Score', undefined, {
+      attempt: attempt.id,
+      maxScore: input.maxScore,
+      scoreGiven: input.scoreGiven,
+      ...(input.comment && { comment: input.comment }),
+      scoredBy: input.actorId,
+    });
+    return this.event('GradeEvent', { actorType: 'SoftwareApplication', ...input }, 'Graded', attempt, { generated: score });
+  }
+
+  sessionEvent(input: SessionEventInput): CaliperEvent {
+    const edAppId = input.edAppId || this.defaultEdAppId;
+    if (!edAppId) {
+      throw new Error('SessionEvent requires edAppId');
+    }
+
+    if (input.action === 'TimedOut') {
+      const session = this.entity(input.sessionId || `urn:uuid:${randomUUID()}`, 'Session');
+      return this.event('SessionEvent', { ...input, actorId: edAppId, actorType: 'SoftwareApplication' }, 'TimedOut', session);
+    }
+
+    return this.event('SessionEvent', input, input.action, this.entity(edAppId, 'SoftwareApplication'));
+  }
+
+  navigationEvent(input: NavigationEventInput): CaliperEvent {
+    return this.event('NavigationEvent', input, 'NavigatedTo', this.entity(input.objectId, input.objectType || 'DigitalResource', input.objectName), {
+      referrer: input.referrerId ? this.entity(input.referrerId, 'DigitalResource') : undefined,
+    });
+  }
+
+  envelope(events: CaliperEvent[], sensor: string, sendTime = new Date().toISOString()): CaliperEnvelope {
+    return { sensor, sendTime, dataVersion: CALIPER_CONTEXT, data: events };
+  }
+
+  private event(
+    type: CaliperEventType,
+    input: CaliperEventInput,
+    action: string,
+    object: CaliperEntity,
+    extra: Partial<Pick<CaliperEvent, 'generated' | 'referrer'>> = {}
+  ): CaliperEvent {
+    const edAppId = input.edAppId || this.defaultEdAppId;
+    const event: CaliperEvent = {
+      '@context': CALIPER_CONTEXT,
+      id: `urn:uuid:${randomUUID()}`,
+      type,
+      actor: this.entity(input.actorId, input.actorType || 'Person', input.actorName),
+      action,
+      object,
+      eventTime: input.eventTime || new Date().toISOString(),
+    };
+
+    if (edAppId) event.edApp = this.entity(edAppId, 'SoftwareApplication');
+    if (extra.generated) event.generated = extra.generated;
+    if (extra.referrer) event.referrer = extra.referrer;
+    if (input.groupId) event.group = this.entity(input.groupId, 'CourseSection');
+    if (input.sessionId && type !== 'SessionEvent') event.session = this.entity(input.sessionId, 'Session');
+    if (input.extensions) event.extensions = input.extensions;
+    return event;
+  }
+
+  private attempt(input: CaliperEventInput & { attemptCount?: number; startedAtTime?: string; endedAtTime?: string }, id: string, assignable: string): CaliperEntity {
+    return this.entity(id, 'Attempt', undefined, {
+      assignee: input.actorId,
+      assignable,
+      ...(input.attemptCount !== undefined && { count: input.attemptCount }),
+      ...(input.startedAtTime && { startedAtTime: input.startedAtTime }),
+      ...(input.endedAtTime && { endedAtTime: input.endedAtTime }),
+    });
+  }
+
+  private entity(id: string, type: string, name?: string, properties: Record<string, any> = {}): CaliperEntity {
+    return { id, type, ...(name && { name }), ...properties };
+  }
+}
+
+/** Checks events and envelopes against the Caliper 1.2 profile rules for the supported event types. */
+export class CaliperEventValidator {
+  validateEvent(event: any, pointer = ''): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const add = (path: string, expected: string, actual: any, message: string) =>
+      violations.push({ pointer: `${pointer}${path}`, expected, actual, message });
+
+    if (typeof event !== 'object' || event === null || Array.isArray(event)) {
+      add('', 'object', event, 'Caliper event must be an object');
+      return violations;
+    }
+
+    if (event['@context'] !== CALIPER_CONTEXT) {
+      add('/@context', CALIPER_CONTEXT, event['@context'], `@context must be ${CALIPER_CONTEXT}`);
+    }
+    if (typeof event.id !== 'string' || !UUID_URN_PATTERN.test(event.id)) {
+      add('/id', 'urn:uuid IRI', event.id, 'id must be a urn:uuid IRI');
+    }
+    if (typeof event.eventTime !== 'string' || !DATE_TIME_PATTERN.test(event.eventTime)) {
+      add('/eventTime', 'ISO 8601 date-time', event.eventTime, 'eventTime must be an ISO 8601 date-time with a timezone');
+    }
+
+    const profile = CALIPER_PROFILES[event.type as CaliperEventType];
+    if (!profile) {
+      add('/type', `one of: ${Object.keys(CALIPER_PROFILES).join(', ')}`, event.type, `Unsupported Caliper event type ${event.type}`);
+      return violations;
+    }
+
+    if (!profile.actions.includes(event.action)) {
+      add('/action', `one of: ${profile.actions.join(', ')}`, event.action, `${profile.profile} does not allow action ${event.action} for ${event.type}`);
+    }
+
+    const narrowed = profile.byAction?.[event.action] || {};
+    this.checkEntity(event.actor, '/actor', narrowed.actor || profile.actor, true, add);
+    this.checkEntity(event.object, '/object', narrowed.object || profile.object, true, add);
+    if (profile.generated) {
+      this.checkEntity(event.generated, '/generated', profile.generated, false, add);
+    }
+    for (const key of ['edApp', 'group', 'session', 'referrer', 'target'] as const) {
+      this.checkEntity(event[key], `/${key}`, undefined, false, add);
+    }
+
+    if (event.type === 'GradeEvent' && event.generated?.type === 'Score') {
+      for (const key of ['scoreGiven', 'maxScore'] as const) {
+        if (typeof event.generated[key] !== 'number') {
+          add(`/generated/${key}`, 'number', event.generated[key], `Score ${key} must be a number`);
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  validateEnvelope(envelope: any): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    if (typeof envelope?.sensor !== 'string' || !IRI_PATTERN.test(envelope.sensor)) {
+      violations.push({ pointer: '/sensor', expected: 'IRI', actual: envelope?.sensor, message: 'sensor must be an IRI' });
+    }
+    if (typeof envelope?.sendTime !== 'string' || !DATE_TIME_PATTERN.test(envelope.sendTime)) {
+      violations.push({ pointer: '/sendTime', expected: 'ISO 8601 date-time', actual: envelope?.sendTime, message: 'sendTime must be an ISO 8601 date-time with a timezone' });
+    }
+    if (envelope?.dataVersion !== CALIPER_CONTEXT) {
+      violations.push({ pointer: '/dataVersion', expected: CALIPER_CONTEXT, actual: envelope?.dataVersion, message: `dataVersion must be ${CALIPER_CONTEXT}` });
+    }
+    if (!Array.isArray(envelope?.data) || envelope.data.length === 0) {
+      violations.push({ pointer: '/data', expected: 'non-empty array', actual: envelope?.data, message: 'data must contain at least one event' });
+      return violations;
+    }
+
+    envelope.data.forEach((event: any, index: number) => violations.push(...this.validateEvent(event, `/data/${index}`)));
+    return violations;
+  }
+
+  private checkEntity(
+    entity: any,
+    path: string,
+    types: string[] | undefined,
+    required: boolean,
+    add: (path: string, expected: string, actual: any, message: string) => void
+  ): void {
+    if (entity === undefined) {
+      if (required) add(path, types ? types.join(' | ') : 'entity', undefined, `${path.slice(1)} is required`);
+      return;
+    }
+    // Entities may be referenced by IRI alone
+    if (typeof entity === 'string') {
+      if (!IRI_PATTERN.test(entity)) add(path, 'IRI', entity, `${path.slice(1)} must be an IRI`);
+      return;
+    }
+    if (typeof entity !== 'object' || entity === null) {
+      add(path, 'entity', entity, `${path.slice(1)} must be an entity or IRI`);
+      return;
+    }
+    if (typeof entity.id !== 'string' || !IRI_PATTERN.test(entity.id)) {
+      add(`${path}/id`, 'IRI', entity.id, `${path.slice(1)}.id must be an IRI`);
+    }
+    if (types && !types.includes(entity.type)) {
+      add(`${path}/type`, `one of: ${types.join(', ')}`, entity.type, `${path.slice(1)}.type must be one of: ${types.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import axios from 'axios';
+import { AuthService } from './auth.js';
+import { CaliperEvent, CaliperEventBuilder, CaliperEventValidator } from './caliper-events.js';
+import { SchemaValidationError } from './schema-validator.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface CaliperSettings {
+  baseUrl: string;
+  eventPath: string;
+  sensorId: string;
+  batchSize: number;
+}
+
+export interface CaliperSendOptions {
+  sensorId?: string;
+  batchSize?: number;
+  profile?: string;
+}
+
+export interface CaliperBatchResult {
+  batch: number;
+  events: number;
+  status?: number;
+  error?: string;
+}
+
+export interface CaliperSendResult {
+  sent: number;
+  failed: number;
+  batches: CaliperBatchResult[];
+}
+
+export class CaliperSender {
+  constructor(
+    private authService: AuthService,
+    private settings: CaliperSettings = config.timeback.caliper,
+    private builder = new CaliperEventBuilder(),
+    private validator = new CaliperEventValidator()
+  ) {}
+
+  /** Validate every event up front, then POST them in envelopes of at most batchSize events. */
+  async send(events: CaliperEvent[], options: CaliperSendOptions = {}): Promise<CaliperSendResult> {
+    const sensor = options.sensorId || this.settings.sensorId;
+    const batchSize = options.batchSize || this.settings.batchSize;
+
+    const violations = this.validator.validateEnvelope(this.builder.envelope(events, sensor));
+    if (violations.length > 0) {
+      throw new SchemaValidationError('Caliper envelope is invalid', violations);
+    }
+
+    const url = `${this.settings.baseUrl.replace(/\/+$/, '')}${this.settings.eventPath}`;
+    const result: CaliperSendResult = { sent: 0, failed: 0, batches: [] };
+
+    for (let offset = 0; offset < events.length; offset += batchSize) {
+      const batch = events.slice(offset, offset + batchSize);
+      const batchNumber = result.batches.length + 1;
+
+      // A failed batch is recorded and the remaining batches are still sent
+      try {
+        const response = await this.authService.makeAuthenticatedRequest(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          data: this.builder.envelope(batch, sensor),
+        }, { api: 'caliper', profile: options.profile });
+        result.sent += batch.length;
+        result.batches.push({ batch: batchNumber, events: batch.length, status: response.status });
+      } catch (error) {
+        result.failed += batch.length;
+        result.batches.push({
+          batch: batchNumber,
+          events: batch.length,
+          status: axios.isAxiosError(error) ? error.response?.status : undefined,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        logger.warn(`Caliper batch ${batchNumber} failed`, { url, events: batch.length, error });
+      }
+    }
+
+    logger.info('Sent Caliper events', { url, sent: result.sent, failed: result.failed, batches: result.batches.length });
+    return result;
+  }
+}
@@ -0,0 +1,379 @@
+import * as fs from 'fs/promises';
+import { AuthService } from './auth.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+export const CASE_API_PATH = '/ims/case/v1p0';
+
+export interface CaseLinkURI {
+  title: string;
+  identifier: string;
+  uri: string;
+}
+
+export interface CFDocument {
+  identifier: string;
+  uri: string;
+  title: string;
+  creator?: string;
+  lastChangeDateTime?: string;
+  [property: string]: any;
+}
+
+export interface CFItem {
+  identifier: string;
+  uri: string;
+  fullStatement: string;
+  humanCodingScheme?: string;
+  abbreviatedStatement?: string;
+  CFItemType?: string;
+  listEnumeration?: string;
+  educationLevel?: string[];
+  CFDocumentURI?: CaseLinkURI;
+  lastChangeDateTime?: string;
+  [property: string]: any;
+}
+
+export interface CFAssociation {
+  identifier: string;
+  uri: string;
+  associationType: string;
+  originNodeURI: CaseLinkURI;
+  destinationNodeURI: CaseLinkURI;
+  sequenceNumber?: number;
+  CFDocumentURI?: CaseLinkURI;
+  lastChangeDateTime?: string;
+  [property: string]: any;
+}
+
+export interface CFPackage {
+  CFDocument: CFDocument;
+  CFItems?: CFItem[];
+  CFAssociations?: CFAssociation[];
+  CFDefinitions?: Record<string, any>;
+}
+
+export interface CaseNode {
+  identifier: string;
+  uri: string;
+  kind: 'CFDocument' | 'CFItem';
+  documentId: string;
+  humanCodingScheme?: string;
+  statement: string;
+  itemType?: string;
+}
+
+export interface CaseTreeNode extends CaseNode {
+  children: CaseTreeNode[];
+}
+
+export interface CaseFrameworkSummary {
+  documentId: string;
+  title: string;
+  uri: string;
+  items: number;
+  associations: number;
+  topLevelItems: number;
+  associationTypes: Record<string, number>;
+}
+
+export interface CaseResolvedAssociation {
+  identifier: string;
+  associationType: string;
+  direction: 'outgoing' | 'incoming';
+  sequenceNumber?: number;
+  node?: CaseNode;
+  link: CaseLinkURI;
+}
+
+export interface CaseSearchOptions {
+  field?: 'humanCodingScheme' | 'fullStatement' | 'any';
+  documentId?: string;
+  itemType?: string;
+  limit?: number;
+}
+
+export interface CaseSearchResult extends CaseNode {
+  score: number;
+}
+
+interface LoadedFramework {
+  document: CFDocument;
+  items: Map<string, CFItem>;
+  associations: CFAssociation[];
+  children: Map<string, { identifier: string; sequenceNumber?: number }[]>;
+  parents: Map<string, string[]>;
+}
+
+const compareCodes = (a?: string, b?: string) => (a || '').localeCompare(b || '', undefined, { numeric: true });
+
+/** Holds loaded CASE frameworks in memory and navigates them through their isChildOf associations. */
+export class CaseNavigator {
+  private frameworks = new Map<string, LoadedFramework>();
+
+  constructor(
+    private authService?: AuthService,
+    private baseUrl = config.timeback.case.baseUrl
+  ) {}
+
+  load(pkg: CFPackage | { CFPackage: CFPackage }): CaseFrameworkSummary {
+    const cfPackage = 'CFPackage' in pkg ? pkg.CFPackage : pkg;
+    if (!cfPackage?.CFDocument?.identifier) {
+      throw new Error('CFPackage has no CFDocument identifier');
+    }
+
+    const document = cfPackage.CFDocument;
+    const framework: LoadedFramework = {
+      document,
+      items: new Map((cfPackage.CFItems || []).map(item => [item.identifier, item])),
+      associations: cfPackage.CFAssociations || [],
+      children: new Map(),
+      parents: new Map(),
+    };
+
+    // isChildOf points from the child (origin) to its parent (destination)
+    for (const association of framework.associations) {
+      if (association.associationType !== 'isChildOf') continue;
+      const child = association.originNodeURI.identifier;
+      const parent = association.destinationNodeURI.identifier;
+      framework.children.set(parent, [...(framework.children.get(parent) || []), { identifier: child, sequenceNumber: association.sequenceNumber }]);
+      framework.parents.set(child, [...(framework.parents.get(child) || []), parent]);
+    }
+
+    this.frameworks.set(document.identifier, framework);
+    const summary = this.summarize(framework);
+    logger.info('Loaded CASE framework', { documentId: summary.documentId, items: summary.items, associations: summary.associations });
+    return summary;
+  }
+
+  async loadFromFile(filePath: string): Promise<CaseFrameworkSummary> {
+    return this.load(JSON.parse(await fs.readFile(filePath, 'utf-8')));
+  }
+
+  async loadFromApi(documentId: string, profile?: string): Promise<CaseFrameworkSummary> {
+    if (!this.authService) {
+      throw new Error('Loading from the CASE API requires an authenticated client');
+    }
+    const url = `${this.baseUrl.replace(/\/+$/, '')}${CASE_API_PATH}/CFPackages/${encodeURIComponent(documentId)}`;
+    const response = await this.authService.makeAuthenticatedRequest(url, { method: 'GET' }, { api: 'case', profile });
+    return this.load(response.data);
+  }
+
+  listFrameworks(): CaseFrameworkSummary[] {
+    return [...this.frameworks.values()].map(framework => this.summarize(framework));
+  }
+
+  /** Look a node up by identifier, URI or human coding scheme. */
+  find(reference: string, documentId?: string): CaseNode {
+    const frameworks = this.scope(documentId);
+    for (const framework of frameworks) {
+      const { document } = framework;
+      if (document.identifier === reference || document.uri === reference) return this.documentNode(document);
+      const item = framework.items.get(reference) || [...framework.items.values()].find(candidate => candidate.uri === reference);
+      if (item) return this.itemNode(item, document.identifier);
+    }
+
+    const matches = frameworks.flatMap(framework => [...framework.items.values()]
+      .filter(item => item.humanCodingScheme?.toLowerCase() === reference.toLowerCase())
+      .map(item => this.itemNode(item, framework.document.identifier)));
+    if (matches.length > 1) {
+      throw new Error(`${reference} matches ${matches.length} items in ${[...new Set(matches.map(match => match.documentId))].join(', ')}; pass documentId`);
+    }
+    if (matches.length === 0) {
+      throw new Error(`No CASE item or document matches ${reference}${documentId ? ` in ${documentId}` : ''}`);
+    }
+    return matches[0];
+  }
+
+  children(reference: string, documentId?: string): CaseNode[] {
+    const node = this.find(reference, documentId);
+    const framework = this.frameworks.get(node.documentId)!;
+    return (framework.children.get(node.identifier) || [])
+      .map(child => ({ ...child, node: this.resolve(framework, child.identifier) }))
+      .filter((child): child is { identifier: string; sequenceNumber?: number; node: CaseNode } => Boolean(child.node))
+      .sort((a, b) => (a.sequenceNumber ?? Infinity) - (b.sequenceNumber ?? Infinity) || compareCodes(a.node.humanCodingScheme, b.node.humanCodingScheme))
+      .map(child => child.node);
+  }
+
+  parents(reference: string, documentId?: string): CaseNode[] {
+    const node = this.find(reference, documentId);
+    const framework = this.frameworks.get(node.documentId)!;
+    return (framework.parents.get(node.identifier) || [])
+      .map(parent => this.resolve(framework, parent))
+      .filter((parent): parent is CaseNode => Boolean(parent));
+  }
+
+  /** Breadcrumb from the document down to the node, following the first parent at each level. */
+  path(reference: string, documentId?: string): CaseNode[] {
+    const node = this.find(reference, documentId);
+    const framework = this.frameworks.get(node.documentId)!;
+    const path = [node];
+    const visited = new Set([node.identifier]);
+    let current = node.identifier;
+
+    while (framework.parents.get(current)?.length) {
+      const parent = framework.parents.get(current)![0];
+      const parentNode = this.resolve(framework, parent);
+      if (!parentNode || visited.has(parent)) break;
+      visited.add(parent);
+      path.unshift(parentNode);
+      current = parent;
+    }
+    return path;
+  }
+
+  search(query: string, options: CaseSearchOptions = {}): CaseSearchResult[] {
+    const field = options.field || 'any';
+    const needle = query.trim().toLowerCase();
+    const words = needle.split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      throw new Error('Search query is empty');
+    }
+
+    const results: CaseSearchResult[] = [];
+    for (const framework of this.scope(options.documentId)) {
+      for (const item of framework.items.values()) {
+        if (options.itemType && item.CFItemType?.toLowerCase() !== options.itemType.toLowerCase()) continue;
+
+        let score = 0;
+        const code = item.humanCodingScheme?.toLowerCase();
+        if (code && field !== 'fullStatement') {
+          score = code === needle ? 1 : code.startsWith(needle) ? 0.8 : code.includes(needle) ? 0.6 : 0;
+        }
+        if (field !== 'humanCodingScheme') {
+          const statement = `${item.fullStatement} ${item.abbreviatedStatement || ''}`.toLowerCase();
+          const matched = words.filter(word => statement.includes(word)).length;
+          if (matched === words.length) score = Math.max(score, statement.includes(needle) ? 0.5 : 0.4);
+        }
+        if (score > 0) {
+          results.push({ ...this.itemNode(item, framework.document.identifier), score });
+        }
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || compareCodes(a.humanCodingScheme, b.humanCodingScheme))
+      .slice(0, options.limit ?? 25);
+  }
+
+  /** Associations that start or end at the node, with the other end resolved across every loaded framework. */
+  associations(reference: string, options: { documentId?: string; associationType?: string } = {}): CaseResolvedAssociation[] {
+    const node = this.find(reference, options.documentId);
+    const resolved: CaseResolvedAssociation[] = [];
+
+    for (const framework of this.frameworks.values()) {
+      for (const association of framework.associations) {
+        if (options.associationType && association.associationType !== options.associationType) continue;
+        const outgoing = association.originNodeURI.identifier === node.identifier;
+        const incoming = association.destinationNodeURI.identifier === node.identifier;
+        if (!outgoing && !incoming) continue;
+
+        const link = outgoing ? association.destinationNodeURI : association.originNodeURI;
+        const other = this.lookup(link);
+        resolved.push({
+          identifier: association.identifier,
+          associationType: association.associationType,
+          direction: outgoing ? 'outgoing' : 'incoming',
+          ...(association.sequenceNumber !== undefined && { sequenceNumber: association.sequenceNumber }),
+          ...(other && { node: other }),
+          link,
+        });
+      }
+    }
+
+    return resolved;
+  }
+
+  exportTree(reference: string, options: { documentId?: string; depth?: number } = {}): CaseTreeNode {
+    const root = this.find(reference, options.documentId);
+    const visited = new Set<string>();
+    const build = (node: CaseNode, depth: number): CaseTreeNode => {
+      visited.add(node.identifier);
+      const children = options.depth !== undefined && depth >= options.depth
+        ? []
+        : this.children(node.identifier, node.documentId).filter(child => !visited.has(child.identifier));
+      return { ...node, children: children.map(child => build(child, depth + 1)) };
+    };
+    return build(root, 0);
+  }
+
+  /** The subtree as a CFPackage: its items plus the associations between them. */
+  exportPackage(reference: string, options: { documentId?: string; depth?: number } = {}): CFPackage {
+    const tree = this.exportTree(reference, options);
+    const framework = this.frameworks.get(tree.documentId)!;
+    const identifiers = new Set<string>();
+    const collect = (node: CaseTreeNode) => {
+      identifiers.add(node.identifier);
+      node.children.forEach(collect);
+    };
+    collect(tree);
+
+    return {
+      CFDocument: framework.document,
+      CFItems: [...identifiers].map(identifier => framework.items.get(identifier)).filter((item): item is CFItem => Boolean(item)),
+      CFAssociations: framework.associations.filter(association =>
+        identifiers.has(association.originNodeURI.identifier) &&
+        (identifiers.has(association.destinationNodeURI.identifier) || association.destinationNodeURI.identifier === framework.document.identifier)),
+    };
+  }
+
+  private scope(documentId?: string): LoadedFramework[] {
+    if (this.frameworks.size === 0) {
+      throw new Error('No CASE frameworks are loaded. Run load-case-framework first.');
+    }
+    if (!documentId) return [...this.frameworks.values()];
+    const framework = this.frameworks.get(documentId);
+    if (!framework) {
+      throw new Error(`CASE framework ${documentId} is not loaded`);
+    }
+    return [framework];
+  }
+
+  private resolve(framework: LoadedFramework, identifier: string): CaseNode | undefined {
+    if (identifier === framework.document.identifier) return this.documentNode(framework.document);
+    const item = framework.items.get(identifier);
+    return item ? this.itemNode(item, framework.document.identifier) : undefined;
+  }
+
+  private lookup(link: CaseLinkURI): CaseNode | undefined {
+    for (const framework of this.frameworks.values()) {
+      const node = this.resolve(framework, link.identifier);
+      if (node) return node;
+      const item = [...framework.items.values()].find(candidate => candidate.uri === link.uri);
+      if (item) return this.itemNode(item, framework.document.identifier);
+    }
+    return undefined;
+  }
+
+  private documentNode(document: CFDocument): CaseNode {
+    return { identifier: document.identifier, uri: document.uri, kind: 'CFDocument', documentId: document.identifier, statement: document.title };
+  }
+
+  private itemNode(item: CFItem, documentId: string): CaseNode {
+    return {
+      identifier: item.identifier,
+      uri: item.uri,
+      kind: 'CFItem',
+      documentId,
+      ...(item.humanCodingScheme && { humanCodingScheme: item.humanCodingScheme }),
+      statement: item.fullStatement,
+      ...(item.CFItemType && { itemType: item.CFItemType }),
+    };
+  }
+
+  private summarize(framework: LoadedFramework): CaseFrameworkSummary {
+    const associationTypes: Record<string, number> = {};
+    for (const association of framework.associations) {
+      associationTypes[association.associationType] = (associationTypes[association.associationType] || 0) + 1;
+    }
+    return {
+      documentId: framework.document.identifier,
+      title: framework.document.title,
+      uri: framework.document.uri,
+      items: framework.items.size,
+      associations: framework.associations.length,
+      topLevelItems: (framework.children.get(framework.document.identifier) || []).length,
+      associationTypes,
+    };
+  }
+}
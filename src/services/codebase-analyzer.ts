@@ -393,13 +393,14 @@ await caliperClient.sendEvent(event);`
         reason: 'Detected learning path or adaptive learning features',
         priority: 'medium',
         dataModels: ['LearningObjective', 'MasteryMeasurement', 'LearningPath'],
-        endpoints: ['/objectives', '/mastery', '/paths', '/recommendations'],
+        endpoints: ['/powerpath/syllabus/{courseSourcedId}', '/powerpath/lessonPlans/getCourseProgress/{courseId}/student/{studentId}'],
         environmentVars: ['TIMEBACK_POWERPATH_BASE_URL', 'POWERPATH_CLIENT_ID'],
         implementationSteps: [
           'Define learning objectives',
           'Implement mastery tracking',
           'Create adaptive learning paths',
-          'Generate personalized recommendations'
+          'Generate personalized recommendations',
+          'Check placement and next lessons with plan-powerpath-path, and path changes with simulate-powerpath-path'
         ],
         codeExamples: [
           `// Update mastery level
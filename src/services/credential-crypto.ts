@@ -0,0 +1,247 @@
+import crypto, { KeyObject } from 'crypto';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+// Multicodec prefix of an Ed25519 public key, as used by did:key and publicKeyMultibase
+const ED25519_PUB_PREFIX = Buffer.from([0xed, 0x01]);
+
+export type JwsAlgorithm = 'EdDSA' | 'ES256' | 'RS256';
+
+/** A key supplied by the caller, addressed by the verification method id or JWT kid that uses it. */
+export interface CredentialKey {
+  id: string;
+  controller?: string;
+  publicKeyMultibase?: string;
+  publicKeyBase58?: string;
+  publicKeyJwk?: JsonWebKey;
+  publicKeyPem?: string;
+}
+
+export interface DidDocument {
+  id: string;
+  verificationMethod?: CredentialKey[];
+  assertionMethod?: (string | CredentialKey)[];
+  [property: string]: any;
+}
+
+export interface ResolvedKey {
+  id: string;
+  controller?: string;
+  key: KeyObject;
+}
+
+export function base58Encode(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+  return '1'.repeat(zeros) + digits.reverse().map(digit => BASE58_ALPHABET[digit]).join('');
+}
+
+export function base58Decode(value: string): Buffer {
+  let zeros = 0;
+  while (zeros < value.length && value[zeros] === '1') zeros++;
+
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry === -1) {
+      throw new Error(`Invalid base58 character ${char}`);
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  return Buffer.concat([Buffer.alloc(zeros), Buffer.from(bytes.reverse())]);
+}
+
+/** Decode a base58btc ("z"-prefixed) multibase string. */
+export function multibaseDecode(value: string): Buffer {
+  if (!value.startsWith('z')) {
+    throw new Error(`Only base58btc multibase values are supported (got prefix ${value[0] || 'nothing'})`);
+  }
+  return base58Decode(value.slice(1));
+}
+
+export function multibaseEncode(bytes: Uint8Array): string {
+  return `z${base58Encode(bytes)}`;
+}
+
+export function base64UrlEncode(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+export function base64UrlDecode(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+/** JSON Canonicalization Scheme (RFC 8785): sorted keys, no whitespace, ECMAScript number formatting. */
+export function canonicalize(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error('Cannot canonicalize a non-finite number');
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+  const entries = Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+export function sha256(value: string | Buffer): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+export function ed25519KeyFromMultibase(value: string): KeyObject {
+  const bytes = multibaseDecode(value);
+  const raw = bytes.length === 34 && bytes.subarray(0, 2).equals(ED25519_PUB_PREFIX) ? bytes.subarray(2) : bytes;
+  if (raw.length !== 32) {
+    throw new Error('publicKeyMultibase is not an Ed25519 public key');
+  }
+  return crypto.createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: base64UrlEncode(raw) }, format: 'jwk' });
+}
+
+/** The publicKeyMultibase (and did:key suffix) of an Ed25519 public key. */
+export function ed25519Multibase(key: KeyObject): string {
+  const jwk = key.export({ format: 'jwk' });
+  if (jwk.crv !== 'Ed25519' || !jwk.x) {
+    throw new Error('Key is not an Ed25519 key');
+  }
+  return multibaseEncode(Buffer.concat([ED25519_PUB_PREFIX, base64UrlDecode(jwk.x)]));
+}
+
+export function importPublicKey(source: CredentialKey): KeyObject {
+  if (source.publicKeyMultibase) return ed25519KeyFromMultibase(source.publicKeyMultibase);
+  if (source.publicKeyBase58) return ed25519KeyFromMultibase(`z${source.publicKeyBase58}`);
+  if (source.publicKeyJwk) return crypto.createPublicKey({ key: source.publicKeyJwk as crypto.JsonWebKey, format: 'jwk' });
+  if (source.publicKeyPem) return crypto.createPublicKey(source.publicKeyPem);
+  throw new Error(`Key ${source.id} has no publicKeyMultibase, publicKeyBase58, publicKeyJwk or publicKeyPem`);
+}
+
+export function jwsAlgorithm(key: KeyObject): JwsAlgorithm {
+  switch (key.asymmetricKeyType) {
+    case 'ed25519':
+      return 'EdDSA';
+    case 'ec':
+      if (key.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+        throw new Error(`Only P-256 EC keys are supported (got ${key.asymmetricKeyDetails?.namedCurve})`);
+      }
+      return 'ES256';
+    case 'rsa':
+      return 'RS256';
+    default:
+      throw new Error(`Unsupported key type ${key.asymmetricKeyType}`);
+  }
+}
+
+export function signBytes(algorithm: JwsAlgorithm, data: Buffer, privateKey: KeyObject): Buffer {
+  switch (algorithm) {
+    case 'EdDSA':
+      return crypto.sign(null, data, privateKey);
+    case 'ES256':
+      return crypto.sign('sha256', data, { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    case 'RS256':
+      return crypto.sign('sha256', data, privateKey);
+  }
+}
+
+export function verifyBytes(algorithm: string, data: Buffer, signature: Buffer, publicKey: KeyObject): boolean {
+  switch (algorithm) {
+    case 'EdDSA':
+      return crypto.verify(null, data, publicKey, signature);
+    case 'ES256':
+      return crypto.verify('sha256', data, { key: publicKey, dsaEncoding: 'ieee-p1363' }, signature);
+    case 'RS256':
+      return crypto.verify('sha256', data, publicKey, signature);
+    default:
+      throw new Error(`Unsupported JWS algorithm ${algorithm}`);
+  }
+}
+
+export interface DecodedJws {
+  header: Record<string, any>;
+  payload: Record<string, any>;
+  signingInput: Buffer;
+  signature: Buffer;
+}
+
+export function decodeJws(token: string): DecodedJws {
+  const parts = token.trim().split('.');
+  if (parts.length !== 3) {
+    throw new Error('A compact JWS has three dot-separated parts');
+  }
+  try {
+    return {
+      header: JSON.parse(base64UrlDecode(parts[0]).toString('utf-8')),
+      payload: JSON.parse(base64UrlDecode(parts[1]).toString('utf-8')),
+      signingInput: Buffer.from(`${parts[0]}.${parts[1]}`),
+      signature: base64UrlDecode(parts[2]),
+    };
+  } catch {
+    throw new Error('JWS header or payload is not base64url-encoded JSON');
+  }
+}
+
+export function signJws(header: Record<string, any>, payload: Record<string, any>, privateKey: KeyObject): string {
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  return `${signingInput}.${base64UrlEncode(signBytes(header.alg, Buffer.from(signingInput), privateKey))}`;
+}
+
+/** The data an eddsa-jcs-2022 proof signs: hash(canonical proof options) followed by hash(canonical document). */
+export function jcsProofHash(document: Record<string, any>, proof: Record<string, any>): Buffer {
+  const { proof: _proof, ...unsecured } = document;
+  const { proofValue: _proofValue, ...options } = proof;
+  const proofConfig = { ...options, '@context': options['@context'] ?? unsecured['@context'] };
+  return Buffer.concat([sha256(canonicalize(proofConfig)), sha256(canonicalize(unsecured))]);
+}
+
+/** Resolves verification methods against caller-supplied keys and DID documents; did:key is decoded locally. */
+export class KeyResolver {
+  constructor(private keys: CredentialKey[] = [], private didDocuments: DidDocument[] = []) {}
+
+  resolve(verificationMethod: string): ResolvedKey {
+    const key = this.keys.find(candidate => candidate.id === verificationMethod);
+    if (key) return { id: key.id, controller: key.controller, key: importPublicKey(key) };
+
+    const [did, fragment] = verificationMethod.split('#');
+    const document = this.didDocuments.find(candidate => candidate.id === did);
+    if (document) {
+      const methods = [
+        ...(document.verificationMethod || []),
+        ...(document.assertionMethod || []).filter((method): method is CredentialKey => typeof method === 'object'),
+      ];
+      const method = methods.find(candidate =>
+        candidate.id === verificationMethod || (fragment !== undefined && candidate.id === `#${fragment}`) || (fragment === undefined && methods.length === 1));
+      if (method) return { id: verificationMethod, controller: method.controller || did, key: importPublicKey(method) };
+    }
+
+    if (did.startsWith('did:key:')) {
+      const multibase = did.slice('did:key:'.length);
+      return { id: verificationMethod, controller: did, key: ed25519KeyFromMultibase(multibase) };
+    }
+
+    throw new Error(`No key or DID document was supplied for ${verificationMethod}`);
+  }
+}
@@ -0,0 +1,298 @@
+import crypto, { KeyObject } from 'crypto';
+import * as fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { SchemaValidationError } from './schema-validator.js';
+import { CLR_CONTEXT, OB_CONTEXT, VC_V2_CONTEXT } from './credential-schemas.js';
+import { CredentialKind, CredentialVerificationResult, CredentialVerifier } from './credential-verifier.js';
+import { CredentialKey, ed25519Multibase, jcsProofHash, jwsAlgorithm, multibaseEncode, sha256, signBytes, signJws } from './credential-crypto.js';
+
+export type CredentialEncoding = 'data-integrity' | 'jwt';
+
+export interface CredentialIssuerSettings {
+  id?: string;
+  name?: string;
+  url?: string;
+  signingKeyPath?: string;
+  verificationMethod?: string;
+}
+
+/** A recipient URI (DID, URL, urn:...) or a plain identifier such as an email address, hashed by default. */
+export interface RecipientInput {
+  id?: string;
+  identifier?: string;
+  identityType?: string;
+  hashed?: boolean;
+  salt?: string;
+}
+
+interface CredentialInput {
+  recipient: RecipientInput | string;
+  encoding?: CredentialEncoding;
+  id?: string;
+  name?: string;
+  description?: string;
+  validFrom?: string;
+  validUntil?: string;
+}
+
+export interface BadgeIssueInput extends CredentialInput {
+  achievement: Record<string, any>;
+  results?: Record<string, any>[];
+}
+
+export interface ClrIssueInput extends CredentialInput {
+  name: string;
+  achievements: Record<string, any>[];
+  // Credentials issued earlier (here or elsewhere) to bundle as they are
+  credentials?: (Record<string, any> | string)[];
+  associations?: { associationType: string; sourceId: string; targetId: string }[];
+}
+
+export interface IssuedCredential {
+  kind: CredentialKind;
+  encoding: CredentialEncoding;
+  id: string;
+  credential: Record<string, any> | string;
+  verificationMethod: CredentialKey;
+  verification: CredentialVerificationResult;
+}
+
+interface Signer {
+  key: KeyObject;
+  issuer: Record<string, any>;
+  verificationMethod: CredentialKey;
+}
+
+// Checks an issued credential must pass; nested credentials from other issuers may not be verifiable with our key
+const REQUIRED_CHECKS = ['format', 'context', 'schema', 'validity', 'achievement', 'proof'];
+
+export class CredentialIssuer {
+  constructor(
+    private verifier = new CredentialVerifier(),
+    private settings: CredentialIssuerSettings = config.credentialIssuer
+  ) {}
+
+  async issueBadge(input: BadgeIssueInput): Promise<IssuedCredential> {
+    const signer = await this.loadSigner();
+    const credential = this.buildBadge(input, signer, this.identify(input.recipient));
+    return this.issue(credential, 'OpenBadgeCredential', input.encoding || 'data-integrity', signer);
+  }
+
+  /** Issues one OpenBadgeCredential per achievement and bundles them, with any supplied credentials, into a signed ClrCredential. */
+  async issueClr(input: ClrIssueInput): Promise<IssuedCredential> {
+    if (!input.achievements.length && !input.credentials?.length) {
+      throw new Error('A CLR needs at least one achievement or credential');
+    }
+
+    const signer = await this.loadSigner();
+    const encoding = input.encoding || 'data-integrity';
+    const identity = this.identify(input.recipient);
+    const badges = input.achievements.map(achievement => this.issue(
+      this.buildBadge({ achievement, recipient: input.recipient, validFrom: input.validFrom, validUntil: input.validUntil }, signer, identity),
+      'OpenBadgeCredential',
+      encoding,
+      signer
+    ));
+    const bundled = (input.credentials || []).map(credential => this.verifier.parse(credential));
+
+    const clr: Record<string, any> = {
+      '@context': [VC_V2_CONTEXT, CLR_CONTEXT, OB_CONTEXT],
+      id: input.id || `urn:uuid:${crypto.randomUUID()}`,
+      type: ['VerifiableCredential', 'ClrCredential'],
+      name: input.name,
+      ...(input.description && { description: input.description }),
+      issuer: signer.issuer,
+      validFrom: input.validFrom || this.timestamp(),
+      ...(input.validUntil && { validUntil: input.validUntil }),
+      credentialSubject: {
+        type: ['ClrSubject'],
+        ...identity,
+        achievement: [
+          ...input.achievements.map(achievement => this.normalizeAchievement(achievement)),
+          ...bundled.map(parsed => parsed.credential.credentialSubject?.achievement).filter(Boolean),
+        ],
+        verifiableCredential: [...badges.map(badge => badge.credential), ...(input.credentials || [])],
+        ...(input.associations?.length && {
+          association: input.associations.map(association => ({ type: 'Association', ...association })),
+        }),
+      },
+    };
+
+    return this.issue(clr, 'ClrCredential', encoding, signer);
+  }
+
+  async save(issued: IssuedCredential, filePath: string): Promise<string> {
+    const resolved = path.resolve(filePath);
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+    await fs.writeFile(resolved, typeof issued.credential === 'string' ? `${issued.credential}\n` : `${JSON.stringify(issued.credential, null, 2)}\n`);
+    return resolved;
+  }
+
+  private issue(credential: Record<string, any>, kind: CredentialKind, encoding: CredentialEncoding, signer: Signer): IssuedCredential {
+    const violations = this.verifier.validate(credential, kind);
+    if (violations.length) {
+      throw new SchemaValidationError(`${kind} does not match its schema`, violations);
+    }
+
+    const signed = encoding === 'jwt' ? this.signJwt(credential, signer) : this.signDataIntegrity(credential, signer);
+    // Checked as of validFrom so credentials dated in the future can still be issued
+    const verification = this.verifier.verify(signed, { keys: [signer.verificationMethod], now: new Date(credential.validFrom) });
+    const failures = verification.checks.filter(check =>
+      REQUIRED_CHECKS.includes(check.check) && (check.status === 'failed' || check.status === 'unsupported'));
+    if (failures.length) {
+      throw new Error(`Issued ${kind} failed verification: ${failures.map(check => `${check.check}: ${check.message}`).join('; ')}`);
+    }
+
+    logger.info(`Issued ${kind}`, { id: credential.id, encoding, verificationMethod: signer.verificationMethod.id });
+    return { kind, encoding, id: credential.id, credential: signed, verificationMethod: signer.verificationMethod, verification };
+  }
+
+  private buildBadge(input: BadgeIssueInput, signer: Signer, identity: Record<string, any>): Record<string, any> {
+    const achievement = this.normalizeAchievement(input.achievement);
+    return {
+      '@context': [VC_V2_CONTEXT, OB_CONTEXT],
+      id: input.id || `urn:uuid:${crypto.randomUUID()}`,
+      type: ['VerifiableCredential', 'OpenBadgeCredential'],
+      name: input.name || achievement.name,
+      ...(input.description && { description: input.description }),
+      issuer: signer.issuer,
+      validFrom: input.validFrom || this.timestamp(),
+      ...(input.validUntil && { validUntil: input.validUntil }),
+      credentialSubject: {
+        type: ['AchievementSubject'],
+        ...identity,
+        achievement,
+        ...(input.results?.length && {
+          result: input.results.map(result => ({ type: ['Result'], ...result })),
+        }),
+      },
+    };
+  }
+
+  private normalizeAchievement(definition: Record<string, any>): Record<string, any> {
+    const types = ([] as string[]).concat(definition.type ?? []);
+    return {
+      ...definition,
+      type: types.includes('Achievement') ? definition.type : ['Achievement', ...types],
+      ...(typeof definition.criteria === 'string' && { criteria: { narrative: definition.criteria } }),
+    };
+  }
+
+  private identify(recipient: RecipientInput | string): Record<string, any> {
+    const input = typeof recipient === 'string'
+      ? /^[a-z][a-z0-9+.-]*:/i.test(recipient) ? { id: recipient } : { identifier: recipient }
+      : recipient;
+
+    if (input.id) {
+      return { id: input.id };
+    }
+    if (!input.identifier) {
+      throw new Error('Recipient needs an id (a URI such as a DID) or an identifier such as an email address');
+    }
+
+    const identityType = input.identityType || (input.identifier.includes('@') ? 'emailAddress' : 'identifier');
+    if (input.hashed === false) {
+      return { identifier: [{ type: 'IdentityObject', hashed: false, identityHash: input.identifier, identityType }] };
+    }
+
+    // Open Badges hashes are "sha256$" + hex(sha256(identity + salt)); email addresses are compared lower-cased
+    const salt = input.salt ?? crypto.randomBytes(8).toString('hex');
+    const identity = identityType === 'emailAddress' ? input.identifier.trim().toLowerCase() : input.identifier;
+    return {
+      identifier: [{
+        type: 'IdentityObject',
+        hashed: true,
+        identityHash: `sha256$${sha256(identity + salt).toString('hex')}`,
+        identityType,
+        salt,
+      }],
+    };
+  }
+
+  private signDataIntegrity(credential: Record<string, any>, signer: Signer): Record<string, any> {
+    if (signer.key.asymmetricKeyType !== 'ed25519') {
+      throw new Error('DataIntegrityProof (eddsa-jcs-2022) needs an Ed25519 signing key; use the jwt encoding for P-256 or RSA keys');
+    }
+
+    const proof: Record<string, any> = {
+      type: 'DataIntegrityProof',
+      cryptosuite: 'eddsa-jcs-2022',
+      created: this.timestamp(),
+      verificationMethod: signer.verificationMethod.id,
+      proofPurpose: 'assertionMethod',
+    };
+    proof.proofValue = multibaseEncode(signBytes('EdDSA', jcsProofHash(credential, proof), signer.key));
+    return { ...credential, proof };
+  }
+
+  private signJwt(credential: Record<string, any>, signer: Signer): string {
+    const subject = credential.credentialSubject.id;
+    return signJws(
+      { alg: jwsAlgorithm(signer.key), typ: 'JWT', kid: signer.verificationMethod.id },
+      {
+        ...credential,
+        iss: signer.issuer.id,
+        jti: credential.id,
+        ...(subject && { sub: subject }),
+        nbf: Math.floor(new Date(credential.validFrom).getTime() / 1000),
+        ...(credential.validUntil && { exp: Math.floor(new Date(credential.validUntil).getTime() / 1000) }),
+      },
+      signer.key
+    );
+  }
+
+  private async loadSigner(): Promise<Signer> {
+    if (!this.settings.signingKeyPath) {
+      throw new Error('No signing key is configured; set CREDENTIAL_SIGNING_KEY_PATH to a PKCS#8 PEM or private JWK file');
+    }
+
+    const text = (await fs.readFile(this.settings.signingKeyPath, 'utf-8')).trim();
+    let key: KeyObject;
+    try {
+      key = text.startsWith('{')
+        ? crypto.createPrivateKey({ key: JSON.parse(text), format: 'jwk' })
+        : crypto.createPrivateKey(text);
+    } catch (error) {
+      throw new Error(`Signing key ${this.settings.signingKeyPath} is not a private key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    const publicKey = crypto.createPublicKey(key);
+
+    let id = this.settings.id;
+    let verificationMethod = this.settings.verificationMethod;
+    if (!id) {
+      if (key.asymmetricKeyType !== 'ed25519') {
+        throw new Error('CREDENTIAL_ISSUER_ID is required unless the signing key is an Ed25519 key');
+      }
+      id = `did:key:${ed25519Multibase(publicKey)}`;
+    }
+    if (!verificationMethod) {
+      if (!id.startsWith('did:key:')) {
+        throw new Error('CREDENTIAL_VERIFICATION_METHOD is required when the issuer is not a did:key');
+      }
+      verificationMethod = `${id}#${id.slice('did:key:'.length)}`;
+    }
+
+    return {
+      key,
+      issuer: {
+        id,
+        type: ['Profile'],
+        ...(this.settings.name && { name: this.settings.name }),
+        ...(this.settings.url && { url: this.settings.url }),
+      },
+      verificationMethod: {
+        id: verificationMethod,
+        controller: id,
+        ...(key.asymmetricKeyType === 'ed25519'
+          ? { publicKeyMultibase: ed25519Multibase(publicKey) }
+          : { publicKeyJwk: publicKey.export({ format: 'jwk' }) as JsonWebKey }),
+      },
+    };
+  }
+
+  private timestamp(): string {
+    return new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+}
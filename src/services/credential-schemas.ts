@@ -0,0 +1,218 @@
+import { OpenAPIV3 } from 'openapi-types';
+
+// Subsets of the 1EdTech Open Badges 3.0 and CLR 2.0 JSON schemas, expressed in the dialect SchemaValidator understands
+
+export const VC_V1_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+export const VC_V2_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+export const OB_CONTEXT_PREFIX = 'https://purl.imsglobal.org/spec/ob/v3p0/context';
+export const CLR_CONTEXT_PREFIX = 'https://purl.imsglobal.org/spec/clr/v2p0/context';
+export const OB_CONTEXT = `${OB_CONTEXT_PREFIX}-3.0.3.json`;
+export const CLR_CONTEXT = `${CLR_CONTEXT_PREFIX}-2.0.1.json`;
+
+const uri: OpenAPIV3.SchemaObject = { type: 'string', format: 'uri' };
+const dateTime: OpenAPIV3.SchemaObject = { type: 'string', format: 'date-time' };
+
+const oneOrMany = (schema: OpenAPIV3.SchemaObject): OpenAPIV3.SchemaObject => ({
+  anyOf: [schema, { type: 'array', minItems: 1, items: schema }],
+});
+
+const typeList: OpenAPIV3.SchemaObject = oneOrMany({ type: 'string' });
+
+const image: OpenAPIV3.SchemaObject = {
+  anyOf: [uri, { type: 'object', required: ['id', 'type'], properties: { id: uri, type: { type: 'string', enum: ['Image'] }, caption: { type: 'string' } } }],
+};
+
+const profile: OpenAPIV3.SchemaObject = {
+  anyOf: [
+    uri,
+    {
+      type: 'object',
+      required: ['id', 'type'],
+      properties: {
+        id: uri,
+        type: typeList,
+        name: { type: 'string' },
+        url: uri,
+        email: { type: 'string', format: 'email' },
+        image,
+      },
+    },
+  ],
+};
+
+const alignment: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['type', 'targetName', 'targetUrl'],
+  properties: {
+    type: typeList,
+    targetName: { type: 'string' },
+    targetUrl: uri,
+    targetCode: { type: 'string' },
+    targetFramework: { type: 'string' },
+    targetType: { type: 'string' },
+  },
+};
+
+const resultDescription: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['id', 'type', 'name', 'resultType'],
+  properties: {
+    id: uri,
+    type: typeList,
+    name: { type: 'string' },
+    resultType: { type: 'string' },
+    allowedValue: { type: 'array', items: { type: 'string' } },
+    requiredValue: { type: 'string' },
+    requiredLevel: uri,
+    rubricCriterionLevel: {
+      type: 'array',
+      items: { type: 'object', required: ['id', 'type', 'name'], properties: { id: uri, type: typeList, name: { type: 'string' } } },
+    },
+    alignment: { type: 'array', items: alignment },
+  },
+};
+
+export const ACHIEVEMENT_SCHEMA: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['id', 'type', 'name', 'description', 'criteria'],
+  properties: {
+    id: uri,
+    type: typeList,
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    criteria: {
+      type: 'object',
+      anyOf: [{ required: ['id'] }, { required: ['narrative'] }],
+      properties: { id: uri, narrative: { type: 'string' } },
+    },
+    achievementType: { type: 'string' },
+    creator: profile,
+    humanCode: { type: 'string' },
+    image,
+    alignment: { type: 'array', items: alignment },
+    resultDescription: { type: 'array', items: resultDescription },
+    tag: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const result: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['type'],
+  properties: {
+    type: typeList,
+    resultDescription: uri,
+    value: { type: 'string' },
+    achievedLevel: uri,
+    status: { type: 'string', enum: ['Completed', 'Enrolled', 'Failed', 'InProgress', 'OnHold', 'Provisional', 'Withdrew'] },
+    alignment: { type: 'array', items: alignment },
+  },
+};
+
+const identityObject: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['type', 'hashed', 'identityHash', 'identityType'],
+  properties: {
+    type: { type: 'string', enum: ['IdentityObject'] },
+    hashed: { type: 'boolean' },
+    identityHash: { type: 'string' },
+    identityType: { type: 'string' },
+    salt: { type: 'string' },
+  },
+};
+
+const subjectIdentity: OpenAPIV3.SchemaObject[] = [{ required: ['id'] }, { required: ['identifier'] }];
+
+const achievementSubject: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['type', 'achievement'],
+  anyOf: subjectIdentity,
+  properties: {
+    id: uri,
+    type: typeList,
+    achievement: ACHIEVEMENT_SCHEMA,
+    identifier: { type: 'array', items: identityObject },
+    result: { type: 'array', items: result },
+    activityStartDate: dateTime,
+    activityEndDate: dateTime,
+    creditsEarned: { type: 'number' },
+  },
+};
+
+const proof: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['type'],
+  properties: {
+    type: { type: 'string' },
+    cryptosuite: { type: 'string' },
+    created: dateTime,
+    verificationMethod: uri,
+    proofPurpose: { type: 'string' },
+    proofValue: { type: 'string' },
+  },
+};
+
+const credentialProperties: Record<string, OpenAPIV3.SchemaObject> = {
+  '@context': { type: 'array', minItems: 2, items: { anyOf: [{ type: 'string' }, { type: 'object' }] } },
+  id: uri,
+  type: { type: 'array', minItems: 2, items: { type: 'string' } },
+  name: { type: 'string' },
+  description: { type: 'string' },
+  issuer: profile,
+  validFrom: dateTime,
+  validUntil: dateTime,
+  issuanceDate: dateTime,
+  expirationDate: dateTime,
+  awardedDate: dateTime,
+  proof: oneOrMany(proof),
+  credentialSchema: {
+    type: 'array',
+    items: { type: 'object', required: ['id', 'type'], properties: { id: uri, type: { type: 'string' } } },
+  },
+  credentialStatus: { type: 'object', required: ['id', 'type'], properties: { id: uri, type: { type: 'string' } } },
+};
+
+// VC 2.0 credentials carry validFrom, VC 1.1 credentials issuanceDate
+const issuedAt: OpenAPIV3.SchemaObject[] = [{ required: ['validFrom'] }, { required: ['issuanceDate'] }];
+
+export const ACHIEVEMENT_CREDENTIAL_SCHEMA: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['@context', 'id', 'type', 'name', 'issuer', 'credentialSubject'],
+  anyOf: issuedAt,
+  properties: { ...credentialProperties, credentialSubject: achievementSubject },
+};
+
+const association: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['type', 'associationType', 'sourceId', 'targetId'],
+  properties: {
+    type: { type: 'string', enum: ['Association'] },
+    associationType: {
+      type: 'string',
+      enum: ['exactMatchOf', 'isChildOf', 'isParentOf', 'isPartOf', 'isPeerOf', 'isRelatedTo', 'precedes', 'replacedBy'],
+    },
+    sourceId: uri,
+    targetId: uri,
+  },
+};
+
+const clrSubject: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['type', 'verifiableCredential'],
+  anyOf: subjectIdentity,
+  properties: {
+    id: uri,
+    type: typeList,
+    identifier: { type: 'array', items: identityObject },
+    achievement: { type: 'array', items: ACHIEVEMENT_SCHEMA },
+    // Nested credentials may be JSON-LD objects or compact JWTs; each is validated on its own
+    verifiableCredential: { type: 'array', minItems: 1, items: { anyOf: [{ type: 'object' }, { type: 'string' }] } },
+    association: { type: 'array', items: association },
+  },
+};
+
+export const CLR_CREDENTIAL_SCHEMA: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['@context', 'id', 'type', 'name', 'issuer', 'credentialSubject'],
+  anyOf: issuedAt,
+  properties: { ...credentialProperties, credentialSubject: clrSubject },
+};
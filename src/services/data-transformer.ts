@@ -0,0 +1,262 @@
+import { DataModelMapping, TransformIssue, TransformResult, TransformRule, TransformationSpec, TransformValueType } from '../types/index.js';
+
+interface PathSegment {
+  key: string;
+  each: boolean;
+  index?: number;
+}
+
+// Key in valueMap and lookup tables that matches any value without its own entry
+const FALLBACK_KEY = '*';
+
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, yes: true, no: false, '1': true, '0': false };
+
+class RuleError extends Error {}
+
+// Keys that would reach Object.prototype instead of the record
+const UNSAFE_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+function parsePath(path: string): PathSegment[] {
+  return path.split('.').map(part => {
+    const match = part.match(/^([^[\]]+)(?:\[(\d*)\])?$/);
+    if (!match) {
+      throw new Error(`Invalid path: ${path}`);
+    }
+    if (UNSAFE_KEYS.has(match[1])) {
+      throw new Error(`Invalid path: ${path} (${match[1]} is not allowed)`);
+    }
+    return {
+      key: match[1],
+      each: match[2] === '',
+      index: match[2] ? Number(match[2]) : undefined,
+    };
+  });
+}
+
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Applies declarative transformation specs to JSON payloads. Paths are dotted (`name.given`),
+ * `[]` walks every element of an array (`roles[].role`) and `[n]` picks one (`roles[0].role`).
+ */
+export class DataTransformer {
+  /** Turn the field pairs suggested by the mapping engine into a rename-only spec. */
+  static fromMapping(mapping: DataModelMapping): TransformationSpec {
+    return {
+      name: `${mapping.sourceSchema} → ${mapping.targetSchema}`,
+      sourceApi: mapping.sourceApi,
+      sourceSchema: mapping.sourceSchema,
+      targetApi: mapping.targetApi,
+      targetSchema: mapping.targetSchema,
+      rules: Object.entries(mapping.fieldMappings).map(([source, target]) => ({ source, target })),
+    };
+  }
+
+  /** Transform one record, or each record of an array. Rule failures are collected rather than thrown. */
+  transform(spec: TransformationSpec, input: any): TransformResult {
+    this.checkSpec(spec);
+
+    const errors: TransformIssue[] = [];
+    if (Array.isArray(input)) {
+      const output = input.map((record, index) => this.transformRecord(spec, record, errors, index));
+      return { output, errors };
+    }
+
+    return { output: this.transformRecord(spec, input, errors), errors };
+  }
+
+  private checkSpec(spec: TransformationSpec): void {
+    for (const rule of spec.rules) {
+      parsePath(rule.target);
+      for (const source of this.sources(rule)) {
+        parsePath(source);
+      }
+      if (rule.lookup && !spec.lookups?.[rule.lookup]) {
+        throw new Error(`Unknown lookup table ${rule.lookup} in rule for ${rule.target}`);
+      }
+      if (rule.source === undefined && rule.value === undefined && rule.default === undefined) {
+        throw new Error(`Rule for ${rule.target} needs a source, value or default`);
+      }
+    }
+  }
+
+  private transformRecord(spec: TransformationSpec, record: any, errors: TransformIssue[], index?: number): Record<string, any> {
+    const output: Record<string, any> = {};
+
+    for (const rule of spec.rules) {
+      try {
+        let value = this.applyRule(spec, rule, record);
+        if (isEmpty(value) && rule.default !== undefined) {
+          value = structuredClone(rule.default);
+        }
+        if (isEmpty(value)) {
+          if (rule.required) {
+            throw new RuleError(`No value for required field ${rule.target}`);
+          }
+          continue;
+        }
+        this.write(output, parsePath(rule.target), value);
+      } catch (error) {
+        if (!(error instanceof RuleError)) throw error;
+        errors.push({ ...(index !== undefined && { record: index }), target: rule.target, message: error.message });
+      }
+    }
+
+    return output;
+  }
+
+  private applyRule(spec: TransformationSpec, rule: TransformRule, record: any): any {
+    if (rule.value !== undefined) {
+      return structuredClone(rule.value);
+    }
+
+    const values = this.sources(rule).map(source => this.read(record, parsePath(source)));
+    let value: any;
+    if (rule.join !== undefined) {
+      value = values.flat(Infinity).filter(part => !isEmpty(part)).join(rule.join);
+    } else {
+      // Several sources without a separator fall back to the first that has a value
+      value = values.find(candidate => !isEmpty(candidate));
+    }
+
+    if (rule.split !== undefined && typeof value === 'string') {
+      const parts = value.split(rule.split).map(part => part.trim()).filter(Boolean);
+      value = rule.index !== undefined ? parts.at(rule.index) : parts;
+    }
+
+    if (rule.flatten && Array.isArray(value)) {
+      value = value.flat(Infinity).filter(item => item !== undefined);
+    }
+
+    if (rule.valueMap) {
+      value = this.mapEach(value, item => this.translate(rule.valueMap!, item, `value map for ${rule.target}`));
+    }
+
+    if (rule.lookup) {
+      value = this.mapEach(value, item => this.translate(spec.lookups![rule.lookup!], item, `lookup table ${rule.lookup}`));
+    }
+
+    if (rule.type && !isEmpty(value)) {
+      value = rule.type === 'array'
+        ? (Array.isArray(value) ? value : [value])
+        : this.mapEach(value, item => this.coerce(item, rule.type!));
+    }
+
+    return value;
+  }
+
+  private sources(rule: TransformRule): string[] {
+    if (rule.source === undefined) return [];
+    return Array.isArray(rule.source) ? rule.source : [rule.source];
+  }
+
+  private read(value: any, segments: PathSegment[]): any {
+    if (segments.length === 0 || value === undefined || value === null) {
+      return segments.length === 0 ? value : undefined;
+    }
+
+    const [segment, ...rest] = segments;
+    const child = value[segment.key];
+    if (segment.each) {
+      return Array.isArray(child) ? child.map(item => this.read(item, rest)) : undefined;
+    }
+    if (segment.index !== undefined) {
+      return Array.isArray(child) ? this.read(child[segment.index], rest) : undefined;
+    }
+    return this.read(child, rest);
+  }
+
+  private write(target: Record<string, any>, segments: PathSegment[], value: any): void {
+    const [segment, ...rest] = segments;
+
+    if (segment.each) {
+      const items: any[] = Array.isArray(target[segment.key]) ? target[segment.key] : (target[segment.key] = []);
+      if (rest.length === 0) {
+        target[segment.key] = Array.isArray(value) ? value : [value];
+        return;
+      }
+      // An array spreads across elements by position; a single value is written into every element
+      const length = Array.isArray(value) ? value.length : items.length;
+      for (let i = 0; i < length; i++) {
+        const item = Array.isArray(value) ? value[i] : value;
+        if (item === undefined) continue;
+        items[i] ??= {};
+        this.write(items[i], rest, item);
+      }
+      return;
+    }
+
+    if (segment.index !== undefined) {
+      const items: any[] = Array.isArray(target[segment.key]) ? target[segment.key] : (target[segment.key] = []);
+      if (rest.length === 0) {
+        items[segment.index] = value;
+      } else {
+        items[segment.index] ??= {};
+        this.write(items[segment.index], rest, value);
+      }
+      return;
+    }
+
+    if (rest.length === 0) {
+      target[segment.key] = value;
+      return;
+    }
+    if (typeof target[segment.key] !== 'object' || target[segment.key] === null) {
+      target[segment.key] = {};
+    }
+    this.write(target[segment.key], rest, value);
+  }
+
+  private mapEach(value: any, fn: (item: any) => any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.mapEach(item, fn));
+    }
+    return isEmpty(value) ? value : fn(value);
+  }
+
+  private translate(table: Record<string, any>, value: any, label: string): any {
+    const key = String(value);
+    if (Object.prototype.hasOwnProperty.call(table, key)) {
+      return table[key];
+    }
+    if (Object.prototype.hasOwnProperty.call(table, FALLBACK_KEY)) {
+      return table[FALLBACK_KEY];
+    }
+    throw new RuleError(`No entry for ${JSON.stringify(value)} in ${label}`);
+  }
+
+  private coerce(value: any, type: TransformValueType): any {
+    switch (type) {
+      case 'string':
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      case 'number':
+      case 'integer': {
+        const number = typeof value === 'string' ? Number(value.trim()) : Number(value);
+        if (typeof value === 'boolean' || !Number.isFinite(number) || (type === 'integer' && !Number.isInteger(number))) {
+          throw new RuleError(`Cannot convert ${JSON.stringify(value)} to ${type}`);
+        }
+        return number;
+      }
+      case 'boolean': {
+        if (typeof value === 'boolean') return value;
+        const result = BOOLEAN_VALUES[String(value).trim().toLowerCase()];
+        if (result === undefined) {
+          throw new RuleError(`Cannot convert ${JSON.stringify(value)} to boolean`);
+        }
+        return result;
+      }
+      case 'date':
+      case 'date-time': {
+        const date = new Date(value);
+        if (typeof value === 'boolean' || Number.isNaN(date.getTime())) {
+          throw new RuleError(`Cannot convert ${JSON.stringify(value)} to ${type}`);
+        }
+        return type === 'date' ? date.toISOString().slice(0, 10) : date.toISOString();
+      }
+      default:
+        return value;
+    }
+  }
+}
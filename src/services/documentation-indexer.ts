@@ -1,6 +1,7 @@
 import { logger } from '../utils/logger.js';
 import { CrawledContent, ApiEndpoint, Schema, CodeExample } from './documentation-crawler.js';
 import { DocumentationStore } from './documentation-store.js';
+import { ExampleGenerator } from './example-generator.js';
 
 export interface IndexedDocumentation {
   id: string;
@@ -128,6 +129,7 @@ export class DocumentationIndexer {
   private relationships: Map<string, ApiRelationship> = new Map();
   private integrationPatterns: Map<string, IntegrationPattern> = new Map();
   private store: DocumentationStore;
+  private exampleGenerator = new ExampleGenerator();
 
   constructor() {
     this.store = new DocumentationStore();
@@ -139,6 +141,10 @@ export class DocumentationIndexer {
     await this.loadExistingData();
   }
 
+  getStore(): DocumentationStore {
+    return this.store;
+  }
+
   private async loadExistingData(): Promise<void> {
     try {
       const stats = await this.store.getStats();
@@ -271,13 +277,25 @@ export class DocumentationIndexer {
       type: schema.type,
       properties: schema.properties || {},
       description: schema.description,
-      example: schema.example,
+      example: schema.example ?? this.generateSchemaExample(schema),
       searchableText: this.createSchemaSearchableText(schema),
       relatedSchemas: [], // Will be populated during relationship building
       usedInEndpoints: [], // Will be populated during relationship building
     };
   }
 
+  private generateSchemaExample(schema: Schema): any {
+    if (!schema.properties || Object.keys(schema.properties).length === 0) {
+      return undefined;
+    }
+    try {
+      return this.exampleGenerator.generate({ type: 'object', properties: schema.properties });
+    } catch (error) {
+      logger.debug(`Could not generate example for schema ${schema.name}:`, error);
+      return undefined;
+    }
+  }
+
   private async indexCodeExample(example: CodeExample, api: string, docId: string): Promise<IndexedCodeExample> {
     const exampleId = this.generateId(`${api}-example-${example.language}-${Date.now()}`);
     
@@ -1,6 +1,8 @@
 import { logger } from '../utils/logger.js';
 import { CrawledContent } from './documentation-crawler.js';
 import { IndexedDocumentation } from './documentation-indexer.js';
+import { SpecDiffer, SpecDiffReport } from './spec-diff.js';
+import { ExampleGenerator } from './example-generator.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -18,6 +20,7 @@ export interface StoredDocument {
     format: 'swagger' | 'scalar' | 'google_docs' | 'loom_video' | 'html' | 'markdown';
     size: number;
   };
+  openApiSpec?: string;
   endpoints?: StoredEndpoint[];
   schemas?: StoredSchema[];
   codeExamples?: StoredCodeExample[];
@@ -75,6 +78,14 @@ export interface DocumentVersion {
   previousVersion?: string;
 }
 
+export interface DocumentVersionDiff extends SpecDiffReport {
+  documentId: string;
+  api: string;
+  fromVersion: string;
+  toVersion: string;
+  source: 'openapi' | 'endpoints';
+}
+
 export interface SearchOptions {
   apis?: string[];
   types?: ('endpoint' | 'schema' | 'code_example' | 'document')[];
@@ -112,6 +123,8 @@ export class DocumentationStore {
   private documents: Map<string, StoredDocument> = new Map();
   private versions: Map<string, DocumentVersion[]> = new Map();
   private searchIndex: Map<string, Set<string>> = new Map();
+  private specDiffer = new SpecDiffer();
+  private exampleGenerator = new ExampleGenerator();
 
   constructor(storePath: string = './data/documentation-store') {
     this.storePath = storePath;
@@ -197,7 +210,7 @@ export class DocumentationStore {
 
   async storeDocument(crawledContent: CrawledContent): Promise<StoredDocument> {
     try {
-      const contentHash = this.calculateContentHash(crawledContent.content);
+      const contentHash = this.calculateContentHash(crawledContent.content + (crawledContent.metadata?.openApiSpec || ''));
       const existingDoc = this.findDocumentByUrl(crawledContent.url);
       
       let document: StoredDocument;
@@ -209,7 +222,7 @@ export class DocumentationStore {
       }
 
       if (existingDoc) {
-        await this.createVersion(existingDoc, contentHash);
+        await this.createVersion(existingDoc, contentHash, crawledContent);
         document = this.updateDocument(existingDoc, crawledContent, contentHash);
         isUpdate = true;
       } else {
@@ -299,6 +312,41 @@ export class DocumentationStore {
     }
   }
 
+  async diffVersions(documentId: string, fromVersion: string, toVersion?: string): Promise<DocumentVersionDiff> {
+    const current = this.documents.get(documentId);
+    if (!current) {
+      throw new Error(`Document not found: ${documentId}`);
+    }
+
+    const loadVersion = async (version: string): Promise<StoredDocument> => {
+      if (version === current.metadata.version) {
+        return current;
+      }
+      const document = await this.getDocumentAtVersion(documentId, version);
+      if (!document) {
+        throw new Error(`Version ${version} of document ${documentId} is not stored`);
+      }
+      return document;
+    };
+
+    const resolvedToVersion = toVersion || current.metadata.version;
+    const [fromDocument, toDocument] = await Promise.all([loadVersion(fromVersion), loadVersion(resolvedToVersion)]);
+
+    const useSpecs = Boolean(fromDocument.openApiSpec && toDocument.openApiSpec);
+    const report = useSpecs
+      ? await this.specDiffer.diffSpecTexts(fromDocument.openApiSpec!, toDocument.openApiSpec!)
+      : this.specDiffer.diffStoredEndpoints(fromDocument.endpoints || [], toDocument.endpoints || []);
+
+    return {
+      documentId,
+      api: current.api,
+      fromVersion,
+      toVersion: resolvedToVersion,
+      source: useSpecs ? 'openapi' : 'endpoints',
+      ...report,
+    };
+  }
+
   async deleteDocument(id: string): Promise<boolean> {
     try {
       const document = this.documents.get(id);
@@ -413,6 +461,7 @@ export class DocumentationStore {
       api,
       title: crawledContent.title,
       content: crawledContent.content,
+      openApiSpec: crawledContent.metadata?.openApiSpec || undefined,
       metadata: {
         crawledAt: now,
         lastUpdated: now,
@@ -434,6 +483,7 @@ export class DocumentationStore {
       ...existingDoc,
       title: crawledContent.title,
       content: crawledContent.content,
+      openApiSpec: crawledContent.metadata?.openApiSpec || undefined,
       metadata: {
         ...existingDoc.metadata,
         lastUpdated: new Date(),
@@ -448,8 +498,8 @@ export class DocumentationStore {
     };
   }
 
-  private async createVersion(document: StoredDocument, newContentHash: string): Promise<void> {
-    const changes = this.detectChanges(document, newContentHash);
+  private async createVersion(document: StoredDocument, newContentHash: string, crawledContent?: CrawledContent): Promise<void> {
+    const changes = await this.detectChanges(document, newContentHash, crawledContent);
     const version: DocumentVersion = {
       version: document.metadata.version,
       timestamp: document.metadata.lastUpdated,
@@ -466,10 +516,29 @@ export class DocumentationStore {
     await this.persistDocumentVersion(document);
   }
 
-  private detectChanges(document: StoredDocument, newContentHash: string): string[] {
+  private async detectChanges(document: StoredDocument, newContentHash: string, crawledContent?: CrawledContent): Promise<string[]> {
     const changes: string[] = [];
-    
-    if (document.metadata.contentHash !== newContentHash) {
+    const newSpec: string | undefined = crawledContent?.metadata?.openApiSpec || undefined;
+
+    try {
+      let report: SpecDiffReport | undefined;
+      if (document.openApiSpec && newSpec) {
+        report = await this.specDiffer.diffSpecTexts(document.openApiSpec, newSpec);
+      } else if (document.endpoints?.length && crawledContent?.apiEndpoints?.length) {
+        report = this.specDiffer.diffStoredEndpoints(
+          document.endpoints,
+          crawledContent.apiEndpoints.map(ep => this.convertToStoredEndpoint(ep, document.id))
+        );
+      }
+
+      for (const change of report?.changes || []) {
+        changes.push(`${change.severity === 'breaking' ? 'BREAKING' : 'Non-breaking'}: ${change.message}`);
+      }
+    } catch (error) {
+      logger.warn(`Failed to diff specification for ${document.url}:`, error);
+    }
+
+    if (changes.length === 0 && document.metadata.contentHash !== newContentHash) {
       changes.push('Content updated');
     }
     
@@ -518,10 +587,22 @@ export class DocumentationStore {
       description: schema.description,
       properties: schema.properties,
       required: schema.required,
-      example: schema.example
+      example: schema.example ?? this.generateSchemaExample(schema)
     };
   }
 
+  private generateSchemaExample(schema: any): any {
+    if (!schema.properties || Object.keys(schema.properties).length === 0) {
+      return undefined;
+    }
+    try {
+      return this.exampleGenerator.generate({ type: 'object', properties: schema.properties, required: schema.required });
+    } catch (error) {
+      logger.debug(`Could not generate example for schema ${schema.name}:`, error);
+      return undefined;
+    }
+  }
+
   private convertToStoredCodeExample(example: any, documentId: string): StoredCodeExample {
     return {
       id: this.generateId(),
@@ -0,0 +1,122 @@
+import { OpenAPIParser } from './openapi-parser.js';
+import { AuthService } from './auth.js';
+import { SchemaValidationError, SchemaValidator } from './schema-validator.js';
+import {
+  EndpointCallArguments,
+  EndpointCallRequest,
+  EndpointCallResult,
+  EndpointValidationReport,
+  ParsedEndpoint,
+  ValidationMode,
+} from '../types/index.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+export class EndpointExecutor {
+  constructor(
+    private openApiParser: OpenAPIParser,
+    private authService: AuthService,
+    private schemaValidator: SchemaValidator = new SchemaValidator(),
+    private validationMode: ValidationMode = config.validation.mode
+  ) {}
+
+  async execute(request: EndpointCallRequest): Promise<EndpointCallResult> {
+    const api = this.openApiParser.getAPI(request.api);
+    if (!api) {
+      throw new Error(`No OpenAPI specification loaded for ${request.api}. Run load-timeback-specs first.`);
+    }
+
+    const endpoint = this.openApiParser.findEndpoint(request.api, request);
+    if (!endpoint) {
+      const selector = request.operationId || `${request.method?.toUpperCase()} ${request.path}`;
+      throw new Error(`Operation not found in ${request.api} API: ${selector}`);
+    }
+
+    const label = this.describeEndpoint(endpoint);
+    const mode = request.validationMode || this.validationMode;
+    const validation: EndpointValidationReport = { mode, request: [], response: [] };
+
+    if (mode !== 'off') {
+      validation.request = this.schemaValidator.validateRequest(endpoint, request);
+      if (validation.request.length > 0) {
+        if (mode === 'strict') {
+          throw new SchemaValidationError(`Invalid arguments for ${label}`, validation.request);
+        }
+        logger.warn(`Request to ${label} does not match its schema`, { violations: validation.request });
+      }
+    }
+
+    const url = this.buildUrl(api.baseUrl, endpoint.path, request.pathParams || {});
+    const headers: Record<string, string> = { ...request.headers };
+    if (request.body !== undefined && !Object.keys(headers).some(h => h.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = this.getRequestContentType(endpoint);
+    }
+
+    logger.info(`Calling ${label}`, { api: request.api, url });
+    const startedAt = Date.now();
+
+    const response = await this.authService.makeAuthenticatedRequest(url, {
+      method: endpoint.method,
+      params: request.query,
+      data: request.body,
+      headers,
+      validateStatus: () => true,
+    }, { api: request.api, profile: request.profile });
+
+    const durationMs = Date.now() - startedAt;
+    logger.info(`${label} responded with ${response.status}`, { durationMs });
+
+    if (mode !== 'off') {
+      validation.response = this.schemaValidator.validateResponse(endpoint, response.status, response.data);
+      if (validation.response.length > 0) {
+        logger.warn(`Response from ${label} does not match its schema`, { violations: validation.response });
+      }
+    }
+
+    return {
+      api: request.api,
+      operationId: endpoint.operationId,
+      method: endpoint.method,
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: this.normalizeHeaders(response.headers),
+      body: response.data,
+      durationMs,
+      validation: mode !== 'off' ? validation : undefined,
+    };
+  }
+
+  validateArguments(endpoint: ParsedEndpoint, args: EndpointCallArguments): string[] {
+    return this.schemaValidator.validateRequest(endpoint, args).map(violation => violation.message);
+  }
+
+  private buildUrl(baseUrl: string, pathTemplate: string, pathParams: Record<string, any>): string {
+    const resolvedPath = pathTemplate.replace(/\{([^}]+)\}/g, (_, name: string) => {
+      // Checked here as well because validation can be switched off
+      if (pathParams[name] === undefined || pathParams[name] === null || pathParams[name] === '') {
+        throw new Error(`missing required path parameter "${name}"`);
+      }
+      return encodeURIComponent(String(pathParams[name]));
+    });
+    return `${baseUrl.replace(/\/+$/, '')}${resolvedPath}`;
+  }
+
+  private getRequestContentType(endpoint: ParsedEndpoint): string {
+    const contentTypes = Object.keys(endpoint.requestBody?.content || {});
+    return contentTypes.find(type => type.includes('json')) || contentTypes[0] || 'application/json';
+  }
+
+  private normalizeHeaders(headers: any): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers || {})) {
+      if (value === undefined || value === null) continue;
+      normalized[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+    return normalized;
+  }
+
+  private describeEndpoint(endpoint: ParsedEndpoint): string {
+    return `${endpoint.api}.${endpoint.operationId || `${endpoint.method} ${endpoint.path}`}`;
+  }
+}
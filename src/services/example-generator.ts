@@ -0,0 +1,277 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { ParsedEndpoint, ParsedSchema } from '../types/index.js';
+import { ValidationDirection } from './schema-validator.js';
+
+export interface ExampleOptions {
+  seed?: number;
+  direction?: ValidationDirection; // requests omit readOnly properties, responses omit writeOnly ones
+  includeOptional?: boolean;
+  maxDepth?: number;
+}
+
+interface GenerationContext {
+  random: () => number;
+  direction: ValidationDirection;
+  includeOptional: boolean;
+  maxDepth: number;
+  person?: { givenName: string; familyName: string };
+}
+
+const GIVEN_NAMES = ['Ada', 'Grace', 'Alan', 'Katherine', 'Marie', 'Carlos', 'Amara', 'Hiro'];
+const FAMILY_NAMES = ['Lovelace', 'Hopper', 'Turing', 'Johnson', 'Curie', 'Rivera', 'Okafor', 'Tanaka'];
+const TITLES = ['Algebra I', 'Biology', 'World History', 'English 9', 'Chemistry', 'Geometry'];
+const GRADES = ['KG', '01', '02', '03', '04', '05', '06', '07', '08', '09', '10', '11', '12'];
+const WORDS = ['alpha', 'bravo', 'delta', 'echo', 'harbor', 'maple', 'summit', 'willow'];
+
+// Beyond this depth only required properties are generated; the hard limit stops required cycles
+const HARD_DEPTH_MARGIN = 4;
+
+export class ExampleGenerator {
+  constructor(private defaults: ExampleOptions = {}) {}
+
+  generate(schema: OpenAPIV3.SchemaObject, options: ExampleOptions = {}): any {
+    const merged = { ...this.defaults, ...options };
+    const context: GenerationContext = {
+      random: this.createRandom(merged.seed ?? 1),
+      direction: merged.direction ?? 'response',
+      includeOptional: merged.includeOptional ?? true,
+      maxDepth: merged.maxDepth ?? 4,
+    };
+    return this.generateValue(schema, context, 0);
+  }
+
+  generateForSchema(schema: ParsedSchema, options: ExampleOptions = {}): any {
+    return this.generate(schema.schema, options);
+  }
+
+  generateRequestBody(endpoint: ParsedEndpoint, options: ExampleOptions = {}): any {
+    const schema = this.getMediaSchema(endpoint.requestBody?.content);
+    return schema ? this.generate(schema, { ...options, direction: 'request' }) : undefined;
+  }
+
+  generateResponse(endpoint: ParsedEndpoint, status?: number | string, options: ExampleOptions = {}): { status: string; example: any } | undefined {
+    const responses = endpoint.responses || {};
+    const code = status !== undefined
+      ? String(status)
+      : Object.keys(responses).filter(candidate => /^2\d\d$/.test(candidate)).sort()[0];
+    const response = code ? responses[code] as OpenAPIV3.ResponseObject | undefined : undefined;
+    if (!response) {
+      return undefined;
+    }
+
+    const schema = this.getMediaSchema(response.content);
+    return {
+      status: code,
+      example: schema ? this.generate(schema, { ...options, direction: 'response' }) : undefined,
+    };
+  }
+
+  private generateValue(schema: OpenAPIV3.SchemaObject, context: GenerationContext, depth: number, name?: string): any {
+    if (schema.example !== undefined) return structuredClone(schema.example);
+    if (schema.default !== undefined) return structuredClone(schema.default);
+    if (schema.enum?.length) return this.pick(schema.enum, context);
+
+    if (schema.allOf) {
+      const parts = schema.allOf.map(part => this.generateValue(part as OpenAPIV3.SchemaObject, context, depth, name));
+      return parts.every(part => part !== null && typeof part === 'object' && !Array.isArray(part))
+        ? Object.assign({}, ...parts)
+        : parts[parts.length - 1];
+    }
+
+    const variant = schema.oneOf?.[0] || schema.anyOf?.[0];
+    if (variant) {
+      return this.generateValue(variant as OpenAPIV3.SchemaObject, context, depth, name);
+    }
+
+    if (schema.type === 'object' || schema.properties) {
+      return this.generateObject(schema, context, depth);
+    }
+
+    switch (schema.type) {
+      case 'array':
+        return this.generateArray(schema as OpenAPIV3.ArraySchemaObject, context, depth, name);
+      case 'integer':
+      case 'number':
+        return this.generateNumber(schema, context);
+      case 'boolean':
+        return context.random() < 0.5;
+      case 'string':
+        return this.generateString(schema, context, name);
+      default:
+        return schema.nullable ? null : this.generateString(schema, context, name);
+    }
+  }
+
+  private generateObject(schema: OpenAPIV3.SchemaObject, context: GenerationContext, depth: number): Record<string, any> {
+    const example: Record<string, any> = {};
+    if (depth > context.maxDepth + HARD_DEPTH_MARGIN) {
+      return example;
+    }
+
+    const required = new Set(schema.required || []);
+    const hadPerson = Boolean(context.person);
+    if (!hadPerson) {
+      context.person = { givenName: this.pick(GIVEN_NAMES, context), familyName: this.pick(FAMILY_NAMES, context) };
+    }
+
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      const propertySchema = property as OpenAPIV3.SchemaObject;
+      if (propertySchema.readOnly && context.direction === 'request') continue;
+      if (propertySchema.writeOnly && context.direction === 'response') continue;
+      if (!required.has(name) && (!context.includeOptional || depth >= context.maxDepth)) continue;
+
+      example[name] = this.generateValue(propertySchema, context, depth + 1, name);
+    }
+
+    // Names and emails stay consistent within one object but vary between siblings
+    if (!hadPerson) {
+      context.person = undefined;
+    }
+    return example;
+  }
+
+  private generateArray(schema: OpenAPIV3.ArraySchemaObject, context: GenerationContext, depth: number, name?: string): any[] {
+    const items = schema.items as OpenAPIV3.SchemaObject;
+    const min = schema.minItems ?? (depth >= context.maxDepth ? 0 : 1);
+    const max = Math.max(min, schema.maxItems ?? Math.max(min, 2));
+    const count = depth > context.maxDepth + HARD_DEPTH_MARGIN ? min : min + Math.floor(context.random() * (max - min + 1));
+
+    const values: any[] = [];
+    const itemName = name?.endsWith('s') ? name.slice(0, -1) : name;
+    const isDuplicate = (value: any) => values.some(existing => JSON.stringify(existing) === JSON.stringify(value));
+
+    for (let i = 0; i < count; i++) {
+      let value = this.generateValue(items, context, depth + 1, itemName);
+      // Enum items are drawn with replacement, so retry a few times for uniqueItems
+      for (let attempt = 0; schema.uniqueItems && attempt < 5 && isDuplicate(value); attempt++) {
+        value = this.generateValue(items, context, depth + 1, itemName);
+      }
+      if (schema.uniqueItems && isDuplicate(value)) {
+        break;
+      }
+      values.push(value);
+    }
+    return values;
+  }
+
+  private generateNumber(schema: OpenAPIV3.SchemaObject, context: GenerationContext): number {
+    const integer = schema.type === 'integer';
+    const step = integer ? 1 : 0.01;
+    let min = schema.minimum ?? (schema.maximum !== undefined ? schema.maximum - 100 : 1);
+    let max = schema.maximum ?? min + 100;
+    if (schema.exclusiveMinimum && schema.minimum !== undefined) min += step;
+    if (schema.exclusiveMaximum && schema.maximum !== undefined) max -= step;
+    if (integer) {
+      min = Math.ceil(min);
+      max = Math.floor(max);
+    }
+
+    let value = min + context.random() * (max - min);
+    if (schema.multipleOf) {
+      value = Math.ceil(value / schema.multipleOf) * schema.multipleOf;
+      if (value > max) value -= schema.multipleOf;
+    }
+    return integer ? Math.round(value) : Math.round(value * 100) / 100;
+  }
+
+  private generateString(schema: OpenAPIV3.SchemaObject, context: GenerationContext, name = ''): string {
+    const value = this.formatValue(schema.format, context) ?? this.hintValue(name, context) ?? `${this.pick(WORDS, context)}-${this.randomInt(context, 100, 999)}`;
+    return this.fitLength(schema, value);
+  }
+
+  private formatValue(format: string | undefined, context: GenerationContext): string | undefined {
+    switch (format) {
+      case 'date-time':
+        return this.randomDate(context).toISOString();
+      case 'date':
+        return this.randomDate(context).toISOString().slice(0, 10);
+      case 'time':
+        return this.randomDate(context).toISOString().slice(11, 19);
+      case 'email':
+        return this.email(context);
+      case 'uuid':
+        return this.uuid(context);
+      case 'uri':
+      case 'url':
+        return `https://example.com/resources/${this.randomInt(context, 1000, 9999)}`;
+      case 'byte':
+        return Buffer.from(this.pick(WORDS, context)).toString('base64');
+      default:
+        return undefined;
+    }
+  }
+
+  private hintValue(name: string, context: GenerationContext): string | undefined {
+    const person = context.person || { givenName: this.pick(GIVEN_NAMES, context), familyName: this.pick(FAMILY_NAMES, context) };
+
+    if (/^(given|first|preferredFirst)Name$/i.test(name)) return person.givenName;
+    if (/^(family|last|preferredLast)Name$/i.test(name)) return person.familyName;
+    if (/^(middle)Name$/i.test(name)) return this.pick(GIVEN_NAMES, context);
+    if (/email/i.test(name)) return this.email(context);
+    if (/^username$/i.test(name)) return `${person.givenName[0]}${person.familyName}`.toLowerCase();
+    if (/(sourcedId|uuid|guid)$/i.test(name) || /^id$/i.test(name) || /Id$/.test(name)) return this.uuid(context);
+    if (/(phone|sms)/i.test(name)) return `+1-555-01${this.randomInt(context, 10, 99)}`;
+    if (/^grades?$/i.test(name)) return this.pick(GRADES, context);
+    if (/(url|uri|href)$/i.test(name)) return `https://example.com/${this.pick(WORDS, context)}`;
+    if (/^(title|courseTitle|name)$/i.test(name)) return this.pick(TITLES, context);
+    if (/code$/i.test(name)) return `${this.pick(WORDS, context).slice(0, 3).toUpperCase()}-${this.randomInt(context, 100, 499)}`;
+    if (/(description|comment|notes?)$/i.test(name)) return `Example ${name} for ${this.pick(TITLES, context)}`;
+    return undefined;
+  }
+
+  private fitLength(schema: OpenAPIV3.SchemaObject, value: string): string {
+    let result = value;
+    if (schema.minLength !== undefined && result.length < schema.minLength) {
+      result = result.padEnd(schema.minLength, 'x');
+    }
+    if (schema.maxLength !== undefined && result.length > schema.maxLength) {
+      result = result.slice(0, schema.maxLength);
+    }
+    return result;
+  }
+
+  private email(context: GenerationContext): string {
+    const person = context.person || { givenName: this.pick(GIVEN_NAMES, context), familyName: this.pick(FAMILY_NAMES, context) };
+    return `${person.givenName}.${person.familyName}@example.edu`.toLowerCase();
+  }
+
+  private uuid(context: GenerationContext): string {
+    const hex = Array.from({ length: 32 }, () => Math.floor(context.random() * 16).toString(16));
+    hex[12] = '4';
+    hex[16] = (8 + Math.floor(context.random() * 4)).toString(16);
+    const value = hex.join('');
+    return `${value.slice(0, 8)}-${value.slice(8, 12)}-${value.slice(12, 16)}-${value.slice(16, 20)}-${value.slice(20)}`;
+  }
+
+  private randomDate(context: GenerationContext): Date {
+    const start = Date.UTC(2024, 0, 1);
+    const seconds = Math.floor(context.random() * 365 * 24 * 60 * 60);
+    return new Date(start + seconds * 1000);
+  }
+
+  private randomInt(context: GenerationContext, min: number, max: number): number {
+    return min + Math.floor(context.random() * (max - min + 1));
+  }
+
+  private pick<T>(values: T[], context: GenerationContext): T {
+    return values[Math.floor(context.random() * values.length)];
+  }
+
+  // mulberry32: small, fast and deterministic for a given seed
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private getMediaSchema(content?: Record<string, OpenAPIV3.MediaTypeObject>): OpenAPIV3.SchemaObject | undefined {
+    if (!content) return undefined;
+    const mediaType = Object.keys(content).find(type => type.includes('json')) || Object.keys(content)[0];
+    return mediaType ? content[mediaType].schema as OpenAPIV3.SchemaObject | undefined : undefined;
+  }
+}
@@ -0,0 +1,251 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { DataModelMapping, FieldMapping, ParsedSchema } from '../types/index.js';
+import { SchemaComparator, SchemaCompatibility } from './schema-comparator.js';
+
+export interface MappingOptions {
+  minConfidence?: number;
+  maxMappings?: number;
+}
+
+interface SchemaField {
+  path: string;
+  name: string;
+  schema: OpenAPIV3.SchemaObject;
+  required: boolean;
+}
+
+// Names 1EdTech specs use for the same concept across OneRoster, QTI, CASE and Caliper
+const EDTECH_SYNONYMS: string[][] = [
+  ['sourcedId', 'identifier', 'id', 'uuid', 'guid'],
+  ['givenName', 'firstName', 'forename'],
+  ['familyName', 'lastName', 'surname'],
+  ['middleName', 'additionalName'],
+  ['preferredFirstName', 'nickname'],
+  ['email', 'emailAddress', 'mail'],
+  ['username', 'userName', 'login', 'loginId'],
+  ['phone', 'phoneNumber', 'telephone'],
+  ['title', 'name', 'label'],
+  ['description', 'summary', 'abstract'],
+  ['dateLastModified', 'lastChangeDateTime', 'lastModified', 'updatedAt', 'modifiedAt'],
+  ['status', 'state'],
+  ['grades', 'gradeLevel', 'educationLevel', 'grade'],
+  ['classCode', 'courseCode', 'code', 'humanCodingScheme'],
+  ['subjects', 'subject', 'subjectCodes'],
+  ['startDate', 'beginDate', 'startedAtTime'],
+  ['endDate', 'finishDate', 'endedAtTime'],
+  ['score', 'scoreGiven', 'resultScore', 'points'],
+  ['metadata', 'extensions'],
+  ['actor', 'user', 'agent', 'student'],
+  ['eventTime', 'timestamp', 'dateTime'],
+  ['org', 'organization', 'school', 'orgs'],
+];
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'of', 'for', 'to', 'in', 'on', 'and', 'or', 'is', 'this', 'that', 'with', 'by', 'be', 'as', 'it', 'its']);
+
+const TYPE_SCORES: Record<SchemaCompatibility, number> = { identical: 1, widening: 0.8, narrowing: 0.5, incompatible: 0 };
+
+const WEIGHTS = { name: 0.5, type: 0.25, format: 0.1, description: 0.15 };
+
+const MAX_FIELD_DEPTH = 3;
+
+function tokens(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function jaccard(a: string[], b: string[]): number {
+  const left = new Set(a);
+  const right = new Set(b);
+  const shared = [...left].filter(token => right.has(token)).length;
+  const union = new Set([...left, ...right]).size;
+  return union === 0 ? 0 : shared / union;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export class MappingEngine {
+  private synonyms = new Map<string, number>();
+
+  constructor(private comparator = new SchemaComparator()) {
+    EDTECH_SYNONYMS.forEach((group, index) => {
+      for (const name of group) {
+        this.synonyms.set(name.toLowerCase(), index);
+      }
+    });
+  }
+
+  /** Map every source schema to its best-scoring target schemas, most confident pairs first. */
+  suggestMappings(sourceSchemas: ParsedSchema[], targetSchemas: ParsedSchema[], options: MappingOptions = {}): DataModelMapping[] {
+    const candidates: DataModelMapping[] = [];
+    for (const source of sourceSchemas) {
+      const ranked = targetSchemas
+        .filter(target => target.api !== source.api || target.name !== source.name)
+        .map(target => this.mapSchemas(source, target, options))
+        .filter(mapping => mapping.mappings.length > 0)
+        .sort((a, b) => b.confidence - a.confidence);
+      if (ranked.length > 0) {
+        candidates.push(ranked[0]);
+      }
+    }
+
+    return candidates
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, options.maxMappings ?? 5);
+  }
+
+  mapSchemas(source: ParsedSchema, target: ParsedSchema, options: MappingOptions = {}): DataModelMapping {
+    const minConfidence = options.minConfidence ?? 0.5;
+    const sourceFields = this.collectFields(source.schema);
+    const targetFields = this.collectFields(target.schema);
+
+    const scored = sourceFields
+      .flatMap(sourceField => targetFields.map(targetField => this.scoreFields(sourceField, targetField)))
+      .filter(mapping => mapping.confidence >= minConfidence)
+      .sort((a, b) => b.confidence - a.confidence || a.sourceField.localeCompare(b.sourceField));
+
+    // Greedy one-to-one assignment: the strongest pair claims both of its fields
+    const mappings: FieldMapping[] = [];
+    const usedSource = new Set<string>();
+    const usedTarget = new Set<string>();
+    for (const mapping of scored) {
+      if (usedSource.has(mapping.sourceField) || usedTarget.has(mapping.targetField)) continue;
+      usedSource.add(mapping.sourceField);
+      usedTarget.add(mapping.targetField);
+      mappings.push(mapping);
+    }
+
+    const coverage = mappings.reduce((sum, mapping) => sum + mapping.confidence, 0)
+      / Math.max(sourceFields.length, targetFields.length, 1);
+    const schemaName = this.nameScore(source.name, target.name).score;
+
+    return {
+      sourceApi: source.api,
+      targetApi: target.api,
+      sourceSchema: source.name,
+      targetSchema: target.name,
+      confidence: round(0.8 * coverage + 0.2 * schemaName),
+      fieldMappings: Object.fromEntries(mappings.map(mapping => [mapping.sourceField, mapping.targetField])),
+      mappings,
+      unmappedSourceFields: sourceFields.map(field => field.path).filter(path => !usedSource.has(path)),
+      unmappedTargetFields: targetFields.map(field => field.path).filter(path => !usedTarget.has(path)),
+    };
+  }
+
+  private scoreFields(source: SchemaField, target: SchemaField): FieldMapping {
+    const rationale: string[] = [];
+    const signals: Array<{ weight: number; score: number }> = [];
+
+    const name = this.nameScore(source.name, target.name);
+    rationale.push(name.reason);
+    // Fields nested under differently named parents are weaker matches than siblings at the same depth
+    const parentPenalty = this.parentPath(source.path) === this.parentPath(target.path) ? 1 : 0.9;
+    signals.push({ weight: WEIGHTS.name, score: name.score * parentPenalty });
+
+    const compatibility = this.comparator.compare(source.schema, target.schema).compatibility;
+    signals.push({ weight: WEIGHTS.type, score: TYPE_SCORES[compatibility] });
+    const sourceType = this.describeType(source.schema);
+    const targetType = this.describeType(target.schema);
+    rationale.push(compatibility === 'identical'
+      ? `types match (${sourceType})`
+      : `types are ${compatibility} (${sourceType} → ${targetType})`);
+
+    if (source.schema.format || target.schema.format) {
+      const formatScore = source.schema.format === target.schema.format ? 1 : (source.schema.format && target.schema.format ? 0 : 0.5);
+      signals.push({ weight: WEIGHTS.format, score: formatScore });
+      rationale.push(formatScore === 1
+        ? `formats match (${source.schema.format})`
+        : `formats differ (${source.schema.format || 'none'} → ${target.schema.format || 'none'})`);
+    }
+
+    if (source.schema.description && target.schema.description) {
+      const sourceTokens = tokens(source.schema.description).filter(token => !STOP_WORDS.has(token));
+      const targetTokens = tokens(target.schema.description).filter(token => !STOP_WORDS.has(token));
+      const shared = [...new Set(sourceTokens)].filter(token => targetTokens.includes(token));
+      signals.push({ weight: WEIGHTS.description, score: jaccard(sourceTokens, targetTokens) });
+      if (shared.length > 0) {
+        rationale.push(`descriptions share ${shared.slice(0, 5).join(', ')}`);
+      }
+    }
+
+    let confidence = signals.reduce((sum, signal) => sum + signal.weight * signal.score, 0)
+      / signals.reduce((sum, signal) => sum + signal.weight, 0);
+    if (compatibility === 'incompatible') {
+      confidence *= 0.5;
+    }
+
+    return { sourceField: source.path, targetField: target.path, confidence: round(confidence), rationale };
+  }
+
+  private nameScore(sourceName: string, targetName: string): { score: number; reason: string } {
+    const sourceTokens = tokens(sourceName);
+    const targetTokens = tokens(targetName);
+    if (sourceTokens.join('') === targetTokens.join('')) {
+      return { score: 1, reason: 'names match' };
+    }
+
+    const sourceGroup = this.synonyms.get(sourceName.toLowerCase());
+    if (sourceGroup !== undefined && sourceGroup === this.synonyms.get(targetName.toLowerCase())) {
+      return { score: 0.95, reason: `1EdTech synonym (${sourceName} ↔ ${targetName})` };
+    }
+
+    const joinedSource = sourceTokens.join('');
+    const joinedTarget = targetTokens.join('');
+    const editSimilarity = 1 - levenshtein(joinedSource, joinedTarget) / Math.max(joinedSource.length, joinedTarget.length, 1);
+    const score = Math.max(jaccard(sourceTokens, targetTokens), 0.9 * editSimilarity);
+    return { score, reason: `name similarity ${round(score)}` };
+  }
+
+  // Leaf fields, with nested object properties flattened to dotted paths and array items marked with []
+  private collectFields(schema: OpenAPIV3.SchemaObject, prefix = '', depth = 0): SchemaField[] {
+    const fields: SchemaField[] = [];
+    const properties: Record<string, OpenAPIV3.SchemaObject> = {};
+    const required = new Set<string>();
+    for (const part of [schema, ...((schema.allOf || []) as OpenAPIV3.SchemaObject[])]) {
+      Object.assign(properties, part.properties || {});
+      (part.required || []).forEach(name => required.add(name));
+    }
+
+    for (const [name, property] of Object.entries(properties)) {
+      const path = prefix ? `${prefix}.${name}` : name;
+      const items = property.type === 'array' ? (property as OpenAPIV3.ArraySchemaObject).items as OpenAPIV3.SchemaObject : undefined;
+      const nested = items?.properties ? items : property.properties || property.allOf ? property : undefined;
+
+      if (nested && depth < MAX_FIELD_DEPTH) {
+        fields.push(...this.collectFields(nested, items ? `${path}[]` : path, depth + 1));
+      } else {
+        fields.push({ path, name, schema: property, required: required.has(name) });
+      }
+    }
+
+    return fields;
+  }
+
+  private parentPath(path: string): string {
+    return path.includes('.') ? path.slice(0, path.lastIndexOf('.')) : '';
+  }
+
+  private describeType(schema: OpenAPIV3.SchemaObject): string {
+    if (schema.type === 'array') {
+      return `array<${this.describeType(((schema as OpenAPIV3.ArraySchemaObject).items || {}) as OpenAPIV3.SchemaObject)}>`;
+    }
+    return schema.format ? `${schema.type || 'any'}(${schema.format})` : schema.type || 'any';
+  }
+}
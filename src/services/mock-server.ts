@@ -0,0 +1,397 @@
+import express, { Application, NextFunction, Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { OpenAPIV3 } from 'openapi-types';
+import { OpenAPIParser } from './openapi-parser.js';
+import { SchemaValidator } from './schema-validator.js';
+import { ExampleGenerator } from './example-generator.js';
+import { ParsedEndpoint } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  apis?: string[];
+  stateful?: boolean; // keep in-memory CRUD state for collection resources
+  validateRequests?: boolean;
+  requireAuth?: boolean;
+  tokenLifetimeSeconds?: number;
+  seed?: number; // seed for generated example responses
+  clientCredentials?: { clientId: string; clientSecret: string };
+}
+
+interface MockRoute {
+  endpoint: ParsedEndpoint;
+  pattern: RegExp;
+  parameterNames: string[];
+  resource?: 'collection' | 'item';
+}
+
+const ID_FIELDS = ['sourcedId', 'id', 'identifier'];
+
+export class MockTimeBackServer {
+  private app: Application;
+  private server?: Server;
+  private routes: MockRoute[] = [];
+  private collections: Map<string, Map<string, any>> = new Map();
+  private tokens: Map<string, number> = new Map();
+  private options: Required<Omit<MockServerOptions, 'apis' | 'clientCredentials'>> & Pick<MockServerOptions, 'apis' | 'clientCredentials'>;
+
+  constructor(
+    private parser: OpenAPIParser,
+    options: MockServerOptions = {},
+    private validator: SchemaValidator = new SchemaValidator(),
+    private exampleGenerator: ExampleGenerator = new ExampleGenerator()
+  ) {
+    this.options = {
+      port: 4010,
+      host: '127.0.0.1',
+      stateful: true,
+      validateRequests: true,
+      requireAuth: true,
+      tokenLifetimeSeconds: 3600,
+      seed: 1,
+      ...options,
+    };
+    this.app = express();
+    this.buildRoutes();
+    this.setupMiddleware();
+    this.setupRoutes();
+  }
+
+  async start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server = this.app.listen(this.options.port, this.options.host, () => {
+        const url = this.getUrl();
+        logger.info(`Mock TimeBack server listening on ${url}`, { operations: this.routes.length });
+        resolve(url);
+      });
+      this.server.on('error', error => {
+        logger.error('Mock TimeBack server error:', error);
+        reject(error);
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => {
+        logger.info('Mock TimeBack server stopped');
+        this.server = undefined;
+        resolve();
+      });
+    });
+  }
+
+  getUrl(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    return `http://${this.options.host}:${address?.port ?? this.options.port}`;
+  }
+
+  getApp(): Application {
+    return this.app;
+  }
+
+  getOperationCount(): number {
+    return this.routes.length;
+  }
+
+  reset(): void {
+    this.collections.clear();
+    this.tokens.clear();
+  }
+
+  private buildRoutes(): void {
+    const apis = this.options.apis?.length
+      ? this.options.apis
+      : this.parser.getAllAPIs().map(api => api.name);
+
+    for (const api of apis) {
+      const endpoints = this.parser.getEndpoints(api);
+      const paths = new Set(endpoints.map(endpoint => endpoint.path));
+
+      for (const endpoint of endpoints) {
+        const parameterNames: string[] = [];
+        const source = endpoint.path
+          .split('/')
+          .map(segment => segment.replace(/\{([^}]+)\}|[^{}]+/g, (match, name) => {
+            if (name) {
+              parameterNames.push(name);
+              return '([^/]+)';
+            }
+            return match.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+          }))
+          .join('/');
+
+        const itemMatch = endpoint.path.match(/^(.*)\/\{[^/}]+\}$/);
+        let resource: MockRoute['resource'];
+        if (itemMatch && paths.has(itemMatch[1])) {
+          resource = 'item';
+        } else if (Array.from(paths).some(other => other.match(/^(.*)\/\{[^/}]+\}$/)?.[1] === endpoint.path)) {
+          resource = 'collection';
+        }
+
+        this.routes.push({ endpoint, pattern: new RegExp(`^${source}/?$`), parameterNames, resource });
+      }
+    }
+
+    // Literal segments win over parameters, e.g. /users/me before /users/{sourcedId}
+    this.routes.sort((a, b) => a.parameterNames.length - b.parameterNames.length);
+  }
+
+  private setupMiddleware(): void {
+    this.app.use(express.json({ type: ['application/json', 'application/*+json'] }));
+    this.app.use(express.urlencoded({ extended: false }));
+  }
+
+  private setupRoutes(): void {
+    this.app.get('/health', (_req, res) => {
+      res.json({ status: 'ok', operations: this.routes.length });
+    });
+
+    this.app.post('/oauth2/token', (req, res) => this.issueToken(req, res));
+
+    this.app.post('/oauth2/revoke', (req, res) => {
+      if (req.body?.token) {
+        this.tokens.delete(req.body.token);
+      }
+      res.status(200).end();
+    });
+
+    this.app.use((req, res) => this.handleOperation(req, res));
+
+    this.app.use((error: any, _req: Request, res: Response, _next: NextFunction) => {
+      res.status(error.status || 500).json({ error: 'invalid_request', message: error.message });
+    });
+  }
+
+  private issueToken(req: Request, res: Response): void {
+    let clientId: string | undefined = req.body?.client_id;
+    let clientSecret: string | undefined = req.body?.client_secret;
+
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Basic ')) {
+      [clientId, clientSecret] = Buffer.from(authorization.slice(6), 'base64').toString().split(':');
+    }
+
+    if (req.body?.grant_type !== 'client_credentials') {
+      res.status(400).json({ error: 'unsupported_grant_type' });
+      return;
+    }
+
+    const expected = this.options.clientCredentials;
+    if (!clientId || !clientSecret || (expected && (expected.clientId !== clientId || expected.clientSecret !== clientSecret))) {
+      res.status(401).json({ error: 'invalid_client' });
+      return;
+    }
+
+    const token = `mock-${randomUUID()}`;
+    this.tokens.set(token, Date.now() + this.options.tokenLifetimeSeconds * 1000);
+    res.json({
+      access_token: token,
+      token_type: 'Bearer',
+      expires_in: this.options.tokenLifetimeSeconds,
+      scope: req.body.scope,
+    });
+  }
+
+  private isAuthorized(req: Request): boolean {
+    const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const expiresAt = token ? this.tokens.get(token) : undefined;
+    if (!expiresAt) {
+      return false;
+    }
+    if (expiresAt <= Date.now()) {
+      this.tokens.delete(token!);
+      return false;
+    }
+    return true;
+  }
+
+  private handleOperation(req: Request, res: Response): void {
+    const method = req.method.toUpperCase();
+    const candidates = this.routes
+      .map(route => ({ route, match: route.pattern.exec(req.path) }))
+      .filter(({ match }) => match !== null);
+
+    if (candidates.length === 0) {
+      res.status(404).json({ error: 'not_found', message: `No operation matches ${req.path}` });
+      return;
+    }
+
+    const matched = candidates.find(({ route }) => route.endpoint.method === method);
+    if (!matched) {
+      res.status(405).json({ error: 'method_not_allowed', message: `${method} is not supported for ${req.path}` });
+      return;
+    }
+
+    if (this.options.requireAuth && !this.isAuthorized(req)) {
+      res.status(401).json({ error: 'invalid_token' });
+      return;
+    }
+
+    const { route, match } = matched;
+    const pathParams = Object.fromEntries(
+      route.parameterNames.map((name, index) => [name, decodeURIComponent(match![index + 1])])
+    );
+    const body = req.body !== undefined && Object.keys(req.body).length > 0 ? req.body : undefined;
+
+    if (this.options.validateRequests) {
+      const violations = this.validator.validateRequest(route.endpoint, {
+        pathParams,
+        query: req.query as Record<string, any>,
+        headers: req.headers as Record<string, string>,
+        body,
+      });
+      if (violations.length > 0) {
+        res.status(400).json({ error: 'invalid_request', violations });
+        return;
+      }
+    }
+
+    logger.debug(`Mock ${method} ${req.path}`, { api: route.endpoint.api, operationId: route.endpoint.operationId });
+
+    if (this.options.stateful && route.resource) {
+      this.handleResource(route, req, res, pathParams, body);
+      return;
+    }
+
+    const [status, schema] = this.getSuccessResponse(route.endpoint);
+    this.send(res, status, schema ? this.exampleFor(schema) : undefined);
+  }
+
+  private handleResource(route: MockRoute, req: Request, res: Response, pathParams: Record<string, string>, body: any): void {
+    const { endpoint } = route;
+    const [status, responseSchema] = this.getSuccessResponse(endpoint);
+    const collectionPath = route.resource === 'item' ? req.path.replace(/\/[^/]+\/?$/, '') : req.path.replace(/\/$/, '');
+    const collectionKey = `${endpoint.api} ${collectionPath}`;
+    const records = this.collections.get(collectionKey) || new Map<string, any>();
+    this.collections.set(collectionKey, records);
+
+    const id = route.resource === 'item' ? pathParams[route.parameterNames[route.parameterNames.length - 1]] : undefined;
+    const requestSchema = this.getMediaSchema(endpoint.requestBody?.content);
+    const requestKey = this.findEnvelopeKey(requestSchema, 'object');
+    const record = body !== undefined ? (requestKey ? body[requestKey] : body) : undefined;
+
+    switch (endpoint.method) {
+      case 'GET': {
+        if (route.resource === 'collection') {
+          const all = Array.from(records.values());
+          const offset = Math.max(0, parseInt(String(req.query.offset ?? '0')) || 0);
+          const limit = parseInt(String(req.query.limit ?? '')) || all.length;
+          res.setHeader('X-Total-Count', String(all.length));
+          this.send(res, status, this.wrap(responseSchema, 'array', all.slice(offset, offset + limit)));
+          return;
+        }
+        if (!records.has(id!)) {
+          this.notFound(res, id!);
+          return;
+        }
+        this.send(res, status, this.wrap(responseSchema, 'object', records.get(id!)));
+        return;
+      }
+      case 'POST': {
+        if (route.resource === 'item' || record === undefined) break;
+        const idField = this.getIdField(record, requestSchema, requestKey);
+        const created = { ...record, [idField]: record[idField] ?? randomUUID() };
+        records.set(String(created[idField]), created);
+        this.send(res, status, this.wrap(responseSchema, 'object', created));
+        return;
+      }
+      case 'PUT':
+      case 'PATCH': {
+        if (route.resource === 'collection' || record === undefined) break;
+        if (endpoint.method === 'PATCH' && !records.has(id!)) {
+          this.notFound(res, id!);
+          return;
+        }
+        const idField = this.getIdField(record, requestSchema, requestKey);
+        const updated = endpoint.method === 'PATCH'
+          ? { ...records.get(id!), ...record, [idField]: id }
+          : { ...record, [idField]: id };
+        records.set(id!, updated);
+        this.send(res, status, this.wrap(responseSchema, 'object', updated));
+        return;
+      }
+      case 'DELETE': {
+        if (route.resource === 'collection') break;
+        if (!records.delete(id!)) {
+          this.notFound(res, id!);
+          return;
+        }
+        this.send(res, status, responseSchema ? this.exampleFor(responseSchema) : undefined);
+        return;
+      }
+    }
+
+    this.send(res, status, responseSchema ? this.exampleFor(responseSchema) : undefined);
+  }
+
+  private wrap(schema: OpenAPIV3.SchemaObject | undefined, kind: 'object' | 'array', value: any): any {
+    const key = this.findEnvelopeKey(schema, kind);
+    if (!schema || !key) {
+      return value;
+    }
+    return { ...this.exampleFor(schema), [key]: value };
+  }
+
+  // OneRoster-style payloads wrap the resource in a single property, e.g. { user: {...} } or { users: [...] }
+  private findEnvelopeKey(schema: OpenAPIV3.SchemaObject | undefined, kind: 'object' | 'array'): string | undefined {
+    if (!schema?.properties) {
+      return undefined;
+    }
+    const candidates = Object.entries(schema.properties).filter(([, property]) => {
+      const propertySchema = property as OpenAPIV3.SchemaObject;
+      return kind === 'array'
+        ? propertySchema.type === 'array'
+        : propertySchema.type === 'object' || Boolean(propertySchema.properties || propertySchema.allOf);
+    });
+    return candidates.length === 1 ? candidates[0][0] : undefined;
+  }
+
+  private getIdField(record: any, schema: OpenAPIV3.SchemaObject | undefined, envelopeKey?: string): string {
+    const itemSchema = (envelopeKey ? schema?.properties?.[envelopeKey] : schema) as OpenAPIV3.SchemaObject | undefined;
+    return ID_FIELDS.find(field => record?.[field] !== undefined)
+      || ID_FIELDS.find(field => itemSchema?.properties?.[field])
+      || 'id';
+  }
+
+  private getSuccessResponse(endpoint: ParsedEndpoint): [number, OpenAPIV3.SchemaObject | undefined] {
+    const responses = endpoint.responses || {};
+    const status = Object.keys(responses).filter(code => /^2\d\d$/.test(code)).sort()[0];
+    if (!status) {
+      return [200, undefined];
+    }
+    const response = responses[status] as OpenAPIV3.ResponseObject;
+    return [Number(status), this.getMediaSchema(response.content)];
+  }
+
+  private getMediaSchema(content?: Record<string, OpenAPIV3.MediaTypeObject>): OpenAPIV3.SchemaObject | undefined {
+    if (!content) {
+      return undefined;
+    }
+    const media = content['application/json'] || Object.values(content)[0];
+    return media?.schema as OpenAPIV3.SchemaObject | undefined;
+  }
+
+  private exampleFor(schema: OpenAPIV3.SchemaObject): any {
+    return this.exampleGenerator.generate(schema, { seed: this.options.seed, direction: 'response' });
+  }
+
+  private notFound(res: Response, id: string): void {
+    res.status(404).json({ error: 'not_found', message: `No record with id ${id}` });
+  }
+
+  private send(res: Response, status: number, body: any): void {
+    if (body === undefined) {
+      res.status(status).end();
+      return;
+    }
+    res.status(status).json(body);
+  }
+}
@@ -0,0 +1,674 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import axios from 'axios';
+import { OpenAPIV3 } from 'openapi-types';
+import { AuthService } from './auth.js';
+import { OpenAPIParser } from './openapi-parser.js';
+import { SchemaValidator } from './schema-validator.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { readZip, writeZip } from '../utils/zip.js';
+
+export const ONEROSTER_ROSTERING_PATH = '/ims/oneroster/rostering/v1p2';
+const ONEROSTER_RESOURCES_PATH = '/ims/oneroster/resources/v1p2';
+
+export type OneRosterCsvFile = 'academicSessions' | 'orgs' | 'courses' | 'classes' | 'users' | 'roles' | 'enrollments';
+export type OneRosterFileMode = 'bulk' | 'delta' | 'absent';
+
+export interface OneRosterCsvTable {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface OneRosterCsvBundle {
+  manifest: Record<string, string>;
+  files: Partial<Record<OneRosterCsvFile, OneRosterCsvTable>>;
+  unsupported: string[];
+}
+
+export interface OneRosterCsvIssue {
+  severity: 'error' | 'warning';
+  file: string;
+  row?: number;
+  column?: string;
+  message: string;
+}
+
+/** REST records keyed by collection, e.g. { orgs: [...], users: [...] }. */
+export type OneRosterRestData = Record<string, Record<string, any>[]>;
+
+export interface OneRosterPushOperation {
+  method: 'PUT' | 'DELETE';
+  collection: string;
+  sourcedId: string;
+  url: string;
+  body?: Record<string, any>;
+}
+
+export interface OneRosterPushResult {
+  succeeded: number;
+  failed: number;
+  operations: { method: string; collection: string; sourcedId: string; status?: number; error?: string }[];
+}
+
+type RefTarget = OneRosterCsvFile | 'resources';
+
+interface CsvColumn {
+  name: string;
+  required?: boolean;
+  kind?: 'boolean' | 'date' | 'datetime' | 'list' | 'userIds';
+  values?: readonly string[];
+  ref?: RefTarget;
+  field?: string;
+}
+
+interface CsvFileDefinition {
+  collection?: string;
+  resource?: string;
+  columns: CsvColumn[];
+}
+
+const STATUSES = ['active', 'tobedeleted'];
+const ORG_TYPES = ['department', 'school', 'district', 'local', 'state', 'national'];
+const SESSION_TYPES = ['gradingPeriod', 'semester', 'schoolYear', 'term'];
+const CLASS_TYPES = ['homeroom', 'scheduled'];
+const ROLE_TYPES = ['primary', 'secondary'];
+const USER_ROLES = [
+  'aide', 'counselor', 'districtAdministrator', 'guardian', 'parent', 'principal', 'proctor', 'relative',
+  'siteAdministrator', 'student', 'systemAdministrator', 'teacher',
+];
+const ENROLLMENT_ROLES = ['administrator', 'proctor', 'student', 'teacher'];
+const MODES: OneRosterFileMode[] = ['bulk', 'delta', 'absent'];
+
+const COMMON_COLUMNS: CsvColumn[] = [
+  { name: 'sourcedId', required: true },
+  { name: 'status', values: STATUSES },
+  { name: 'dateLastModified', kind: 'datetime' },
+];
+
+/** OneRoster 1.2 CSV files in dependency order, with the REST shape each column maps to. */
+export const ONEROSTER_CSV_FILES: Record<OneRosterCsvFile, CsvFileDefinition> = {
+  academicSessions: {
+    collection: 'academicSessions',
+    resource: 'academicSession',
+    columns: [
+      ...COMMON_COLUMNS,
+      { name: 'title', required: true },
+      { name: 'type', required: true, values: SESSION_TYPES },
+      { name: 'startDate', required: true, kind: 'date' },
+      { name: 'endDate', required: true, kind: 'date' },
+      { name: 'parentSourcedId', ref: 'academicSessions', field: 'parent' },
+      { name: 'schoolYear', required: true },
+    ],
+  },
+  orgs: {
+    collection: 'orgs',
+    resource: 'org',
+    columns: [
+      ...COMMON_COLUMNS,
+      { name: 'name', required: true },
+      { name: 'type', required: true, values: ORG_TYPES },
+      { name: 'identifier' },
+      { name: 'parentSourcedId', ref: 'orgs', field: 'parent' },
+    ],
+  },
+  courses: {
+    collection: 'courses',
+    resource: 'course',
+    columns: [
+      ...COMMON_COLUMNS,
+      { name: 'schoolYearSourcedId', ref: 'academicSessions', field: 'schoolYear' },
+      { name: 'title', required: true },
+      { name: 'courseCode' },
+      { name: 'grades', kind: 'list' },
+      { name: 'orgSourcedId', required: true, ref: 'orgs', field: 'org' },
+      { name: 'subjects', kind: 'list' },
+      { name: 'subjectCodes', kind: 'list' },
+    ],
+  },
+  classes: {
+    collection: 'classes',
+    resource: 'class',
+    columns: [
+      ...COMMON_COLUMNS,
+      { name: 'title', required: true },
+      { name: 'grades', kind: 'list' },
+      { name: 'courseSourcedId', required: true, ref: 'courses', field: 'course' },
+      { name: 'classCode' },
+      { name: 'classType', required: true, values: CLASS_TYPES },
+      { name: 'location' },
+      { name: 'schoolSourcedId', required: true, ref: 'orgs', field: 'school' },
+      { name: 'termSourcedIds', required: true, kind: 'list', ref: 'academicSessions', field: 'terms' },
+      { name: 'subjects', kind: 'list' },
+      { name: 'subjectCodes', kind: 'list' },
+      { name: 'periods', kind: 'list' },
+    ],
+  },
+  users: {
+    collection: 'users',
+    resource: 'user',
+    columns: [
+      ...COMMON_COLUMNS,
+      { name: 'enabledUser', required: true, kind: 'boolean' },
+      { name: 'username' },
+      { name: 'userIds', kind: 'userIds' },
+      { name: 'givenName', required: true },
+      { name: 'familyName', required: true },
+      { name: 'middleName' },
+      { name: 'identifier' },
+      { name: 'email' },
+      { name: 'sms' },
+      { name: 'phone' },
+      { name: 'agentSourcedIds', kind: 'list', ref: 'users', field: 'agents' },
+      { name: 'grades', kind: 'list' },
+      { name: 'password' },
+      { name: 'userMasterIdentifier' },
+      { name: 'resourceSourcedIds', kind: 'list', ref: 'resources', field: 'resources' },
+      { name: 'preferredGivenName' },
+      { name: 'preferredMiddleName' },
+      { name: 'preferredFamilyName' },
+      { name: 'primaryOrgSourcedId', ref: 'orgs', field: 'primaryOrg' },
+      { name: 'pronouns' },
+    ],
+  },
+  // Roles have no REST collection of their own: they are sent as user.roles
+  roles: {
+    columns: [
+      ...COMMON_COLUMNS,
+      { name: 'userSourcedId', required: true, ref: 'users' },
+      { name: 'roleType', required: true, values: ROLE_TYPES },
+      { name: 'role', required: true, values: USER_ROLES },
+      { name: 'beginDate', kind: 'date' },
+      { name: 'endDate', kind: 'date' },
+      { name: 'orgSourcedId', required: true, ref: 'orgs', field: 'org' },
+      { name: 'userProfileSourcedId', field: 'userProfile' },
+    ],
+  },
+  enrollments: {
+    collection: 'enrollments',
+    resource: 'enrollment',
+    columns: [
+      ...COMMON_COLUMNS,
+      { name: 'classSourcedId', required: true, ref: 'classes', field: 'class' },
+      { name: 'schoolSourcedId', required: true, ref: 'orgs', field: 'school' },
+      { name: 'userSourcedId', required: true, ref: 'users', field: 'user' },
+      { name: 'role', required: true, values: ENROLLMENT_ROLES },
+      { name: 'primary', kind: 'boolean' },
+      { name: 'beginDate', kind: 'date' },
+      { name: 'endDate', kind: 'date' },
+    ],
+  },
+};
+
+const FILE_ORDER = Object.keys(ONEROSTER_CSV_FILES) as OneRosterCsvFile[];
+
+const REF_TARGETS: Record<RefTarget, { type: string; path: string }> = {
+  academicSessions: { type: 'academicSession', path: `${ONEROSTER_ROSTERING_PATH}/academicSessions` },
+  orgs: { type: 'org', path: `${ONEROSTER_ROSTERING_PATH}/orgs` },
+  courses: { type: 'course', path: `${ONEROSTER_ROSTERING_PATH}/courses` },
+  classes: { type: 'class', path: `${ONEROSTER_ROSTERING_PATH}/classes` },
+  users: { type: 'user', path: `${ONEROSTER_ROSTERING_PATH}/users` },
+  roles: { type: 'role', path: `${ONEROSTER_ROSTERING_PATH}/roles` },
+  enrollments: { type: 'enrollment', path: `${ONEROSTER_ROSTERING_PATH}/enrollments` },
+  resources: { type: 'resource', path: `${ONEROSTER_RESOURCES_PATH}/resources` },
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+const USER_ID_PATTERN = /^\{([^:{}]+):([^{}]*)\}$/;
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell !== ''));
+}
+
+function stringifyCsv(rows: string[][]): string {
+  return rows.map(cells => cells.map(cell => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(',')).join('\r\n') + '\r\n';
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Reads, validates and writes OneRoster 1.2 CSV bundles, converting between CSV rows and the REST
+ * JSON resources, and pushes delta files through the authenticated client.
+ */
+export class OneRosterCsvService {
+  constructor(
+    private openApiParser: OpenAPIParser,
+    private authService?: AuthService,
+    private schemaValidator = new SchemaValidator(),
+    private baseUrl = config.timeback.oneroster.baseUrl
+  ) {}
+
+  /** Load a bundle from a zip archive or a directory of CSV files. */
+  async loadBundle(source: string): Promise<OneRosterCsvBundle> {
+    const stats = await fs.stat(source);
+    if (stats.isDirectory()) {
+      const names = (await fs.readdir(source)).filter(name => name.toLowerCase().endsWith('.csv'));
+      const files: Record<string, string> = {};
+      for (const name of names) {
+        files[name] = await fs.readFile(path.join(source, name), 'utf-8');
+      }
+      return this.readBundle(files);
+    }
+    return this.readBundle(Object.fromEntries(readZip(await fs.readFile(source))));
+  }
+
+  readBundle(files: Record<string, string | Buffer>): OneRosterCsvBundle {
+    const bundle: OneRosterCsvBundle = { manifest: {}, files: {}, unsupported: [] };
+
+    for (const [filePath, content] of Object.entries(files)) {
+      const name = path.basename(filePath);
+      if (!name.toLowerCase().endsWith('.csv')) continue;
+      const [headers = [], ...rows] = parseCsv(Buffer.isBuffer(content) ? content.toString('utf-8') : content);
+      const trimmedHeaders = headers.map(header => header.trim());
+
+      if (name === 'manifest.csv') {
+        for (const [property, value] of rows) {
+          bundle.manifest[property.trim()] = (value || '').trim();
+        }
+        continue;
+      }
+
+      const file = name.replace(/\.csv$/i, '') as OneRosterCsvFile;
+      if (!ONEROSTER_CSV_FILES[file]) {
+        bundle.unsupported.push(name);
+        continue;
+      }
+      bundle.files[file] = {
+        headers: trimmedHeaders,
+        rows: rows.map(cells => Object.fromEntries(trimmedHeaders.map((header, index) => [header, (cells[index] || '').trim()]))),
+      };
+    }
+
+    return bundle;
+  }
+
+  mode(bundle: OneRosterCsvBundle, file: OneRosterCsvFile): OneRosterFileMode {
+    const mode = bundle.manifest[`file.${file}`] as OneRosterFileMode;
+    return MODES.includes(mode) ? mode : 'absent';
+  }
+
+  /** Check the manifest, headers, enum values and references between sourcedIds. */
+  validate(bundle: OneRosterCsvBundle): OneRosterCsvIssue[] {
+    const issues: OneRosterCsvIssue[] = [];
+    const error = (file: string, message: string, row?: number, column?: string) =>
+      issues.push({ severity: 'error', file, ...(row !== undefined && { row }), ...(column && { column }), message });
+    const warning = (file: string, message: string, row?: number, column?: string) =>
+      issues.push({ severity: 'warning', file, ...(row !== undefined && { row }), ...(column && { column }), message });
+
+    this.validateManifest(bundle, error, warning);
+
+    const ids = new Map<OneRosterCsvFile, Set<string>>();
+    for (const file of FILE_ORDER) {
+      const table = bundle.files[file];
+      if (!table) continue;
+      const seen = new Set<string>();
+      table.rows.forEach((row, index) => {
+        if (!row.sourcedId) return;
+        if (seen.has(row.sourcedId)) error(`${file}.csv`, `Duplicate sourcedId ${row.sourcedId}`, index + 2, 'sourcedId');
+        seen.add(row.sourcedId);
+      });
+      ids.set(file, seen);
+    }
+
+    for (const file of FILE_ORDER) {
+      const table = bundle.files[file];
+      if (!table) continue;
+      const fileName = `${file}.csv`;
+      const mode = this.mode(bundle, file);
+      const { columns } = ONEROSTER_CSV_FILES[file];
+
+      for (const header of table.headers) {
+        if (!columns.some(column => column.name === header)) error(fileName, `Unknown column ${header}`, 1, header);
+      }
+      for (const column of columns) {
+        if (table.headers.includes(column.name)) continue;
+        (column.required ? error : warning)(fileName, `Missing ${column.required ? 'required ' : ''}column ${column.name}`, 1, column.name);
+      }
+
+      table.rows.forEach((row, index) => {
+        const line = index + 2;
+        for (const column of columns) {
+          const value = row[column.name] || '';
+          if (column.name === 'status' || column.name === 'dateLastModified') {
+            if (mode === 'delta' && !value) error(fileName, `${column.name} is required in delta files`, line, column.name);
+            if (mode === 'bulk' && value) warning(fileName, `${column.name} should be blank in bulk files`, line, column.name);
+          }
+          if (!value) {
+            if (column.required) error(fileName, `${column.name} is required`, line, column.name);
+            continue;
+          }
+          const message = this.checkValue(column, value);
+          if (message) error(fileName, message, line, column.name);
+
+          // References can only be checked against files the bundle replaces in full
+          if (column.ref && column.ref !== 'resources' && this.mode(bundle, column.ref) === 'bulk') {
+            const targets = column.kind === 'list' ? splitList(value) : [value];
+            for (const target of targets) {
+              if (!ids.get(column.ref)?.has(target)) {
+                error(fileName, `${column.name} ${target} does not match a sourcedId in ${column.ref}.csv`, line, column.name);
+              }
+            }
+          }
+        }
+      });
+    }
+
+    if (bundle.files.roles && !bundle.files.users) {
+      warning('roles.csv', 'Roles are sent as part of their users; include users.csv to import them');
+    }
+    for (const name of bundle.unsupported) {
+      warning(name, 'File is not supported and was skipped');
+    }
+
+    return issues;
+  }
+
+  /** Convert bundle rows to REST resources; roles.csv rows become user.roles. */
+  toRest(bundle: OneRosterCsvBundle, importedAt = new Date().toISOString()): OneRosterRestData {
+    const data: OneRosterRestData = {};
+
+    for (const file of FILE_ORDER) {
+      const table = bundle.files[file];
+      const definition = ONEROSTER_CSV_FILES[file];
+      if (!table || !definition.collection) continue;
+      data[definition.collection] = table.rows.map(row => ({
+        ...this.rowToRecord(definition.columns, row),
+        status: row.status || 'active',
+        dateLastModified: row.dateLastModified || importedAt,
+      }));
+    }
+
+    if (bundle.files.roles && data.users) {
+      const users = new Map(data.users.map(user => [user.sourcedId, user]));
+      for (const row of bundle.files.roles.rows) {
+        const user = users.get(row.userSourcedId);
+        if (!user || row.status === 'tobedeleted') continue;
+        const { sourcedId, status, dateLastModified, userSourcedId, ...role } = this.rowToRecord(ONEROSTER_CSV_FILES.roles.columns, row);
+        user.roles = [...(user.roles || []), role];
+      }
+    }
+
+    return data;
+  }
+
+  /** Validate converted resources against the schemas of the loaded OneRoster spec. */
+  validateRest(data: OneRosterRestData): OneRosterCsvIssue[] {
+    const issues: OneRosterCsvIssue[] = [];
+
+    for (const file of FILE_ORDER) {
+      const { collection, resource } = ONEROSTER_CSV_FILES[file];
+      if (!collection || !resource || !data[collection]) continue;
+      const schema = this.resolveSchema(collection, resource);
+      if (!schema) {
+        issues.push({ severity: 'warning', file: `${file}.csv`, message: `No ${resource} schema in the loaded OneRoster spec; records were not validated` });
+        continue;
+      }
+      data[collection].forEach((record, index) => {
+        for (const violation of this.schemaValidator.validate(schema, record, 'request', `/${collection}/${index}`, resource)) {
+          issues.push({ severity: 'error', file: `${file}.csv`, row: index + 2, message: violation.message });
+        }
+      });
+    }
+
+    return issues;
+  }
+
+  /** Convert REST resources back to CSV file contents, including manifest.csv. */
+  fromRest(data: OneRosterRestData, mode: Exclude<OneRosterFileMode, 'absent'> = 'bulk'): Record<string, string> {
+    const files: Record<string, string> = {};
+    const tables: Partial<Record<OneRosterCsvFile, Record<string, any>[]>> = {};
+
+    for (const file of FILE_ORDER) {
+      const { collection } = ONEROSTER_CSV_FILES[file];
+      if (collection && data[collection]?.length) tables[file] = data[collection];
+    }
+    const roles = (data.users || []).flatMap(user => (user.roles || []).map((role: Record<string, any>) => ({
+      ...role,
+      sourcedId: role.sourcedId || `${user.sourcedId}-${role.org?.sourcedId || 'org'}-${role.role}`,
+      status: user.status,
+      dateLastModified: user.dateLastModified,
+      userSourcedId: user.sourcedId,
+    })));
+    if (roles.length > 0) tables.roles = roles;
+
+    for (const file of FILE_ORDER) {
+      const records = tables[file];
+      if (!records) continue;
+      const { columns } = ONEROSTER_CSV_FILES[file];
+      const rows = records.map(record => columns.map(column => {
+        if (mode === 'bulk' && (column.name === 'status' || column.name === 'dateLastModified')) return '';
+        return this.recordValue(column, record);
+      }));
+      files[`${file}.csv`] = stringifyCsv([columns.map(column => column.name), ...rows]);
+    }
+
+    files['manifest.csv'] = stringifyCsv([
+      ['propertyName', 'value'],
+      ['manifest.version', '1.0'],
+      ['oneroster.version', '1.2'],
+      ...FILE_ORDER.map(file => [`file.${file}`, tables[file] ? mode : 'absent']),
+      ['source.systemName', config.server.name],
+    ]);
+    return files;
+  }
+
+  /** Write CSV files to a .zip archive or, for any other path, a directory. */
+  async saveBundle(files: Record<string, string>, outputPath: string): Promise<string[]> {
+    if (outputPath.toLowerCase().endsWith('.zip')) {
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, writeZip(files));
+      return [outputPath];
+    }
+    await fs.mkdir(outputPath, { recursive: true });
+    for (const [name, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(outputPath, name), content, 'utf-8');
+    }
+    return Object.keys(files).map(name => path.join(outputPath, name));
+  }
+
+  /** Plan PUT/DELETE calls for delta files (and bulk files when includeBulk is set). */
+  planPush(bundle: OneRosterCsvBundle, data: OneRosterRestData, includeBulk = false): OneRosterPushOperation[] {
+    const upserts: OneRosterPushOperation[] = [];
+    const deletes: OneRosterPushOperation[] = [];
+
+    for (const file of FILE_ORDER) {
+      const { collection, resource } = ONEROSTER_CSV_FILES[file];
+      const mode = this.mode(bundle, file);
+      if (!collection || !resource || !data[collection] || !(mode === 'delta' || (includeBulk && mode === 'bulk'))) continue;
+
+      for (const record of data[collection]) {
+        const url = `${this.baseUrl.replace(/\/+$/, '')}${ONEROSTER_ROSTERING_PATH}/${collection}/${encodeURIComponent(record.sourcedId)}`;
+        if (record.status === 'tobedeleted') {
+          deletes.push({ method: 'DELETE', collection, sourcedId: record.sourcedId, url });
+        } else {
+          upserts.push({ method: 'PUT', collection, sourcedId: record.sourcedId, url, body: { [resource]: record } });
+        }
+      }
+    }
+
+    // Dependents are deleted before the records they point at
+    return [...upserts, ...deletes.reverse()];
+  }
+
+  /** Send planned operations one by one; a failed call is recorded and the rest still run. */
+  async push(operations: OneRosterPushOperation[], profile?: string): Promise<OneRosterPushResult> {
+    if (!this.authService) {
+      throw new Error('Pushing OneRoster data requires an authenticated client');
+    }
+    const result: OneRosterPushResult = { succeeded: 0, failed: 0, operations: [] };
+
+    for (const operation of operations) {
+      const summary = { method: operation.method, collection: operation.collection, sourcedId: operation.sourcedId };
+      try {
+        const response = await this.authService.makeAuthenticatedRequest(operation.url, {
+          method: operation.method,
+          headers: { 'Content-Type': 'application/json' },
+          ...(operation.body && { data: operation.body }),
+        }, { api: 'oneroster', profile });
+        result.succeeded++;
+        result.operations.push({ ...summary, status: response.status });
+      } catch (error) {
+        result.failed++;
+        result.operations.push({
+          ...summary,
+          status: axios.isAxiosError(error) ? error.response?.status : undefined,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        logger.warn(`OneRoster ${operation.method} failed`, { url: operation.url, error });
+      }
+    }
+
+    logger.info('Pushed OneRoster CSV changes', { succeeded: result.succeeded, failed: result.failed });
+    return result;
+  }
+
+  private validateManifest(
+    bundle: OneRosterCsvBundle,
+    error: (file: string, message: string) => void,
+    warning: (file: string, message: string) => void
+  ): void {
+    const { manifest } = bundle;
+    if (Object.keys(manifest).length === 0) {
+      error('manifest.csv', 'manifest.csv is missing or empty');
+      return;
+    }
+    if (manifest['manifest.version'] !== '1.0') {
+      error('manifest.csv', `manifest.version must be 1.0 (found ${manifest['manifest.version'] || 'nothing'})`);
+    }
+    if (manifest['oneroster.version'] !== '1.2') {
+      error('manifest.csv', `oneroster.version must be 1.2 (found ${manifest['oneroster.version'] || 'nothing'})`);
+    }
+
+    for (const [property, value] of Object.entries(manifest)) {
+      if (!property.startsWith('file.')) continue;
+      const file = property.slice('file.'.length) as OneRosterCsvFile;
+      if (!MODES.includes(value as OneRosterFileMode)) {
+        error('manifest.csv', `${property} must be bulk, delta or absent (found ${value || 'nothing'})`);
+      } else if (!ONEROSTER_CSV_FILES[file]) {
+        if (value !== 'absent') warning('manifest.csv', `${property} is not supported and will be skipped`);
+      } else if (value !== 'absent' && !bundle.files[file]) {
+        error('manifest.csv', `${property} is ${value} but ${file}.csv is missing`);
+      }
+    }
+    for (const file of FILE_ORDER) {
+      if (bundle.files[file] && this.mode(bundle, file) === 'absent') {
+        error('manifest.csv', `${file}.csv is present but file.${file} is not bulk or delta`);
+      }
+    }
+  }
+
+  private checkValue(column: CsvColumn, value: string): string | undefined {
+    if (column.values && !column.values.includes(value)) {
+      return `${column.name} must be one of ${column.values.join(', ')} (found ${value})`;
+    }
+    switch (column.kind) {
+      case 'boolean':
+        return value === 'true' || value === 'false' ? undefined : `${column.name} must be true or false (found ${value})`;
+      case 'date':
+        return DATE_PATTERN.test(value) ? undefined : `${column.name} must be a YYYY-MM-DD date (found ${value})`;
+      case 'datetime':
+        return DATE_TIME_PATTERN.test(value) ? undefined : `${column.name} must be an ISO 8601 date-time (found ${value})`;
+      case 'userIds': {
+        const invalid = splitList(value).find(id => !USER_ID_PATTERN.test(id));
+        return invalid ? `${column.name} entries must look like {type:identifier} (found ${invalid})` : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private rowToRecord(columns: CsvColumn[], row: Record<string, string>): Record<string, any> {
+    const record: Record<string, any> = {};
+    for (const column of columns) {
+      const value = row[column.name];
+      if (!value) continue;
+      const field = column.field || column.name;
+      if (column.ref && column.kind === 'list') {
+        record[field] = splitList(value).map(id => this.guidRef(column.ref!, id));
+      } else if (column.ref && column.field) {
+        record[field] = this.guidRef(column.ref, value);
+      } else if (column.kind === 'list') {
+        record[field] = splitList(value);
+      } else if (column.kind === 'boolean') {
+        record[field] = value === 'true';
+      } else if (column.kind === 'userIds') {
+        record[field] = splitList(value).map(id => {
+          const [, type, identifier] = id.match(USER_ID_PATTERN) || [, '', id];
+          return { type, identifier };
+        });
+      } else {
+        record[field] = value;
+      }
+    }
+    return record;
+  }
+
+  private recordValue(column: CsvColumn, record: Record<string, any>): string {
+    const value = record[column.field || column.name];
+    if (value === undefined || value === null) return '';
+    if (column.ref && column.field) {
+      return Array.isArray(value) ? value.map(ref => ref?.sourcedId).filter(Boolean).join(',') : value.sourcedId || '';
+    }
+    if (column.kind === 'userIds') {
+      return (value as { type: string; identifier: string }[]).map(id => `{${id.type}:${id.identifier}}`).join(',');
+    }
+    return Array.isArray(value) ? value.join(',') : String(value);
+  }
+
+  private guidRef(target: RefTarget, sourcedId: string): { href: string; sourcedId: string; type: string } {
+    const { type, path: collectionPath } = REF_TARGETS[target];
+    return { href: `${this.baseUrl.replace(/\/+$/, '')}${collectionPath}/${encodeURIComponent(sourcedId)}`, sourcedId, type };
+  }
+
+  private resolveSchema(collection: string, resource: string): OpenAPIV3.SchemaObject | undefined {
+    // The single-record GET response wraps the resource, e.g. { org: {...} }
+    const itemPath = new RegExp(`/${collection}/\\{[^}]+\\}$`);
+    const endpoint = this.openApiParser.getEndpoints('oneroster')
+      .find(candidate => candidate.method === 'GET' && candidate.path.startsWith(ONEROSTER_ROSTERING_PATH) && itemPath.test(candidate.path));
+    const response = endpoint?.responses['200'] as OpenAPIV3.ResponseObject | undefined;
+    const wrapper = response?.content?.['application/json']?.schema as OpenAPIV3.SchemaObject | undefined;
+    const wrapped = wrapper?.properties?.[resource] as OpenAPIV3.SchemaObject | undefined;
+    if (wrapped) return wrapped;
+
+    return this.openApiParser.getSchemas('oneroster').find(schema => schema.name.toLowerCase() === resource.toLowerCase())?.schema;
+  }
+}
@@ -0,0 +1,180 @@
+import { AuthService } from './auth.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface PaginationOptions {
+  query?: Record<string, any>;
+  pageSize?: number;
+  maxRecords?: number;
+  collectionKey?: string;
+  profile?: string;
+  onProgress?: (progress: PaginationProgress) => void;
+}
+
+export interface PaginationProgress {
+  page: number;
+  fetched: number;
+  total?: number;
+}
+
+export interface CollectionPage<T = any> {
+  page: number;
+  offset: number;
+  collectionKey: string;
+  records: T[];
+  totalCount?: number;
+  nextUrl?: string;
+  hasMore: boolean;
+}
+
+export interface PaginatedCollection<T = any> {
+  collectionKey: string;
+  records: T[];
+  totalCount?: number;
+  pagesFetched: number;
+  truncated: boolean;
+  pages: { page: number; offset: number; count: number }[];
+}
+
+export interface PaginationSettings {
+  pageSize: number;
+  maxRecords: number;
+}
+
+export class OneRosterPaginator {
+  constructor(
+    private authService: AuthService,
+    private settings: PaginationSettings = config.timeback.oneroster
+  ) {}
+
+  /** Joins a collection path onto a OneRoster base URL, refusing paths that would move the request to another host. */
+  collectionUrl(baseUrl: string, path: string): string {
+    const url = `${baseUrl.replace(/\/+$/, '')}${path}`;
+    if (!path.startsWith('/') || new URL(url).origin !== new URL(baseUrl).origin) {
+      throw new Error(`Invalid OneRoster collection path ${path}; it must be a path under ${new URL(baseUrl).origin}`);
+    }
+    return url;
+  }
+
+  async *pages<T = any>(url: string, options: PaginationOptions = {}): AsyncGenerator<CollectionPage<T>> {
+    const pageSize = options.pageSize || this.settings.pageSize;
+    const maxRecords = this.resolveMaxRecords(options.maxRecords);
+    const baseQuery = { ...options.query };
+    let offset = Number(baseQuery.offset) || 0;
+    delete baseQuery.offset;
+    delete baseQuery.limit;
+
+    let nextUrl: string | undefined;
+    let page = 0;
+    let fetched = 0;
+
+    while (fetched < maxRecords) {
+      page++;
+      const limit = Math.min(pageSize, maxRecords - fetched);
+      const requestUrl = nextUrl || url;
+
+      // A Link "next" URL already carries its own paging parameters
+      const response = await this.authService.makeAuthenticatedRequest(requestUrl, {
+        method: 'GET',
+        params: nextUrl ? undefined : { ...baseQuery, limit, offset },
+      }, { api: 'oneroster', profile: options.profile });
+
+      const collectionKey = options.collectionKey || this.detectCollectionKey(response.data);
+      const pageRecords: T[] = Array.isArray(response.data?.[collectionKey]) ? response.data[collectionKey] : [];
+      const totalCount = this.parseTotalCount(response.headers);
+      nextUrl = this.parseNextLink(response.headers, requestUrl, url);
+
+      // Servers following Link headers may return more than requested; never exceed the cap
+      const records = pageRecords.slice(0, maxRecords - fetched);
+      const hasMore = records.length < pageRecords.length || (pageRecords.length > 0
+        && (totalCount !== undefined ? offset + pageRecords.length < totalCount : Boolean(nextUrl) || pageRecords.length >= limit));
+
+      fetched += records.length;
+      options.onProgress?.({ page, fetched, total: totalCount });
+      logger.debug(`Fetched OneRoster page ${page}`, { url: requestUrl, records: records.length, fetched, totalCount });
+
+      yield { page, offset, collectionKey, records, totalCount, nextUrl, hasMore };
+
+      offset += pageRecords.length;
+      if (!hasMore) {
+        return;
+      }
+    }
+  }
+
+  async fetchAll<T = any>(url: string, options: PaginationOptions = {}): Promise<PaginatedCollection<T>> {
+    const maxRecords = this.resolveMaxRecords(options.maxRecords);
+    const records: T[] = [];
+    const pages: PaginatedCollection['pages'] = [];
+    let collectionKey = options.collectionKey || '';
+    let totalCount: number | undefined;
+    let hasMore = false;
+
+    for await (const page of this.pages<T>(url, { ...options, maxRecords })) {
+      collectionKey = page.collectionKey;
+      totalCount = page.totalCount ?? totalCount;
+      records.push(...page.records);
+      pages.push({ page: page.page, offset: page.offset, count: page.records.length });
+      hasMore = page.hasMore;
+    }
+
+    const truncated = records.length >= maxRecords && hasMore;
+    if (truncated) {
+      logger.warn(`Stopped OneRoster pagination at ${records.length} records`, { url, maxRecords, totalCount });
+    }
+
+    return {
+      collectionKey,
+      records,
+      totalCount,
+      pagesFetched: pages.length,
+      truncated,
+      pages,
+    };
+  }
+
+  private resolveMaxRecords(requested?: number): number {
+    if (!requested) {
+      return this.settings.maxRecords;
+    }
+    if (requested > this.settings.maxRecords) {
+      logger.warn(`Requested ${requested} records exceeds the safety cap; limiting to ${this.settings.maxRecords}`);
+      return this.settings.maxRecords;
+    }
+    return requested;
+  }
+
+  private detectCollectionKey(data: any): string {
+    if (!data || typeof data !== 'object') {
+      return '';
+    }
+    return Object.keys(data).find(key => Array.isArray(data[key])) || '';
+  }
+
+  private parseTotalCount(headers: any): number | undefined {
+    const value = headers?.['x-total-count'];
+    const total = parseInt(Array.isArray(value) ? value[0] : value, 10);
+    return isNaN(total) ? undefined : total;
+  }
+
+  private parseNextLink(headers: any, currentUrl: string, firstUrl: string): string | undefined {
+    const link: string | undefined = headers?.link;
+    if (!link) {
+      return undefined;
+    }
+
+    for (const part of link.split(',')) {
+      const match = part.match(/<([^>]+)>\s*;(.*)/);
+      if (match && /rel="?next"?/i.test(match[2])) {
+        const next = new URL(match[1].trim(), currentUrl);
+        // Every page is fetched with the OneRoster token, so never follow a link to another host
+        if (next.origin !== new URL(firstUrl).origin) {
+          throw new Error(`Refusing to follow OneRoster next link to ${next.origin}; pagination must stay on ${new URL(firstUrl).origin}`);
+        }
+        return next.toString();
+      }
+    }
+
+    return undefined;
+  }
+}
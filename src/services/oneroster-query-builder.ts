@@ -0,0 +1,297 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { OpenAPIParser } from './openapi-parser.js';
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~';
+export type FilterLogic = 'AND' | 'OR';
+
+export interface FilterPredicate {
+  field: string;
+  operator: FilterOperator;
+  value: string | number | boolean;
+}
+
+export interface FilterGroup {
+  logic: FilterLogic;
+  predicates: FilterPredicate[];
+}
+
+export interface OneRosterQuery {
+  filter?: FilterPredicate[] | FilterGroup;
+  sort?: string;
+  orderBy?: 'asc' | 'desc';
+  fields?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface BuiltOneRosterQuery {
+  params: Record<string, string>;
+  queryString: string;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface FilterExplanation {
+  filter: string;
+  logic: FilterLogic;
+  predicates: FilterPredicate[];
+  explanation: string;
+  errors: string[];
+  warnings: string[];
+}
+
+const OPERATORS: FilterOperator[] = ['>=', '<=', '!=', '=', '>', '<', '~'];
+
+const OPERATOR_DESCRIPTIONS: Record<FilterOperator, string> = {
+  '=': 'equals',
+  '!=': 'does not equal',
+  '>': 'is greater than',
+  '>=': 'is greater than or equal to',
+  '<': 'is less than',
+  '<=': 'is less than or equal to',
+  '~': 'contains',
+};
+
+export class OneRosterQueryBuilder {
+  constructor(private openApiParser: OpenAPIParser) {}
+
+  build(query: OneRosterQuery, schemaName?: string): BuiltOneRosterQuery {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const params: Record<string, string> = {};
+    const schema = this.resolveSchema(schemaName, errors, warnings);
+
+    if (query.filter) {
+      const group = Array.isArray(query.filter) ? { logic: 'AND' as const, predicates: query.filter } : query.filter;
+      if (group.predicates.length > 0) {
+        for (const predicate of group.predicates) {
+          errors.push(...this.validatePredicate(predicate, schema));
+        }
+        params.filter = this.renderFilter(group);
+      }
+    }
+
+    if (query.sort) {
+      errors.push(...this.validateField(query.sort, schema, 'sort'));
+      params.sort = query.sort;
+    }
+
+    if (query.orderBy) {
+      if (!query.sort) {
+        warnings.push('orderBy has no effect without sort');
+      }
+      params.orderBy = query.orderBy;
+    }
+
+    if (query.fields && query.fields.length > 0) {
+      for (const field of query.fields) {
+        errors.push(...this.validateField(field, schema, 'fields'));
+      }
+      params.fields = query.fields.join(',');
+    }
+
+    if (query.limit !== undefined) params.limit = String(query.limit);
+    if (query.offset !== undefined) params.offset = String(query.offset);
+
+    return {
+      params,
+      queryString: new URLSearchParams(params).toString(),
+      errors,
+      warnings,
+    };
+  }
+
+  renderFilter(group: FilterGroup): string {
+    return group.predicates
+      .map(predicate => `${predicate.field}${predicate.operator}'${this.escapeValue(predicate.value)}'`)
+      .join(` ${group.logic} `);
+  }
+
+  parseFilter(filter: string): FilterGroup {
+    const predicates: FilterPredicate[] = [];
+    let logic: FilterLogic | undefined;
+    let position = 0;
+
+    const skipWhitespace = () => {
+      while (position < filter.length && /\s/.test(filter[position])) position++;
+    };
+    const fail = (message: string): never => {
+      throw new Error(`Invalid filter at position ${position}: ${message}`);
+    };
+
+    while (true) {
+      skipWhitespace();
+      const fieldMatch = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(filter.slice(position));
+      if (!fieldMatch) fail('expected a field name');
+      const field = fieldMatch![0];
+      position += field.length;
+
+      skipWhitespace();
+      const operator = OPERATORS.find(op => filter.startsWith(op, position));
+      if (!operator) fail(`expected one of ${OPERATORS.join(' ')}`);
+      position += operator!.length;
+
+      skipWhitespace();
+      predicates.push({ field, operator: operator!, value: this.readValue(filter, position, fail, next => { position = next; }) });
+
+      skipWhitespace();
+      if (position >= filter.length) break;
+
+      const logicMatch = /^(AND|OR)\b/i.exec(filter.slice(position));
+      if (!logicMatch) fail('expected AND or OR');
+      const nextLogic = logicMatch![1].toUpperCase() as FilterLogic;
+      if (logic && logic !== nextLogic) {
+        fail('OneRoster filters cannot mix AND and OR');
+      }
+      logic = nextLogic;
+      position += logicMatch![0].length;
+    }
+
+    return { logic: logic || 'AND', predicates };
+  }
+
+  explainFilter(filter: string, schemaName?: string): FilterExplanation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const group = this.parseFilter(filter);
+    const schema = this.resolveSchema(schemaName, errors, warnings);
+
+    for (const predicate of group.predicates) {
+      errors.push(...this.validatePredicate(predicate, schema));
+    }
+
+    const clauses = group.predicates.map(predicate =>
+      `${predicate.field} ${OPERATOR_DESCRIPTIONS[predicate.operator]} "${predicate.value}"`
+    );
+
+    return {
+      filter,
+      logic: group.logic,
+      predicates: group.predicates,
+      explanation: clauses.length > 1
+        ? `Records where ${clauses.join(group.logic === 'AND' ? ', and ' : ', or ')}`
+        : `Records where ${clauses[0]}`,
+      errors,
+      warnings,
+    };
+  }
+
+  private readValue(filter: string, start: number, fail: (message: string) => never, advance: (position: number) => void): string {
+    if (filter[start] !== "'") {
+      // Unquoted values are tolerated up to the next whitespace
+      const match = /^[^\s']+/.exec(filter.slice(start));
+      if (!match) fail('expected a value');
+      advance(start + match![0].length);
+      return match![0];
+    }
+
+    let value = '';
+    let position = start + 1;
+    while (position < filter.length) {
+      if (filter[position] === "'") {
+        if (filter[position + 1] === "'") {
+          value += "'";
+          position += 2;
+          continue;
+        }
+        advance(position + 1);
+        return value;
+      }
+      value += filter[position++];
+    }
+
+    advance(position);
+    return fail('unterminated quoted value');
+  }
+
+  private escapeValue(value: string | number | boolean): string {
+    return String(value).replace(/'/g, "''");
+  }
+
+  private resolveSchema(schemaName: string | undefined, errors: string[], warnings: string[]): OpenAPIV3.SchemaObject | undefined {
+    if (!schemaName) {
+      warnings.push('No schema given; field names were not validated');
+      return undefined;
+    }
+
+    const schemas = this.openApiParser.getSchemas('oneroster');
+    if (schemas.length === 0) {
+      warnings.push('OneRoster specification not loaded; field names were not validated');
+      return undefined;
+    }
+
+    const match = schemas.find(s => s.name === schemaName)
+      || schemas.find(s => s.name.toLowerCase() === schemaName.toLowerCase());
+    if (!match) {
+      errors.push(`Unknown OneRoster schema: ${schemaName}`);
+      return undefined;
+    }
+
+    return match.schema;
+  }
+
+  private validatePredicate(predicate: FilterPredicate, schema?: OpenAPIV3.SchemaObject): string[] {
+    const errors: string[] = [];
+
+    if (!OPERATORS.includes(predicate.operator)) {
+      errors.push(`Unsupported operator "${predicate.operator}" for ${predicate.field}`);
+    }
+
+    if (!schema) return errors;
+
+    const property = this.findProperty(schema, predicate.field);
+    if (!property) {
+      errors.push(`Unknown filter field "${predicate.field}"`);
+      return errors;
+    }
+
+    const propertyType = property.type === 'array'
+      ? ((property as OpenAPIV3.ArraySchemaObject).items as OpenAPIV3.SchemaObject)?.type
+      : property.type;
+
+    if (predicate.operator === '~' && propertyType && propertyType !== 'string') {
+      errors.push(`Operator "~" requires a string field, but ${predicate.field} is ${propertyType}`);
+    }
+
+    const enumValues = property.enum
+      || ((property as OpenAPIV3.ArraySchemaObject).items as OpenAPIV3.SchemaObject | undefined)?.enum;
+    if (enumValues && ['=', '!='].includes(predicate.operator) && !enumValues.map(String).includes(String(predicate.value))) {
+      errors.push(`Value "${predicate.value}" is not allowed for ${predicate.field}; expected one of: ${enumValues.join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  private validateField(field: string, schema: OpenAPIV3.SchemaObject | undefined, parameter: string): string[] {
+    if (!schema || this.findProperty(schema, field)) {
+      return [];
+    }
+    return [`Unknown ${parameter} field "${field}"`];
+  }
+
+  private findProperty(schema: OpenAPIV3.SchemaObject, fieldPath: string): OpenAPIV3.SchemaObject | undefined {
+    let current: OpenAPIV3.SchemaObject | undefined = schema;
+
+    for (const segment of fieldPath.split('.')) {
+      if (!current) return undefined;
+      if (current.type === 'array') {
+        current = (current as OpenAPIV3.ArraySchemaObject).items as OpenAPIV3.SchemaObject;
+      }
+      current = this.collectProperties(current)[segment];
+    }
+
+    return current;
+  }
+
+  private collectProperties(schema: OpenAPIV3.SchemaObject | undefined): Record<string, OpenAPIV3.SchemaObject> {
+    if (!schema) return {};
+
+    const properties: Record<string, OpenAPIV3.SchemaObject> = {
+      ...(schema.properties as Record<string, OpenAPIV3.SchemaObject> | undefined),
+    };
+    for (const subSchema of [...(schema.allOf || []), ...(schema.oneOf || []), ...(schema.anyOf || [])]) {
+      Object.assign(properties, this.collectProperties(subSchema as OpenAPIV3.SchemaObject));
+    }
+    return properties;
+  }
+}
@@ -4,9 +4,12 @@ import * as yaml from 'js-yaml';
 import * as fs from 'fs/promises';
 import { ParsedEndpoint, ParsedSchema, TimeBackAPI } from '../types/index.js';
 import { logger } from '../utils/logger.js';
+import { ExampleGenerator } from './example-generator.js';
+import { SchemaComparator, SchemaComparisonResult } from './schema-comparator.js';
 
 class OpenAPIParser {
   private apis: Map<string, TimeBackAPI> = new Map();
+  private exampleGenerator = new ExampleGenerator();
 
   async loadFromFile(apiName: string, filePath: string, baseUrl: string): Promise<void> {
     try {
@@ -44,6 +47,14 @@ class OpenAPIParser {
     }
   }
 
+  loadFromDocument(apiName: string, spec: OpenAPIV3.Document, baseUrl: string): void {
+    this.apis.set(apiName, {
+      name: apiName,
+      baseUrl,
+      spec
+    });
+  }
+
   getAPI(apiName: string): TimeBackAPI | undefined {
     return this.apis.get(apiName);
   }
@@ -69,17 +80,26 @@ class OpenAPIParser {
       for (const [path, pathItem] of Object.entries(api.spec.paths)) {
         if (!pathItem) continue;
 
+        const pathParameters = (pathItem.parameters || []) as OpenAPIV3.ParameterObject[];
+
         for (const method of methods) {
           const operation = (pathItem as any)[method];
           if (!operation) continue;
 
+          // Operation-level parameters override path-level ones with the same name and location
+          const operationParameters = (operation.parameters || []) as OpenAPIV3.ParameterObject[];
+          const parameters = [
+            ...pathParameters.filter(pp => !operationParameters.some(op => op.name === pp.name && op.in === pp.in)),
+            ...operationParameters,
+          ];
+
           endpoints.push({
             path,
             method: method.toUpperCase(),
             operationId: operation.operationId,
             summary: operation.summary,
             description: operation.description,
-            parameters: operation.parameters as OpenAPIV3.ParameterObject[],
+            parameters: parameters.length > 0 ? parameters : undefined,
             requestBody: operation.requestBody as OpenAPIV3.RequestBodyObject,
             responses: operation.responses,
             tags: operation.tags,
@@ -112,6 +132,21 @@ class OpenAPIParser {
     return schemas;
   }
 
+  findEndpoint(apiName: string, selector: { operationId?: string; method?: string; path?: string }): ParsedEndpoint | undefined {
+    const endpoints = this.getEndpoints(apiName);
+
+    if (selector.operationId) {
+      return endpoints.find(endpoint => endpoint.operationId === selector.operationId);
+    }
+
+    if (selector.method && selector.path) {
+      const method = selector.method.toUpperCase();
+      return endpoints.find(endpoint => endpoint.method === method && endpoint.path === selector.path);
+    }
+
+    return undefined;
+  }
+
   getEndpointsByTag(tag: string, apiName?: string): ParsedEndpoint[] {
     return this.getEndpoints(apiName).filter(endpoint => 
       endpoint.tags?.includes(tag)
@@ -165,6 +200,12 @@ class OpenAPIParser {
         if (endpoint.description) {
           doc += `${endpoint.description}\n\n`;
         }
+        if (endpoint.requestBody && ['POST', 'PUT', 'PATCH'].includes(endpoint.method)) {
+          const example = this.exampleGenerator.generateRequestBody(endpoint);
+          if (example !== undefined) {
+            doc += `Example request body:\n\n\`\`\`json\n${JSON.stringify(example, null, 2)}\n\`\`\`\n\n`;
+          }
+        }
       }
     }
 
@@ -174,32 +215,29 @@ class OpenAPIParser {
       if (schema.description) {
         doc += `${schema.description}\n\n`;
       }
+      doc += `\`\`\`json\n${JSON.stringify(this.exampleGenerator.generateForSchema(schema), null, 2)}\n\`\`\`\n\n`;
     }
 
     return doc;
   }
 
-  compareSchemas(schema1Name: string, api1: string, schema2Name: string, api2: string): any {
-    const schema1 = this.getSchemas(api1).find(s => s.name === schema1Name);
-    const schema2 = this.getSchemas(api2).find(s => s.name === schema2Name);
-
-    if (!schema1 || !schema2) {
-      return { error: 'One or both schemas not found' };
+  compareSchemas(sourceSchemaName: string, sourceApi: string, targetSchemaName: string, targetApi: string): SchemaComparisonResult & {
+    source: { name: string; api: string };
+    target: { name: string; api: string };
+  } {
+    const source = this.getSchemas(sourceApi).find(s => s.name === sourceSchemaName);
+    if (!source) {
+      throw new Error(`Schema ${sourceSchemaName} not found in ${sourceApi}. Run load-timeback-specs first.`);
+    }
+    const target = this.getSchemas(targetApi).find(s => s.name === targetSchemaName);
+    if (!target) {
+      throw new Error(`Schema ${targetSchemaName} not found in ${targetApi}. Run load-timeback-specs first.`);
     }
-
-    const getProperties = (schema: OpenAPIV3.SchemaObject) => {
-      return schema.properties ? Object.keys(schema.properties) : [];
-    };
-
-    const props1 = getProperties(schema1.schema);
-    const props2 = getProperties(schema2.schema);
 
     return {
-      schema1: { name: schema1Name, api: api1, properties: props1 },
-      schema2: { name: schema2Name, api: api2, properties: props2 },
-      commonProperties: props1.filter(p => props2.includes(p)),
-      uniqueToSchema1: props1.filter(p => !props2.includes(p)),
-      uniqueToSchema2: props2.filter(p => !props1.includes(p)),
+      source: { name: sourceSchemaName, api: sourceApi },
+      target: { name: targetSchemaName, api: targetApi },
+      ...new SchemaComparator().compare(source.schema, target.schema),
     };
   }
 }
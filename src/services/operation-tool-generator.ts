@@ -0,0 +1,218 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { EndpointCallRequest, ParsedEndpoint } from '../types/index.js';
+
+export interface OperationToolFilter {
+  apis?: string[];
+  tags?: string[];
+}
+
+export interface OperationToolArgument {
+  name: string;
+  in: 'path' | 'query' | 'header';
+}
+
+export interface GeneratedOperationTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  endpoint: ParsedEndpoint;
+  arguments: Record<string, OperationToolArgument>;
+}
+
+const MAX_SCHEMA_DEPTH = 6;
+const MAX_TOOL_NAME_LENGTH = 64;
+
+export class OperationToolGenerator {
+  generateTools(endpoints: ParsedEndpoint[], filter: OperationToolFilter = {}): GeneratedOperationTool[] {
+    const tools: GeneratedOperationTool[] = [];
+    const usedNames = new Set<string>();
+
+    for (const endpoint of this.filterEndpoints(endpoints, filter)) {
+      const name = this.uniqueName(this.buildToolName(endpoint), usedNames);
+      usedNames.add(name);
+      tools.push(this.generateTool(name, endpoint));
+    }
+
+    return tools;
+  }
+
+  toCallRequest(tool: GeneratedOperationTool, args: Record<string, any> = {}): EndpointCallRequest {
+    const request: EndpointCallRequest = {
+      api: tool.endpoint.api,
+      method: tool.endpoint.method,
+      path: tool.endpoint.path,
+      pathParams: {},
+      query: {},
+      headers: {},
+    };
+
+    for (const [argName, value] of Object.entries(args)) {
+      if (argName === 'body') {
+        request.body = value;
+        continue;
+      }
+
+      const target = tool.arguments[argName];
+      if (!target) {
+        throw new Error(`Unknown argument "${argName}" for tool ${tool.name}`);
+      }
+
+      if (target.in === 'path') request.pathParams![target.name] = value;
+      else if (target.in === 'query') request.query![target.name] = value;
+      else request.headers![target.name] = String(value);
+    }
+
+    return request;
+  }
+
+  private filterEndpoints(endpoints: ParsedEndpoint[], filter: OperationToolFilter): ParsedEndpoint[] {
+    const apis = filter.apis?.map(api => api.toLowerCase());
+    const tags = filter.tags?.map(tag => tag.toLowerCase());
+
+    return endpoints.filter(endpoint => {
+      if (apis && apis.length > 0 && !apis.includes(endpoint.api.toLowerCase())) {
+        return false;
+      }
+      if (tags && tags.length > 0 && !endpoint.tags?.some(tag => tags.includes(tag.toLowerCase()))) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private generateTool(name: string, endpoint: ParsedEndpoint): GeneratedOperationTool {
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+    const argumentMap: Record<string, OperationToolArgument> = {};
+
+    for (const parameter of endpoint.parameters || []) {
+      if (parameter.in !== 'path' && parameter.in !== 'query' && parameter.in !== 'header') continue;
+
+      // Parameters sharing a name across locations (e.g. a query and a header) are disambiguated by prefix
+      const argName = properties[parameter.name] || parameter.name === 'body'
+        ? `${parameter.in}_${parameter.name}`
+        : parameter.name;
+
+      properties[argName] = {
+        ...this.toJsonSchema(parameter.schema as OpenAPIV3.SchemaObject | undefined),
+        description: parameter.description || `${parameter.in} parameter ${parameter.name}`,
+      };
+      argumentMap[argName] = { name: parameter.name, in: parameter.in };
+
+      if (parameter.required || parameter.in === 'path') {
+        required.push(argName);
+      }
+    }
+
+    if (endpoint.requestBody) {
+      const content = endpoint.requestBody.content || {};
+      const mediaType = Object.keys(content).find(type => type.includes('json')) || Object.keys(content)[0];
+      const bodySchema = mediaType ? content[mediaType].schema as OpenAPIV3.SchemaObject | undefined : undefined;
+
+      properties.body = {
+        ...this.toJsonSchema(bodySchema),
+        description: endpoint.requestBody.description || 'Request body',
+      };
+      if (endpoint.requestBody.required) {
+        required.push('body');
+      }
+    }
+
+    const inputSchema: Record<string, any> = { type: 'object', properties };
+    if (required.length > 0) {
+      inputSchema.required = required;
+    }
+
+    return {
+      name,
+      description: this.buildDescription(endpoint),
+      inputSchema,
+      endpoint,
+      arguments: argumentMap,
+    };
+  }
+
+  private buildToolName(endpoint: ParsedEndpoint): string {
+    const operation = endpoint.operationId
+      || `${endpoint.method.toLowerCase()}_${endpoint.path.replace(/[{}]/g, '').split('/').filter(Boolean).join('_')}`;
+    const name = `${endpoint.api}.${operation.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+    return name.slice(0, MAX_TOOL_NAME_LENGTH);
+  }
+
+  private uniqueName(name: string, usedNames: Set<string>): string {
+    if (!usedNames.has(name)) return name;
+
+    let counter = 2;
+    while (usedNames.has(`${name.slice(0, MAX_TOOL_NAME_LENGTH - 3)}_${counter}`)) {
+      counter++;
+    }
+    return `${name.slice(0, MAX_TOOL_NAME_LENGTH - 3)}_${counter}`;
+  }
+
+  private buildDescription(endpoint: ParsedEndpoint): string {
+    const summary = endpoint.summary || endpoint.description?.split('\n')[0] || endpoint.operationId || '';
+    return `[${endpoint.api.toUpperCase()}] ${endpoint.method} ${endpoint.path}${summary ? ` - ${summary}` : ''}`;
+  }
+
+  private toJsonSchema(
+    schema: OpenAPIV3.SchemaObject | undefined,
+    ancestors: Set<object> = new Set(),
+    depth = 0
+  ): Record<string, any> {
+    if (!schema) return {};
+
+    // Dereferenced specs can contain cycles; stop at repeated or deeply nested schemas
+    if (ancestors.has(schema) || depth >= MAX_SCHEMA_DEPTH) {
+      return schema.type ? { type: schema.type } : {};
+    }
+
+    const nextAncestors = new Set(ancestors).add(schema);
+    const result: Record<string, any> = {};
+
+    if (schema.type) {
+      result.type = schema.nullable ? [schema.type, 'null'] : schema.type;
+    }
+
+    for (const key of ['description', 'format', 'enum', 'default', 'minimum', 'maximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems'] as const) {
+      if ((schema as any)[key] !== undefined) {
+        result[key] = (schema as any)[key];
+      }
+    }
+
+    if (schema.properties) {
+      result.properties = {};
+      for (const [name, property] of Object.entries(schema.properties)) {
+        const propertySchema = property as OpenAPIV3.SchemaObject;
+        if (propertySchema.readOnly) continue;
+        result.properties[name] = this.toJsonSchema(propertySchema, nextAncestors, depth + 1);
+      }
+    }
+
+    if (schema.required && schema.required.length > 0) {
+      const writableRequired = schema.required.filter(name => result.properties?.[name] !== undefined);
+      if (writableRequired.length > 0) {
+        result.required = writableRequired;
+      }
+    }
+
+    if (schema.type === 'array' && (schema as OpenAPIV3.ArraySchemaObject).items) {
+      result.items = this.toJsonSchema((schema as OpenAPIV3.ArraySchemaObject).items as OpenAPIV3.SchemaObject, nextAncestors, depth + 1);
+    }
+
+    if (typeof schema.additionalProperties === 'object') {
+      result.additionalProperties = this.toJsonSchema(schema.additionalProperties as OpenAPIV3.SchemaObject, nextAncestors, depth + 1);
+    } else if (schema.additionalProperties !== undefined) {
+      result.additionalProperties = schema.additionalProperties;
+    }
+
+    for (const combinator of ['allOf', 'oneOf', 'anyOf'] as const) {
+      if (schema[combinator]) {
+        result[combinator] = schema[combinator]!.map(sub =>
+          this.toJsonSchema(sub as OpenAPIV3.SchemaObject, nextAncestors, depth + 1)
+        );
+      }
+    }
+
+    return result;
+  }
+}
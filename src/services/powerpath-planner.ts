@@ -0,0 +1,517 @@
+import { OpenAPIParser } from './openapi-parser.js';
+import { EndpointExecutor } from './endpoint-executor.js';
+import { SchemaValidator } from './schema-validator.js';
+import { ParsedEndpoint } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+export type PowerPathLessonStatus = 'mastered' | 'exempt' | 'in-progress' | 'not-started';
+export type PrerequisiteCriteria = 'ALL' | 'ANY';
+
+export interface PowerPathLesson {
+  id: string;
+  title: string;
+  sortOrder: number;
+  resourceId?: string;
+  type?: string;
+  xp?: number;
+}
+
+export interface PowerPathComponent {
+  id: string;
+  title: string;
+  sortOrder: number;
+  prerequisites: string[];
+  prerequisiteCriteria: PrerequisiteCriteria;
+  unlockDate?: string;
+  lessons: PowerPathLesson[];
+  components: PowerPathComponent[];
+}
+
+export interface PowerPathCourse {
+  id: string;
+  title: string;
+  components: PowerPathComponent[];
+}
+
+/** The latest result for a lesson (componentResource) or, for test-outs, a whole component. */
+export interface PowerPathResult {
+  id: string;
+  scope: 'lesson' | 'component';
+  score?: number;
+  scoreStatus: string;
+  scoreDate?: string;
+}
+
+export interface PlannedLesson {
+  id: string;
+  title: string;
+  componentId: string;
+  unit: string;
+  status: PowerPathLessonStatus;
+  score?: number;
+  locked: boolean;
+  blockedBy?: string[];
+  xp?: number;
+}
+
+export interface PowerPathPlan {
+  courseId: string;
+  title: string;
+  totals: { lessons: number; completed: number; remaining: number; percentComplete: number; xpRemaining?: number };
+  placement?: { componentId: string; title: string; path: string[]; lessonsCompleted: number; lessons: number };
+  nextLesson?: PlannedLesson;
+  remaining: PlannedLesson[];
+  projection?: { lessonsPerWeek: number; weeks: number; completionDate: string };
+}
+
+export interface PlanOptions {
+  masteryThreshold?: number;
+  lessonsPerWeek?: number;
+  startDate?: string;
+}
+
+export type PathChange =
+  | { type: 'master' | 'skip' | 'reset' | 'remove'; id: string }
+  | { type: 'add'; componentId: string; lesson: { id: string; title: string; xp?: number }; position?: number }
+  | { type: 'move'; id: string; componentId: string; position?: number }
+  | { type: 'prerequisites'; componentId: string; prerequisites: string[]; criteria?: PrerequisiteCriteria }
+  | { type: 'pace'; lessonsPerWeek: number };
+
+export interface PathSimulation {
+  baseline: PowerPathPlan;
+  scenario: PowerPathPlan;
+  applied: string[];
+  impact: {
+    remainingLessons: number;
+    weeks?: number;
+    completionDate?: { baseline?: string; scenario?: string };
+    nextLesson?: { baseline?: string; scenario?: string };
+    unlocked: string[];
+    locked: string[];
+  };
+}
+
+interface LoadOptions {
+  profile?: string;
+  data?: any;
+}
+
+const POWERPATH_OPERATIONS = {
+  syllabus: { pattern: /\/syllabus\/\{[^}]+\}$/, label: 'GET .../syllabus/{courseSourcedId}' },
+  progress: { pattern: /\/getCourseProgress\/\{[^}]+\}\/student\/\{[^}]+\}$/, label: 'GET .../getCourseProgress/{courseId}/student/{studentId}' },
+};
+
+const DONE_STATUSES: PowerPathLessonStatus[] = ['mastered', 'exempt'];
+const DEFAULT_THRESHOLD = 80;
+
+export class PowerPathPlanner {
+  constructor(
+    private openApiParser: OpenAPIParser,
+    private endpointExecutor?: EndpointExecutor,
+    private schemaValidator = new SchemaValidator()
+  ) {}
+
+  /** Reads a course syllabus from the PowerPath API, or normalizes one supplied as `data`. */
+  async loadCourse(courseId: string, options: LoadOptions = {}): Promise<{ course: PowerPathCourse; warnings: string[] }> {
+    const { body, warnings } = await this.fetch('syllabus', [courseId], options);
+    return { course: this.normalizeCourse(body, courseId), warnings };
+  }
+
+  async loadProgress(courseId: string, studentId: string, options: LoadOptions = {}): Promise<{ results: PowerPathResult[]; warnings: string[] }> {
+    const { body, warnings } = await this.fetch('progress', [courseId, studentId], options);
+    return { results: this.normalizeProgress(body), warnings };
+  }
+
+  normalizeCourse(body: any, courseId?: string): PowerPathCourse {
+    const syllabus = body?.syllabus ?? body;
+    const components = syllabus?.subComponents ?? syllabus?.components;
+    if (!Array.isArray(components)) {
+      throw new Error('Syllabus has no subComponents');
+    }
+    return {
+      id: syllabus.course?.sourcedId ?? courseId ?? 'course',
+      title: syllabus.course?.title ?? courseId ?? 'Course',
+      components: this.sortBy(components.map((component: any) => this.normalizeComponent(component))),
+    };
+  }
+
+  normalizeProgress(body: any): PowerPathResult[] {
+    const lineItems = body?.lineItems ?? body;
+    if (!Array.isArray(lineItems)) {
+      throw new Error('Course progress has no lineItems');
+    }
+
+    const results: PowerPathResult[] = [];
+    for (const lineItem of lineItems) {
+      const lessonId = lineItem.componentResourceSourcedId ?? lineItem.componentResource?.sourcedId;
+      const componentId = lineItem.courseComponentSourcedId ?? lineItem.courseComponent?.sourcedId;
+      const id = lessonId ?? componentId;
+      const latest = [...(lineItem.results || [])]
+        .sort((a: any, b: any) => String(b.scoreDate ?? '').localeCompare(String(a.scoreDate ?? '')))[0];
+      if (!id || !latest) continue;
+
+      results.push({
+        id,
+        scope: lessonId ? 'lesson' : 'component',
+        ...(latest.score !== undefined && latest.score !== null && { score: Number(latest.score) }),
+        scoreStatus: latest.scoreStatus ?? 'submitted',
+        ...(latest.scoreDate && { scoreDate: latest.scoreDate }),
+      });
+    }
+    return results;
+  }
+
+  summarize(course: PowerPathCourse): { courseId: string; title: string; units: number; components: number; lessons: number; xp: number; tree: any[] } {
+    let components = 0;
+    let lessons = 0;
+    let xp = 0;
+    const describe = (component: PowerPathComponent): any => {
+      components++;
+      lessons += component.lessons.length;
+      xp += component.lessons.reduce((sum, lesson) => sum + (lesson.xp || 0), 0);
+      return {
+        id: component.id,
+        title: component.title,
+        ...(component.prerequisites.length && { prerequisites: component.prerequisites, prerequisiteCriteria: component.prerequisiteCriteria }),
+        ...(component.unlockDate && { unlockDate: component.unlockDate }),
+        lessons: component.lessons.map(lesson => ({ id: lesson.id, title: lesson.title, ...(lesson.type && { type: lesson.type }), ...(lesson.xp && { xp: lesson.xp }) })),
+        ...(component.components.length && { components: component.components.map(describe) }),
+      };
+    };
+    const tree = course.components.map(describe);
+    return { courseId: course.id, title: course.title, units: course.components.length, components, lessons, xp, tree };
+  }
+
+  /** Placement, next lesson and the remaining mastery path for one student. */
+  plan(course: PowerPathCourse, results: PowerPathResult[], options: PlanOptions = {}): PowerPathPlan {
+    const threshold = options.masteryThreshold ?? DEFAULT_THRESHOLD;
+    const now = options.startDate ? new Date(options.startDate) : new Date();
+    const lessonResults = new Map(results.filter(result => result.scope === 'lesson').map(result => [result.id, result]));
+    const testedOut = new Set(results.filter(result => result.scope === 'component' && this.isMastered(result, threshold)).map(result => result.id));
+
+    // Lesson status first, then component mastery bottom-up, then locks top-down
+    const status = new Map<string, PowerPathLessonStatus>();
+    const mastered = new Set<string>();
+    const visit = (component: PowerPathComponent, testedOutAbove: boolean): boolean => {
+      const wholeComponent = testedOutAbove || testedOut.has(component.id);
+      let complete = true;
+      for (const lesson of component.lessons) {
+        const lessonStatus = wholeComponent ? 'mastered' : this.lessonStatus(lessonResults.get(lesson.id), threshold);
+        status.set(lesson.id, lessonStatus);
+        complete = complete && DONE_STATUSES.includes(lessonStatus);
+      }
+      for (const child of component.components) {
+        complete = visit(child, wholeComponent) && complete;
+      }
+      if (complete) mastered.add(component.id);
+      return complete;
+    };
+    course.components.forEach(component => visit(component, false));
+
+    const known = new Set<string>();
+    this.walk(course.components, component => known.add(component.id));
+
+    const lessons: PlannedLesson[] = [];
+    const collect = (component: PowerPathComponent, path: PowerPathComponent[], inheritedBlocks: string[]) => {
+      // Prerequisites outside this course cannot be checked and do not block
+      const required = component.prerequisites.filter(id => known.has(id));
+      const unmet = required.filter(id => !mastered.has(id));
+      const prerequisitesMet = component.prerequisiteCriteria === 'ANY' ? unmet.length < required.length || !required.length : !unmet.length;
+      const blocks = [
+        ...inheritedBlocks,
+        ...(prerequisitesMet ? [] : unmet),
+        ...(component.unlockDate && new Date(component.unlockDate) > now ? [`unlockDate ${component.unlockDate}`] : []),
+      ];
+      const trail = [...path, component];
+
+      for (const item of this.ordered(component)) {
+        if ('lessons' in item) {
+          collect(item, trail, blocks);
+          continue;
+        }
+        const result = lessonResults.get(item.id);
+        lessons.push({
+          id: item.id,
+          title: item.title,
+          componentId: component.id,
+          unit: trail.map(node => node.title).join(' > '),
+          status: status.get(item.id)!,
+          ...(result?.score !== undefined && { score: result.score }),
+          locked: blocks.length > 0,
+          ...(blocks.length && { blockedBy: blocks }),
+          ...(item.xp && { xp: item.xp }),
+        });
+      }
+    };
+    course.components.forEach(component => collect(component, [], []));
+
+    const remaining = lessons.filter(lesson => !DONE_STATUSES.includes(lesson.status));
+    const nextLesson = remaining.find(lesson => !lesson.locked);
+    const completed = lessons.length - remaining.length;
+    const xpRemaining = remaining.reduce((sum, lesson) => sum + (lesson.xp || 0), 0);
+
+    const plan: PowerPathPlan = {
+      courseId: course.id,
+      title: course.title,
+      totals: {
+        lessons: lessons.length,
+        completed,
+        remaining: remaining.length,
+        percentComplete: lessons.length ? Math.round((completed / lessons.length) * 1000) / 10 : 100,
+        ...(xpRemaining && { xpRemaining }),
+      },
+      remaining,
+    };
+
+    const current = nextLesson ?? remaining[0];
+    if (current) {
+      const unit = course.components.find(component => this.contains(component, current.componentId))!;
+      const unitLessons = lessons.filter(lesson => this.contains(unit, lesson.componentId));
+      plan.placement = {
+        componentId: unit.id,
+        title: unit.title,
+        path: current.unit.split(' > '),
+        lessonsCompleted: unitLessons.filter(lesson => DONE_STATUSES.includes(lesson.status)).length,
+        lessons: unitLessons.length,
+      };
+    }
+    if (nextLesson) {
+      plan.nextLesson = nextLesson;
+    }
+    if (options.lessonsPerWeek) {
+      const weeks = Math.ceil(remaining.length / options.lessonsPerWeek);
+      const completionDate = new Date(now.getTime() + weeks * 7 * 24 * 60 * 60 * 1000);
+      plan.projection = { lessonsPerWeek: options.lessonsPerWeek, weeks, completionDate: completionDate.toISOString().slice(0, 10) };
+    }
+    return plan;
+  }
+
+  /** Applies what-if changes to copies of the course and results and compares the resulting plan with the current one. */
+  simulate(course: PowerPathCourse, results: PowerPathResult[], changes: PathChange[], options: PlanOptions = {}): PathSimulation {
+    const scenarioCourse: PowerPathCourse = structuredClone(course);
+    let scenarioResults = [...results];
+    const scenarioOptions = { ...options };
+    const applied: string[] = [];
+
+    for (const change of changes) {
+      switch (change.type) {
+        case 'master':
+        case 'skip': {
+          const ids = this.lessonIds(scenarioCourse, change.id);
+          scenarioResults = scenarioResults.filter(result => !ids.includes(result.id));
+          scenarioResults.push(...ids.map(id => ({
+            id,
+            scope: 'lesson' as const,
+            ...(change.type === 'master' ? { score: 100, scoreStatus: 'fully graded' } : { scoreStatus: 'exempt' }),
+          })));
+          applied.push(`${change.type === 'master' ? 'Mastered' : 'Skipped'} ${ids.length} lesson${ids.length === 1 ? '' : 's'} in ${change.id}`);
+          break;
+        }
+        case 'reset': {
+          const ids = this.lessonIds(scenarioCourse, change.id);
+          scenarioResults = scenarioResults.filter(result => !ids.includes(result.id) && result.id !== change.id);
+          applied.push(`Reset ${ids.length} lesson${ids.length === 1 ? '' : 's'} in ${change.id}`);
+          break;
+        }
+        case 'remove': {
+          const removed = this.lessonIds(scenarioCourse, change.id);
+          this.detach(scenarioCourse, change.id);
+          this.walk(scenarioCourse.components, component => {
+            component.prerequisites = component.prerequisites.filter(id => id !== change.id);
+          });
+          applied.push(`Removed ${change.id} (${removed.length} lesson${removed.length === 1 ? '' : 's'})`);
+          break;
+        }
+        case 'add': {
+          const target = this.requireComponent(scenarioCourse, change.componentId);
+          if (this.findLesson(scenarioCourse, change.lesson.id)) {
+            throw new Error(`Lesson ${change.lesson.id} is already in course ${course.id}`);
+          }
+          this.insert(target, { ...change.lesson, sortOrder: 0 }, change.position);
+          applied.push(`Added ${change.lesson.id} to ${change.componentId}`);
+          break;
+        }
+        case 'move': {
+          const lesson = this.findLesson(scenarioCourse, change.id);
+          if (!lesson) throw new Error(`No lesson ${change.id} in course ${course.id}`);
+          const target = this.requireComponent(scenarioCourse, change.componentId);
+          this.detach(scenarioCourse, change.id);
+          this.insert(target, lesson, change.position);
+          applied.push(`Moved ${change.id} to ${change.componentId}`);
+          break;
+        }
+        case 'prerequisites': {
+          const component = this.requireComponent(scenarioCourse, change.componentId);
+          component.prerequisites = change.prerequisites;
+          component.prerequisiteCriteria = change.criteria ?? component.prerequisiteCriteria;
+          applied.push(`Set prerequisites of ${change.componentId} to ${change.prerequisites.join(', ') || 'none'}`);
+          break;
+        }
+        case 'pace':
+          scenarioOptions.lessonsPerWeek = change.lessonsPerWeek;
+          applied.push(`Changed pace to ${change.lessonsPerWeek} lessons per week`);
+          break;
+      }
+    }
+
+    const baseline = this.plan(course, results, options);
+    const scenario = this.plan(scenarioCourse, scenarioResults, scenarioOptions);
+    const lockedUnits = (plan: PowerPathPlan) => new Set(plan.remaining.filter(lesson => lesson.locked).map(lesson => lesson.componentId));
+    const before = lockedUnits(baseline);
+    const after = lockedUnits(scenario);
+
+    return {
+      baseline,
+      scenario,
+      applied,
+      impact: {
+        remainingLessons: scenario.totals.remaining - baseline.totals.remaining,
+        ...(baseline.projection && scenario.projection && { weeks: scenario.projection.weeks - baseline.projection.weeks }),
+        ...((baseline.projection || scenario.projection) && {
+          completionDate: { baseline: baseline.projection?.completionDate, scenario: scenario.projection?.completionDate },
+        }),
+        nextLesson: { baseline: baseline.nextLesson?.id, scenario: scenario.nextLesson?.id },
+        unlocked: [...before].filter(id => !after.has(id) && this.findComponent(scenarioCourse, id)),
+        locked: [...after].filter(id => !before.has(id)),
+      },
+    };
+  }
+
+  private async fetch(operation: keyof typeof POWERPATH_OPERATIONS, params: string[], options: LoadOptions): Promise<{ body: any; warnings: string[] }> {
+    const endpoint = this.findOperation(operation);
+
+    if (options.data !== undefined) {
+      if (!endpoint) {
+        return { body: options.data, warnings: [`No ${operation} operation in the loaded PowerPath spec; the supplied ${operation} was not validated`] };
+      }
+      const violations = this.schemaValidator.validateResponse(endpoint, 200, options.data);
+      return { body: options.data, warnings: violations.map(violation => `${operation}: ${violation.message}`) };
+    }
+
+    if (!this.openApiParser.getAPI('powerpath')) {
+      throw new Error('No OpenAPI specification loaded for powerpath. Run load-timeback-specs first, or pass the data directly.');
+    }
+    if (!endpoint) {
+      throw new Error(`The loaded PowerPath spec has no ${POWERPATH_OPERATIONS[operation].label} operation`);
+    }
+    if (!this.endpointExecutor) {
+      throw new Error('PowerPath planner has no endpoint executor to call the API with');
+    }
+
+    const names = (endpoint.path.match(/\{([^}]+)\}/g) || []).map(name => name.slice(1, -1));
+    const pathParams = Object.fromEntries(names.map((name, index) => [name, params[index]]));
+    const result = await this.endpointExecutor.execute({ api: 'powerpath', method: 'GET', path: endpoint.path, pathParams, profile: options.profile, validationMode: 'warn' });
+    if (result.status >= 400) {
+      throw new Error(`PowerPath ${operation} request for ${params.join('/')} returned ${result.status} ${result.statusText}`);
+    }
+
+    logger.info(`Loaded PowerPath ${operation}`, { params });
+    return { body: result.body, warnings: (result.validation?.response || []).map(violation => `${operation}: ${violation.message}`) };
+  }
+
+  private findOperation(operation: keyof typeof POWERPATH_OPERATIONS): ParsedEndpoint | undefined {
+    return this.openApiParser.getEndpoints('powerpath')
+      .find(endpoint => endpoint.method === 'GET' && POWERPATH_OPERATIONS[operation].pattern.test(endpoint.path));
+  }
+
+  private normalizeComponent(component: any): PowerPathComponent {
+    const prerequisites: any[] = component.prerequisites || [];
+    return {
+      id: component.sourcedId ?? component.id,
+      title: component.title ?? component.sourcedId,
+      sortOrder: Number(component.sortOrder ?? 0),
+      prerequisites: prerequisites.map(prerequisite => typeof prerequisite === 'string' ? prerequisite : prerequisite.sourcedId),
+      prerequisiteCriteria: String(component.prerequisiteCriteria ?? 'ALL').toUpperCase() === 'ANY' ? 'ANY' : 'ALL',
+      ...(component.unlockDate && { unlockDate: component.unlockDate }),
+      lessons: this.sortBy((component.componentResources || []).map((entry: any) => ({
+        id: entry.sourcedId,
+        title: entry.title ?? entry.resource?.title ?? entry.sourcedId,
+        sortOrder: Number(entry.sortOrder ?? 0),
+        ...(entry.resource?.sourcedId && { resourceId: entry.resource.sourcedId }),
+        ...(entry.resource?.metadata?.type && { type: entry.resource.metadata.type }),
+        ...(entry.resource?.metadata?.xp !== undefined && { xp: Number(entry.resource.metadata.xp) }),
+      }))),
+      components: this.sortBy((component.subComponents || []).map((child: any) => this.normalizeComponent(child))),
+    };
+  }
+
+  private lessonStatus(result: PowerPathResult | undefined, threshold: number): PowerPathLessonStatus {
+    if (!result) return 'not-started';
+    if (result.scoreStatus === 'exempt') return 'exempt';
+    return this.isMastered(result, threshold) ? 'mastered' : 'in-progress';
+  }
+
+  private isMastered(result: PowerPathResult, threshold: number): boolean {
+    return result.scoreStatus === 'exempt' || (result.scoreStatus === 'fully graded' && (result.score ?? 0) >= threshold);
+  }
+
+  // Lessons and sub-components share one sortOrder sequence within a component
+  private ordered(component: PowerPathComponent): (PowerPathLesson | PowerPathComponent)[] {
+    return this.sortBy([...component.lessons, ...component.components]);
+  }
+
+  private sortBy<T extends { sortOrder: number; title: string }>(items: T[]): T[] {
+    return items.sort((a, b) => a.sortOrder - b.sortOrder || a.title.localeCompare(b.title));
+  }
+
+  private walk(components: PowerPathComponent[], visit: (component: PowerPathComponent, parent?: PowerPathComponent) => void, parent?: PowerPathComponent): void {
+    for (const component of components) {
+      visit(component, parent);
+      this.walk(component.components, visit, component);
+    }
+  }
+
+  private contains(component: PowerPathComponent, id: string): boolean {
+    return component.id === id || component.components.some(child => this.contains(child, id));
+  }
+
+  private findComponent(course: PowerPathCourse, id: string): PowerPathComponent | undefined {
+    let found: PowerPathComponent | undefined;
+    this.walk(course.components, component => {
+      if (component.id === id) found = component;
+    });
+    return found;
+  }
+
+  private requireComponent(course: PowerPathCourse, id: string): PowerPathComponent {
+    const component = this.findComponent(course, id);
+    if (!component) throw new Error(`No component ${id} in course ${course.id}`);
+    return component;
+  }
+
+  private findLesson(course: PowerPathCourse, id: string): PowerPathLesson | undefined {
+    let found: PowerPathLesson | undefined;
+    this.walk(course.components, component => {
+      found = found ?? component.lessons.find(lesson => lesson.id === id);
+    });
+    return found;
+  }
+
+  private lessonIds(course: PowerPathCourse, id: string): string[] {
+    if (this.findLesson(course, id)) return [id];
+    const component = this.findComponent(course, id);
+    if (!component) throw new Error(`No lesson or component ${id} in course ${course.id}`);
+
+    const ids: string[] = [];
+    this.walk([component], node => ids.push(...node.lessons.map(lesson => lesson.id)));
+    return ids;
+  }
+
+  private detach(course: PowerPathCourse, id: string): void {
+    if (!this.findLesson(course, id) && !this.findComponent(course, id)) {
+      throw new Error(`No lesson or component ${id} in course ${course.id}`);
+    }
+    course.components = course.components.filter(component => component.id !== id);
+    this.walk(course.components, component => {
+      component.lessons = component.lessons.filter(lesson => lesson.id !== id);
+      component.components = component.components.filter(child => child.id !== id);
+    });
+  }
+
+  private insert(component: PowerPathComponent, lesson: PowerPathLesson, position?: number): void {
+    const items = this.ordered(component);
+    items.splice(position ?? items.length, 0, lesson);
+    items.forEach((item, index) => item.sortOrder = index + 1);
+    component.lessons = items.filter((item): item is PowerPathLesson => !('lessons' in item));
+  }
+}
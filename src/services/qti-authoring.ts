@@ -0,0 +1,176 @@
+import { QtiParser, QtiValidationIssue } from './qti-parser.js';
+
+export const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqtiasi_v3p0';
+const QTI_SCHEMA_LOCATION = 'https://purl.imsglobal.org/spec/qti/v3p0/schema/xsd/imsqti_asiv3p0_v1p0.xsd';
+const TEMPLATE_BASE = 'https://purl.imsglobal.org/spec/qti/v3p0/rptemplates';
+
+export type QtiItemKind = 'choice' | 'text-entry' | 'extended-text';
+
+export interface QtiChoiceDescription {
+  identifier?: string;
+  text: string;
+  correct?: boolean;
+  fixed?: boolean;
+}
+
+/** JSON shape the content team authors items in. */
+export interface QtiItemDescription {
+  identifier: string;
+  title: string;
+  type: QtiItemKind;
+  prompt: string;
+  stimulus?: string;
+  language?: string;
+  points?: number;
+  choices?: QtiChoiceDescription[];
+  shuffle?: boolean;
+  maxChoices?: number;
+  correctResponse?: string | string[];
+  alternatives?: Record<string, number>;
+  caseSensitive?: boolean;
+  baseType?: 'string' | 'integer' | 'float';
+  expectedLength?: number;
+  expectedLines?: number;
+}
+
+export interface GeneratedQtiItem {
+  xml: string;
+  issues: QtiValidationIssue[];
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function paragraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map(part => part.trim()).filter(Boolean).map(part => escapeXml(part).replace(/\n/g, '<br/>'));
+}
+
+const BLANK_PATTERN = /_{3,}/;
+
+/** Produces QTI 3.0 item XML from JSON descriptions and checks the result with the parser's validator. */
+export class QtiItemAuthor {
+  constructor(private parser = new QtiParser()) {}
+
+  generate(description: QtiItemDescription): GeneratedQtiItem {
+    const xml = this.toXml(description);
+    const issues = this.parser.validateItem(this.parser.parseItem(xml));
+    const errors = issues.filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw new Error(`Generated QTI item ${description.identifier} is invalid: ${errors.map(issue => issue.message).join('; ')}`);
+    }
+    return { xml, issues };
+  }
+
+  toXml(description: QtiItemDescription): string {
+    const points = description.points ?? 1;
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<qti-assessment-item xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+      `  xsi:schemaLocation="${QTI_NAMESPACE} ${QTI_SCHEMA_LOCATION}"`,
+      `  identifier="${escapeXml(description.identifier)}" title="${escapeXml(description.title)}" adaptive="false" time-dependent="false"${description.language ? ` xml:lang="${escapeXml(description.language)}"` : ''}>`,
+    ];
+
+    let interaction: string[];
+    let template: string | undefined;
+    switch (description.type) {
+      case 'choice': {
+        const choices = this.choices(description);
+        const correct = choices.filter(choice => choice.correct).map(choice => choice.identifier);
+        if (correct.length === 0) {
+          throw new Error(`Choice item ${description.identifier} needs at least one correct choice`);
+        }
+        const maxChoices = description.maxChoices ?? (correct.length > 1 ? 0 : 1);
+        lines.push(...this.responseDeclaration(maxChoices === 1 ? 'single' : 'multiple', 'identifier', correct));
+        interaction = [
+          `    <qti-choice-interaction response-identifier="RESPONSE" shuffle="${description.shuffle ?? false}" max-choices="${maxChoices}">`,
+          `      <qti-prompt>${escapeXml(description.prompt)}</qti-prompt>`,
+          ...choices.map(choice =>
+            `      <qti-simple-choice identifier="${escapeXml(choice.identifier)}"${choice.fixed ? ' fixed="true"' : ''}>${escapeXml(choice.text)}</qti-simple-choice>`),
+          '    </qti-choice-interaction>',
+        ];
+        template = 'match_correct';
+        break;
+      }
+      case 'text-entry': {
+        const correct = [description.correctResponse ?? []].flat();
+        if (correct.length !== 1) {
+          throw new Error(`Text entry item ${description.identifier} needs exactly one correctResponse`);
+        }
+        const alternatives = description.alternatives ? Object.entries(description.alternatives) : [];
+        const mapping = alternatives.length > 0
+          ? [
+            '    <qti-mapping default-value="0">',
+            ...[[correct[0], points] as const, ...alternatives.filter(([key]) => key !== correct[0])].map(([key, value]) =>
+              `      <qti-map-entry map-key="${escapeXml(key)}" mapped-value="${value}" case-sensitive="${description.caseSensitive ?? false}"/>`),
+            '    </qti-mapping>',
+          ]
+          : [];
+        lines.push(...this.responseDeclaration('single', description.baseType || 'string', correct, mapping));
+        const blank = `<qti-text-entry-interaction response-identifier="RESPONSE"${description.expectedLength ? ` expected-length="${description.expectedLength}"` : ''}/>`;
+        // The blank replaces the first ___ in the prompt, or follows its last paragraph
+        const parts = paragraphs(description.prompt);
+        const blankIndex = parts.findIndex(part => BLANK_PATTERN.test(part));
+        interaction = parts.map((part, index) => {
+          if (index === blankIndex) return `    <p>${part.replace(BLANK_PATTERN, blank)}</p>`;
+          return `    <p>${part}${blankIndex === -1 && index === parts.length - 1 ? ` ${blank}` : ''}</p>`;
+        });
+        template = alternatives.length > 0 ? 'map_response' : 'match_correct';
+        break;
+      }
+      case 'extended-text': {
+        lines.push(...this.responseDeclaration('single', description.baseType || 'string'));
+        interaction = [
+          `    <qti-extended-text-interaction response-identifier="RESPONSE"${description.expectedLength ? ` expected-length="${description.expectedLength}"` : ''}${description.expectedLines ? ` expected-lines="${description.expectedLines}"` : ''}>`,
+          `      <qti-prompt>${escapeXml(description.prompt)}</qti-prompt>`,
+          '    </qti-extended-text-interaction>',
+        ];
+        break;
+      }
+      default:
+        throw new Error(`Unsupported QTI item type: ${(description as QtiItemDescription).type}`);
+    }
+
+    lines.push(
+      '  <qti-outcome-declaration identifier="SCORE" cardinality="single" base-type="float">',
+      '    <qti-default-value><qti-value>0</qti-value></qti-default-value>',
+      '  </qti-outcome-declaration>',
+      '  <qti-outcome-declaration identifier="MAXSCORE" cardinality="single" base-type="float">',
+      `    <qti-default-value><qti-value>${points}</qti-value></qti-default-value>`,
+      '  </qti-outcome-declaration>',
+      '  <qti-item-body>',
+      ...(description.stimulus ? paragraphs(description.stimulus).map(part => `    <p>${part}</p>`) : []),
+      ...interaction,
+      '  </qti-item-body>',
+      // Extended text responses are scored by a person, so they get no response processing
+      ...(template ? [`  <qti-response-processing template="${TEMPLATE_BASE}/${template}.xml"/>`] : []),
+      '</qti-assessment-item>',
+      '',
+    );
+    return lines.join('\n');
+  }
+
+  private choices(description: QtiItemDescription): Required<QtiChoiceDescription>[] {
+    const choices = description.choices || [];
+    if (choices.length < 2) {
+      throw new Error(`Choice item ${description.identifier} needs at least two choices`);
+    }
+    return choices.map((choice, index) => ({
+      identifier: choice.identifier || String.fromCharCode(65 + index),
+      text: choice.text,
+      correct: choice.correct ?? false,
+      fixed: choice.fixed ?? false,
+    }));
+  }
+
+  private responseDeclaration(cardinality: string, baseType: string, correct: string[] = [], mapping: string[] = []): string[] {
+    return [
+      `  <qti-response-declaration identifier="RESPONSE" cardinality="${cardinality}" base-type="${baseType}">`,
+      ...(correct.length > 0
+        ? ['    <qti-correct-response>', ...correct.map(value => `      <qti-value>${escapeXml(value)}</qti-value>`), '    </qti-correct-response>']
+        : []),
+      ...mapping,
+      '  </qti-response-declaration>',
+    ];
+  }
+}
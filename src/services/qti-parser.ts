@@ -0,0 +1,568 @@
+import * as cheerio from 'cheerio';
+
+export type QtiCardinality = 'single' | 'multiple' | 'ordered' | 'record';
+export type QtiBaseType = 'identifier' | 'boolean' | 'integer' | 'float' | 'string' | 'point' | 'pair' | 'directedPair' | 'duration' | 'file' | 'uri';
+
+export interface QtiMapEntry {
+  mapKey: string;
+  mappedValue: number;
+  caseSensitive: boolean;
+}
+
+export interface QtiMapping {
+  defaultValue: number;
+  lowerBound?: number;
+  upperBound?: number;
+  entries: QtiMapEntry[];
+}
+
+export interface QtiAreaMapEntry {
+  shape: string;
+  coords: number[];
+  mappedValue: number;
+}
+
+export interface QtiAreaMapping {
+  defaultValue: number;
+  lowerBound?: number;
+  upperBound?: number;
+  entries: QtiAreaMapEntry[];
+}
+
+export interface QtiResponseDeclaration {
+  identifier: string;
+  cardinality: QtiCardinality;
+  baseType?: QtiBaseType;
+  correctResponse?: string[];
+  mapping?: QtiMapping;
+  areaMapping?: QtiAreaMapping;
+}
+
+export interface QtiOutcomeDeclaration {
+  identifier: string;
+  cardinality: QtiCardinality;
+  baseType?: QtiBaseType;
+  defaultValue?: string[];
+  normalMaximum?: number;
+}
+
+export interface QtiChoice {
+  identifier: string;
+  text: string;
+  content: string;
+  fixed: boolean;
+}
+
+export interface QtiInteraction {
+  type: string;
+  responseIdentifier: string;
+  prompt?: string;
+  choices: QtiChoice[];
+  attributes: Record<string, string>;
+}
+
+/** Element of a custom responseProcessing block, kept as a tree for the scoring engine. */
+export interface QtiRuleNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: QtiRuleNode[];
+  text?: string;
+}
+
+export interface QtiResponseProcessing {
+  template?: string;
+  templateName?: string;
+  rules: QtiRuleNode[];
+}
+
+export interface QtiAssessmentItem {
+  identifier: string;
+  title?: string;
+  language?: string;
+  adaptive: boolean;
+  timeDependent: boolean;
+  responseDeclarations: QtiResponseDeclaration[];
+  outcomeDeclarations: QtiOutcomeDeclaration[];
+  interactions: QtiInteraction[];
+  body: string;
+  responseProcessing?: QtiResponseProcessing;
+}
+
+export interface QtiItemRef {
+  identifier: string;
+  href: string;
+  categories: string[];
+}
+
+export interface QtiSection {
+  identifier: string;
+  title?: string;
+  visible: boolean;
+  sections: QtiSection[];
+  itemRefs: QtiItemRef[];
+}
+
+export interface QtiTestPart {
+  identifier: string;
+  navigationMode: string;
+  submissionMode: string;
+  sections: QtiSection[];
+}
+
+export interface QtiAssessmentTest {
+  identifier: string;
+  title?: string;
+  outcomeDeclarations: QtiOutcomeDeclaration[];
+  testParts: QtiTestPart[];
+}
+
+export type QtiDocument =
+  | { kind: 'item'; item: QtiAssessmentItem }
+  | { kind: 'test'; test: QtiAssessmentTest };
+
+export interface QtiValidationIssue {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+export const QTI_RESPONSE_TEMPLATES = ['match_correct', 'map_response', 'map_response_point'];
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+// Interactions whose responses are built from choice identifiers
+const CHOICE_CHILDREN: Record<string, string> = {
+  'qti-choice-interaction': 'qti-simple-choice',
+  'qti-order-interaction': 'qti-simple-choice',
+  'qti-inline-choice-interaction': 'qti-inline-choice',
+  'qti-hottext-interaction': 'qti-hottext',
+  'qti-hotspot-interaction': 'qti-hotspot-choice',
+  'qti-associate-interaction': 'qti-simple-associable-choice',
+  'qti-match-interaction': 'qti-simple-associable-choice',
+  'qti-gap-match-interaction': 'qti-gap-text',
+};
+
+const INTERACTION_TYPES: Record<string, string> = {
+  'qti-choice-interaction': 'choice',
+  'qti-text-entry-interaction': 'textEntry',
+  'qti-extended-text-interaction': 'extendedText',
+  'qti-inline-choice-interaction': 'inlineChoice',
+  'qti-order-interaction': 'order',
+  'qti-match-interaction': 'match',
+  'qti-associate-interaction': 'associate',
+  'qti-gap-match-interaction': 'gapMatch',
+  'qti-hottext-interaction': 'hottext',
+  'qti-hotspot-interaction': 'hotspot',
+  'qti-slider-interaction': 'slider',
+  'qti-upload-interaction': 'upload',
+};
+
+// Cardinality and base types each interaction can bind to
+const INTERACTION_RULES: Record<string, { cardinality: QtiCardinality[]; baseType: QtiBaseType[]; choices?: boolean }> = {
+  choice: { cardinality: ['single', 'multiple'], baseType: ['identifier'], choices: true },
+  textEntry: { cardinality: ['single'], baseType: ['string', 'integer', 'float'] },
+  extendedText: { cardinality: ['single', 'multiple', 'ordered'], baseType: ['string', 'integer', 'float'] },
+  inlineChoice: { cardinality: ['single'], baseType: ['identifier'], choices: true },
+  order: { cardinality: ['ordered'], baseType: ['identifier'], choices: true },
+  match: { cardinality: ['single', 'multiple'], baseType: ['directedPair'] },
+  associate: { cardinality: ['single', 'multiple'], baseType: ['pair'] },
+  gapMatch: { cardinality: ['single', 'multiple'], baseType: ['directedPair'] },
+  hottext: { cardinality: ['single', 'multiple'], baseType: ['identifier'], choices: true },
+  hotspot: { cardinality: ['single', 'multiple'], baseType: ['identifier'], choices: true },
+  slider: { cardinality: ['single'], baseType: ['integer', 'float'] },
+  upload: { cardinality: ['single'], baseType: ['file'] },
+};
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value === undefined || value === '' ? undefined : Number(value);
+}
+
+/** Parses QTI 3.0 `qti-assessment-item` and `qti-assessment-test` XML into a typed model. */
+export class QtiParser {
+  parse(xml: string): QtiDocument {
+    const $ = this.load(xml);
+    const root = $.root().children().first();
+    const name = root.prop('tagName')?.toLowerCase();
+
+    if (name === 'qti-assessment-item') {
+      return { kind: 'item', item: this.readItem($, root) };
+    }
+    if (name === 'qti-assessment-test') {
+      return { kind: 'test', test: this.readTest($, root) };
+    }
+    throw new Error(`Expected a qti-assessment-item or qti-assessment-test root element, found ${name ? `<${name}>` : 'no element'}`);
+  }
+
+  parseItem(xml: string): QtiAssessmentItem {
+    const document = this.parse(xml);
+    if (document.kind !== 'item') {
+      throw new Error('Expected a qti-assessment-item document, found a qti-assessment-test');
+    }
+    return document.item;
+  }
+
+  parseTest(xml: string): QtiAssessmentTest {
+    const document = this.parse(xml);
+    if (document.kind !== 'test') {
+      throw new Error('Expected a qti-assessment-test document, found a qti-assessment-item');
+    }
+    return document.test;
+  }
+
+  validate(document: QtiDocument): QtiValidationIssue[] {
+    return document.kind === 'item' ? this.validateItem(document.item) : this.validateTest(document.test);
+  }
+
+  validateItem(item: QtiAssessmentItem): QtiValidationIssue[] {
+    const issues: QtiValidationIssue[] = [];
+    const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+    const warning = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+    this.checkIdentifier(item.identifier, 'item', 'Item', error);
+
+    const variables = new Set<string>();
+    [...item.responseDeclarations, ...item.outcomeDeclarations].forEach((declaration, index) => {
+      const path = index < item.responseDeclarations.length
+        ? `responseDeclarations[${index}]`
+        : `outcomeDeclarations[${index - item.responseDeclarations.length}]`;
+      this.checkIdentifier(declaration.identifier, path, 'Variable', error);
+      if (variables.has(declaration.identifier)) {
+        error(path, `Variable identifier ${declaration.identifier} is declared more than once`);
+      }
+      variables.add(declaration.identifier);
+    });
+
+    const bound = new Set<string>();
+    item.interactions.forEach((interaction, index) => {
+      const path = `interactions[${index}]`;
+      const declaration = item.responseDeclarations.find(d => d.identifier === interaction.responseIdentifier);
+      if (!declaration) {
+        error(path, `Interaction ${interaction.type} refers to undeclared response ${interaction.responseIdentifier || '(missing response-identifier)'}`);
+        return;
+      }
+      if (bound.has(declaration.identifier)) {
+        error(path, `Response ${declaration.identifier} is bound to more than one interaction`);
+      }
+      bound.add(declaration.identifier);
+      this.checkInteraction(interaction, declaration, path, error, warning);
+    });
+
+    item.responseDeclarations.forEach((declaration, index) => {
+      if (!bound.has(declaration.identifier)) {
+        warning(`responseDeclarations[${index}]`, `Response ${declaration.identifier} is not bound to any interaction`);
+      }
+    });
+
+    if (item.interactions.length === 0) {
+      warning('itemBody', 'Item body contains no interactions');
+    }
+
+    const processing = item.responseProcessing;
+    if (processing?.template) {
+      if (!processing.templateName || !QTI_RESPONSE_TEMPLATES.includes(processing.templateName)) {
+        warning('responseProcessing', `Unknown response processing template ${processing.template}`);
+      }
+      if (!item.outcomeDeclarations.some(d => d.identifier === 'SCORE')) {
+        error('responseProcessing', 'Standard response processing templates require a SCORE outcome declaration');
+      }
+      const response = item.responseDeclarations.find(d => d.identifier === 'RESPONSE');
+      if (!response) {
+        error('responseProcessing', 'Standard response processing templates require a RESPONSE declaration');
+      } else if (processing.templateName === 'match_correct' && !response.correctResponse) {
+        error('responseProcessing', 'match_correct requires a correct response for RESPONSE');
+      } else if (processing.templateName === 'map_response' && !response.mapping) {
+        error('responseProcessing', 'map_response requires a mapping for RESPONSE');
+      } else if (processing.templateName === 'map_response_point' && !response.areaMapping) {
+        error('responseProcessing', 'map_response_point requires an area mapping for RESPONSE');
+      }
+    }
+
+    this.walkRules(processing?.rules || [], (node, path) => {
+      const identifier = node.attributes.identifier;
+      if (['qti-variable', 'qti-correct', 'qti-map-response', 'qti-map-response-point', 'qti-set-outcome-value', 'qti-lookup-outcome-value'].includes(node.name)
+        && identifier && !variables.has(identifier) && !['completionStatus', 'numAttempts', 'duration'].includes(identifier)) {
+        error(`responseProcessing.${path}`, `${node.name} refers to undeclared variable ${identifier}`);
+      }
+    });
+
+    return issues;
+  }
+
+  validateTest(test: QtiAssessmentTest): QtiValidationIssue[] {
+    const issues: QtiValidationIssue[] = [];
+    const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+    const seen = new Set<string>();
+    const register = (identifier: string, path: string, label: string) => {
+      this.checkIdentifier(identifier, path, label, error);
+      if (identifier && seen.has(identifier)) {
+        error(path, `Identifier ${identifier} is used more than once`);
+      }
+      seen.add(identifier);
+    };
+
+    this.checkIdentifier(test.identifier, 'test', 'Test', error);
+    if (test.testParts.length === 0) {
+      error('test', 'Test must contain at least one qti-test-part');
+    }
+
+    const visit = (section: QtiSection, path: string) => {
+      register(section.identifier, path, 'Section');
+      if (section.sections.length === 0 && section.itemRefs.length === 0) {
+        issues.push({ severity: 'warning', path, message: `Section ${section.identifier} is empty` });
+      }
+      section.itemRefs.forEach((ref, index) => {
+        register(ref.identifier, `${path}.itemRefs[${index}]`, 'Item reference');
+        if (!ref.href) {
+          error(`${path}.itemRefs[${index}]`, `Item reference ${ref.identifier} has no href`);
+        }
+      });
+      section.sections.forEach((child, index) => visit(child, `${path}.sections[${index}]`));
+    };
+
+    test.testParts.forEach((part, index) => {
+      const path = `testParts[${index}]`;
+      register(part.identifier, path, 'Test part');
+      if (!['linear', 'nonlinear'].includes(part.navigationMode)) {
+        error(path, `navigation-mode must be linear or nonlinear, found ${part.navigationMode || 'nothing'}`);
+      }
+      if (!['individual', 'simultaneous'].includes(part.submissionMode)) {
+        error(path, `submission-mode must be individual or simultaneous, found ${part.submissionMode || 'nothing'}`);
+      }
+      if (part.sections.length === 0) {
+        error(path, `Test part ${part.identifier} must contain at least one qti-assessment-section`);
+      }
+      part.sections.forEach((section, sectionIndex) => visit(section, `${path}.sections[${sectionIndex}]`));
+    });
+
+    return issues;
+  }
+
+  private load(xml: string): cheerio.Root {
+    return cheerio.load(xml, { xmlMode: true });
+  }
+
+  private readItem($: cheerio.Root, root: cheerio.Cheerio): QtiAssessmentItem {
+    const body = root.children('qti-item-body').first();
+    const processing = root.children('qti-response-processing').first();
+
+    return {
+      identifier: root.attr('identifier') || '',
+      title: root.attr('title'),
+      language: root.attr('xml:lang'),
+      adaptive: root.attr('adaptive') === 'true',
+      timeDependent: root.attr('time-dependent') === 'true',
+      responseDeclarations: root.children('qti-response-declaration').toArray().map(el => this.readResponseDeclaration($, $(el))),
+      outcomeDeclarations: root.children('qti-outcome-declaration').toArray().map(el => this.readOutcomeDeclaration($, $(el))),
+      interactions: body.find('*').toArray()
+        .filter(el => $(el).prop('tagName').toLowerCase().endsWith('-interaction'))
+        .map(el => this.readInteraction($, $(el))),
+      body: body.html()?.trim() || '',
+      ...(processing.length > 0 && { responseProcessing: this.readResponseProcessing($, processing) }),
+    };
+  }
+
+  private readResponseDeclaration($: cheerio.Root, el: cheerio.Cheerio): QtiResponseDeclaration {
+    const correct = el.children('qti-correct-response');
+    const mapping = el.children('qti-mapping').first();
+    const areaMapping = el.children('qti-area-mapping').first();
+
+    return {
+      identifier: el.attr('identifier') || '',
+      cardinality: (el.attr('cardinality') || 'single') as QtiCardinality,
+      baseType: el.attr('base-type') as QtiBaseType | undefined,
+      ...(correct.length > 0 && { correctResponse: this.values($, correct) }),
+      ...(mapping.length > 0 && {
+        mapping: {
+          defaultValue: Number(mapping.attr('default-value') || 0),
+          lowerBound: optionalNumber(mapping.attr('lower-bound')),
+          upperBound: optionalNumber(mapping.attr('upper-bound')),
+          entries: mapping.children('qti-map-entry').toArray().map(el => $(el)).map(entry => ({
+            mapKey: entry.attr('map-key') ?? '',
+            mappedValue: Number(entry.attr('mapped-value') || 0),
+            caseSensitive: entry.attr('case-sensitive') !== 'false',
+          })),
+        },
+      }),
+      ...(areaMapping.length > 0 && {
+        areaMapping: {
+          defaultValue: Number(areaMapping.attr('default-value') || 0),
+          lowerBound: optionalNumber(areaMapping.attr('lower-bound')),
+          upperBound: optionalNumber(areaMapping.attr('upper-bound')),
+          entries: areaMapping.children('qti-area-map-entry').toArray().map(el => $(el)).map(entry => ({
+            shape: entry.attr('shape') || 'default',
+            coords: (entry.attr('coords') || '').split(',').filter(Boolean).map(Number),
+            mappedValue: Number(entry.attr('mapped-value') || 0),
+          })),
+        },
+      }),
+    };
+  }
+
+  private readOutcomeDeclaration($: cheerio.Root, el: cheerio.Cheerio): QtiOutcomeDeclaration {
+    const defaultValue = el.children('qti-default-value');
+    return {
+      identifier: el.attr('identifier') || '',
+      cardinality: (el.attr('cardinality') || 'single') as QtiCardinality,
+      baseType: el.attr('base-type') as QtiBaseType | undefined,
+      ...(defaultValue.length > 0 && { defaultValue: this.values($, defaultValue) }),
+      ...(el.attr('normal-maximum') !== undefined && { normalMaximum: Number(el.attr('normal-maximum')) }),
+    };
+  }
+
+  private readInteraction($: cheerio.Root, el: cheerio.Cheerio): QtiInteraction {
+    const name = el.prop('tagName')!.toLowerCase();
+    const choiceTag = CHOICE_CHILDREN[name];
+    const { 'response-identifier': responseIdentifier = '', ...attributes } = el.attr() || {};
+    const prompt = el.children('qti-prompt').first();
+
+    return {
+      type: INTERACTION_TYPES[name] || name.replace(/^qti-/, ''),
+      responseIdentifier,
+      ...(prompt.length > 0 && { prompt: this.text(prompt) }),
+      choices: choiceTag
+        ? el.find(choiceTag).toArray().map(choice => $(choice)).map(choice => ({
+          identifier: choice.attr('identifier') || '',
+          text: this.text(choice),
+          content: choice.html()?.trim() || '',
+          fixed: choice.attr('fixed') === 'true',
+        }))
+        : [],
+      attributes,
+    };
+  }
+
+  private readResponseProcessing($: cheerio.Root, el: cheerio.Cheerio): QtiResponseProcessing {
+    const template = el.attr('template');
+    const rules = el.children().toArray().map(child => this.readRule($, $(child)));
+    return {
+      ...(template && {
+        template,
+        templateName: template.split('/').pop()!.replace(/\.xml$/, ''),
+      }),
+      rules,
+    };
+  }
+
+  private readRule($: cheerio.Root, el: cheerio.Cheerio): QtiRuleNode {
+    const children = el.children().toArray();
+    const text = children.length === 0 ? el.text().trim() : '';
+    return {
+      name: el.prop('tagName')!.toLowerCase(),
+      attributes: { ...el.attr() },
+      children: children.map(child => this.readRule($, $(child))),
+      ...(text && { text }),
+    };
+  }
+
+  private readTest($: cheerio.Root, root: cheerio.Cheerio): QtiAssessmentTest {
+    const readSection = (el: cheerio.Cheerio): QtiSection => ({
+      identifier: el.attr('identifier') || '',
+      title: el.attr('title'),
+      visible: el.attr('visible') !== 'false',
+      sections: el.children('qti-assessment-section').toArray().map(child => readSection($(child))),
+      itemRefs: el.children('qti-assessment-item-ref').toArray().map(ref => $(ref)).map(ref => ({
+        identifier: ref.attr('identifier') || '',
+        href: ref.attr('href') || '',
+        categories: (ref.attr('category') || '').split(/\s+/).filter(Boolean),
+      })),
+    });
+
+    return {
+      identifier: root.attr('identifier') || '',
+      title: root.attr('title'),
+      outcomeDeclarations: root.children('qti-outcome-declaration').toArray().map(el => this.readOutcomeDeclaration($, $(el))),
+      testParts: root.children('qti-test-part').toArray().map(part => $(part)).map(part => ({
+        identifier: part.attr('identifier') || '',
+        navigationMode: part.attr('navigation-mode') || '',
+        submissionMode: part.attr('submission-mode') || '',
+        sections: part.children('qti-assessment-section').toArray().map(section => readSection($(section))),
+      })),
+    };
+  }
+
+  private checkInteraction(
+    interaction: QtiInteraction,
+    declaration: QtiResponseDeclaration,
+    path: string,
+    error: (path: string, message: string) => void,
+    warning: (path: string, message: string) => void
+  ): void {
+    const rules = INTERACTION_RULES[interaction.type];
+    if (!rules) {
+      warning(path, `Unsupported interaction type ${interaction.type}`);
+      return;
+    }
+
+    if (!rules.cardinality.includes(declaration.cardinality)) {
+      error(path, `${interaction.type} interaction cannot use ${declaration.cardinality} cardinality (expected ${rules.cardinality.join(' or ')})`);
+    }
+    if (declaration.baseType && !rules.baseType.includes(declaration.baseType)) {
+      error(path, `${interaction.type} interaction cannot use base-type ${declaration.baseType} (expected ${rules.baseType.join(' or ')})`);
+    }
+
+    const maxChoices = optionalNumber(interaction.attributes['max-choices']);
+    if (interaction.type === 'choice' && maxChoices === 1 && declaration.cardinality !== 'single') {
+      warning(path, `max-choices is 1 but response ${declaration.identifier} has ${declaration.cardinality} cardinality`);
+    }
+    if (interaction.type === 'choice' && maxChoices !== 1 && declaration.cardinality === 'single') {
+      error(path, `Response ${declaration.identifier} has single cardinality but max-choices is ${maxChoices ?? 'unbounded'}`);
+    }
+
+    if (rules.choices) {
+      if (interaction.choices.length === 0) {
+        error(path, `${interaction.type} interaction has no choices`);
+      }
+      const identifiers = new Set<string>();
+      interaction.choices.forEach((choice, index) => {
+        this.checkIdentifier(choice.identifier, `${path}.choices[${index}]`, 'Choice', error);
+        if (identifiers.has(choice.identifier)) {
+          error(`${path}.choices[${index}]`, `Choice identifier ${choice.identifier} is used more than once`);
+        }
+        identifiers.add(choice.identifier);
+      });
+
+      if (declaration.baseType === 'identifier') {
+        for (const value of declaration.correctResponse || []) {
+          if (!identifiers.has(value)) {
+            error(path, `Correct response ${value} is not one of the interaction's choices`);
+          }
+        }
+        for (const entry of declaration.mapping?.entries || []) {
+          if (!identifiers.has(entry.mapKey)) {
+            error(path, `Mapping key ${entry.mapKey} is not one of the interaction's choices`);
+          }
+        }
+      }
+    }
+
+    if (declaration.cardinality === 'single' && (declaration.correctResponse?.length || 0) > 1) {
+      error(path, `Response ${declaration.identifier} has single cardinality but ${declaration.correctResponse!.length} correct values`);
+    }
+  }
+
+  private checkIdentifier(identifier: string, path: string, label: string, error: (path: string, message: string) => void): void {
+    if (!identifier) {
+      error(path, `${label} identifier is missing`);
+    } else if (!IDENTIFIER_PATTERN.test(identifier)) {
+      error(path, `${label} identifier ${identifier} is not a valid QTI identifier`);
+    }
+  }
+
+  private walkRules(nodes: QtiRuleNode[], visit: (node: QtiRuleNode, path: string) => void, prefix = 'rules'): void {
+    nodes.forEach((node, index) => {
+      const path = `${prefix}[${index}]`;
+      visit(node, path);
+      this.walkRules(node.children, visit, `${path}.children`);
+    });
+  }
+
+  private values($: cheerio.Root, el: cheerio.Cheerio): string[] {
+    return el.children('qti-value').toArray().map(value => $(value).text().trim());
+  }
+
+  private text(el: cheerio.Cheerio): string {
+    const copy = el.clone();
+    copy.children('qti-prompt').remove();
+    return copy.text().replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,155 @@
+import * as cheerio from 'cheerio';
+import { QtiAssessmentItem, QtiInteraction, QtiResponseDeclaration } from './qti-parser.js';
+
+export interface QtiRenderOptions {
+  showAnswers?: boolean;
+}
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'blockquote', 'pre', 'ul', 'ol', 'li', 'table', 'tr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'qti-prompt', 'qti-rubric-block', 'qti-content-body',
+]);
+
+const HIDDEN_ELEMENTS = new Set(['qti-feedback-inline', 'qti-feedback-block', 'qti-modal-feedback', 'qti-template-inline', 'qti-template-block', 'qti-stylesheet']);
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Renders parsed QTI items as plain-text or HTML previews; feedback and template content is left out. */
+export class QtiRenderer {
+  renderText(item: QtiAssessmentItem, options: QtiRenderOptions = {}): string {
+    const $ = cheerio.load(`<root>${item.body}</root>`, { xmlMode: true });
+    const interactions = [...item.interactions];
+    const lines: string[] = [];
+    if (item.title) {
+      lines.push(item.title, '='.repeat(item.title.length), '');
+    }
+
+    const walk = (nodes: cheerio.Element[]): string => nodes.map(node => {
+      if (node.type === 'text') {
+        return (node.data || '').replace(/\s+/g, ' ');
+      }
+      if (node.type !== 'tag') {
+        return '';
+      }
+
+      const name = node.tagName.toLowerCase();
+      if (HIDDEN_ELEMENTS.has(name)) return '';
+      if (name.endsWith('-interaction')) {
+        return this.interactionText(interactions.shift(), item, options);
+      }
+      if (name === 'br') return '\n';
+      if (name === 'img') return `[image: ${node.attribs.alt || node.attribs.src || ''}]`;
+
+      const content = walk(node.children || []);
+      if (name === 'li') return `\n- ${content.trim()}\n`;
+      return BLOCK_ELEMENTS.has(name) ? `\n${content.trim()}\n` : content;
+    }).join('');
+
+    lines.push(walk($.root().children().first().contents().toArray()));
+
+    return lines.join('\n')
+      .split('\n')
+      .map(line => line.replace(/[ \t]+$/g, '').replace(/^ (?! )/, ''))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  renderHtml(item: QtiAssessmentItem, options: QtiRenderOptions = {}): string {
+    const $ = cheerio.load(`<root>${item.body}</root>`, { xmlMode: true });
+    const root = $.root().children().first();
+
+    root.find([...HIDDEN_ELEMENTS].join(',')).remove();
+    const interactionElements = root.find('*').toArray().filter(el => $(el).prop('tagName').toLowerCase().endsWith('-interaction'));
+    interactionElements.forEach((el, index) => {
+      $(el).replaceWith(this.interactionHtml(item.interactions[index], item, options));
+    });
+    root.find('qti-rubric-block').each((_, el) => {
+      $(el).replaceWith(`<aside class="qti-rubric-block">${$(el).html() || ''}</aside>`);
+    });
+
+    const title = item.title ? `<h1>${escapeHtml(item.title)}</h1>` : '';
+    return `<article class="qti-item" data-identifier="${escapeHtml(item.identifier)}"${item.language ? ` lang="${escapeHtml(item.language)}"` : ''}>${title}${root.html() || ''}</article>`;
+  }
+
+  private interactionText(interaction: QtiInteraction | undefined, item: QtiAssessmentItem, options: QtiRenderOptions): string {
+    if (!interaction) return '';
+    const declaration = this.declaration(item, interaction);
+    const correct = new Set(declaration?.correctResponse || []);
+    const prompt = interaction.prompt ? `\n${interaction.prompt}\n` : '\n';
+
+    switch (interaction.type) {
+      case 'choice':
+      case 'order':
+      case 'hottext':
+      case 'hotspot': {
+        const multiple = declaration?.cardinality !== 'single';
+        const choices = interaction.choices.map(choice => {
+          const box = multiple ? '[ ]' : '( )';
+          const mark = options.showAnswers && correct.has(choice.identifier) ? ' ✓' : '';
+          return `  ${box} ${choice.identifier}. ${choice.text}${mark}`;
+        });
+        const order = options.showAnswers && interaction.type === 'order' && correct.size > 0
+          ? [`  Correct order: ${declaration!.correctResponse!.join(', ')}`]
+          : [];
+        return `${prompt}${[...choices, ...order].join('\n')}\n`;
+      }
+      case 'inlineChoice': {
+        const choices = interaction.choices.map(choice =>
+          options.showAnswers && correct.has(choice.identifier) ? `*${choice.text}*` : choice.text);
+        return `[${choices.join(' / ')}]`;
+      }
+      case 'textEntry': {
+        const answer = options.showAnswers && declaration?.correctResponse?.length ? declaration.correctResponse.join(' | ') : '';
+        return `[${answer || '_'.repeat(Math.min(Number(interaction.attributes['expected-length']) || 10, 30))}]`;
+      }
+      case 'extendedText':
+        return `${prompt}[Extended response${interaction.attributes['expected-lines'] ? `, about ${interaction.attributes['expected-lines']} lines` : ''}]\n`;
+      default:
+        return `${prompt}[${interaction.type} interaction]\n`;
+    }
+  }
+
+  private interactionHtml(interaction: QtiInteraction | undefined, item: QtiAssessmentItem, options: QtiRenderOptions): string {
+    if (!interaction) return '';
+    const declaration = this.declaration(item, interaction);
+    const correct = new Set(declaration?.correctResponse || []);
+    const name = escapeHtml(interaction.responseIdentifier);
+    const prompt = interaction.prompt ? `<p class="qti-prompt">${escapeHtml(interaction.prompt)}</p>` : '';
+    const answerClass = (identifier: string) => options.showAnswers && correct.has(identifier) ? ' class="qti-correct"' : '';
+
+    switch (interaction.type) {
+      case 'choice':
+      case 'order':
+      case 'hottext':
+      case 'hotspot': {
+        const inputType = declaration?.cardinality === 'single' ? 'radio' : 'checkbox';
+        const choices = interaction.choices.map(choice =>
+          `<label${answerClass(choice.identifier)}><input type="${inputType}" name="${name}" value="${escapeHtml(choice.identifier)}"/> ${choice.content}</label>`);
+        return `<fieldset class="qti-${interaction.type}-interaction" data-response-identifier="${name}">${prompt}${choices.join('')}</fieldset>`;
+      }
+      case 'inlineChoice': {
+        const choices = interaction.choices.map(choice =>
+          `<option value="${escapeHtml(choice.identifier)}"${options.showAnswers && correct.has(choice.identifier) ? ' selected="selected"' : ''}>${escapeHtml(choice.text)}</option>`);
+        return `<select name="${name}">${choices.join('')}</select>`;
+      }
+      case 'textEntry': {
+        const value = options.showAnswers && declaration?.correctResponse?.length ? ` value="${escapeHtml(declaration.correctResponse[0])}"` : '';
+        const size = interaction.attributes['expected-length'] ? ` size="${escapeHtml(interaction.attributes['expected-length'])}"` : '';
+        return `<input type="text" name="${name}"${size}${value}/>`;
+      }
+      case 'extendedText': {
+        const rows = interaction.attributes['expected-lines'] ? ` rows="${escapeHtml(interaction.attributes['expected-lines'])}"` : '';
+        return `<div class="qti-extendedText-interaction">${prompt}<textarea name="${name}"${rows}></textarea></div>`;
+      }
+      default:
+        return `<div class="qti-unsupported-interaction" data-type="${escapeHtml(interaction.type)}">${prompt}</div>`;
+    }
+  }
+
+  private declaration(item: QtiAssessmentItem, interaction: QtiInteraction): QtiResponseDeclaration | undefined {
+    return item.responseDeclarations.find(d => d.identifier === interaction.responseIdentifier);
+  }
+}
@@ -0,0 +1,543 @@
+import {
+  QtiAreaMapping,
+  QtiAssessmentItem,
+  QtiBaseType,
+  QtiCardinality,
+  QtiMapping,
+  QtiOutcomeDeclaration,
+  QtiResponseDeclaration,
+  QtiRuleNode,
+} from './qti-parser.js';
+
+export type QtiScalar = string | number | boolean;
+export type QtiResponseInput = QtiScalar | QtiScalar[] | null;
+
+export interface QtiValue {
+  cardinality: QtiCardinality;
+  baseType?: QtiBaseType;
+  value: QtiScalar | QtiScalar[] | null;
+}
+
+export interface QtiResponseResult {
+  identifier: string;
+  value: QtiScalar | QtiScalar[] | null;
+  correct?: boolean;
+}
+
+export interface QtiItemResult {
+  identifier: string;
+  responseProcessing: 'template' | 'custom' | 'none';
+  template?: string;
+  responses: QtiResponseResult[];
+  outcomes: Record<string, QtiScalar | QtiScalar[] | null>;
+  score: number;
+  maxScore?: number;
+}
+
+const NUMERIC_TYPES = new Set<QtiBaseType | undefined>(['integer', 'float']);
+const MAX_RULE_DEPTH = 50;
+
+class ExitResponse extends Error {}
+
+function asList(value: QtiValue['value']): QtiScalar[] {
+  if (value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isNull(value: QtiValue): boolean {
+  return value.value === null || (Array.isArray(value.value) && value.value.length === 0) || value.value === '';
+}
+
+function clamp(value: number, lower?: number, upper?: number): number {
+  return Math.min(upper ?? Infinity, Math.max(lower ?? -Infinity, value));
+}
+
+/**
+ * Executes QTI 3.0 response processing: the match_correct, map_response and map_response_point
+ * templates, or a custom rule tree, against a set of candidate responses.
+ */
+export class QtiScoringEngine {
+  score(item: QtiAssessmentItem, responses?: Record<string, QtiResponseInput>): QtiItemResult {
+    // Without candidate responses the declared correct responses are scored
+    const candidate = responses ?? this.correctResponses(item);
+    for (const key of Object.keys(candidate)) {
+      if (!item.responseDeclarations.some(d => d.identifier === key)) {
+        throw new Error(`Response ${key} is not declared in item ${item.identifier}`);
+      }
+    }
+
+    const variables = this.execute(item, candidate);
+    const processing = item.responseProcessing;
+    const maxScore = item.outcomeDeclarations.some(d => d.identifier === 'MAXSCORE')
+      ? Number(variables.get('MAXSCORE')!.value)
+      : this.deriveMaxScore(item);
+    if (maxScore !== undefined && !variables.has('MAXSCORE')) {
+      variables.set('MAXSCORE', { cardinality: 'single', baseType: 'float', value: maxScore });
+    }
+
+    return {
+      identifier: item.identifier,
+      responseProcessing: processing?.templateName ? 'template' : processing?.rules.length ? 'custom' : 'none',
+      ...(processing?.templateName && { template: processing.templateName }),
+      responses: item.responseDeclarations.map(declaration => {
+        const value = variables.get(declaration.identifier)!;
+        return {
+          identifier: declaration.identifier,
+          value: value.value,
+          ...(declaration.correctResponse && { correct: this.matches(value, this.correctValue(declaration)) }),
+        };
+      }),
+      outcomes: Object.fromEntries([...variables.entries()]
+        .filter(([identifier]) => !item.responseDeclarations.some(d => d.identifier === identifier))
+        .map(([identifier, value]) => [identifier, value.value])),
+      score: Number(variables.get('SCORE')!.value ?? 0),
+      ...(maxScore !== undefined && { maxScore }),
+    };
+  }
+
+  private execute(item: QtiAssessmentItem, responses: Record<string, QtiResponseInput>): Map<string, QtiValue> {
+    const variables = new Map<string, QtiValue>();
+    for (const declaration of item.responseDeclarations) {
+      variables.set(declaration.identifier, this.responseValue(declaration, responses[declaration.identifier]));
+    }
+    for (const declaration of item.outcomeDeclarations) {
+      variables.set(declaration.identifier, this.outcomeDefault(declaration));
+    }
+    if (!variables.has('SCORE')) {
+      variables.set('SCORE', { cardinality: 'single', baseType: 'float', value: 0 });
+    }
+
+    const processing = item.responseProcessing;
+    const context = { item, variables };
+    if (processing?.templateName) {
+      this.runTemplate(processing.templateName, context);
+    } else if (processing?.rules.length) {
+      try {
+        this.runRules(processing.rules, context, 0);
+      } catch (error) {
+        if (!(error instanceof ExitResponse)) throw error;
+      }
+    }
+    return variables;
+  }
+
+  private runTemplate(template: string, context: ScoringContext): void {
+    const response = context.variables.get('RESPONSE');
+    const declaration = context.item.responseDeclarations.find(d => d.identifier === 'RESPONSE');
+    if (!response || !declaration) {
+      throw new Error(`Template ${template} requires a RESPONSE declaration`);
+    }
+
+    let score: number;
+    switch (template) {
+      case 'match_correct':
+        score = declaration.correctResponse && this.matches(response, this.correctValue(declaration)) ? 1 : 0;
+        break;
+      case 'map_response':
+        if (!declaration.mapping) throw new Error('map_response requires a mapping for RESPONSE');
+        score = isNull(response) ? 0 : this.mapResponse(response, declaration.mapping);
+        break;
+      case 'map_response_point':
+        if (!declaration.areaMapping) throw new Error('map_response_point requires an area mapping for RESPONSE');
+        score = isNull(response) ? 0 : this.mapResponsePoint(response, declaration.areaMapping);
+        break;
+      default:
+        throw new Error(`Unsupported response processing template ${template}`);
+    }
+    this.setOutcome(context, 'SCORE', { cardinality: 'single', baseType: 'float', value: score });
+  }
+
+  private runRules(rules: QtiRuleNode[], context: ScoringContext, depth: number): void {
+    if (depth > MAX_RULE_DEPTH) {
+      throw new Error('Response processing rules are nested too deeply');
+    }
+
+    for (const rule of rules) {
+      switch (rule.name) {
+        case 'qti-response-condition': {
+          for (const branch of rule.children) {
+            if (branch.name === 'qti-response-else') {
+              this.runRules(branch.children, context, depth + 1);
+              break;
+            }
+            const [condition, ...body] = branch.children;
+            if (!condition) throw new Error(`${branch.name} needs a condition`);
+            if (this.evaluate(condition, context).value === true) {
+              this.runRules(body, context, depth + 1);
+              break;
+            }
+          }
+          break;
+        }
+        case 'qti-set-outcome-value': {
+          const [expression] = rule.children;
+          if (!expression) throw new Error(`qti-set-outcome-value for ${rule.attributes.identifier} needs an expression`);
+          this.setOutcome(context, rule.attributes.identifier, this.evaluate(expression, context));
+          break;
+        }
+        case 'qti-response-processing-fragment':
+          this.runRules(rule.children, context, depth + 1);
+          break;
+        case 'qti-exit-response':
+          throw new ExitResponse();
+        default:
+          throw new Error(`Unsupported response rule ${rule.name}`);
+      }
+    }
+  }
+
+  private evaluate(node: QtiRuleNode, context: ScoringContext): QtiValue {
+    const args = () => node.children.map(child => this.evaluate(child, context));
+    const numbers = () => args().map(arg => asList(arg.value).map(Number)).flat();
+    const bool = (value: boolean | null): QtiValue => ({ cardinality: 'single', baseType: 'boolean', value });
+    const number = (value: number | null, baseType: QtiBaseType = 'float'): QtiValue => ({ cardinality: 'single', baseType, value });
+    const anyNull = (values: QtiValue[]) => values.some(isNull);
+
+    switch (node.name) {
+      case 'qti-base-value':
+        return { cardinality: 'single', baseType: node.attributes['base-type'] as QtiBaseType, value: this.coerce(node.text ?? '', node.attributes['base-type'] as QtiBaseType) };
+      case 'qti-variable':
+        return this.variable(context, node.attributes.identifier);
+      case 'qti-correct': {
+        const declaration = context.item.responseDeclarations.find(d => d.identifier === node.attributes.identifier);
+        if (!declaration) throw new Error(`qti-correct refers to undeclared response ${node.attributes.identifier}`);
+        return this.correctValue(declaration);
+      }
+      case 'qti-default': {
+        const outcome = context.item.outcomeDeclarations.find(d => d.identifier === node.attributes.identifier);
+        return outcome ? this.outcomeDefault(outcome) : { cardinality: 'single', value: null };
+      }
+      case 'qti-null':
+        return { cardinality: 'single', value: null };
+      case 'qti-is-null':
+        return bool(isNull(args()[0]));
+      case 'qti-match': {
+        const [left, right] = args();
+        return anyNull([left, right]) ? bool(null) : bool(this.matches(left, right));
+      }
+      case 'qti-string-match': {
+        const [left, right] = args().map(arg => arg.value === null ? null : String(arg.value));
+        if (left === null || right === null) return bool(null);
+        const caseSensitive = node.attributes['case-sensitive'] !== 'false';
+        return bool(caseSensitive ? left === right : left.toLowerCase() === right.toLowerCase());
+      }
+      case 'qti-pattern-match': {
+        const [value] = args();
+        if (isNull(value)) return bool(null);
+        return bool(new RegExp(`^(?:${node.attributes.pattern})$`).test(String(value.value)));
+      }
+      case 'qti-and':
+      case 'qti-or': {
+        // One false operand decides an and (one true decides an or) even when others are NULL
+        const values = args();
+        const decisive = node.name !== 'qti-and';
+        if (values.some(v => !isNull(v) && (v.value === true) === decisive)) return bool(decisive);
+        return anyNull(values) ? bool(null) : bool(!decisive);
+      }
+      case 'qti-not': {
+        const [value] = args();
+        return isNull(value) ? bool(null) : bool(value.value !== true);
+      }
+      case 'qti-equal':
+      case 'qti-lt':
+      case 'qti-gt':
+      case 'qti-lte':
+      case 'qti-gte': {
+        const values = args();
+        if (anyNull(values)) return bool(null);
+        const [left, right] = values.map(v => Number(v.value));
+        const comparisons: Record<string, boolean> = {
+          'qti-equal': left === right,
+          'qti-lt': left < right,
+          'qti-gt': left > right,
+          'qti-lte': left <= right,
+          'qti-gte': left >= right,
+        };
+        return bool(comparisons[node.name]);
+      }
+      case 'qti-sum':
+      case 'qti-product':
+      case 'qti-min':
+      case 'qti-max': {
+        if (anyNull(args())) return number(null);
+        const values = numbers();
+        const result = {
+          'qti-sum': () => values.reduce((sum, v) => sum + v, 0),
+          'qti-product': () => values.reduce((product, v) => product * v, 1),
+          'qti-min': () => Math.min(...values),
+          'qti-max': () => Math.max(...values),
+        }[node.name]!();
+        return number(result);
+      }
+      case 'qti-subtract':
+      case 'qti-divide': {
+        const values = args();
+        if (anyNull(values)) return number(null);
+        const [left, right] = values.map(v => Number(v.value));
+        if (node.name === 'qti-divide') return number(right === 0 ? null : left / right);
+        return number(left - right);
+      }
+      case 'qti-round':
+      case 'qti-truncate': {
+        const [value] = args();
+        if (isNull(value)) return number(null, 'integer');
+        return number(node.name === 'qti-round' ? Math.round(Number(value.value)) : Math.trunc(Number(value.value)), 'integer');
+      }
+      case 'qti-map-response': {
+        const declaration = this.responseDeclaration(context, node.attributes.identifier);
+        if (!declaration.mapping) throw new Error(`qti-map-response: ${declaration.identifier} has no mapping`);
+        return number(this.mapResponse(this.variable(context, declaration.identifier), declaration.mapping));
+      }
+      case 'qti-map-response-point': {
+        const declaration = this.responseDeclaration(context, node.attributes.identifier);
+        if (!declaration.areaMapping) throw new Error(`qti-map-response-point: ${declaration.identifier} has no area mapping`);
+        return number(this.mapResponsePoint(this.variable(context, declaration.identifier), declaration.areaMapping));
+      }
+      case 'qti-member':
+      case 'qti-contains': {
+        const [left, right] = args();
+        if (anyNull([left, right])) return bool(null);
+        const container = asList(right.value);
+        if (node.name === 'qti-member') {
+          return bool(container.some(item => this.equalScalars(left.value as QtiScalar, item, right.baseType)));
+        }
+        const remaining = [...container];
+        return bool(asList(left.value).every(needle => {
+          const index = remaining.findIndex(item => this.equalScalars(needle, item, right.baseType));
+          return index >= 0 && remaining.splice(index, 1).length > 0;
+        }));
+      }
+      case 'qti-container-size': {
+        const [value] = args();
+        return number(asList(value.value).length, 'integer');
+      }
+      case 'qti-multiple':
+      case 'qti-ordered': {
+        const values = args();
+        return {
+          cardinality: node.name === 'qti-multiple' ? 'multiple' : 'ordered',
+          baseType: values.find(v => v.baseType)?.baseType,
+          value: values.flatMap(v => asList(v.value)),
+        };
+      }
+      default:
+        throw new Error(`Unsupported response processing expression ${node.name}`);
+    }
+  }
+
+  private mapResponse(response: QtiValue, mapping: QtiMapping): number {
+    const values = asList(response.value);
+    if (values.length === 0) return clamp(0, mapping.lowerBound, mapping.upperBound);
+
+    // Each map entry counts once, however often the candidate repeats the value
+    const used = new Set<number>();
+    const seen: QtiScalar[] = [];
+    let total = 0;
+    for (const value of values) {
+      if (response.cardinality !== 'single' && seen.some(previous => this.equalScalars(previous, value, response.baseType))) continue;
+      seen.push(value);
+      const index = mapping.entries.findIndex(entry => this.mapKeyMatches(entry.mapKey, value, entry.caseSensitive, response.baseType));
+      if (index === -1) {
+        total += mapping.defaultValue;
+      } else if (!used.has(index)) {
+        used.add(index);
+        total += mapping.entries[index].mappedValue;
+      }
+    }
+    return clamp(total, mapping.lowerBound, mapping.upperBound);
+  }
+
+  private mapResponsePoint(response: QtiValue, mapping: QtiAreaMapping): number {
+    const used = new Set<number>();
+    let total = 0;
+    for (const value of asList(response.value)) {
+      const [x, y] = String(value).trim().split(/\s+/).map(Number);
+      const index = mapping.entries.findIndex(entry => this.insideArea(entry.shape, entry.coords, x, y));
+      if (index === -1) {
+        total += mapping.defaultValue;
+      } else if (!used.has(index)) {
+        used.add(index);
+        total += mapping.entries[index].mappedValue;
+      }
+    }
+    return clamp(total, mapping.lowerBound, mapping.upperBound);
+  }
+
+  private insideArea(shape: string, coords: number[], x: number, y: number): boolean {
+    switch (shape) {
+      case 'circle': {
+        const [cx, cy, r] = coords;
+        return (x - cx) ** 2 + (y - cy) ** 2 <= r ** 2;
+      }
+      case 'rect': {
+        const [left, top, right, bottom] = coords;
+        return x >= left && x <= right && y >= top && y <= bottom;
+      }
+      case 'ellipse': {
+        const [cx, cy, rx, ry] = coords;
+        return ((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2 <= 1;
+      }
+      case 'poly': {
+        let inside = false;
+        for (let i = 0, j = coords.length / 2 - 1; i < coords.length / 2; j = i++) {
+          const [xi, yi, xj, yj] = [coords[2 * i], coords[2 * i + 1], coords[2 * j], coords[2 * j + 1]];
+          if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+        }
+        return inside;
+      }
+      case 'default':
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private deriveMaxScore(item: QtiAssessmentItem): number | undefined {
+    const processing = item.responseProcessing;
+    const response = item.responseDeclarations.find(d => d.identifier === 'RESPONSE');
+    const mapping = processing?.templateName === 'map_response' ? response?.mapping
+      : processing?.templateName === 'map_response_point' ? response?.areaMapping
+        : undefined;
+
+    if (response && mapping) {
+      const positive = mapping.entries.map(entry => entry.mappedValue).filter(value => value > 0);
+      const best = response.cardinality === 'single' ? Math.max(0, ...positive) : positive.reduce((sum, value) => sum + value, 0);
+      return clamp(best, mapping.lowerBound, mapping.upperBound);
+    }
+    // Otherwise the best score is taken to be what the declared correct responses earn
+    if (!processing || item.responseDeclarations.length === 0 || !item.responseDeclarations.every(d => d.correctResponse)) {
+      return undefined;
+    }
+    return Number(this.execute(item, this.correctResponses(item)).get('SCORE')!.value ?? 0);
+  }
+
+  private correctResponses(item: QtiAssessmentItem): Record<string, QtiResponseInput> {
+    return Object.fromEntries(item.responseDeclarations
+      .filter(declaration => declaration.correctResponse)
+      .map(declaration => [
+        declaration.identifier,
+        declaration.cardinality === 'single' ? declaration.correctResponse![0] : declaration.correctResponse!,
+      ]));
+  }
+
+  private setOutcome(context: ScoringContext, identifier: string, value: QtiValue): void {
+    const declaration = context.item.outcomeDeclarations.find(d => d.identifier === identifier);
+    if (!declaration && identifier !== 'SCORE') {
+      throw new Error(`qti-set-outcome-value refers to undeclared outcome ${identifier}`);
+    }
+    const baseType = declaration?.baseType ?? 'float';
+    const cardinality = declaration?.cardinality ?? 'single';
+    const coerced = value.value === null
+      ? null
+      : cardinality === 'single'
+        ? this.coerce(String(asList(value.value)[0]), baseType)
+        : asList(value.value).map(item => this.coerce(String(item), baseType) as QtiScalar);
+    context.variables.set(identifier, { cardinality, baseType, value: coerced });
+  }
+
+  private variable(context: ScoringContext, identifier: string): QtiValue {
+    const value = context.variables.get(identifier);
+    if (!value) throw new Error(`qti-variable refers to undeclared variable ${identifier}`);
+    return value;
+  }
+
+  private responseDeclaration(context: ScoringContext, identifier: string): QtiResponseDeclaration {
+    const declaration = context.item.responseDeclarations.find(d => d.identifier === identifier);
+    if (!declaration) throw new Error(`Response ${identifier} is not declared`);
+    return declaration;
+  }
+
+  private responseValue(declaration: QtiResponseDeclaration, input: QtiResponseInput | undefined): QtiValue {
+    const { cardinality, baseType } = declaration;
+    if (input === undefined || input === null) {
+      return { cardinality, baseType, value: null };
+    }
+    const values = Array.isArray(input) ? input : [input];
+    if (cardinality === 'single' && values.length > 1) {
+      throw new Error(`Response ${declaration.identifier} has single cardinality but ${values.length} values were given`);
+    }
+    const coerced = values.map(value => this.coerce(String(value), baseType, declaration.identifier) as QtiScalar);
+    return { cardinality, baseType, value: cardinality === 'single' ? coerced[0] ?? null : coerced };
+  }
+
+  private correctValue(declaration: QtiResponseDeclaration): QtiValue {
+    const values = (declaration.correctResponse || []).map(value => this.coerce(value, declaration.baseType) as QtiScalar);
+    return {
+      cardinality: declaration.cardinality,
+      baseType: declaration.baseType,
+      value: declaration.cardinality === 'single' ? values[0] ?? null : values,
+    };
+  }
+
+  private outcomeDefault(declaration: QtiOutcomeDeclaration): QtiValue {
+    const { cardinality, baseType } = declaration;
+    if (declaration.defaultValue) {
+      const values = declaration.defaultValue.map(value => this.coerce(value, baseType) as QtiScalar);
+      return { cardinality, baseType, value: cardinality === 'single' ? values[0] ?? null : values };
+    }
+    // Numeric outcomes without a default start at 0, everything else at NULL
+    return { cardinality, baseType, value: NUMERIC_TYPES.has(baseType) && cardinality === 'single' ? 0 : null };
+  }
+
+  private coerce(value: string, baseType?: QtiBaseType, identifier?: string): QtiScalar | null {
+    const trimmed = value.trim();
+    switch (baseType) {
+      case 'integer':
+      case 'float': {
+        const number = Number(trimmed);
+        if (trimmed === '' || Number.isNaN(number) || (baseType === 'integer' && !Number.isInteger(number))) {
+          throw new Error(`${identifier ? `Response ${identifier}: ` : ''}${JSON.stringify(value)} is not a valid ${baseType}`);
+        }
+        return number;
+      }
+      case 'boolean':
+        return trimmed === 'true' || trimmed === '1';
+      case 'pair':
+      case 'directedPair':
+      case 'point':
+        return trimmed.split(/\s+/).join(' ');
+      case 'identifier':
+        return trimmed;
+      default:
+        return value;
+    }
+  }
+
+  private matches(left: QtiValue, right: QtiValue): boolean {
+    const a = asList(left.value);
+    const b = asList(right.value);
+    if (a.length !== b.length) return false;
+    const baseType = left.baseType || right.baseType;
+
+    if (left.cardinality === 'ordered' || right.cardinality === 'ordered') {
+      return a.every((value, index) => this.equalScalars(value, b[index], baseType));
+    }
+    const remaining = [...b];
+    return a.every(value => {
+      const index = remaining.findIndex(other => this.equalScalars(value, other, baseType));
+      return index >= 0 && remaining.splice(index, 1).length > 0;
+    });
+  }
+
+  private equalScalars(left: QtiScalar, right: QtiScalar, baseType?: QtiBaseType): boolean {
+    if (baseType === 'pair') {
+      const sort = (value: QtiScalar) => String(value).split(' ').sort().join(' ');
+      return sort(left) === sort(right);
+    }
+    if (NUMERIC_TYPES.has(baseType)) {
+      return Number(left) === Number(right);
+    }
+    return left === right;
+  }
+
+  private mapKeyMatches(key: string, value: QtiScalar, caseSensitive: boolean, baseType?: QtiBaseType): boolean {
+    if (NUMERIC_TYPES.has(baseType)) return Number(key) === Number(value);
+    if (baseType === 'pair' || baseType === 'directedPair') return this.equalScalars(this.coerce(key, baseType) as QtiScalar, value, baseType);
+    return caseSensitive ? key === String(value) : key.toLowerCase() === String(value).toLowerCase();
+  }
+}
+
+interface ScoringContext {
+  item: QtiAssessmentItem;
+  variables: Map<string, QtiValue>;
+}
@@ -0,0 +1,460 @@
+import * as fs from 'fs/promises';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { OneRosterPaginator } from './oneroster-paginator.js';
+import {
+  ONEROSTER_CSV_FILES,
+  ONEROSTER_ROSTERING_PATH,
+  OneRosterCsvService,
+  OneRosterPushOperation,
+  OneRosterRestData,
+} from './oneroster-csv.js';
+
+export type RosterCollection = 'academicSessions' | 'orgs' | 'courses' | 'classes' | 'users' | 'enrollments';
+
+/** Where a snapshot comes from: a CSV bundle, a live OneRoster pull, or a JSON export of REST-shaped records. */
+export type RosterSnapshotSource =
+  | { type: 'csv'; path?: string; files?: Record<string, string>; label?: string }
+  | { type: 'api'; profile?: string; baseUrl?: string; label?: string }
+  | { type: 'json'; path?: string; data?: Record<string, any>; label?: string };
+
+export interface RosterSnapshot {
+  label: string;
+  origin: RosterSnapshotSource['type'];
+  data: OneRosterRestData;
+  // Collections that may not hold every record (delta CSV files, truncated pulls); removals are not inferred from them
+  partial: RosterCollection[];
+  issues: string[];
+}
+
+export interface FieldChange {
+  field: string;
+  from?: any;
+  to?: any;
+}
+
+export interface CollectionDiff {
+  added: string[];
+  removed: string[];
+  changed: { sourcedId: string; changes: FieldChange[] }[];
+  unchanged: number;
+}
+
+export interface OrphanedEnrollment {
+  snapshot: 'source' | 'target';
+  sourcedId: string;
+  missing: string[];
+}
+
+export interface DuplicateIdentity {
+  // "both": a user removed from the target shares the identity of a user added from the source, i.e. it was probably re-keyed
+  snapshot: 'source' | 'target' | 'both';
+  field: string;
+  value: string;
+  sourcedIds: string[];
+}
+
+export interface ReconcileOperation extends OneRosterPushOperation {
+  action: 'create' | 'update' | 'delete';
+  fields?: string[];
+}
+
+export interface RosterReconciliation {
+  source: { label: string; origin: string; records: Record<string, number>; partial: RosterCollection[]; issues: string[] };
+  target: { label: string; origin: string; records: Record<string, number>; partial: RosterCollection[]; issues: string[] };
+  collections: Partial<Record<RosterCollection, CollectionDiff>>;
+  skipped: string[];
+  summary: { added: number; removed: number; changed: number; unchanged: number; operations: number };
+  orphanedEnrollments: OrphanedEnrollment[];
+  duplicateIdentities: DuplicateIdentity[];
+  operations: ReconcileOperation[];
+}
+
+export interface ReconcileOptions {
+  collections?: RosterCollection[];
+  ignoreFields?: string[];
+  // Base URL the planned calls go to (default: the configured OneRoster base URL)
+  baseUrl?: string;
+}
+
+const ROSTER_COLLECTIONS: RosterCollection[] = ['academicSessions', 'orgs', 'courses', 'classes', 'users', 'enrollments'];
+const DEFAULT_COLLECTIONS: RosterCollection[] = ['users', 'classes', 'enrollments'];
+
+// Bookkeeping fields that differ between systems without the roster having changed
+const IGNORED_FIELDS = ['sourcedId', 'status', 'dateLastModified', 'href'];
+const IDENTITY_FIELDS = ['email', 'username', 'identifier', 'userMasterIdentifier'];
+
+interface IndexedCollection {
+  active: Map<string, Record<string, any>>;
+  deleted: Set<string>;
+  duplicates: string[];
+}
+
+type SnapshotIndex = Partial<Record<RosterCollection, IndexedCollection>>;
+
+/**
+ * Compares two roster snapshots keyed by sourcedId and plans the OneRoster calls that make the target match the source.
+ */
+export class RosterReconciler {
+  constructor(
+    private csvService: OneRosterCsvService,
+    private paginator?: OneRosterPaginator,
+    private baseUrl = config.timeback.oneroster.baseUrl
+  ) {}
+
+  async loadSnapshot(source: RosterSnapshotSource, collections: RosterCollection[] = DEFAULT_COLLECTIONS): Promise<RosterSnapshot> {
+    switch (source.type) {
+      case 'csv':
+        return this.loadCsv(source, collections);
+      case 'api':
+        return this.loadApi(source, collections);
+      case 'json':
+        return this.loadJson(source, collections);
+      default:
+        throw new Error(`Unknown snapshot type ${(source as { type: string }).type}`);
+    }
+  }
+
+  async reconcileSources(source: RosterSnapshotSource, target: RosterSnapshotSource, options: ReconcileOptions = {}): Promise<RosterReconciliation> {
+    const collections = this.order(options.collections || DEFAULT_COLLECTIONS);
+    const [sourceSnapshot, targetSnapshot] = await Promise.all([this.loadSnapshot(source, collections), this.loadSnapshot(target, collections)]);
+    return this.reconcile(sourceSnapshot, targetSnapshot, {
+      ...options,
+      collections,
+      baseUrl: options.baseUrl || (target.type === 'api' ? target.baseUrl : undefined),
+    });
+  }
+
+  /** Diff two loaded snapshots; "added" and "removed" describe what the target lacks or has extra compared with the source. */
+  reconcile(source: RosterSnapshot, target: RosterSnapshot, options: ReconcileOptions = {}): RosterReconciliation {
+    const collections = this.order(options.collections || DEFAULT_COLLECTIONS);
+    const ignored = new Set([...IGNORED_FIELDS, ...(options.ignoreFields || [])]);
+    const indexes: Record<'source' | 'target', SnapshotIndex> = {
+      source: Object.fromEntries(collections.map(collection => [collection, this.index(source.data[collection])])),
+      target: Object.fromEntries(collections.map(collection => [collection, this.index(target.data[collection])])),
+    };
+
+    const result: RosterReconciliation = {
+      source: this.describe(source, collections),
+      target: this.describe(target, collections),
+      collections: {},
+      skipped: [],
+      summary: { added: 0, removed: 0, changed: 0, unchanged: 0, operations: 0 },
+      orphanedEnrollments: [
+        ...this.findOrphans('source', source, indexes.source),
+        ...this.findOrphans('target', target, indexes.target),
+      ],
+      duplicateIdentities: [],
+      operations: [],
+    };
+
+    for (const collection of collections) {
+      if (!source.data[collection] || !target.data[collection]) {
+        const missing = [!source.data[collection] && source.label, !target.data[collection] && target.label].filter(Boolean).join(' and ');
+        result.skipped.push(`${collection}: not in ${missing}`);
+        continue;
+      }
+
+      const from = indexes.target[collection]!;
+      const to = indexes.source[collection]!;
+      const diff: CollectionDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+      for (const [sourcedId, record] of to.active) {
+        const existing = from.active.get(sourcedId);
+        if (!existing) {
+          diff.added.push(sourcedId);
+          continue;
+        }
+        const changes = this.diffFields(existing, record, ignored);
+        if (changes.length) {
+          diff.changed.push({ sourcedId, changes });
+        } else {
+          diff.unchanged++;
+        }
+      }
+      for (const sourcedId of from.active.keys()) {
+        if (!to.active.has(sourcedId) && (to.deleted.has(sourcedId) || !source.partial.includes(collection))) {
+          diff.removed.push(sourcedId);
+        }
+      }
+
+      result.collections[collection] = diff;
+      result.summary.added += diff.added.length;
+      result.summary.removed += diff.removed.length;
+      result.summary.changed += diff.changed.length;
+      result.summary.unchanged += diff.unchanged;
+    }
+
+    result.duplicateIdentities = [
+      ...this.findDuplicates('source', indexes.source.users),
+      ...this.findDuplicates('target', indexes.target.users),
+      ...this.findRekeyed(indexes.source.users, indexes.target.users, result.collections.users),
+    ];
+    const orphans = new Set(result.orphanedEnrollments.filter(orphan => orphan.snapshot === 'source').map(orphan => orphan.sourcedId));
+    result.operations = this.plan(result, indexes.source, orphans, options.baseUrl || this.baseUrl);
+    result.summary.operations = result.operations.length;
+
+    logger.info('Reconciled roster snapshots', { source: source.label, target: target.label, ...result.summary });
+    return result;
+  }
+
+  private async loadCsv(source: Extract<RosterSnapshotSource, { type: 'csv' }>, collections: RosterCollection[]): Promise<RosterSnapshot> {
+    if (!source.path && !source.files) {
+      throw new Error('A csv snapshot needs a path or files');
+    }
+    const bundle = source.path ? await this.csvService.loadBundle(source.path) : this.csvService.readBundle(source.files!);
+    const data = this.csvService.toRest(bundle);
+    const partial = collections.filter(collection => this.csvService.mode(bundle, collection) === 'delta');
+    const issues = this.csvService.validate(bundle)
+      .filter(issue => issue.severity === 'error')
+      .map(issue => `${issue.file}${issue.row !== undefined ? `:${issue.row}` : ''} ${issue.message}`);
+
+    return { label: source.label || source.path || 'csv', origin: 'csv', data: this.pick(data, collections), partial, issues };
+  }
+
+  private async loadApi(source: Extract<RosterSnapshotSource, { type: 'api' }>, collections: RosterCollection[]): Promise<RosterSnapshot> {
+    if (!this.paginator) {
+      throw new Error('Pulling a live roster requires an authenticated OneRoster client');
+    }
+    const baseUrl = (source.baseUrl || this.baseUrl).replace(/\/+$/, '');
+    // Requests carry the OneRoster token, which must not go to a host it was not configured for
+    if (baseUrl !== this.baseUrl.replace(/\/+$/, '') && !source.profile) {
+      throw new Error(`${baseUrl} is not the configured OneRoster base URL; pass a credential profile to pull from it`);
+    }
+    const snapshot: RosterSnapshot = { label: source.label || baseUrl, origin: 'api', data: {}, partial: [], issues: [] };
+
+    for (const collection of collections) {
+      const pulled = await this.paginator.fetchAll(`${baseUrl}${ONEROSTER_ROSTERING_PATH}/${collection}`, {
+        collectionKey: collection,
+        profile: source.profile,
+      });
+      snapshot.data[collection] = pulled.records;
+      if (pulled.truncated) {
+        snapshot.partial.push(collection);
+        snapshot.issues.push(`${collection} stopped at ${pulled.records.length} records; raise ONEROSTER_MAX_RECORDS to compare every record`);
+      }
+    }
+    return snapshot;
+  }
+
+  private async loadJson(source: Extract<RosterSnapshotSource, { type: 'json' }>, collections: RosterCollection[]): Promise<RosterSnapshot> {
+    if (!source.path && !source.data) {
+      throw new Error('A json snapshot needs a path or data');
+    }
+    const parsed = source.data ?? JSON.parse(await fs.readFile(source.path!, 'utf-8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('A json snapshot must be an object of collections, e.g. { "users": [...], "enrollments": [...] }');
+    }
+
+    const issues = collections
+      .filter(collection => parsed[collection] !== undefined && !Array.isArray(parsed[collection]))
+      .map(collection => `${collection} is not an array and was ignored`);
+    const data = Object.fromEntries(collections
+      .filter(collection => Array.isArray(parsed[collection]))
+      .map(collection => [collection, parsed[collection]]));
+
+    return { label: source.label || source.path || 'json', origin: 'json', data, partial: [], issues };
+  }
+
+  private pick(data: OneRosterRestData, collections: RosterCollection[]): OneRosterRestData {
+    return Object.fromEntries(collections.filter(collection => data[collection]).map(collection => [collection, data[collection]]));
+  }
+
+  private order(collections: RosterCollection[]): RosterCollection[] {
+    return ROSTER_COLLECTIONS.filter(collection => collections.includes(collection));
+  }
+
+  private describe(snapshot: RosterSnapshot, collections: RosterCollection[]): RosterReconciliation['source'] {
+    return {
+      label: snapshot.label,
+      origin: snapshot.origin,
+      records: Object.fromEntries(collections.filter(collection => snapshot.data[collection]).map(collection => [collection, snapshot.data[collection].length])),
+      partial: snapshot.partial,
+      issues: snapshot.issues,
+    };
+  }
+
+  private index(records: Record<string, any>[] = []): IndexedCollection {
+    const indexed: IndexedCollection = { active: new Map(), deleted: new Set(), duplicates: [] };
+    for (const record of records) {
+      const sourcedId = record?.sourcedId;
+      if (!sourcedId) continue;
+      if (indexed.active.has(sourcedId) || indexed.deleted.has(sourcedId)) {
+        indexed.duplicates.push(sourcedId);
+      }
+      if (record.status === 'tobedeleted') {
+        indexed.deleted.add(sourcedId);
+      } else {
+        indexed.active.set(sourcedId, record);
+      }
+    }
+    return indexed;
+  }
+
+  private diffFields(from: Record<string, any>, to: Record<string, any>, ignored: Set<string>): FieldChange[] {
+    const before = this.flatten(this.comparable(from, ignored) || {});
+    const after = this.flatten(this.comparable(to, ignored) || {});
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+    return fields
+      .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .map(field => ({ field, ...(before[field] !== undefined && { from: before[field] }), ...(after[field] !== undefined && { to: after[field] }) }));
+  }
+
+  // Reduces a record to what matters when comparing: GUID refs become their sourcedId, blanks are dropped and list order is ignored
+  private comparable(value: any, ignored: Set<string>): any {
+    if (value === null || value === undefined || value === '') {
+      return undefined;
+    }
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+    if (Array.isArray(value)) {
+      const items = value.map(item => this.comparable(item, ignored)).filter(item => item !== undefined);
+      return items.length ? items.sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b))) : undefined;
+    }
+    if (typeof value === 'object') {
+      const keys = Object.keys(value);
+      if (typeof value.sourcedId === 'string' && keys.every(key => ['sourcedId', 'href', 'type'].includes(key))) {
+        return value.sourcedId;
+      }
+      const entries = keys
+        .filter(key => !ignored.has(key))
+        .map(key => [key, this.comparable(value[key], ignored)])
+        .filter(([, item]) => item !== undefined);
+      return entries.length ? Object.fromEntries(entries) : undefined;
+    }
+    return value;
+  }
+
+  private flatten(value: Record<string, any>, prefix = ''): Record<string, any> {
+    const flat: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const field = prefix ? `${prefix}.${key}` : key;
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        Object.assign(flat, this.flatten(item, field));
+      } else {
+        flat[field] = item;
+      }
+    }
+    return flat;
+  }
+
+  private findOrphans(snapshot: 'source' | 'target', data: RosterSnapshot, indexes: SnapshotIndex): OrphanedEnrollment[] {
+    const enrollments = indexes.enrollments;
+    if (!enrollments || !data.data.enrollments) {
+      return [];
+    }
+    // A reference can only be called dangling when the snapshot holds every user or class
+    const users = data.data.users && !data.partial.includes('users') ? indexes.users : undefined;
+    const classes = data.data.classes && !data.partial.includes('classes') ? indexes.classes : undefined;
+    if (!users && !classes) {
+      return [];
+    }
+
+    const orphans: OrphanedEnrollment[] = [];
+    for (const [sourcedId, enrollment] of enrollments.active) {
+      const userId = enrollment.user?.sourcedId ?? enrollment.userSourcedId;
+      const classId = enrollment.class?.sourcedId ?? enrollment.classSourcedId;
+      const missing = [
+        ...(users && !users.active.has(userId) ? [`user ${userId ?? '(none)'}`] : []),
+        ...(classes && !classes.active.has(classId) ? [`class ${classId ?? '(none)'}`] : []),
+      ];
+      if (missing.length) {
+        orphans.push({ snapshot, sourcedId, missing });
+      }
+    }
+    return orphans;
+  }
+
+  private identities(user: Record<string, any>): [string, string][] {
+    const identities: [string, string][] = IDENTITY_FIELDS
+      .filter(field => typeof user[field] === 'string' && user[field].trim())
+      .map(field => [field, field === 'email' || field === 'username' ? user[field].trim().toLowerCase() : user[field].trim()]);
+    for (const id of Array.isArray(user.userIds) ? user.userIds : []) {
+      if (id?.type && id?.identifier) {
+        identities.push(['userIds', `${id.type}:${id.identifier}`]);
+      }
+    }
+    return identities;
+  }
+
+  private findDuplicates(snapshot: 'source' | 'target', users?: IndexedCollection): DuplicateIdentity[] {
+    if (!users) {
+      return [];
+    }
+    const holders = new Map<string, string[]>();
+    for (const [sourcedId, user] of users.active) {
+      for (const [field, value] of this.identities(user)) {
+        const key = `${field}\u0000${value}`;
+        holders.set(key, [...(holders.get(key) || []), sourcedId]);
+      }
+    }
+
+    const duplicates: DuplicateIdentity[] = [...new Set(users.duplicates)].map(sourcedId => ({
+      snapshot,
+      field: 'sourcedId',
+      value: sourcedId,
+      sourcedIds: [sourcedId],
+    }));
+    for (const [key, sourcedIds] of holders) {
+      if (sourcedIds.length > 1) {
+        const [field, value] = key.split('\u0000');
+        duplicates.push({ snapshot, field, value, sourcedIds });
+      }
+    }
+    return duplicates;
+  }
+
+  private findRekeyed(source?: IndexedCollection, target?: IndexedCollection, diff?: CollectionDiff): DuplicateIdentity[] {
+    if (!source || !target || !diff) {
+      return [];
+    }
+    const removed = new Map<string, string>();
+    for (const sourcedId of diff.removed) {
+      for (const [field, value] of this.identities(target.active.get(sourcedId)!)) {
+        removed.set(`${field}\u0000${value}`, sourcedId);
+      }
+    }
+
+    const rekeyed: DuplicateIdentity[] = [];
+    for (const sourcedId of diff.added) {
+      for (const [field, value] of this.identities(source.active.get(sourcedId)!)) {
+        const previous = removed.get(`${field}\u0000${value}`);
+        if (previous) {
+          rekeyed.push({ snapshot: 'both', field, value, sourcedIds: [previous, sourcedId] });
+        }
+      }
+    }
+    return rekeyed;
+  }
+
+  private plan(result: RosterReconciliation, source: SnapshotIndex, orphans: Set<string>, baseUrl: string): ReconcileOperation[] {
+    const upserts: ReconcileOperation[] = [];
+    const deletes: ReconcileOperation[] = [];
+    const now = new Date().toISOString();
+
+    for (const collection of ROSTER_COLLECTIONS) {
+      const diff = result.collections[collection];
+      if (!diff) continue;
+      const resource = ONEROSTER_CSV_FILES[collection].resource!;
+      const url = (sourcedId: string) => `${baseUrl.replace(/\/+$/, '')}${ONEROSTER_ROSTERING_PATH}/${collection}/${encodeURIComponent(sourcedId)}`;
+      const body = (sourcedId: string) => ({ [resource]: { ...source[collection]!.active.get(sourcedId), status: 'active', dateLastModified: now } });
+
+      // Enrollments whose user or class does not exist in the source would be rejected
+      const creatable = collection === 'enrollments' ? diff.added.filter(sourcedId => !orphans.has(sourcedId)) : diff.added;
+      for (const sourcedId of creatable) {
+        upserts.push({ action: 'create', method: 'PUT', collection, sourcedId, url: url(sourcedId), body: body(sourcedId) });
+      }
+      for (const { sourcedId, changes } of diff.changed) {
+        upserts.push({ action: 'update', method: 'PUT', collection, sourcedId, url: url(sourcedId), body: body(sourcedId), fields: changes.map(change => change.field) });
+      }
+      for (const sourcedId of diff.removed) {
+        deletes.push({ action: 'delete', method: 'DELETE', collection, sourcedId, url: url(sourcedId) });
+      }
+    }
+
+    // Dependents are deleted before the records they point at
+    return [...upserts, ...deletes.reverse()];
+  }
+}
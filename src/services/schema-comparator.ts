@@ -0,0 +1,454 @@
+import { OpenAPIV3 } from 'openapi-types';
+
+/**
+ * How a target schema relates to a source schema, from the point of view of data moving source → target:
+ * widening means every source value still fits the target, narrowing means some source values are rejected
+ * or dropped, and incompatible means the two cannot describe the same data.
+ */
+export type SchemaCompatibility = 'identical' | 'widening' | 'narrowing' | 'incompatible';
+
+export type SchemaDifferenceAspect =
+  | 'type'
+  | 'format'
+  | 'enum'
+  | 'required'
+  | 'nullable'
+  | 'property'
+  | 'constraint'
+  | 'variant';
+
+export interface SchemaDifference {
+  path: string;
+  aspect: SchemaDifferenceAspect;
+  compatibility: Exclude<SchemaCompatibility, 'identical'>;
+  message: string;
+  source?: any;
+  target?: any;
+}
+
+export interface SchemaPathCompatibility {
+  path: string;
+  compatibility: SchemaCompatibility;
+  sourceType?: string;
+  targetType?: string;
+}
+
+export interface SchemaComparisonResult {
+  compatibility: SchemaCompatibility;
+  summary: Record<SchemaCompatibility, number>;
+  paths: SchemaPathCompatibility[];
+  differences: SchemaDifference[];
+  commonProperties: string[];
+  uniqueToSource: string[];
+  uniqueToTarget: string[];
+}
+
+interface FlatSchema {
+  type?: string;
+  format?: string;
+  nullable: boolean;
+  enum?: any[];
+  properties: Record<string, OpenAPIV3.SchemaObject>;
+  required: string[];
+  items?: OpenAPIV3.SchemaObject;
+  variants?: OpenAPIV3.SchemaObject[];
+  constraints: Record<string, any>;
+}
+
+const RANK: Record<SchemaCompatibility, number> = { identical: 0, widening: 1, narrowing: 2, incompatible: 3 };
+
+const MAX_SCHEMA_DEPTH = 10;
+
+// Lower bounds narrow as they grow, upper bounds narrow as they shrink
+const LOWER_BOUNDS = ['minimum', 'minLength', 'minItems', 'minProperties'] as const;
+const UPPER_BOUNDS = ['maximum', 'maxLength', 'maxItems', 'maxProperties'] as const;
+
+export function worstCompatibility(values: SchemaCompatibility[]): SchemaCompatibility {
+  return values.reduce<SchemaCompatibility>((worst, value) => RANK[value] > RANK[worst] ? value : worst, 'identical');
+}
+
+export class SchemaComparator {
+  compare(source: OpenAPIV3.SchemaObject, target: OpenAPIV3.SchemaObject): SchemaComparisonResult {
+    const differences: SchemaDifference[] = [];
+    const visitedPaths: SchemaPathCompatibility[] = [];
+    this.compareAt(source, target, '$', differences, visitedPaths, [], 0);
+
+    // A path is as compatible as the worst difference at or below it
+    const paths = visitedPaths.map(entry => ({
+      ...entry,
+      compatibility: worstCompatibility(
+        differences
+          .filter(difference => difference.path === entry.path || this.isDescendant(difference.path, entry.path))
+          .map(difference => difference.compatibility)
+      ),
+    }));
+
+    const summary: Record<SchemaCompatibility, number> = { identical: 0, widening: 0, narrowing: 0, incompatible: 0 };
+    for (const entry of paths) {
+      summary[entry.compatibility]++;
+    }
+
+    const sourceProperties = Object.keys(this.flatten(source).properties);
+    const targetProperties = Object.keys(this.flatten(target).properties);
+
+    return {
+      compatibility: worstCompatibility(differences.map(difference => difference.compatibility)),
+      summary,
+      paths,
+      differences,
+      commonProperties: sourceProperties.filter(name => targetProperties.includes(name)),
+      uniqueToSource: sourceProperties.filter(name => !targetProperties.includes(name)),
+      uniqueToTarget: targetProperties.filter(name => !sourceProperties.includes(name)),
+    };
+  }
+
+  private compareAt(
+    source: OpenAPIV3.SchemaObject,
+    target: OpenAPIV3.SchemaObject,
+    path: string,
+    differences: SchemaDifference[],
+    paths: SchemaPathCompatibility[],
+    ancestors: Array<[OpenAPIV3.SchemaObject, OpenAPIV3.SchemaObject]>,
+    depth: number
+  ): void {
+    const sourceFlat = this.flatten(source);
+    const targetFlat = this.flatten(target);
+    paths.push({ path, compatibility: 'identical', sourceType: this.describeType(sourceFlat), targetType: this.describeType(targetFlat) });
+
+    // Recursive schemas point back at themselves; stop when this pair is already being compared further up
+    if (depth > MAX_SCHEMA_DEPTH || ancestors.some(([a, b]) => a === source && b === target)) return;
+    const nextAncestors: Array<[OpenAPIV3.SchemaObject, OpenAPIV3.SchemaObject]> = [...ancestors, [source, target]];
+
+    if (sourceFlat.variants || targetFlat.variants) {
+      this.compareVariants(sourceFlat, targetFlat, path, differences, paths, nextAncestors, depth);
+      return;
+    }
+
+    const typeCompatibility = this.compareTypes(sourceFlat, targetFlat, path, differences);
+    if (typeCompatibility === 'incompatible') return;
+
+    this.compareFormats(sourceFlat, targetFlat, path, differences);
+    this.compareNullable(sourceFlat, targetFlat, path, differences);
+    this.compareEnums(sourceFlat, targetFlat, path, differences);
+    this.compareConstraints(sourceFlat, targetFlat, path, differences);
+
+    for (const [name, sourceProperty] of Object.entries(sourceFlat.properties)) {
+      const propertyPath = `${path}.${name}`;
+      const targetProperty = targetFlat.properties[name];
+      if (!targetProperty) {
+        paths.push({ path: propertyPath, compatibility: 'identical', sourceType: this.describeType(this.flatten(sourceProperty)) });
+        differences.push({
+          path: propertyPath,
+          aspect: 'property',
+          compatibility: 'narrowing',
+          message: `${propertyPath} only exists in the source, so its values are dropped`,
+        });
+        continue;
+      }
+
+      const sourceRequired = sourceFlat.required.includes(name);
+      const targetRequired = targetFlat.required.includes(name);
+      if (sourceRequired !== targetRequired) {
+        differences.push({
+          path: propertyPath,
+          aspect: 'required',
+          compatibility: targetRequired ? 'narrowing' : 'widening',
+          message: targetRequired
+            ? `${propertyPath} is optional in the source but required in the target`
+            : `${propertyPath} is required in the source but optional in the target`,
+          source: sourceRequired,
+          target: targetRequired,
+        });
+      }
+
+      this.compareAt(sourceProperty, targetProperty, propertyPath, differences, paths, nextAncestors, depth + 1);
+    }
+
+    for (const [name, targetProperty] of Object.entries(targetFlat.properties)) {
+      if (sourceFlat.properties[name]) continue;
+
+      const propertyPath = `${path}.${name}`;
+      const required = targetFlat.required.includes(name);
+      paths.push({ path: propertyPath, compatibility: 'identical', targetType: this.describeType(this.flatten(targetProperty)) });
+      differences.push({
+        path: propertyPath,
+        aspect: 'property',
+        compatibility: required ? 'incompatible' : 'widening',
+        message: required
+          ? `${propertyPath} is required in the target but has no source`
+          : `${propertyPath} only exists in the target`,
+      });
+    }
+
+    if (sourceFlat.items && targetFlat.items) {
+      this.compareAt(sourceFlat.items, targetFlat.items, `${path}[]`, differences, paths, nextAncestors, depth + 1);
+    }
+  }
+
+  private compareVariants(
+    sourceFlat: FlatSchema,
+    targetFlat: FlatSchema,
+    path: string,
+    differences: SchemaDifference[],
+    paths: SchemaPathCompatibility[],
+    ancestors: Array<[OpenAPIV3.SchemaObject, OpenAPIV3.SchemaObject]>,
+    depth: number
+  ): void {
+    const sourceVariants = sourceFlat.variants || [this.unflatten(sourceFlat)];
+    const targetVariants = targetFlat.variants || [this.unflatten(targetFlat)];
+    const matchedTargets = new Set<number>();
+
+    // Each source variant is held against the target variant it fits best
+    sourceVariants.forEach((sourceVariant, sourceIndex) => {
+      const variantPath = sourceVariants.length > 1 ? `${path}<${sourceIndex}>` : path;
+      const candidates = targetVariants.map((targetVariant, targetIndex) => {
+        const candidateDifferences: SchemaDifference[] = [];
+        const candidatePaths: SchemaPathCompatibility[] = [];
+        this.compareAt(sourceVariant, targetVariant, variantPath, candidateDifferences, candidatePaths, ancestors, depth + 1);
+        const compatibility = worstCompatibility(candidateDifferences.map(difference => difference.compatibility));
+        return { targetIndex, compatibility, differences: candidateDifferences, paths: candidatePaths };
+      });
+      const best = candidates.sort((a, b) =>
+        RANK[a.compatibility] - RANK[b.compatibility] || a.differences.length - b.differences.length
+      )[0];
+
+      matchedTargets.add(best.targetIndex);
+      differences.push(...best.differences);
+      paths.push(...best.paths.filter(entry => entry.path !== path));
+    });
+
+    const unmatched = targetVariants.length - matchedTargets.size;
+    if (unmatched > 0) {
+      differences.push({
+        path,
+        aspect: 'variant',
+        compatibility: 'widening',
+        message: `${path} accepts ${unmatched} variant(s) in the target that the source never produces`,
+        source: sourceVariants.length,
+        target: targetVariants.length,
+      });
+    }
+  }
+
+  private compareTypes(sourceFlat: FlatSchema, targetFlat: FlatSchema, path: string, differences: SchemaDifference[]): SchemaCompatibility {
+    const sourceType = sourceFlat.type;
+    const targetType = targetFlat.type;
+    if (sourceType === targetType) return 'identical';
+
+    let compatibility: Exclude<SchemaCompatibility, 'identical'>;
+    if (!targetType) {
+      compatibility = 'widening';
+    } else if (!sourceType) {
+      compatibility = 'narrowing';
+    } else if (sourceType === 'integer' && targetType === 'number') {
+      compatibility = 'widening';
+    } else if (sourceType === 'number' && targetType === 'integer') {
+      compatibility = 'narrowing';
+    } else {
+      compatibility = 'incompatible';
+    }
+
+    differences.push({
+      path,
+      aspect: 'type',
+      compatibility,
+      message: `${path} is ${sourceType || 'untyped'} in the source and ${targetType || 'untyped'} in the target`,
+      source: sourceType,
+      target: targetType,
+    });
+    return compatibility;
+  }
+
+  private compareFormats(sourceFlat: FlatSchema, targetFlat: FlatSchema, path: string, differences: SchemaDifference[]): void {
+    if (sourceFlat.format === targetFlat.format) return;
+
+    let compatibility: Exclude<SchemaCompatibility, 'identical'>;
+    if (!targetFlat.format) {
+      compatibility = 'widening';
+    } else if (!sourceFlat.format) {
+      compatibility = 'narrowing';
+    } else if (sourceFlat.format === 'int32' && targetFlat.format === 'int64') {
+      compatibility = 'widening';
+    } else if (sourceFlat.format === 'int64' && targetFlat.format === 'int32') {
+      compatibility = 'narrowing';
+    } else {
+      compatibility = 'incompatible';
+    }
+
+    differences.push({
+      path,
+      aspect: 'format',
+      compatibility,
+      message: `${path} has format ${sourceFlat.format || 'none'} in the source and ${targetFlat.format || 'none'} in the target`,
+      source: sourceFlat.format,
+      target: targetFlat.format,
+    });
+  }
+
+  private compareNullable(sourceFlat: FlatSchema, targetFlat: FlatSchema, path: string, differences: SchemaDifference[]): void {
+    if (sourceFlat.nullable === targetFlat.nullable) return;
+
+    differences.push({
+      path,
+      aspect: 'nullable',
+      compatibility: targetFlat.nullable ? 'widening' : 'narrowing',
+      message: targetFlat.nullable
+        ? `${path} becomes nullable in the target`
+        : `${path} is nullable in the source but not in the target`,
+      source: sourceFlat.nullable,
+      target: targetFlat.nullable,
+    });
+  }
+
+  private compareEnums(sourceFlat: FlatSchema, targetFlat: FlatSchema, path: string, differences: SchemaDifference[]): void {
+    const sourceEnum = sourceFlat.enum;
+    const targetEnum = targetFlat.enum;
+    if (!sourceEnum && !targetEnum) return;
+
+    if (!targetEnum) {
+      differences.push({
+        path,
+        aspect: 'enum',
+        compatibility: 'widening',
+        message: `${path} is limited to ${sourceEnum!.join(', ')} in the source only`,
+        source: sourceEnum,
+      });
+      return;
+    }
+    if (!sourceEnum) {
+      differences.push({
+        path,
+        aspect: 'enum',
+        compatibility: 'narrowing',
+        message: `${path} is limited to ${targetEnum.join(', ')} in the target only`,
+        target: targetEnum,
+      });
+      return;
+    }
+
+    const missing = sourceEnum.filter(value => !targetEnum.includes(value));
+    const extra = targetEnum.filter(value => !sourceEnum.includes(value));
+    if (missing.length === 0 && extra.length === 0) return;
+
+    let compatibility: Exclude<SchemaCompatibility, 'identical'>;
+    let message: string;
+    if (missing.length === sourceEnum.length) {
+      compatibility = 'incompatible';
+      message = `${path} shares no values between source and target`;
+    } else if (missing.length > 0) {
+      compatibility = 'narrowing';
+      message = `${path} target does not allow ${missing.join(', ')}`;
+    } else {
+      compatibility = 'widening';
+      message = `${path} target also allows ${extra.join(', ')}`;
+    }
+
+    differences.push({ path, aspect: 'enum', compatibility, message, source: sourceEnum, target: targetEnum });
+  }
+
+  private compareConstraints(sourceFlat: FlatSchema, targetFlat: FlatSchema, path: string, differences: SchemaDifference[]): void {
+    const bounds: Array<[string, 'lower' | 'upper']> = [
+      ...LOWER_BOUNDS.map(name => [name, 'lower'] as [string, 'lower']),
+      ...UPPER_BOUNDS.map(name => [name, 'upper'] as [string, 'upper']),
+    ];
+
+    for (const [name, kind] of bounds) {
+      const sourceValue = sourceFlat.constraints[name];
+      const targetValue = targetFlat.constraints[name];
+      if (sourceValue === targetValue) continue;
+
+      let narrower: boolean;
+      if (targetValue === undefined) {
+        narrower = false;
+      } else if (sourceValue === undefined) {
+        narrower = true;
+      } else {
+        narrower = kind === 'lower' ? targetValue > sourceValue : targetValue < sourceValue;
+      }
+
+      differences.push({
+        path,
+        aspect: 'constraint',
+        compatibility: narrower ? 'narrowing' : 'widening',
+        message: `${path} ${name} is ${sourceValue ?? 'unset'} in the source and ${targetValue ?? 'unset'} in the target`,
+        source: sourceValue,
+        target: targetValue,
+      });
+    }
+
+    const sourcePattern = sourceFlat.constraints.pattern;
+    const targetPattern = targetFlat.constraints.pattern;
+    if (sourcePattern !== targetPattern) {
+      differences.push({
+        path,
+        aspect: 'constraint',
+        compatibility: targetPattern ? 'narrowing' : 'widening',
+        message: targetPattern
+          ? `${path} must match ${targetPattern} in the target`
+          : `${path} no longer has to match ${sourcePattern}`,
+        source: sourcePattern,
+        target: targetPattern,
+      });
+    }
+  }
+
+  private flatten(schema: OpenAPIV3.SchemaObject): FlatSchema {
+    const flat: FlatSchema = { nullable: false, properties: {}, required: [], constraints: {} };
+
+    const visit = (current: OpenAPIV3.SchemaObject, depth: number) => {
+      if (depth > MAX_SCHEMA_DEPTH) return;
+      for (const part of current.allOf || []) {
+        visit(part as OpenAPIV3.SchemaObject, depth + 1);
+      }
+
+      flat.type = current.type || flat.type;
+      flat.format = current.format || flat.format;
+      flat.nullable = flat.nullable || Boolean(current.nullable);
+      flat.enum = current.enum || flat.enum;
+      if (current.oneOf || current.anyOf) {
+        flat.variants = (current.oneOf || current.anyOf) as OpenAPIV3.SchemaObject[];
+      }
+      Object.assign(flat.properties, current.properties || {});
+      flat.required.push(...(current.required || []).filter(name => !flat.required.includes(name)));
+      if (current.type === 'array') {
+        flat.items = (current as OpenAPIV3.ArraySchemaObject).items as OpenAPIV3.SchemaObject;
+      }
+      for (const name of [...LOWER_BOUNDS, ...UPPER_BOUNDS, 'pattern'] as const) {
+        if (current[name] !== undefined) {
+          flat.constraints[name] = current[name];
+        }
+      }
+    };
+
+    visit(schema, 0);
+    if (!flat.type && Object.keys(flat.properties).length > 0) {
+      flat.type = 'object';
+    }
+    return flat;
+  }
+
+  // Variants are compared as whole schemas, so a plain side is rebuilt without its own variant list
+  private unflatten(flat: FlatSchema): OpenAPIV3.SchemaObject {
+    return {
+      type: flat.type as OpenAPIV3.NonArraySchemaObjectType,
+      format: flat.format,
+      nullable: flat.nullable || undefined,
+      enum: flat.enum,
+      properties: Object.keys(flat.properties).length > 0 ? flat.properties : undefined,
+      required: flat.required.length > 0 ? flat.required : undefined,
+      ...(flat.items ? { type: 'array', items: flat.items } : {}),
+      ...flat.constraints,
+    } as OpenAPIV3.SchemaObject;
+  }
+
+  private describeType(flat: FlatSchema): string {
+    if (flat.variants) return `oneOf(${flat.variants.length})`;
+    if (flat.type === 'array') return `array<${flat.items ? this.describeType(this.flatten(flat.items)) : 'unknown'}>`;
+    const type = flat.type || 'any';
+    return flat.format ? `${type}(${flat.format})` : type;
+  }
+
+  private isDescendant(path: string, ancestor: string): boolean {
+    return path.startsWith(`${ancestor}.`) || path.startsWith(`${ancestor}[]`) || path.startsWith(`${ancestor}<`);
+  }
+}
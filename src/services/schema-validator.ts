@@ -0,0 +1,341 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { EndpointCallArguments, ParsedEndpoint, SchemaViolation } from '../types/index.js';
+
+export type ValidationDirection = 'request' | 'response';
+
+export class SchemaValidationError extends Error {
+  constructor(message: string, public violations: SchemaViolation[]) {
+    super(`${message}: ${violations.map(v => v.message).join('; ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+interface ValidationContext {
+  direction: ValidationDirection;
+  violations: SchemaViolation[];
+}
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+export class SchemaValidator {
+  validate(
+    schema: OpenAPIV3.SchemaObject,
+    value: any,
+    direction: ValidationDirection = 'request',
+    pointer = '',
+    label = 'value'
+  ): SchemaViolation[] {
+    const context: ValidationContext = { direction, violations: [] };
+    this.validateValue(schema, value, pointer, label, context);
+    return context.violations;
+  }
+
+  validateRequest(endpoint: ParsedEndpoint, args: EndpointCallArguments): SchemaViolation[] {
+    const context: ValidationContext = { direction: 'request', violations: [] };
+    const parameters = endpoint.parameters || [];
+    const sources: Record<string, Record<string, any>> = {
+      path: args.pathParams || {},
+      query: args.query || {},
+      header: args.headers || {},
+    };
+
+    for (const parameter of parameters) {
+      const source = sources[parameter.in];
+      if (!source) continue;
+
+      const pointer = `/${parameter.in}/${this.escapePointer(parameter.name)}`;
+      const label = `${parameter.in} parameter "${parameter.name}"`;
+      const value = parameter.in === 'header'
+        ? this.findHeader(source, parameter.name)
+        : source[parameter.name];
+
+      if (value === undefined || value === null || value === '') {
+        if (parameter.required || parameter.in === 'path') {
+          context.violations.push({
+            pointer,
+            expected: 'required parameter',
+            actual: value,
+            message: `missing required ${parameter.in} parameter "${parameter.name}"`,
+          });
+        }
+        continue;
+      }
+
+      const schema = parameter.schema as OpenAPIV3.SchemaObject | undefined;
+      if (schema) {
+        // Path, query and header values travel as strings, so numeric and boolean strings are accepted
+        this.validateValue(schema, this.coerceParameter(schema, value), pointer, label, context);
+      }
+    }
+
+    for (const name of Object.keys(sources.path)) {
+      if (!parameters.some(p => p.in === 'path' && p.name === name)) {
+        context.violations.push({
+          pointer: `/path/${this.escapePointer(name)}`,
+          expected: 'declared path parameter',
+          actual: sources.path[name],
+          message: `unknown path parameter "${name}"`,
+        });
+      }
+    }
+
+    if (endpoint.requestBody) {
+      if (args.body === undefined) {
+        if (endpoint.requestBody.required) {
+          context.violations.push({ pointer: '/body', expected: 'request body', message: 'request body is required' });
+        }
+      } else {
+        const schema = this.getMediaSchema(endpoint.requestBody.content);
+        if (schema) {
+          this.validateValue(schema, args.body, '/body', 'body', context);
+        }
+      }
+    } else if (args.body !== undefined) {
+      context.violations.push({
+        pointer: '/body',
+        expected: 'no request body',
+        actual: this.describeActual(args.body),
+        message: 'operation does not accept a request body',
+      });
+    }
+
+    return context.violations;
+  }
+
+  validateResponse(endpoint: ParsedEndpoint, status: number, body: any): SchemaViolation[] {
+    const responses = endpoint.responses || {};
+    const response = (responses[String(status)] || responses[`${String(status)[0]}XX`] || responses.default) as
+      OpenAPIV3.ResponseObject | undefined;
+
+    if (!response) {
+      const documented = Object.keys(responses);
+      return [{
+        pointer: '',
+        expected: `documented status (${documented.join(', ') || 'none'})`,
+        actual: status,
+        message: `response status ${status} is not documented`,
+      }];
+    }
+
+    const schema = this.getMediaSchema(response.content);
+    if (!schema || body === undefined || body === '') {
+      return [];
+    }
+
+    const context: ValidationContext = { direction: 'response', violations: [] };
+    this.validateValue(schema, body, '', 'response', context);
+    return context.violations;
+  }
+
+  private validateValue(
+    schema: OpenAPIV3.SchemaObject,
+    value: any,
+    pointer: string,
+    label: string,
+    context: ValidationContext
+  ): void {
+    if (value === null) {
+      if (!schema.nullable && schema.type) {
+        this.addViolation(context, pointer, schema.type, value, `${label} must not be null`);
+      }
+      return;
+    }
+
+    if (schema.allOf) {
+      for (const subSchema of schema.allOf) {
+        this.validateValue(subSchema as OpenAPIV3.SchemaObject, value, pointer, label, context);
+      }
+    }
+
+    for (const combinator of ['oneOf', 'anyOf'] as const) {
+      const options = schema[combinator] as OpenAPIV3.SchemaObject[] | undefined;
+      if (!options) continue;
+
+      const matches = options.filter(option => this.validate(option, value, context.direction).length === 0).length;
+      if (combinator === 'oneOf' ? matches !== 1 : matches === 0) {
+        this.addViolation(
+          context,
+          pointer,
+          combinator === 'oneOf' ? 'exactly one oneOf schema' : 'at least one anyOf schema',
+          this.describeActual(value),
+          `${label} matches ${matches} of the ${combinator} schemas`
+        );
+      }
+    }
+
+    if (schema.type && !this.matchesType(schema.type, value)) {
+      this.addViolation(context, pointer, schema.type, this.describeActual(value), `${label} must be of type ${schema.type}`);
+      return;
+    }
+
+    if (schema.enum && !schema.enum.some(option => option === value)) {
+      this.addViolation(context, pointer, `one of: ${schema.enum.join(', ')}`, value, `${label} must be one of: ${schema.enum.join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+      this.validateString(schema, value, pointer, label, context);
+    } else if (typeof value === 'number') {
+      this.validateNumber(schema, value, pointer, label, context);
+    } else if (Array.isArray(value)) {
+      this.validateArray(schema, value, pointer, label, context);
+    } else if (typeof value === 'object') {
+      this.validateObject(schema, value, pointer, label, context);
+    }
+  }
+
+  private validateString(schema: OpenAPIV3.SchemaObject, value: string, pointer: string, label: string, context: ValidationContext): void {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      this.addViolation(context, pointer, `minLength ${schema.minLength}`, value, `${label} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      this.addViolation(context, pointer, `maxLength ${schema.maxLength}`, value, `${label} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      this.addViolation(context, pointer, `pattern ${schema.pattern}`, value, `${label} must match ${schema.pattern}`);
+    }
+    if (schema.format && !this.matchesFormat(schema.format, value)) {
+      this.addViolation(context, pointer, `format ${schema.format}`, value, `${label} must be a valid ${schema.format}`);
+    }
+  }
+
+  private validateNumber(schema: OpenAPIV3.SchemaObject, value: number, pointer: string, label: string, context: ValidationContext): void {
+    if (schema.minimum !== undefined) {
+      const tooLow = schema.exclusiveMinimum ? value <= schema.minimum : value < schema.minimum;
+      if (tooLow) {
+        this.addViolation(context, pointer, `${schema.exclusiveMinimum ? '>' : '>='} ${schema.minimum}`, value, `${label} must be ${schema.exclusiveMinimum ? 'greater than' : 'at least'} ${schema.minimum}`);
+      }
+    }
+    if (schema.maximum !== undefined) {
+      const tooHigh = schema.exclusiveMaximum ? value >= schema.maximum : value > schema.maximum;
+      if (tooHigh) {
+        this.addViolation(context, pointer, `${schema.exclusiveMaximum ? '<' : '<='} ${schema.maximum}`, value, `${label} must be ${schema.exclusiveMaximum ? 'less than' : 'at most'} ${schema.maximum}`);
+      }
+    }
+  }
+
+  private validateArray(schema: OpenAPIV3.SchemaObject, value: any[], pointer: string, label: string, context: ValidationContext): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      this.addViolation(context, pointer, `minItems ${schema.minItems}`, value.length, `${label} must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      this.addViolation(context, pointer, `maxItems ${schema.maxItems}`, value.length, `${label} must contain at most ${schema.maxItems} items`);
+    }
+
+    const items = (schema as OpenAPIV3.ArraySchemaObject).items as OpenAPIV3.SchemaObject | undefined;
+    if (items) {
+      value.forEach((item, index) => this.validateValue(items, item, `${pointer}/${index}`, `${label}[${index}]`, context));
+    }
+  }
+
+  private validateObject(schema: OpenAPIV3.SchemaObject, value: Record<string, any>, pointer: string, label: string, context: ValidationContext): void {
+    const properties = (schema.properties || {}) as Record<string, OpenAPIV3.SchemaObject>;
+
+    for (const name of schema.required || []) {
+      const property = properties[name];
+      // readOnly properties are only required in responses, writeOnly ones only in requests
+      if (property?.readOnly && context.direction === 'request') continue;
+      if (property?.writeOnly && context.direction === 'response') continue;
+
+      if (value[name] === undefined) {
+        this.addViolation(context, `${pointer}/${this.escapePointer(name)}`, 'required property', undefined, `${label}.${name} is required`);
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const childPointer = `${pointer}/${this.escapePointer(name)}`;
+      const childLabel = `${label}.${name}`;
+      const property = properties[name];
+
+      if (property) {
+        if (property.readOnly && context.direction === 'request') {
+          this.addViolation(context, childPointer, 'no value (readOnly)', this.describeActual(propertyValue), `${childLabel} is read-only`);
+          continue;
+        }
+        this.validateValue(property, propertyValue, childPointer, childLabel, context);
+      } else if (schema.additionalProperties === false) {
+        this.addViolation(context, childPointer, 'no additional properties', this.describeActual(propertyValue), `${childLabel} is not a declared property`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        this.validateValue(schema.additionalProperties as OpenAPIV3.SchemaObject, propertyValue, childPointer, childLabel, context);
+      }
+    }
+  }
+
+  private matchesType(type: string, value: any): boolean {
+    switch (type) {
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && !isNaN(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'string':
+        return typeof value === 'string';
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && !Array.isArray(value);
+      default:
+        return true;
+    }
+  }
+
+  private matchesFormat(format: string, value: string): boolean {
+    if (format === 'uri') {
+      try {
+        new URL(value);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+    const pattern = FORMAT_PATTERNS[format];
+    return !pattern || pattern.test(value);
+  }
+
+  private coerceParameter(schema: OpenAPIV3.SchemaObject, value: any): any {
+    if (schema.type === 'array') {
+      const items = (schema as OpenAPIV3.ArraySchemaObject).items as OpenAPIV3.SchemaObject | undefined;
+      const values = Array.isArray(value) ? value : String(value).split(',');
+      return items ? values.map(item => this.coerceParameter(items, item)) : values;
+    }
+    if (typeof value !== 'string') {
+      return schema.type === 'string' && ['number', 'boolean'].includes(typeof value) ? String(value) : value;
+    }
+
+    const trimmed = value.trim();
+    if (schema.type === 'integer' && /^-?\d+$/.test(trimmed)) return Number(trimmed);
+    if (schema.type === 'number' && trimmed !== '' && !isNaN(Number(trimmed))) return Number(trimmed);
+    if (schema.type === 'boolean' && (trimmed === 'true' || trimmed === 'false')) return trimmed === 'true';
+    return value;
+  }
+
+  private getMediaSchema(content?: Record<string, OpenAPIV3.MediaTypeObject>): OpenAPIV3.SchemaObject | undefined {
+    if (!content) return undefined;
+    const mediaType = Object.keys(content).find(type => type.includes('json')) || Object.keys(content)[0];
+    return mediaType ? content[mediaType].schema as OpenAPIV3.SchemaObject | undefined : undefined;
+  }
+
+  private findHeader(headers: Record<string, any>, name: string): any {
+    const key = Object.keys(headers).find(h => h.toLowerCase() === name.toLowerCase());
+    return key ? headers[key] : undefined;
+  }
+
+  private describeActual(value: any): any {
+    if (Array.isArray(value)) return 'array';
+    if (value !== null && typeof value === 'object') return 'object';
+    return value;
+  }
+
+  private escapePointer(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  private addViolation(context: ValidationContext, pointer: string, expected: string, actual: any, message: string): void {
+    context.violations.push({ pointer, expected, actual, message });
+  }
+}
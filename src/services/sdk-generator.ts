@@ -0,0 +1,719 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { OpenAPIV3 } from 'openapi-types';
+import { OpenAPIParser } from './openapi-parser.js';
+import { ParsedEndpoint } from '../types/index.js';
+import { config } from '../config/index.js';
+import { CSharpSdkEmitter, JavaSdkEmitter, PythonSdkEmitter } from './sdk-language-emitters.js';
+
+export type SdkLanguage = 'typescript' | 'python' | 'java' | 'csharp';
+
+export const SDK_LANGUAGES: SdkLanguage[] = ['typescript', 'python', 'java', 'csharp'];
+
+export interface SdkGenerationOptions {
+  clientName?: string;
+  packageName?: string;
+}
+
+export interface SdkFile {
+  path: string;
+  content: string;
+}
+
+export interface SdkArtifact {
+  api: string;
+  language: SdkLanguage;
+  clientName: string;
+  packageName: string;
+  models: number;
+  operations: number;
+  files: SdkFile[];
+}
+
+export interface SdkModel {
+  name: string;
+  description?: string;
+  schema: OpenAPIV3.SchemaObject;
+}
+
+export interface SdkParameter {
+  name: string;
+  identifier: string;
+  required: boolean;
+  description?: string;
+  schema: OpenAPIV3.SchemaObject;
+}
+
+export interface SdkOperation {
+  name: string;
+  typeName: string;
+  method: string;
+  path: string;
+  summary?: string;
+  description?: string;
+  pathParams: SdkParameter[];
+  queryParams: SdkParameter[];
+  requestBody?: { schema: OpenAPIV3.SchemaObject; required: boolean };
+  responseSchema?: OpenAPIV3.SchemaObject;
+  pagination?: { itemsKey: string; itemSchema: OpenAPIV3.SchemaObject; iteratorName: string };
+}
+
+export interface SdkSpecModel {
+  api: string;
+  title: string;
+  version: string;
+  baseUrl: string;
+  tokenUrl: string;
+  clientName: string;
+  packageName: string;
+  models: SdkModel[];
+  operations: SdkOperation[];
+  schemaNames: Map<OpenAPIV3.SchemaObject, string>;
+}
+
+const CLIENT_NAMES: Record<string, string> = {
+  qti: 'Qti',
+  oneroster: 'OneRoster',
+  caliper: 'Caliper',
+  powerpath: 'PowerPath',
+  case: 'Case',
+};
+
+const PACKAGE_NAME_PATTERNS: Record<SdkLanguage, RegExp> = {
+  typescript: /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/,
+  python: /^[A-Za-z_]\w*$/,
+  java: /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/,
+  csharp: /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/,
+};
+
+// Reserved words plus the names generated methods use for their own arguments
+const RESERVED_IDENTIFIERS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+  'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null',
+  'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+  'let', 'static', 'implements', 'interface', 'package', 'private', 'protected', 'public', 'await', 'options', 'query', 'body',
+]);
+
+export function splitWords(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function pascalCase(value: string): string {
+  const result = splitWords(value).map(word => word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[0-9]/.test(result) ? `_${result}` : result || 'Unnamed';
+}
+
+export function camelCase(value: string): string {
+  const pascal = pascalCase(value);
+  return pascal[0] === '_' ? pascal : pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+export function snakeCase(value: string): string {
+  const result = splitWords(value).map(word => word.toLowerCase()).join('_');
+  return /^[0-9]/.test(result) ? `_${result}` : result || 'unnamed';
+}
+
+export class SdkGenerator {
+  constructor(private parser: OpenAPIParser) {}
+
+  generate(api: string, language: SdkLanguage, options: SdkGenerationOptions = {}): SdkArtifact {
+    const model = this.buildModel(api, options, language);
+    if (options.packageName && !PACKAGE_NAME_PATTERNS[language].test(options.packageName)) {
+      throw new Error(`Invalid ${language} package name: ${options.packageName}`);
+    }
+
+    let files: SdkFile[];
+    switch (language) {
+      case 'typescript':
+        files = this.emitTypeScript(model);
+        break;
+      case 'python':
+        files = new PythonSdkEmitter().emit(model);
+        break;
+      case 'java':
+        files = new JavaSdkEmitter().emit(model);
+        break;
+      case 'csharp':
+        files = new CSharpSdkEmitter().emit(model);
+        break;
+      default:
+        throw new Error(`Unsupported SDK language: ${language}`);
+    }
+
+    return {
+      api,
+      language,
+      clientName: model.clientName,
+      packageName: model.packageName,
+      models: model.models.length,
+      operations: model.operations.length,
+      files,
+    };
+  }
+
+  async writeArtifact(artifact: SdkArtifact, outputDir: string): Promise<string[]> {
+    const root = path.resolve(outputDir);
+    const written: string[] = [];
+
+    for (const file of artifact.files) {
+      const target = path.resolve(root, file.path);
+      if (!target.startsWith(root + path.sep)) {
+        throw new Error(`Refusing to write outside the output directory: ${file.path}`);
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content, 'utf-8');
+      written.push(target);
+    }
+
+    return written;
+  }
+
+  buildModel(api: string, options: SdkGenerationOptions = {}, language: SdkLanguage = 'typescript'): SdkSpecModel {
+    const apiDefinition = this.parser.getAPI(api);
+    if (!apiDefinition) {
+      throw new Error(`API ${api} is not loaded. Run load-timeback-specs first.`);
+    }
+
+    const schemaNames = new Map<OpenAPIV3.SchemaObject, string>();
+    const usedTypeNames = new Set<string>();
+    const models: SdkModel[] = [];
+
+    for (const parsed of this.parser.getSchemas(api)) {
+      const name = this.uniqueName(pascalCase(parsed.name), usedTypeNames);
+      // Dereferencing keeps one object per $ref target, so identity maps inline schemas back to their component
+      schemaNames.set(parsed.schema, name);
+      models.push({ name, description: parsed.description, schema: parsed.schema });
+    }
+
+    const usedMethodNames = new Set<string>();
+    const operations = this.parser.getEndpoints(api).map(endpoint => {
+      const name = this.uniqueName(camelCase(endpoint.operationId || `${endpoint.method} ${endpoint.path}`), usedMethodNames);
+      return this.buildOperation(endpoint, name, usedTypeNames);
+    });
+
+    const clientBase = CLIENT_NAMES[api] || pascalCase(api);
+    return {
+      api,
+      title: apiDefinition.spec?.info?.title || `${clientBase} API`,
+      version: apiDefinition.spec?.info?.version || '1.0.0',
+      baseUrl: apiDefinition.baseUrl,
+      tokenUrl: config.auth.apis[api]?.tokenUrl || config.auth.tokenUrl,
+      clientName: options.clientName || `${clientBase}Client`,
+      packageName: options.packageName || this.defaultPackageName(api, clientBase, language),
+      models,
+      operations,
+      schemaNames,
+    };
+  }
+
+  // Each ecosystem spells packages differently: npm name, Python module, Java package, .NET namespace
+  private defaultPackageName(api: string, clientBase: string, language: SdkLanguage): string {
+    switch (language) {
+      case 'python':
+        return `timeback_${snakeCase(api)}_client`;
+      case 'java':
+        return `com.timeback.${snakeCase(api).replace(/_/g, '')}`;
+      case 'csharp':
+        return `TimeBack.${clientBase}`;
+      default:
+        return `timeback-${api}-client`;
+    }
+  }
+
+  private buildOperation(endpoint: ParsedEndpoint, name: string, usedTypeNames: Set<string>): SdkOperation {
+    const parameters = endpoint.parameters || [];
+    const toParameter = (parameter: OpenAPIV3.ParameterObject): SdkParameter => ({
+      name: parameter.name,
+      identifier: this.safeIdentifier(camelCase(parameter.name)),
+      required: parameter.in === 'path' || Boolean(parameter.required),
+      description: parameter.description,
+      schema: (parameter.schema as OpenAPIV3.SchemaObject) || { type: 'string' },
+    });
+
+    const pathOrder = Array.from(endpoint.path.matchAll(/\{([^}]+)\}/g)).map(match => match[1]);
+    const pathParams = parameters
+      .filter(parameter => parameter.in === 'path')
+      .sort((a, b) => pathOrder.indexOf(a.name) - pathOrder.indexOf(b.name))
+      .map(toParameter);
+    for (const missing of pathOrder.filter(param => !pathParams.some(p => p.name === param))) {
+      pathParams.push(toParameter({ name: missing, in: 'path', required: true, schema: { type: 'string' } }));
+    }
+
+    const requestSchema = this.getMediaSchema(endpoint.requestBody?.content);
+    const responseSchema = this.getSuccessSchema(endpoint);
+    const queryParams = parameters.filter(parameter => parameter.in === 'query').map(toParameter);
+
+    let pagination: SdkOperation['pagination'];
+    const queryNames = queryParams.map(parameter => parameter.name);
+    if (endpoint.method === 'GET' && queryNames.includes('limit') && queryNames.includes('offset') && responseSchema?.properties) {
+      const arrays = Object.entries(responseSchema.properties)
+        .filter(([, property]) => (property as OpenAPIV3.SchemaObject).type === 'array');
+      if (arrays.length === 1) {
+        const items = ((arrays[0][1] as OpenAPIV3.ArraySchemaObject).items || {}) as OpenAPIV3.SchemaObject;
+        pagination = {
+          itemsKey: arrays[0][0],
+          itemSchema: items,
+          iteratorName: `iterate${pascalCase(name.replace(/^(get|list)(?=[A-Z])/, ''))}`,
+        };
+      }
+    }
+
+    return {
+      name,
+      typeName: this.uniqueName(pascalCase(name), usedTypeNames),
+      method: endpoint.method,
+      path: endpoint.path,
+      summary: endpoint.summary,
+      description: endpoint.description,
+      pathParams,
+      queryParams,
+      requestBody: requestSchema ? { schema: requestSchema, required: Boolean(endpoint.requestBody?.required) } : undefined,
+      responseSchema,
+      pagination,
+    };
+  }
+
+  private emitTypeScript(model: SdkSpecModel): SdkFile[] {
+    const header = `// Generated from the ${model.title} OpenAPI specification (version ${model.version}). Do not edit by hand.\n`;
+    const operationTypes: string[] = [];
+    const methods: string[] = [];
+    const modelImports = new Set<string>();
+    const typeOf = (schema: OpenAPIV3.SchemaObject, indent = '') => this.tsType(schema, model, indent, modelImports);
+
+    for (const operation of model.operations) {
+      const args: string[] = [];
+      const requestParts: string[] = [];
+
+      for (const parameter of operation.pathParams) {
+        args.push(`${parameter.identifier}: ${typeOf(parameter.schema)}`);
+      }
+
+      let bodyType: string | undefined;
+      if (operation.requestBody) {
+        bodyType = `${operation.typeName}Request`;
+        operationTypes.push(`export type ${bodyType} = ${typeOf(operation.requestBody.schema)};`);
+        args.push(`body${operation.requestBody.required ? '' : '?'}: ${bodyType}`);
+        requestParts.push('body');
+      }
+
+      let queryType: string | undefined;
+      if (operation.queryParams.length > 0) {
+        queryType = `${operation.typeName}Query`;
+        const fields = operation.queryParams.map(parameter =>
+          `${this.tsDoc(parameter.description, '  ')}  ${this.tsKey(parameter.name)}${parameter.required ? '' : '?'}: ${typeOf(parameter.schema, '  ')};`
+        );
+        operationTypes.push(`export interface ${queryType} {\n${fields.join('\n')}\n}`);
+        const queryRequired = operation.queryParams.some(parameter => parameter.required);
+        args.push(`query${queryRequired ? '' : '?'}: ${queryType}`);
+        requestParts.push('query');
+      }
+
+      const responseType = operation.responseSchema ? `${operation.typeName}Response` : 'void';
+      if (operation.responseSchema) {
+        operationTypes.push(`export type ${responseType} = ${typeOf(operation.responseSchema)};`);
+      }
+      args.push('options?: RequestOptions');
+
+      const pathExpression = '`' + operation.path.replace(/\{([^}]+)\}/g, (_match, name) => {
+        const parameter = operation.pathParams.find(p => p.name === name)!;
+        return `\${encodeURIComponent(String(${parameter.identifier}))}`;
+      }) + '`';
+
+      methods.push([
+        this.tsDoc(operation.summary || operation.description, '  ').trimEnd(),
+        `  async ${operation.name}(${args.join(', ')}): Promise<${responseType}> {`,
+        `    return this.request<${responseType}>('${operation.method}', ${pathExpression}, { ${[...requestParts, '...options'].join(', ')} });`,
+        '  }',
+      ].filter(Boolean).join('\n'));
+
+      if (operation.pagination && queryType) {
+        const itemType = typeOf(operation.pagination.itemSchema, '  ');
+        const otherArgs = operation.pathParams.map(parameter => `${parameter.identifier}: ${typeOf(parameter.schema)}`);
+        const callArgs = operation.pathParams.map(parameter => parameter.identifier);
+        methods.push([
+          `  /** Iterate over every ${operation.pagination.itemsKey} item, requesting pages of \`pageSize\` with limit/offset. */`,
+          `  ${operation.pagination.iteratorName}(${[...otherArgs, `query: Omit<${queryType}, 'limit' | 'offset'> = {}`, 'pageSize = 100', 'options?: RequestOptions'].join(', ')}): AsyncGenerator<${itemType}> {`,
+          `    return paginate(offset => this.${operation.name}(${[...callArgs, '{ ...query, limit: pageSize, offset }', 'options'].join(', ')})`,
+          `      .then(page => (page?.${this.tsAccessor(operation.pagination.itemsKey)} ?? []) as ${itemType}[]), pageSize);`,
+          '  }',
+        ].join('\n'));
+      }
+    }
+
+    const modelsFile = [
+      header,
+      ...model.models.map(sdkModel => this.tsModel(sdkModel, model)),
+    ].join('\n');
+
+    const operationsFile = [
+      header,
+      modelImports.size > 0 ? `import type { ${Array.from(modelImports).sort().join(', ')} } from './models.js';\n` : '',
+      ...operationTypes.map(type => `${type}\n`),
+    ].filter(Boolean).join('\n');
+
+    const operationTypeNames = operationTypes.map(type => type.match(/^export (?:type|interface) (\w+)/)![1]);
+    const clientFile = `${header}
+import { ClientCredentialsTokenProvider, TokenProvider } from './auth.js';
+import { paginate } from './pagination.js';
+${modelImports.size > 0 ? `import type { ${Array.from(modelImports).sort().join(', ')} } from './models.js';\n` : ''}${operationTypeNames.length > 0 ? `import type { ${operationTypeNames.join(', ')} } from './operations.js';\n` : ''}
+export interface ${model.clientName}Options {
+  baseUrl?: string;
+  tokenProvider?: TokenProvider;
+  clientId?: string;
+  clientSecret?: string;
+  tokenUrl?: string;
+  scope?: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+interface RequestConfig extends RequestOptions {
+  query?: object;
+  body?: unknown;
+}
+
+export class TimeBackApiError extends Error {
+  constructor(public readonly status: number, public readonly body: unknown, message: string) {
+    super(message);
+    this.name = 'TimeBackApiError';
+  }
+}
+
+export class ${model.clientName} {
+  static readonly defaultBaseUrl = '${model.baseUrl}';
+
+  private readonly baseUrl: string;
+  private readonly tokenProvider?: TokenProvider;
+  private readonly headers: Record<string, string>;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: ${model.clientName}Options = {}) {
+    this.baseUrl = (options.baseUrl || ${model.clientName}.defaultBaseUrl).replace(/\\/$/, '');
+    this.fetchImpl = options.fetch || fetch;
+    this.headers = options.headers || {};
+    this.tokenProvider = options.tokenProvider || (options.clientId && options.clientSecret
+      ? new ClientCredentialsTokenProvider({
+          clientId: options.clientId,
+          clientSecret: options.clientSecret,
+          tokenUrl: options.tokenUrl || '${model.tokenUrl}',
+          scope: options.scope,
+        }, this.fetchImpl)
+      : undefined);
+  }
+
+${methods.join('\n\n')}
+
+  private async request<T>(method: string, path: string, init: RequestConfig = {}, retried = false): Promise<T> {
+    const url = new URL(this.baseUrl + path);
+    for (const [key, value] of Object.entries(init.query || {})) {
+      if (value === undefined || value === null) continue;
+      url.searchParams.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    }
+
+    const headers: Record<string, string> = { Accept: 'application/json', ...this.headers, ...init.headers };
+    if (init.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    const token = this.tokenProvider ? await this.tokenProvider.getToken() : undefined;
+    if (token) {
+      headers.Authorization = \`Bearer \${token}\`;
+    }
+
+    const response = await this.fetchImpl(url, {
+      method,
+      headers,
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      signal: init.signal,
+    });
+
+    if (response.status === 401 && token && !retried) {
+      this.tokenProvider?.invalidate?.(token);
+      return this.request<T>(method, path, init, true);
+    }
+
+    const text = await response.text();
+    const data = text ? (response.headers.get('content-type')?.includes('json') ? JSON.parse(text) : text) : undefined;
+    if (!response.ok) {
+      throw new TimeBackApiError(response.status, data, \`\${method} \${path} failed with status \${response.status}\`);
+    }
+    return data as T;
+  }
+}
+`;
+
+    const authFile = `${header}
+export interface TokenProvider {
+  getToken(): Promise<string>;
+  invalidate?(token: string): void;
+}
+
+export interface ClientCredentials {
+  clientId: string;
+  clientSecret: string;
+  tokenUrl: string;
+  scope?: string;
+}
+
+/** OAuth2 client-credentials provider that caches the token and shares one in-flight refresh. */
+export class ClientCredentialsTokenProvider implements TokenProvider {
+  private token?: { value: string; expiresAt: number };
+  private pending?: Promise<string>;
+
+  constructor(private readonly credentials: ClientCredentials, private readonly fetchImpl: typeof fetch = fetch) {}
+
+  async getToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+    if (!this.pending) {
+      this.pending = this.requestToken().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  invalidate(token: string): void {
+    if (this.token?.value === token) {
+      this.token = undefined;
+    }
+  }
+
+  private async requestToken(): Promise<string> {
+    const form = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: this.credentials.clientId,
+      client_secret: this.credentials.clientSecret,
+    });
+    if (this.credentials.scope) {
+      form.set('scope', this.credentials.scope);
+    }
+
+    const response = await this.fetchImpl(this.credentials.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: form,
+    });
+    if (!response.ok) {
+      throw new Error(\`Token request failed with status \${response.status}\`);
+    }
+
+    const data = await response.json() as { access_token: string; expires_in?: number };
+    // Refresh a minute early so requests never race the expiry
+    this.token = { value: data.access_token, expiresAt: Date.now() + ((data.expires_in ?? 3600) - 60) * 1000 };
+    return data.access_token;
+  }
+}
+`;
+
+    const paginationFile = `${header}
+/** Yield items page by page until a page comes back shorter than \`pageSize\`. */
+export async function* paginate<T>(fetchPage: (offset: number) => Promise<T[]>, pageSize: number): AsyncGenerator<T> {
+  for (let offset = 0; ; offset += pageSize) {
+    const items = await fetchPage(offset);
+    yield* items;
+    if (items.length < pageSize) {
+      return;
+    }
+  }
+}
+
+/** Collect an async iterable into an array, stopping after \`maxItems\`. */
+export async function collect<T>(items: AsyncIterable<T>, maxItems = Infinity): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    if (result.length >= maxItems) break;
+    result.push(item);
+  }
+  return result;
+}
+`;
+
+    const indexFile = `${header}
+export * from './models.js';
+export * from './operations.js';
+export * from './auth.js';
+export * from './pagination.js';
+export * from './client.js';
+`;
+
+    const readme = `# ${model.packageName}
+
+Typed TypeScript client for the ${model.title} (version ${model.version}), generated from its OpenAPI specification.
+
+\`\`\`ts
+import { ${model.clientName}, collect } from './${model.packageName}/index.js';
+
+const client = new ${model.clientName}({
+  clientId: process.env.CLIENT_ID,
+  clientSecret: process.env.CLIENT_SECRET,
+});
+${this.tsReadmeExample(model)}\`\`\`
+
+- ${model.models.length} models in \`models.ts\`, ${model.operations.length} operations on \`${model.clientName}\`
+- Paginated list operations get an \`iterate...()\` async iterator that walks limit/offset pages
+- Tokens are fetched with the OAuth2 client-credentials grant, cached, and refreshed once on a 401
+`;
+
+    return [
+      { path: 'models.ts', content: modelsFile },
+      { path: 'operations.ts', content: operationsFile },
+      { path: 'auth.ts', content: authFile },
+      { path: 'pagination.ts', content: paginationFile },
+      { path: 'client.ts', content: clientFile },
+      { path: 'index.ts', content: indexFile },
+      { path: 'README.md', content: readme },
+    ];
+  }
+
+  private tsModel(sdkModel: SdkModel, model: SdkSpecModel): string {
+    const doc = this.tsDoc(sdkModel.description || sdkModel.schema.description);
+    const schema = sdkModel.schema;
+    const isPlainObject = (schema.type === 'object' || schema.properties) && !schema.allOf && !schema.oneOf && !schema.anyOf
+      && !schema.nullable && !schema.additionalProperties;
+
+    if (isPlainObject) {
+      const body = this.tsObjectBody(schema, model, '', new Set());
+      return `${doc}export interface ${sdkModel.name} ${body}\n`;
+    }
+    return `${doc}export type ${sdkModel.name} = ${this.tsType(schema, model, '', new Set(), false)};\n`;
+  }
+
+  // Component schemas render as their name, except when `useNames` is off for the component's own declaration
+  private tsType(schema: OpenAPIV3.SchemaObject | undefined, model: SdkSpecModel, indent: string, imports: Set<string>, useNames = true): string {
+    if (!schema) return 'unknown';
+
+    const named = useNames ? model.schemaNames.get(schema) : undefined;
+    if (named) {
+      imports.add(named);
+      return schema.nullable ? `${named} | null` : named;
+    }
+
+    let type: string;
+    if (schema.enum?.length) {
+      type = schema.enum.map(value => typeof value === 'string' ? this.tsString(value) : JSON.stringify(value)).join(' | ');
+    } else if (schema.allOf) {
+      type = schema.allOf.map(part => this.wrapUnion(this.tsType(part as OpenAPIV3.SchemaObject, model, indent, imports))).join(' & ');
+    } else if (schema.oneOf || schema.anyOf) {
+      type = (schema.oneOf || schema.anyOf)!.map(part => this.tsType(part as OpenAPIV3.SchemaObject, model, indent, imports)).join(' | ');
+    } else if (schema.type === 'array') {
+      const items = this.tsType((schema as OpenAPIV3.ArraySchemaObject).items as OpenAPIV3.SchemaObject, model, indent, imports);
+      type = /[|&\s]/.test(items) && !items.startsWith('{') ? `Array<${items}>` : `${items}[]`;
+    } else if (schema.type === 'object' || schema.properties) {
+      type = schema.properties && Object.keys(schema.properties).length > 0
+        ? this.tsObjectBody(schema, model, indent, imports)
+        : this.tsRecord(schema, model, indent, imports);
+    } else {
+      switch (schema.type) {
+        case 'string':
+          type = 'string';
+          break;
+        case 'integer':
+        case 'number':
+          type = 'number';
+          break;
+        case 'boolean':
+          type = 'boolean';
+          break;
+        default:
+          type = 'unknown';
+      }
+    }
+
+    return schema.nullable ? `${this.wrapUnion(type)} | null` : type;
+  }
+
+  private tsObjectBody(schema: OpenAPIV3.SchemaObject, model: SdkSpecModel, indent: string, imports: Set<string>): string {
+    const required = new Set(schema.required || []);
+    const inner = `${indent}  `;
+    const lines = Object.entries(schema.properties || {}).map(([name, property]) => {
+      const propertySchema = property as OpenAPIV3.SchemaObject;
+      const type = this.tsType(propertySchema, model, inner, imports);
+      const readonly = propertySchema.readOnly ? 'readonly ' : '';
+      return `${this.tsDoc(propertySchema.description, inner)}${inner}${readonly}${this.tsKey(name)}${required.has(name) ? '' : '?'}: ${type};`;
+    });
+
+    // Declared properties must fit the index signature, so extra keys stay unknown
+    if (schema.additionalProperties) {
+      lines.push(`${inner}[key: string]: unknown;`);
+    }
+
+    return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, unknown>';
+  }
+
+  private tsRecord(schema: OpenAPIV3.SchemaObject, model: SdkSpecModel, indent: string, imports: Set<string>): string {
+    if (schema.additionalProperties && schema.additionalProperties !== true) {
+      return `Record<string, ${this.tsType(schema.additionalProperties as OpenAPIV3.SchemaObject, model, indent, imports)}>`;
+    }
+    return 'Record<string, unknown>';
+  }
+
+  private tsReadmeExample(model: SdkSpecModel): string {
+    const paginated = model.operations.find(operation => operation.pagination && operation.pathParams.length === 0);
+    if (paginated) {
+      return `\nconst ${paginated.pagination!.itemsKey} = await collect(client.${paginated.pagination!.iteratorName}({}, 100));\n`;
+    }
+    const simple = model.operations.find(operation => operation.method === 'GET' && operation.pathParams.length === 0);
+    return simple ? `\nconst result = await client.${simple.name}();\n` : '';
+  }
+
+  private wrapUnion(type: string): string {
+    return type.includes(' | ') && !type.startsWith('{') ? `(${type})` : type;
+  }
+
+  private tsDoc(text: string | undefined, indent = ''): string {
+    if (!text?.trim()) return '';
+    const lines = text.trim().replace(/\*\//g, '*\\/').split('\n');
+    if (lines.length === 1) {
+      return `${indent}/** ${lines[0]} */\n`;
+    }
+    return `${indent}/**\n${lines.map(line => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+  }
+
+  private tsKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : this.tsString(name);
+  }
+
+  private tsAccessor(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `[${this.tsString(name)}]`;
+  }
+
+  private tsString(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+
+  private safeIdentifier(name: string): string {
+    return RESERVED_IDENTIFIERS.has(name) ? `${name}_` : name;
+  }
+
+  private uniqueName(base: string, used: Set<string>): string {
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    used.add(name);
+    return name;
+  }
+
+  private getSuccessSchema(endpoint: ParsedEndpoint): OpenAPIV3.SchemaObject | undefined {
+    const responses = endpoint.responses || {};
+    const status = Object.keys(responses).filter(code => /^2\d\d$/.test(code)).sort()[0];
+    const response = status ? responses[status] as OpenAPIV3.ResponseObject : undefined;
+    return this.getMediaSchema(response?.content);
+  }
+
+  private getMediaSchema(content?: Record<string, OpenAPIV3.MediaTypeObject>): OpenAPIV3.SchemaObject | undefined {
+    if (!content) return undefined;
+    const mediaType = Object.keys(content).find(type => type.includes('json')) || Object.keys(content)[0];
+    return mediaType ? content[mediaType].schema as OpenAPIV3.SchemaObject | undefined : undefined;
+  }
+}
@@ -0,0 +1,1640 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { SdkFile, SdkOperation, SdkParameter, SdkSpecModel, camelCase, pascalCase, snakeCase, splitWords } from './sdk-generator.js';
+
+export type SdkTypeRef =
+  | { kind: 'named'; name: string }
+  | { kind: 'string' | 'int' | 'long' | 'double' | 'boolean' | 'any' }
+  | { kind: 'array'; items: SdkTypeRef }
+  | { kind: 'map'; values: SdkTypeRef };
+
+export interface SdkProperty {
+  name: string;
+  ref: SdkTypeRef;
+  required: boolean;
+  description?: string;
+}
+
+export type SdkNamedType =
+  | { kind: 'object'; name: string; description?: string; properties: SdkProperty[] }
+  | { kind: 'enum'; name: string; description?: string; values: string[] };
+
+interface FlatSchema {
+  properties: Record<string, OpenAPIV3.SchemaObject>;
+  required: Set<string>;
+  additionalProperties?: boolean | OpenAPIV3.SchemaObject;
+}
+
+const ANY: SdkTypeRef = { kind: 'any' };
+
+function flattenSchema(schema: OpenAPIV3.SchemaObject): FlatSchema {
+  const flat: FlatSchema = { properties: {}, required: new Set() };
+  const visit = (part: OpenAPIV3.SchemaObject, depth: number) => {
+    if (depth > 10) return;
+    for (const inner of part.allOf || []) {
+      visit(inner as OpenAPIV3.SchemaObject, depth + 1);
+    }
+    Object.assign(flat.properties, part.properties || {});
+    (part.required || []).forEach(name => flat.required.add(name));
+    if (flat.additionalProperties === undefined && part.additionalProperties !== undefined) {
+      flat.additionalProperties = part.additionalProperties as boolean | OpenAPIV3.SchemaObject;
+    }
+  };
+  visit(schema, 0);
+  return flat;
+}
+
+function isStringEnum(schema: OpenAPIV3.SchemaObject): boolean {
+  return Boolean(schema.enum?.length) && schema.enum!.every(value => typeof value === 'string');
+}
+
+function isObjectLike(schema: OpenAPIV3.SchemaObject): boolean {
+  return schema.type === 'object' || Boolean(schema.properties) || Boolean(schema.allOf);
+}
+
+function unique(base: string, used: Set<string>): string {
+  let name = base;
+  for (let suffix = 2; used.has(name); suffix++) {
+    name = `${base}${suffix}`;
+  }
+  used.add(name);
+  return name;
+}
+
+function upperSnake(value: string): string {
+  const words = splitWords(value).map(word => word.toUpperCase());
+  const result = words.join('_') || 'EMPTY';
+  return /^[0-9]/.test(result) ? `V_${result}` : result;
+}
+
+/**
+ * Gives every object and string enum in a spec a type name, so languages without structural
+ * types can declare them. Components keep their names; inline schemas are named from where they appear.
+ */
+export class SdkTypeResolver {
+  readonly types: SdkNamedType[] = [];
+  private names = new Map<OpenAPIV3.SchemaObject, string>();
+  private used: Set<string>;
+
+  constructor(model: SdkSpecModel, reservedNames: string[] = []) {
+    this.used = new Set(reservedNames);
+
+    const components = model.models.filter(sdkModel => this.isNominal(sdkModel.schema))
+      .map(sdkModel => {
+        const name = unique(this.used.has(sdkModel.name) ? `${sdkModel.name}Model` : sdkModel.name, this.used);
+        this.names.set(sdkModel.schema, name);
+        return { sdkModel, name };
+      });
+    for (const { sdkModel, name } of components) {
+      this.declare(sdkModel.schema, name, sdkModel.description);
+    }
+  }
+
+  resolve(schema: OpenAPIV3.SchemaObject | undefined, context: string): SdkTypeRef {
+    if (!schema) return ANY;
+
+    const named = this.names.get(schema);
+    if (named) return { kind: 'named', name: named };
+
+    if (schema.allOf?.length === 1 && !schema.properties) {
+      return this.resolve(schema.allOf[0] as OpenAPIV3.SchemaObject, context);
+    }
+    if (this.isNominal(schema)) {
+      const name = unique(context, this.used);
+      this.names.set(schema, name);
+      this.declare(schema, name, schema.description);
+      return { kind: 'named', name };
+    }
+    if (schema.oneOf || schema.anyOf) return ANY;
+    if (schema.type === 'array') {
+      return { kind: 'array', items: this.resolve((schema as OpenAPIV3.ArraySchemaObject).items as OpenAPIV3.SchemaObject, `${context}Item`) };
+    }
+    if (isObjectLike(schema)) {
+      const additional = flattenSchema(schema).additionalProperties;
+      return {
+        kind: 'map',
+        values: additional && additional !== true ? this.resolve(additional, `${context}Value`) : ANY,
+      };
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return { kind: 'string' };
+      case 'integer':
+        return { kind: schema.format === 'int32' ? 'int' : 'long' };
+      case 'number':
+        return { kind: 'double' };
+      case 'boolean':
+        return { kind: 'boolean' };
+      default:
+        return ANY;
+    }
+  }
+
+  /** Resolve query parameters as one object type, for languages that pass them as a single argument. */
+  resolveParameters(parameters: SdkParameter[], context: string): SdkTypeRef {
+    const schema: OpenAPIV3.SchemaObject = {
+      type: 'object',
+      properties: Object.fromEntries(parameters.map(parameter => [
+        parameter.name,
+        parameter.description && !parameter.schema.description ? { ...parameter.schema, description: parameter.description } : parameter.schema,
+      ])),
+      required: parameters.filter(parameter => parameter.required).map(parameter => parameter.name),
+    };
+    return this.resolve(schema, context);
+  }
+
+  get(name: string): SdkNamedType | undefined {
+    return this.types.find(type => type.name === name);
+  }
+
+  isEnum(ref: SdkTypeRef): boolean {
+    return ref.kind === 'named' && this.get(ref.name)?.kind === 'enum';
+  }
+
+  private isNominal(schema: OpenAPIV3.SchemaObject): boolean {
+    if (isStringEnum(schema)) return true;
+    if (schema.oneOf || schema.anyOf || schema.type === 'array' || !isObjectLike(schema)) return false;
+    return Object.keys(flattenSchema(schema).properties).length > 0;
+  }
+
+  private declare(schema: OpenAPIV3.SchemaObject, name: string, description?: string): void {
+    if (isStringEnum(schema)) {
+      this.types.push({ kind: 'enum', name, description: description || schema.description, values: schema.enum as string[] });
+      return;
+    }
+
+    // Push before resolving properties so parents are declared ahead of the inline types they introduce
+    const type: SdkNamedType = { kind: 'object', name, description: description || schema.description, properties: [] };
+    this.types.push(type);
+
+    const flat = flattenSchema(schema);
+    type.properties = Object.entries(flat.properties).map(([propertyName, property]) => ({
+      name: propertyName,
+      ref: this.resolve(property, `${name}${pascalCase(propertyName)}`),
+      required: flat.required.has(propertyName) && !property.nullable,
+      description: property.description,
+    }));
+  }
+}
+
+interface ResolvedOperation {
+  operation: SdkOperation;
+  body?: SdkTypeRef;
+  response?: SdkTypeRef;
+  query?: SdkTypeRef;
+  pathParams: Array<{ parameter: SdkParameter; ref: SdkTypeRef }>;
+  queryParams: Array<{ parameter: SdkParameter; ref: SdkTypeRef }>;
+  items?: SdkTypeRef;
+}
+
+function resolveOperations(model: SdkSpecModel, resolver: SdkTypeResolver, groupQuery: boolean): ResolvedOperation[] {
+  return model.operations.map(operation => {
+    const paramRef = (parameter: SdkParameter) => ({
+      parameter,
+      ref: resolver.resolve(parameter.schema, `${operation.typeName}${pascalCase(parameter.name)}`),
+    });
+    const response = operation.responseSchema ? resolver.resolve(operation.responseSchema, `${operation.typeName}Response`) : undefined;
+    return {
+      operation,
+      pathParams: operation.pathParams.map(paramRef),
+      body: operation.requestBody ? resolver.resolve(operation.requestBody.schema, `${operation.typeName}Request`) : undefined,
+      query: groupQuery && operation.queryParams.length > 0
+        ? resolver.resolveParameters(operation.queryParams, `${operation.typeName}Query`)
+        : undefined,
+      queryParams: groupQuery ? [] : operation.queryParams.map(paramRef),
+      response,
+      items: operation.pagination ? resolver.resolve(operation.pagination.itemSchema, `${operation.typeName}Item`) : undefined,
+    };
+  });
+}
+
+function header(model: SdkSpecModel, comment: string): string {
+  return `${comment} Generated from the ${model.title} OpenAPI specification (version ${model.version}). Do not edit by hand.\n`;
+}
+
+function quoted(value: string): string {
+  return JSON.stringify(value);
+}
+
+function indentLines(text: string, indent: string): string {
+  return text.split('\n').map(line => line ? `${indent}${line}` : line).join('\n');
+}
+
+const PYTHON_RESERVED = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+  'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or',
+  'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+  // Attributes pydantic models already define
+  'model_config', 'model_fields', 'model_dump', 'model_validate', 'json', 'dict', 'copy', 'schema', 'validate', 'construct',
+  // Arguments generated methods use for themselves
+  'self', 'body', 'page_size',
+]);
+
+/** Python package: pydantic v2 models and an httpx client. */
+export class PythonSdkEmitter {
+  emit(model: SdkSpecModel): SdkFile[] {
+    const resolver = new SdkTypeResolver(model, [model.clientName, 'TimeBackApiError', 'ClientCredentialsAuth']);
+    const operations = resolveOperations(model, resolver, false);
+    const fileHeader = header(model, '#');
+    const modulePath = model.packageName;
+
+    const fieldNames = new Map<string, Map<string, string>>();
+    const fieldsOf = (type: Extract<SdkNamedType, { kind: 'object' }>) => {
+      if (!fieldNames.has(type.name)) {
+        const used = new Set<string>();
+        fieldNames.set(type.name, new Map(type.properties.map(property => [property.name, unique(this.identifier(property.name), used)])));
+      }
+      return fieldNames.get(type.name)!;
+    };
+
+    const typeDeclarations = resolver.types.map(type => {
+      const doc = this.docstring(type.description, '    ');
+      if (type.kind === 'enum') {
+        const used = new Set<string>();
+        const members = type.values.map(value => `    ${unique(upperSnake(value), used)} = ${quoted(value)}`);
+        return `class ${type.name}(str, Enum):\n${doc}${doc ? '\n' : ''}${members.join('\n')}\n`;
+      }
+
+      const names = fieldsOf(type);
+      const fields = type.properties.map(property => {
+        const identifier = names.get(property.name)!;
+        const annotation = this.pyType(property.ref);
+        const args: string[] = [];
+        if (!property.required) args.push('default=None');
+        if (identifier !== property.name) args.push(`alias=${quoted(property.name)}`);
+        if (property.description) args.push(`description=${quoted(property.description.trim())}`);
+
+        if (property.required) {
+          return args.length > 0 ? `    ${identifier}: ${annotation} = Field(${args.join(', ')})` : `    ${identifier}: ${annotation}`;
+        }
+        return args.length > 1 ? `    ${identifier}: Optional[${annotation}] = Field(${args.join(', ')})` : `    ${identifier}: Optional[${annotation}] = None`;
+      });
+      return [
+        `class ${type.name}(BaseModel):`,
+        doc,
+        '    model_config = ConfigDict(populate_by_name=True, extra="allow")',
+        '',
+        ...fields,
+        '',
+      ].filter((line, index) => index !== 1 || line).join('\n');
+    });
+
+    const objectTypes = resolver.types.filter(type => type.kind === 'object');
+    const modelsFile = `${fileHeader}from __future__ import annotations
+
+from enum import Enum
+from typing import Any, Optional
+
+from pydantic import BaseModel, ConfigDict, Field
+
+
+${typeDeclarations.join('\n\n')}
+${objectTypes.length > 0 ? `\n${objectTypes.map(type => `${type.name}.model_rebuild()`).join('\n')}\n` : ''}`;
+
+    const methods: string[] = [];
+    for (const resolved of operations) {
+      const { operation } = resolved;
+      const used = new Set<string>();
+      const positional = resolved.pathParams.map(({ parameter, ref }) => ({
+        parameter,
+        identifier: unique(this.identifier(parameter.name), used),
+        annotation: this.pyType(ref),
+      }));
+      const keywords = resolved.queryParams.map(({ parameter, ref }) => ({
+        parameter,
+        identifier: unique(this.identifier(parameter.name), used),
+        annotation: this.pyType(ref),
+      }));
+
+      const signature = ['self', ...positional.map(arg => `${arg.identifier}: ${arg.annotation}`)];
+      if (resolved.body) {
+        const bodyType = `Union[${this.pyType(resolved.body)}, dict[str, Any]]`;
+        signature.push(operation.requestBody!.required ? `body: ${bodyType}` : `body: Optional[${bodyType}] = None`);
+      }
+      if (keywords.length > 0) {
+        signature.push('*', ...keywords.map(arg => arg.parameter.required
+          ? `${arg.identifier}: ${arg.annotation}`
+          : `${arg.identifier}: Optional[${arg.annotation}] = None`));
+      }
+
+      const path = this.pathExpression(operation, positional);
+      const responseType = resolved.response ? this.pyType(resolved.response) : 'None';
+      const callArgs = [quoted(operation.method), path, responseType];
+      if (keywords.length > 0) {
+        callArgs.push(`query={${keywords.map(arg => `${quoted(arg.parameter.name)}: ${arg.identifier}`).join(', ')}}`);
+      }
+      if (resolved.body) callArgs.push('body=body');
+
+      const call = `self._request(${callArgs.join(', ')})`;
+      methods.push([
+        `    def ${snakeCase(operation.name)}(${this.signature(signature)}) -> ${responseType}:`,
+        this.docstring(operation.summary || operation.description, '        ').trimEnd(),
+        `        ${resolved.response ? 'return ' : ''}${call}`,
+      ].filter(Boolean).join('\n'));
+
+      if (operation.pagination && resolved.items && resolved.response?.kind === 'named') {
+        const responseModel = resolver.get(resolved.response.name);
+        if (responseModel?.kind !== 'object') continue;
+        const itemsField = fieldsOf(responseModel).get(operation.pagination.itemsKey)!;
+        const filters = keywords.filter(arg => !['limit', 'offset'].includes(arg.parameter.name));
+        const limit = keywords.find(arg => arg.parameter.name === 'limit')!;
+        const offset = keywords.find(arg => arg.parameter.name === 'offset')!;
+        const iteratorSignature = ['self', ...positional.map(arg => `${arg.identifier}: ${arg.annotation}`), '*',
+          ...filters.map(arg => arg.parameter.required ? `${arg.identifier}: ${arg.annotation}` : `${arg.identifier}: Optional[${arg.annotation}] = None`),
+          'page_size: int = 100'];
+        const fetchArgs = [...positional.map(arg => arg.identifier), ...filters.map(arg => `${arg.identifier}=${arg.identifier}`),
+          `${limit.identifier}=page_size`, `${offset.identifier}=offset`];
+        methods.push([
+          `    def ${snakeCase(operation.pagination.iteratorName)}(${this.signature(iteratorSignature)}) -> Iterator[${this.pyType(resolved.items)}]:`,
+          `        """Iterate over every ${operation.pagination.itemsKey} item, requesting pages of \`page_size\` with limit/offset."""`,
+          '        return paginate(',
+          `            lambda offset: self.${snakeCase(operation.name)}(${fetchArgs.join(', ')}).${itemsField} or [],`,
+          '            page_size,',
+          '        )',
+        ].join('\n'));
+      }
+    }
+
+    const usedModels = resolver.types.map(type => type.name).filter(name =>
+      methods.some(method => new RegExp(`\\b${name}\\b`).test(method))
+    );
+    const clientFile = `${fileHeader}from __future__ import annotations
+
+from enum import Enum
+from typing import Any, Iterator, Optional, Union
+from urllib.parse import quote
+
+import httpx
+from pydantic import TypeAdapter
+from pydantic_core import to_jsonable_python
+
+from .auth import ClientCredentialsAuth
+${usedModels.length > 0 ? `from .models import ${usedModels.join(', ')}\n` : ''}from .pagination import paginate
+
+DEFAULT_BASE_URL = ${quoted(model.baseUrl)}
+DEFAULT_TOKEN_URL = ${quoted(model.tokenUrl)}
+
+
+class TimeBackApiError(Exception):
+    def __init__(self, status_code: int, body: Any, message: str) -> None:
+        super().__init__(message)
+        self.status_code = status_code
+        self.body = body
+
+
+def _segment(value: Any) -> str:
+    return quote(str(value.value if isinstance(value, Enum) else value), safe="")
+
+
+def _query_value(value: Any) -> str:
+    if isinstance(value, Enum):
+        return str(value.value)
+    if isinstance(value, bool):
+        return "true" if value else "false"
+    if isinstance(value, (list, tuple)):
+        return ",".join(_query_value(item) for item in value)
+    return str(value)
+
+
+class ${model.clientName}:
+    """Typed client for the ${model.title} (version ${model.version})."""
+
+    def __init__(
+        self,
+        base_url: str = DEFAULT_BASE_URL,
+        *,
+        client_id: Optional[str] = None,
+        client_secret: Optional[str] = None,
+        token_url: str = DEFAULT_TOKEN_URL,
+        scope: Optional[str] = None,
+        auth: Optional[httpx.Auth] = None,
+        http_client: Optional[httpx.Client] = None,
+        timeout: float = 30.0,
+    ) -> None:
+        if auth is None and client_id and client_secret:
+            auth = ClientCredentialsAuth(client_id, client_secret, token_url, scope)
+        self._client = http_client or httpx.Client(
+            base_url=base_url.rstrip("/"),
+            auth=auth,
+            timeout=timeout,
+            headers={"Accept": "application/json"},
+        )
+
+    def close(self) -> None:
+        self._client.close()
+
+    def __enter__(self) -> ${model.clientName}:
+        return self
+
+    def __exit__(self, *exc_info: Any) -> None:
+        self.close()
+
+${methods.join('\n\n')}
+
+    def _request(
+        self,
+        method: str,
+        path: str,
+        response_type: Any,
+        query: Optional[dict[str, Any]] = None,
+        body: Any = None,
+    ) -> Any:
+        params = {key: _query_value(value) for key, value in (query or {}).items() if value is not None}
+        payload = None if body is None else to_jsonable_python(body, by_alias=True, exclude_none=True)
+        response = self._client.request(method, path, params=params, json=payload)
+        if response.status_code >= 400:
+            try:
+                error_body: Any = response.json()
+            except ValueError:
+                error_body = response.text
+            raise TimeBackApiError(response.status_code, error_body, f"{method} {path} failed with status {response.status_code}")
+        if response_type is None or not response.content:
+            return None
+        return TypeAdapter(response_type).validate_python(response.json())
+`;
+
+    const authFile = `${fileHeader}import threading
+import time
+from typing import Generator, Optional
+
+import httpx
+
+
+class ClientCredentialsAuth(httpx.Auth):
+    """OAuth2 client-credentials auth that caches the token and retries once after a 401."""
+
+    def __init__(self, client_id: str, client_secret: str, token_url: str, scope: Optional[str] = None) -> None:
+        self._client_id = client_id
+        self._client_secret = client_secret
+        self._token_url = token_url
+        self._scope = scope
+        self._lock = threading.Lock()
+        self._token: Optional[str] = None
+        self._expires_at = 0.0
+
+    def auth_flow(self, request: httpx.Request) -> Generator[httpx.Request, httpx.Response, None]:
+        token = self._get_token()
+        request.headers["Authorization"] = f"Bearer {token}"
+        response = yield request
+        if response.status_code == 401:
+            self._invalidate(token)
+            request.headers["Authorization"] = f"Bearer {self._get_token()}"
+            yield request
+
+    def _get_token(self) -> str:
+        with self._lock:
+            if self._token is None or time.time() >= self._expires_at:
+                data = {
+                    "grant_type": "client_credentials",
+                    "client_id": self._client_id,
+                    "client_secret": self._client_secret,
+                }
+                if self._scope:
+                    data["scope"] = self._scope
+                response = httpx.post(self._token_url, data=data)
+                response.raise_for_status()
+                payload = response.json()
+                self._token = str(payload["access_token"])
+                # Refresh a minute early so requests never race the expiry
+                self._expires_at = time.time() + float(payload.get("expires_in", 3600)) - 60
+            return self._token
+
+    def _invalidate(self, token: str) -> None:
+        with self._lock:
+            if self._token == token:
+                self._token = None
+`;
+
+    const paginationFile = `${fileHeader}from typing import Callable, Iterator, List, TypeVar
+
+T = TypeVar("T")
+
+
+def paginate(fetch_page: Callable[[int], List[T]], page_size: int) -> Iterator[T]:
+    """Yield items page by page until a page comes back shorter than \`page_size\`."""
+    offset = 0
+    while True:
+        items = fetch_page(offset)
+        yield from items
+        if len(items) < page_size:
+            return
+        offset += page_size
+`;
+
+    const exported = [model.clientName, 'TimeBackApiError', 'ClientCredentialsAuth', 'paginate', ...resolver.types.map(type => type.name)];
+    const initFile = `${fileHeader}from .auth import ClientCredentialsAuth
+from .client import ${model.clientName}, TimeBackApiError
+${resolver.types.length > 0 ? `from .models import ${resolver.types.map(type => type.name).join(', ')}\n` : ''}from .pagination import paginate
+
+__all__ = [
+${exported.map(name => `    ${quoted(name)},`).join('\n')}
+]
+`;
+
+    const pyproject = `[project]
+name = ${quoted(modulePath.replace(/_/g, '-'))}
+version = ${quoted(model.version)}
+description = ${quoted(`Typed Python client for the ${model.title}`)}
+requires-python = ">=3.9"
+dependencies = ["httpx>=0.27", "pydantic>=2.5"]
+`;
+
+    const paginated = operations.find(resolved => resolved.operation.pagination && resolved.pathParams.length === 0);
+    const readme = `# ${modulePath}
+
+Typed Python client for the ${model.title} (version ${model.version}), generated from its OpenAPI specification.
+
+\`\`\`python
+import os
+
+from ${modulePath} import ${model.clientName}
+
+with ${model.clientName}(client_id=os.environ["CLIENT_ID"], client_secret=os.environ["CLIENT_SECRET"]) as client:
+${paginated ? `    for item in client.${snakeCase(paginated.operation.pagination!.iteratorName)}(page_size=100):\n        print(item)\n` : '    pass\n'}\`\`\`
+
+- ${resolver.types.length} pydantic models and enums in \`models.py\`, ${model.operations.length} operations on \`${model.clientName}\`
+- Paginated list operations get an \`iterate_...()\` generator that walks limit/offset pages
+- Tokens are fetched with the OAuth2 client-credentials grant, cached, and refreshed once on a 401
+`;
+
+    return [
+      { path: `${modulePath}/__init__.py`, content: initFile },
+      { path: `${modulePath}/models.py`, content: modelsFile },
+      { path: `${modulePath}/auth.py`, content: authFile },
+      { path: `${modulePath}/pagination.py`, content: paginationFile },
+      { path: `${modulePath}/client.py`, content: clientFile },
+      { path: 'pyproject.toml', content: pyproject },
+      { path: 'README.md', content: readme },
+    ];
+  }
+
+  private pyType(ref: SdkTypeRef): string {
+    switch (ref.kind) {
+      case 'named':
+        return ref.name;
+      case 'string':
+        return 'str';
+      case 'int':
+      case 'long':
+        return 'int';
+      case 'double':
+        return 'float';
+      case 'boolean':
+        return 'bool';
+      case 'array':
+        return `list[${this.pyType(ref.items)}]`;
+      case 'map':
+        return `dict[str, ${this.pyType(ref.values)}]`;
+      default:
+        return 'Any';
+    }
+  }
+
+  private identifier(name: string): string {
+    const snake = snakeCase(name);
+    const identifier = snake.startsWith('_') ? `field${snake}` : snake;
+    return PYTHON_RESERVED.has(identifier) ? `${identifier}_` : identifier;
+  }
+
+  private signature(parts: string[]): string {
+    return parts.length <= 2 && parts.join(', ').length < 60
+      ? parts.join(', ')
+      : `\n${parts.map(part => `        ${part},`).join('\n')}\n    `;
+  }
+
+  private pathExpression(operation: SdkOperation, args: Array<{ parameter: SdkParameter; identifier: string }>): string {
+    if (args.length === 0) return quoted(operation.path);
+    const path = operation.path.replace(/[{}]/g, match => match + match).replace(/\{\{([^}]+)\}\}/g, (_match, name) =>
+      `{_segment(${args.find(arg => arg.parameter.name === name)!.identifier})}`
+    );
+    return `f${quoted(path)}`;
+  }
+
+  private docstring(text: string | undefined, indent: string): string {
+    if (!text?.trim()) return '';
+    const lines = text.trim().replace(/\\/g, '\\\\').replace(/"""/g, '\\"\\"\\"').split('\n');
+    if (lines.length === 1) {
+      return `${indent}"""${lines[0]}"""\n`;
+    }
+    return `${indent}"""${lines[0]}\n${lines.slice(1).map(line => `${indent}${line}`.trimEnd()).join('\n')}\n${indent}"""\n`;
+  }
+}
+
+const JAVA_RESERVED = new Set([
+  'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default',
+  'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'goto', 'if', 'implements',
+  'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'null', 'package', 'private', 'protected',
+  'public', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws',
+  'transient', 'true', 'try', 'var', 'void', 'volatile', 'while', 'record', 'yield',
+  // Record components become accessors, so they cannot shadow Object methods
+  'hashCode', 'toString', 'getClass', 'clone', 'finalize', 'notify', 'notifyAll', 'wait',
+  // Arguments generated methods use for themselves
+  'body', 'query', 'pageSize',
+]);
+
+// Generated support classes, plus java.lang and java.util types the sources refer to unqualified
+const JAVA_SUPPORT_TYPES = [
+  'TokenProvider', 'ClientCredentialsTokenProvider', 'TimeBackApiException', 'Pages',
+  'Boolean', 'Class', 'Double', 'Integer', 'Iterable', 'List', 'Long', 'Map', 'Object', 'Override', 'Record', 'String', 'System', 'Thread',
+];
+
+/** Java sources: records with Jackson annotations and a java.net.http client. */
+export class JavaSdkEmitter {
+  emit(model: SdkSpecModel): SdkFile[] {
+    const resolver = new SdkTypeResolver(model, [model.clientName, ...JAVA_SUPPORT_TYPES]);
+    const operations = resolveOperations(model, resolver, true);
+    const fileHeader = header(model, '//');
+    const packageName = model.packageName;
+    const modelPackage = `${packageName}.model`;
+    const sourceRoot = `src/main/java/${packageName.replace(/\./g, '/')}`;
+
+    const componentNames = new Map<string, Map<string, string>>();
+    const componentsOf = (type: Extract<SdkNamedType, { kind: 'object' }>) => {
+      if (!componentNames.has(type.name)) {
+        const used = new Set<string>();
+        componentNames.set(type.name, new Map(type.properties.map(property => [property.name, unique(this.identifier(property.name), used)])));
+      }
+      return componentNames.get(type.name)!;
+    };
+    const queryTypes = new Set(operations.flatMap(resolved => resolved.query?.kind === 'named' ? [resolved.query.name] : []));
+
+    const files: SdkFile[] = resolver.types.map(type => {
+      let body: string;
+      if (type.kind === 'enum') {
+        const used = new Set<string>();
+        const constants = type.values.map(value => `    @JsonProperty(${quoted(value)})\n    ${unique(upperSnake(value), used)}(${quoted(value)})`);
+        body = `${this.javadoc(type.description, '')}public enum ${type.name} {
+${constants.join(',\n')};
+
+    private final String value;
+
+    ${type.name}(String value) {
+        this.value = value;
+    }
+
+    @Override
+    public String toString() {
+        return value;
+    }
+}
+`;
+        return this.javaFile(`${sourceRoot}/model/${type.name}.java`, fileHeader, modelPackage, body);
+      }
+
+      const names = componentsOf(type);
+      const components = type.properties.map(property =>
+        `    @JsonProperty(${quoted(property.name)}) ${this.javaType(property.ref)} ${names.get(property.name)}`
+      );
+      const params = type.properties
+        .filter(property => property.description?.trim())
+        .map(property => `@param ${names.get(property.name)} ${property.description!.trim().split('\n')[0]}`);
+      const description = type.description?.trim();
+      const doc = [...(description ? [description] : []), ...(description && params.length > 0 ? [''] : []), ...params].join('\n');
+
+      const members = queryTypes.has(type.name) ? this.queryMembers(type, names) : '';
+      body = `${this.javadoc(doc, '')}@JsonIgnoreProperties(ignoreUnknown = true)
+@JsonInclude(JsonInclude.Include.NON_NULL)
+public record ${type.name}(
+${components.join(',\n')}
+) {${members ? `\n${members}` : ''}
+}
+`;
+      return this.javaFile(`${sourceRoot}/model/${type.name}.java`, fileHeader, modelPackage, body);
+    });
+
+    const methods: string[] = [];
+    for (const resolved of operations) {
+      const { operation } = resolved;
+      const used = new Set<string>();
+      const pathArgs = resolved.pathParams.map(({ parameter, ref }) => ({
+        parameter,
+        identifier: unique(this.identifier(parameter.name), used),
+        type: this.javaType(ref),
+      }));
+      const args = pathArgs.map(arg => `${arg.type} ${arg.identifier}`);
+      if (resolved.body) args.push(`${this.javaType(resolved.body)} body`);
+      if (resolved.query) args.push(`${this.javaType(resolved.query)} query`);
+
+      const responseType = resolved.response ? this.javaType(resolved.response) : 'void';
+      const path = this.pathExpression(operation, pathArgs);
+      const call = `send(${quoted(operation.method)}, ${path}, ${resolved.query ? 'query == null ? Map.of() : query.toQueryParameters()' : 'Map.of()'}, ${resolved.body ? 'body' : 'null'}, ${resolved.response ? `new TypeReference<${responseType}>() {}` : 'null'})`;
+      methods.push([
+        this.javadoc(operation.summary || operation.description, '    ').trimEnd(),
+        `    public ${responseType} ${operation.name}(${args.join(', ')}) throws IOException, InterruptedException {`,
+        `        ${resolved.response ? 'return ' : ''}${call};`,
+        '    }',
+      ].filter(Boolean).join('\n'));
+
+      if (operation.pagination && resolved.items && resolved.query?.kind === 'named' && resolved.response?.kind === 'named') {
+        const responseModel = resolver.get(resolved.response.name);
+        if (responseModel?.kind !== 'object') continue;
+        const accessor = componentsOf(responseModel).get(operation.pagination.itemsKey)!;
+        const queryModel = resolver.get(resolved.query.name) as Extract<SdkNamedType, { kind: 'object' }>;
+        const itemType = this.javaType(resolved.items);
+        const emptyQuery = `new ${resolved.query.name}(${queryModel.properties.map(() => 'null').join(', ')})`;
+        methods.push([
+          `    /** Iterate over every ${operation.pagination.itemsKey} item, requesting pages of {@code pageSize} with limit/offset. */`,
+          `    public Iterable<${itemType}> ${operation.pagination.iteratorName}(${[...pathArgs.map(arg => `${arg.type} ${arg.identifier}`), `${resolved.query.name} query`, 'int pageSize'].join(', ')}) {`,
+          `        ${resolved.query.name} base = query != null ? query : ${emptyQuery};`,
+          '        return Pages.iterate(offset -> {',
+          `            ${this.javaType(resolved.response)} page = ${operation.name}(${[...pathArgs.map(arg => arg.identifier), ...(resolved.body ? ['null'] : []), 'base.withPage(pageSize, offset)'].join(', ')});`,
+          `            return page.${accessor}() != null ? page.${accessor}() : List.of();`,
+          '        }, pageSize);',
+          '    }',
+        ].join('\n'));
+      }
+    }
+
+    const clientFile = `${fileHeader}package ${packageName};
+
+import com.fasterxml.jackson.annotation.JsonInclude;
+import com.fasterxml.jackson.core.type.TypeReference;
+import com.fasterxml.jackson.databind.DeserializationFeature;
+import com.fasterxml.jackson.databind.ObjectMapper;
+${resolver.types.length > 0 ? `import ${modelPackage}.*;\n` : ''}import java.io.IOException;
+import java.net.URI;
+import java.net.URLEncoder;
+import java.net.http.HttpClient;
+import java.net.http.HttpRequest;
+import java.net.http.HttpResponse;
+import java.nio.charset.StandardCharsets;
+import java.time.Duration;
+import java.util.List;
+import java.util.Map;
+import java.util.stream.Collectors;
+
+/** Typed client for the ${model.title} (version ${model.version}). */
+public class ${model.clientName} {
+    public static final String DEFAULT_BASE_URL = ${quoted(model.baseUrl)};
+    public static final String DEFAULT_TOKEN_URL = ${quoted(model.tokenUrl)};
+
+    private final String baseUrl;
+    private final TokenProvider tokenProvider;
+    private final HttpClient httpClient;
+    private final ObjectMapper mapper = new ObjectMapper()
+        .configure(DeserializationFeature.FAIL_ON_UNKNOWN_PROPERTIES, false)
+        .setSerializationInclusion(JsonInclude.Include.NON_NULL);
+
+    public ${model.clientName}(String baseUrl, TokenProvider tokenProvider, HttpClient httpClient) {
+        this.baseUrl = baseUrl.replaceAll("/+$", "");
+        this.tokenProvider = tokenProvider;
+        this.httpClient = httpClient;
+    }
+
+    public ${model.clientName}(String baseUrl, TokenProvider tokenProvider) {
+        this(baseUrl, tokenProvider, HttpClient.newBuilder().connectTimeout(Duration.ofSeconds(30)).build());
+    }
+
+    public static ${model.clientName} withClientCredentials(String clientId, String clientSecret) {
+        HttpClient httpClient = HttpClient.newBuilder().connectTimeout(Duration.ofSeconds(30)).build();
+        TokenProvider tokens = new ClientCredentialsTokenProvider(httpClient, DEFAULT_TOKEN_URL, clientId, clientSecret, null);
+        return new ${model.clientName}(DEFAULT_BASE_URL, tokens, httpClient);
+    }
+
+${methods.join('\n\n')}
+
+    private <T> T send(String method, String path, Map<String, String> query, Object body, TypeReference<T> responseType)
+            throws IOException, InterruptedException {
+        return send(method, path, query, body, responseType, false);
+    }
+
+    private <T> T send(String method, String path, Map<String, String> query, Object body, TypeReference<T> responseType, boolean retried)
+            throws IOException, InterruptedException {
+        StringBuilder url = new StringBuilder(baseUrl).append(path);
+        if (!query.isEmpty()) {
+            url.append('?').append(query.entrySet().stream()
+                .map(entry -> encode(entry.getKey()) + "=" + encode(entry.getValue()))
+                .collect(Collectors.joining("&")));
+        }
+
+        HttpRequest.Builder request = HttpRequest.newBuilder(URI.create(url.toString())).header("Accept", "application/json");
+        String token = tokenProvider != null ? tokenProvider.getToken() : null;
+        if (token != null) {
+            request.header("Authorization", "Bearer " + token);
+        }
+        if (body != null) {
+            request.header("Content-Type", "application/json")
+                .method(method, HttpRequest.BodyPublishers.ofString(mapper.writeValueAsString(body)));
+        } else {
+            request.method(method, HttpRequest.BodyPublishers.noBody());
+        }
+
+        HttpResponse<String> response = httpClient.send(request.build(), HttpResponse.BodyHandlers.ofString());
+        if (response.statusCode() == 401 && token != null && !retried) {
+            tokenProvider.invalidate(token);
+            return send(method, path, query, body, responseType, true);
+        }
+        if (response.statusCode() >= 400) {
+            throw new TimeBackApiException(response.statusCode(), response.body(),
+                method + " " + path + " failed with status " + response.statusCode());
+        }
+        if (responseType == null || response.body() == null || response.body().isEmpty()) {
+            return null;
+        }
+        return mapper.readValue(response.body(), responseType);
+    }
+
+    private static String encode(Object value) {
+        return URLEncoder.encode(String.valueOf(value), StandardCharsets.UTF_8).replace("+", "%20");
+    }
+}
+`;
+
+    const tokenProviderFile = `${fileHeader}package ${packageName};
+
+import java.io.IOException;
+
+public interface TokenProvider {
+    String getToken() throws IOException, InterruptedException;
+
+    default void invalidate(String token) {
+    }
+}
+`;
+
+    const credentialsFile = `${fileHeader}package ${packageName};
+
+import com.fasterxml.jackson.databind.JsonNode;
+import com.fasterxml.jackson.databind.ObjectMapper;
+import java.io.IOException;
+import java.net.URI;
+import java.net.URLEncoder;
+import java.net.http.HttpClient;
+import java.net.http.HttpRequest;
+import java.net.http.HttpResponse;
+import java.nio.charset.StandardCharsets;
+import java.time.Instant;
+import java.util.LinkedHashMap;
+import java.util.Map;
+import java.util.stream.Collectors;
+
+/** OAuth2 client-credentials provider that caches the token and shares one in-flight refresh. */
+public class ClientCredentialsTokenProvider implements TokenProvider {
+    private final HttpClient httpClient;
+    private final String tokenUrl;
+    private final String clientId;
+    private final String clientSecret;
+    private final String scope;
+    private final ObjectMapper mapper = new ObjectMapper();
+    private String token;
+    private Instant expiresAt = Instant.EPOCH;
+
+    public ClientCredentialsTokenProvider(HttpClient httpClient, String tokenUrl, String clientId, String clientSecret, String scope) {
+        this.httpClient = httpClient;
+        this.tokenUrl = tokenUrl;
+        this.clientId = clientId;
+        this.clientSecret = clientSecret;
+        this.scope = scope;
+    }
+
+    @Override
+    public synchronized String getToken() throws IOException, InterruptedException {
+        if (token != null && Instant.now().isBefore(expiresAt)) {
+            return token;
+        }
+
+        Map<String, String> form = new LinkedHashMap<>();
+        form.put("grant_type", "client_credentials");
+        form.put("client_id", clientId);
+        form.put("client_secret", clientSecret);
+        if (scope != null) {
+            form.put("scope", scope);
+        }
+        String encoded = form.entrySet().stream()
+            .map(entry -> URLEncoder.encode(entry.getKey(), StandardCharsets.UTF_8) + "=" + URLEncoder.encode(entry.getValue(), StandardCharsets.UTF_8))
+            .collect(Collectors.joining("&"));
+
+        HttpRequest request = HttpRequest.newBuilder(URI.create(tokenUrl))
+            .header("Content-Type", "application/x-www-form-urlencoded")
+            .POST(HttpRequest.BodyPublishers.ofString(encoded))
+            .build();
+        HttpResponse<String> response = httpClient.send(request, HttpResponse.BodyHandlers.ofString());
+        if (response.statusCode() >= 400) {
+            throw new TimeBackApiException(response.statusCode(), response.body(), "Token request failed with status " + response.statusCode());
+        }
+
+        JsonNode payload = mapper.readTree(response.body());
+        token = payload.get("access_token").asText();
+        // Refresh a minute early so requests never race the expiry
+        expiresAt = Instant.now().plusSeconds(payload.path("expires_in").asLong(3600) - 60);
+        return token;
+    }
+
+    @Override
+    public synchronized void invalidate(String staleToken) {
+        if (staleToken.equals(token)) {
+            token = null;
+        }
+    }
+}
+`;
+
+    const exceptionFile = `${fileHeader}package ${packageName};
+
+import java.io.IOException;
+
+public class TimeBackApiException extends IOException {
+    private final int statusCode;
+    private final String body;
+
+    public TimeBackApiException(int statusCode, String body, String message) {
+        super(message);
+        this.statusCode = statusCode;
+        this.body = body;
+    }
+
+    public int getStatusCode() {
+        return statusCode;
+    }
+
+    public String getBody() {
+        return body;
+    }
+}
+`;
+
+    const pagesFile = `${fileHeader}package ${packageName};
+
+import java.io.IOException;
+import java.io.UncheckedIOException;
+import java.util.Iterator;
+import java.util.List;
+import java.util.NoSuchElementException;
+
+/** Walks limit/offset pages lazily until a page comes back shorter than the page size. */
+public final class Pages {
+    @FunctionalInterface
+    public interface PageFetcher<T> {
+        List<T> fetch(long offset) throws IOException, InterruptedException;
+    }
+
+    private Pages() {
+    }
+
+    public static <T> Iterable<T> iterate(PageFetcher<T> fetcher, int pageSize) {
+        return () -> new Iterator<T>() {
+            private List<T> page = List.of();
+            private int index;
+            private long offset;
+            private boolean last;
+
+            @Override
+            public boolean hasNext() {
+                while (index >= page.size()) {
+                    if (last) {
+                        return false;
+                    }
+                    try {
+                        page = fetcher.fetch(offset);
+                    } catch (IOException e) {
+                        throw new UncheckedIOException(e);
+                    } catch (InterruptedException e) {
+                        Thread.currentThread().interrupt();
+                        throw new IllegalStateException(e);
+                    }
+                    index = 0;
+                    offset += pageSize;
+                    last = page.size() < pageSize;
+                }
+                return true;
+            }
+
+            @Override
+            public T next() {
+                if (!hasNext()) {
+                    throw new NoSuchElementException();
+                }
+                return page.get(index++);
+            }
+        };
+    }
+}
+`;
+
+    const artifactId = `timeback-${model.api}-client`;
+    const pom = `<?xml version="1.0" encoding="UTF-8"?>
+<project xmlns="http://maven.apache.org/POM/4.0.0"
+         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+         xsi:schemaLocation="http://maven.apache.org/POM/4.0.0 http://maven.apache.org/xsd/maven-4.0.0.xsd">
+  <modelVersion>4.0.0</modelVersion>
+  <groupId>${packageName.split('.').slice(0, -1).join('.') || packageName}</groupId>
+  <artifactId>${artifactId}</artifactId>
+  <version>${model.version}</version>
+
+  <properties>
+    <maven.compiler.release>17</maven.compiler.release>
+    <project.build.sourceEncoding>UTF-8</project.build.sourceEncoding>
+  </properties>
+
+  <dependencies>
+    <dependency>
+      <groupId>com.fasterxml.jackson.core</groupId>
+      <artifactId>jackson-databind</artifactId>
+      <version>2.17.2</version>
+    </dependency>
+  </dependencies>
+</project>
+`;
+
+    const paginated = model.operations.find(operation => operation.pagination && operation.pathParams.length === 0);
+    const readme = `# ${artifactId}
+
+Typed Java client for the ${model.title} (version ${model.version}), generated from its OpenAPI specification. Requires Java 17 and Jackson.
+
+\`\`\`java
+import ${packageName}.${model.clientName};
+
+${model.clientName} client = ${model.clientName}.withClientCredentials(System.getenv("CLIENT_ID"), System.getenv("CLIENT_SECRET"));
+${paginated ? `for (var item : client.${paginated.pagination!.iteratorName}(null, 100)) {\n    System.out.println(item);\n}\n` : ''}\`\`\`
+
+- ${resolver.types.length} records and enums in \`${modelPackage}\`, ${model.operations.length} operations on \`${model.clientName}\`
+- Paginated list operations get an \`iterate...()\` method returning a lazy \`Iterable\` over limit/offset pages
+- Tokens are fetched with the OAuth2 client-credentials grant, cached, and refreshed once on a 401
+`;
+
+    return [
+      ...files,
+      { path: `${sourceRoot}/TokenProvider.java`, content: tokenProviderFile },
+      { path: `${sourceRoot}/ClientCredentialsTokenProvider.java`, content: credentialsFile },
+      { path: `${sourceRoot}/TimeBackApiException.java`, content: exceptionFile },
+      { path: `${sourceRoot}/Pages.java`, content: pagesFile },
+      { path: `${sourceRoot}/${model.clientName}.java`, content: clientFile },
+      { path: 'pom.xml', content: pom },
+      { path: 'README.md', content: readme },
+    ];
+  }
+
+  private queryMembers(type: Extract<SdkNamedType, { kind: 'object' }>, names: Map<string, string>): string {
+    const puts = type.properties.map(property => {
+      const identifier = names.get(property.name)!;
+      const value = property.ref.kind === 'array'
+        ? `${identifier}.stream().map(String::valueOf).collect(Collectors.joining(","))`
+        : `String.valueOf(${identifier})`;
+      return `        if (${identifier} != null) {\n            params.put(${quoted(property.name)}, ${value});\n        }`;
+    });
+
+    let withPage = '';
+    const parameterNames = type.properties.map(property => property.name);
+    if (parameterNames.includes('limit') && parameterNames.includes('offset')) {
+      const args = type.properties.map(property => {
+        if (property.name !== 'limit' && property.name !== 'offset') return names.get(property.name)!;
+        switch (property.ref.kind) {
+          case 'int':
+            return `(int) ${property.name}`;
+          case 'long':
+            return property.name;
+          case 'double':
+            return `(double) ${property.name}`;
+          default:
+            return `String.valueOf(${property.name})`;
+        }
+      });
+      withPage = `
+
+    public ${type.name} withPage(long limit, long offset) {
+        return new ${type.name}(${args.join(', ')});
+    }`;
+    }
+
+    return `    public Map<String, String> toQueryParameters() {
+        Map<String, String> params = new LinkedHashMap<>();
+${puts.join('\n')}
+        return params;
+    }${withPage}`;
+  }
+
+  private javaFile(filePath: string, fileHeader: string, packageName: string, body: string): SdkFile {
+    const imports = [
+      [/@JsonIgnoreProperties/, 'com.fasterxml.jackson.annotation.JsonIgnoreProperties'],
+      [/@JsonInclude/, 'com.fasterxml.jackson.annotation.JsonInclude'],
+      [/@JsonProperty/, 'com.fasterxml.jackson.annotation.JsonProperty'],
+      [/\bLinkedHashMap\b/, 'java.util.LinkedHashMap'],
+      [/\bList</, 'java.util.List'],
+      [/\bMap</, 'java.util.Map'],
+      [/Collectors\./, 'java.util.stream.Collectors'],
+    ].filter(([pattern]) => (pattern as RegExp).test(body)).map(([, name]) => `import ${name};`);
+    return {
+      path: filePath,
+      content: `${fileHeader}package ${packageName};\n\n${imports.length > 0 ? `${imports.join('\n')}\n\n` : ''}${body}`,
+    };
+  }
+
+  private javaType(ref: SdkTypeRef): string {
+    switch (ref.kind) {
+      case 'named':
+        return ref.name;
+      case 'string':
+        return 'String';
+      case 'int':
+        return 'Integer';
+      case 'long':
+        return 'Long';
+      case 'double':
+        return 'Double';
+      case 'boolean':
+        return 'Boolean';
+      case 'array':
+        return `List<${this.javaType(ref.items)}>`;
+      case 'map':
+        return `Map<String, ${this.javaType(ref.values)}>`;
+      default:
+        return 'Object';
+    }
+  }
+
+  private identifier(name: string): string {
+    const identifier = camelCase(name);
+    return JAVA_RESERVED.has(identifier) ? `${identifier}_` : identifier;
+  }
+
+  private pathExpression(operation: SdkOperation, args: Array<{ parameter: SdkParameter; identifier: string }>): string {
+    const parts = operation.path.split(/(\{[^}]+\})/).filter(Boolean).map(part => {
+      const match = part.match(/^\{([^}]+)\}$/);
+      return match ? `encode(${args.find(arg => arg.parameter.name === match[1])!.identifier})` : quoted(part);
+    });
+    return parts.join(' + ');
+  }
+
+  private javadoc(text: string | undefined, indent: string): string {
+    if (!text?.trim()) return '';
+    const lines = text.trim().replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\*\//g, '*&#47;').split('\n');
+    if (lines.length === 1) {
+      return `${indent}/** ${lines[0]} */\n`;
+    }
+    return `${indent}/**\n${lines.map(line => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+  }
+}
+
+const CSHARP_KEYWORDS = new Set([
+  'abstract', 'as', 'base', 'bool', 'break', 'byte', 'case', 'catch', 'char', 'checked', 'class', 'const', 'continue',
+  'decimal', 'default', 'delegate', 'do', 'double', 'else', 'enum', 'event', 'explicit', 'extern', 'false', 'finally',
+  'fixed', 'float', 'for', 'foreach', 'goto', 'if', 'implicit', 'in', 'int', 'interface', 'internal', 'is', 'lock',
+  'long', 'namespace', 'new', 'null', 'object', 'operator', 'out', 'override', 'params', 'private', 'protected',
+  'public', 'readonly', 'ref', 'return', 'sbyte', 'sealed', 'short', 'sizeof', 'stackalloc', 'static', 'string',
+  'struct', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'uint', 'ulong', 'unchecked', 'unsafe', 'ushort',
+  'using', 'virtual', 'void', 'volatile', 'while',
+]);
+
+const CSHARP_SUPPORT_TYPES = ['ITokenProvider', 'ClientCredentialsTokenProvider', 'TimeBackApiException'];
+
+/** C# sources: records serialized with System.Text.Json and an HttpClient-based client. */
+export class CSharpSdkEmitter {
+  emit(model: SdkSpecModel): SdkFile[] {
+    const resolver = new SdkTypeResolver(model, [model.clientName, ...CSHARP_SUPPORT_TYPES]);
+    const operations = resolveOperations(model, resolver, true);
+    const fileHeader = header(model, '//');
+    const namespace = model.packageName;
+    const queryTypes = new Set(operations.flatMap(resolved => resolved.query?.kind === 'named' ? [resolved.query.name] : []));
+
+    const memberNames = new Map<string, Map<string, string>>();
+    const membersOf = (type: Extract<SdkNamedType, { kind: 'object' }>) => {
+      if (!memberNames.has(type.name)) {
+        const used = new Set<string>([type.name]);
+        memberNames.set(type.name, new Map(type.properties.map(property => [property.name, unique(pascalCase(property.name), used)])));
+      }
+      return memberNames.get(type.name)!;
+    };
+
+    const declarations = resolver.types.map(type => {
+      if (type.kind === 'enum') {
+        // String constants keep unknown values round-tripping without a custom converter
+        const used = new Set<string>([type.name]);
+        const constants = type.values.map(value => `    public const string ${unique(pascalCase(value), used)} = ${quoted(value)};`);
+        return `${this.summary(type.description || `Known values for ${type.name}.`, '')}public static class ${type.name}\n{\n${constants.join('\n')}\n}\n`;
+      }
+
+      const names = membersOf(type);
+      const properties = type.properties.map(property => {
+        const enumNote = resolver.isEnum(property.ref) ? ` See <see cref="${(property.ref as { name: string }).name}"/>.` : '';
+        const doc = this.summary(`${this.xml(property.description?.trim() || '')}${enumNote}`.trim(), '    ', false);
+        const csType = this.csType(property.ref, resolver);
+        return `${doc}    [JsonPropertyName(${quoted(property.name)})]\n    public ${property.required ? `required ${csType}` : `${csType}?`} ${names.get(property.name)} { get; init; }`;
+      });
+      const members = queryTypes.has(type.name) ? `\n\n${this.queryMembers(type, names, resolver)}` : '';
+      return `${this.summary(type.description, '')}public sealed record ${type.name}\n{\n${properties.join('\n\n')}${members}\n}\n`;
+    });
+
+    const modelsFile = `${fileHeader}#nullable enable
+using System.Collections.Generic;
+using System.Globalization;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+
+namespace ${namespace}.Models;
+
+${declarations.join('\n')}`;
+
+    const methods: string[] = [];
+    for (const resolved of operations) {
+      const { operation } = resolved;
+      const methodName = `${pascalCase(operation.name)}Async`;
+      const used = new Set<string>(['body', 'query', 'cancellationToken', 'pageSize']);
+      const pathArgs = resolved.pathParams.map(({ parameter, ref }) => ({
+        parameter,
+        identifier: unique(this.identifier(parameter.name), used),
+        type: this.csType(ref, resolver),
+      }));
+      const queryModel = resolved.query?.kind === 'named' ? resolver.get(resolved.query.name) as Extract<SdkNamedType, { kind: 'object' }> : undefined;
+      const queryRequired = Boolean(queryModel?.properties.some(property => property.required));
+
+      const args = pathArgs.map(arg => `${arg.type} ${arg.identifier}`);
+      if (resolved.body) {
+        const bodyType = this.csType(resolved.body, resolver);
+        args.push(operation.requestBody!.required ? `${bodyType} body` : `${bodyType}? body = null`);
+      }
+      if (queryModel) {
+        args.push(queryRequired ? `${queryModel.name} query` : `${queryModel.name}? query = null`);
+      }
+      args.push('CancellationToken cancellationToken = default');
+
+      const path = this.pathExpression(operation, pathArgs);
+      const sendArgs = [`new HttpMethod(${quoted(operation.method)})`, path, queryModel ? 'query?.ToQueryParameters()' : 'null', resolved.body ? 'body' : 'null', 'cancellationToken'];
+      const responseType = resolved.response ? this.csType(resolved.response, resolver) : undefined;
+      methods.push([
+        this.summary(operation.summary || operation.description, '    ').trimEnd(),
+        responseType
+          ? `    public Task<${responseType}> ${methodName}(${args.join(', ')}) =>\n        SendAsync<${responseType}>(${sendArgs.join(', ')});`
+          : `    public Task ${methodName}(${args.join(', ')}) =>\n        SendAsync(${sendArgs.join(', ')});`,
+      ].filter(Boolean).join('\n'));
+
+      if (operation.pagination && resolved.items && queryModel && resolved.response?.kind === 'named') {
+        const responseModel = resolver.get(resolved.response.name);
+        if (responseModel?.kind !== 'object') continue;
+        const itemsProperty = responseModel.properties.find(property => property.name === operation.pagination!.itemsKey)!;
+        const itemsMember = membersOf(responseModel).get(itemsProperty.name);
+        const queryNames = membersOf(queryModel);
+        const pageValue = (name: string, source: string) => {
+          const property = queryModel.properties.find(p => p.name === name)!;
+          return property.ref.kind === 'string'
+            ? `${queryNames.get(name)} = ${source}.ToString(CultureInfo.InvariantCulture)`
+            : `${queryNames.get(name)} = (${this.csType(property.ref, resolver)})${source}`;
+        };
+        const itemType = this.csType(resolved.items, resolver);
+        const callArgs = [...pathArgs.map(arg => arg.identifier), ...(resolved.body ? ['null'] : []),
+          `baseQuery with { ${pageValue('limit', 'pageSize')}, ${pageValue('offset', 'offset')} }`, 'cancellationToken'];
+        methods.push([
+          `    /// <summary>Iterate over every ${operation.pagination.itemsKey} item, requesting pages of <paramref name="pageSize"/> with limit/offset.</summary>`,
+          `    public async IAsyncEnumerable<${itemType}> ${pascalCase(operation.pagination.iteratorName)}Async(${[
+            ...pathArgs.map(arg => `${arg.type} ${arg.identifier}`),
+            queryRequired ? `${queryModel.name} query` : `${queryModel.name}? query = null`,
+            'int pageSize = 100',
+            '[EnumeratorCancellation] CancellationToken cancellationToken = default',
+          ].join(', ')})`,
+          '    {',
+          `        var baseQuery = query${queryRequired ? '' : ` ?? new ${queryModel.name}()`};`,
+          '        for (var offset = 0L; ; offset += pageSize)',
+          '        {',
+          `            var page = await ${methodName}(${callArgs.join(', ')}).ConfigureAwait(false);`,
+          `            var items = page.${itemsMember}${itemsProperty.required ? '' : ` ?? new List<${itemType}>()`};`,
+          '            foreach (var item in items)',
+          '            {',
+          '                yield return item;',
+          '            }',
+          '            if (items.Count < pageSize)',
+          '            {',
+          '                yield break;',
+          '            }',
+          '        }',
+          '    }',
+        ].join('\n'));
+      }
+    }
+
+    const clientFile = `${fileHeader}#nullable enable
+using System;
+using System.Collections.Generic;
+using System.Globalization;
+using System.Linq;
+using System.Net;
+using System.Net.Http;
+using System.Net.Http.Headers;
+using System.Runtime.CompilerServices;
+using System.Text;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using System.Threading;
+using System.Threading.Tasks;
+${resolver.types.length > 0 ? `using ${namespace}.Models;\n` : ''}
+namespace ${namespace};
+
+/// <summary>Typed client for the ${this.xml(model.title)} (version ${this.xml(model.version)}).</summary>
+public sealed class ${model.clientName}
+{
+    public const string DefaultBaseUrl = ${quoted(model.baseUrl)};
+    public const string DefaultTokenUrl = ${quoted(model.tokenUrl)};
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        DefaultIgnoreCondition = JsonIgnoreCondition.WhenWritingNull,
+    };
+
+    private readonly HttpClient _httpClient;
+    private readonly ITokenProvider? _tokenProvider;
+    private readonly string _baseUrl;
+
+    public ${model.clientName}(HttpClient httpClient, ITokenProvider? tokenProvider = null, string baseUrl = DefaultBaseUrl)
+    {
+        _httpClient = httpClient;
+        _tokenProvider = tokenProvider;
+        _baseUrl = baseUrl.TrimEnd('/');
+    }
+
+    public static ${model.clientName} WithClientCredentials(string clientId, string clientSecret, string? scope = null)
+    {
+        var httpClient = new HttpClient { Timeout = TimeSpan.FromSeconds(30) };
+        return new ${model.clientName}(httpClient, new ClientCredentialsTokenProvider(httpClient, DefaultTokenUrl, clientId, clientSecret, scope));
+    }
+
+${methods.join('\n\n')}
+
+    private async Task<T> SendAsync<T>(HttpMethod method, string path, IEnumerable<KeyValuePair<string, string>>? query, object? body, CancellationToken cancellationToken)
+    {
+        var content = await SendCoreAsync(method, path, query, body, false, cancellationToken).ConfigureAwait(false);
+        return JsonSerializer.Deserialize<T>(content, JsonOptions)
+            ?? throw new TimeBackApiException(HttpStatusCode.OK, content, $"{method} {path} returned an empty body");
+    }
+
+    private async Task SendAsync(HttpMethod method, string path, IEnumerable<KeyValuePair<string, string>>? query, object? body, CancellationToken cancellationToken)
+    {
+        await SendCoreAsync(method, path, query, body, false, cancellationToken).ConfigureAwait(false);
+    }
+
+    private async Task<string> SendCoreAsync(HttpMethod method, string path, IEnumerable<KeyValuePair<string, string>>? query, object? body, bool retried, CancellationToken cancellationToken)
+    {
+        var url = new StringBuilder(_baseUrl).Append(path);
+        var pairs = query?.ToList() ?? new List<KeyValuePair<string, string>>();
+        if (pairs.Count > 0)
+        {
+            url.Append('?').Append(string.Join("&", pairs.Select(pair => $"{Uri.EscapeDataString(pair.Key)}={Uri.EscapeDataString(pair.Value)}")));
+        }
+
+        using var request = new HttpRequestMessage(method, url.ToString());
+        request.Headers.Accept.Add(new MediaTypeWithQualityHeaderValue("application/json"));
+        var token = _tokenProvider is null ? null : await _tokenProvider.GetTokenAsync(cancellationToken).ConfigureAwait(false);
+        if (token is not null)
+        {
+            request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", token);
+        }
+        if (body is not null)
+        {
+            request.Content = new StringContent(JsonSerializer.Serialize(body, body.GetType(), JsonOptions), Encoding.UTF8, "application/json");
+        }
+
+        using var response = await _httpClient.SendAsync(request, cancellationToken).ConfigureAwait(false);
+        if (response.StatusCode == HttpStatusCode.Unauthorized && token is not null && !retried)
+        {
+            _tokenProvider!.Invalidate(token);
+            return await SendCoreAsync(method, path, query, body, true, cancellationToken).ConfigureAwait(false);
+        }
+
+        var content = await response.Content.ReadAsStringAsync(cancellationToken).ConfigureAwait(false);
+        if (!response.IsSuccessStatusCode)
+        {
+            throw new TimeBackApiException(response.StatusCode, content, $"{method} {path} failed with status {(int)response.StatusCode}");
+        }
+        return content;
+    }
+}
+`;
+
+    const authFile = `${fileHeader}#nullable enable
+using System;
+using System.Collections.Generic;
+using System.Net.Http;
+using System.Text.Json;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace ${namespace};
+
+public interface ITokenProvider
+{
+    Task<string> GetTokenAsync(CancellationToken cancellationToken);
+
+    void Invalidate(string token);
+}
+
+/// <summary>OAuth2 client-credentials provider that caches the token and shares one in-flight refresh.</summary>
+public sealed class ClientCredentialsTokenProvider : ITokenProvider
+{
+    private readonly HttpClient _httpClient;
+    private readonly string _tokenUrl;
+    private readonly string _clientId;
+    private readonly string _clientSecret;
+    private readonly string? _scope;
+    private readonly SemaphoreSlim _lock = new(1, 1);
+    private string? _token;
+    private DateTimeOffset _expiresAt;
+
+    public ClientCredentialsTokenProvider(HttpClient httpClient, string tokenUrl, string clientId, string clientSecret, string? scope = null)
+    {
+        _httpClient = httpClient;
+        _tokenUrl = tokenUrl;
+        _clientId = clientId;
+        _clientSecret = clientSecret;
+        _scope = scope;
+    }
+
+    public async Task<string> GetTokenAsync(CancellationToken cancellationToken)
+    {
+        await _lock.WaitAsync(cancellationToken).ConfigureAwait(false);
+        try
+        {
+            if (_token is not null && DateTimeOffset.UtcNow < _expiresAt)
+            {
+                return _token;
+            }
+
+            var form = new Dictionary<string, string>
+            {
+                ["grant_type"] = "client_credentials",
+                ["client_id"] = _clientId,
+                ["client_secret"] = _clientSecret,
+            };
+            if (_scope is not null)
+            {
+                form["scope"] = _scope;
+            }
+
+            using var response = await _httpClient.PostAsync(_tokenUrl, new FormUrlEncodedContent(form), cancellationToken).ConfigureAwait(false);
+            var content = await response.Content.ReadAsStringAsync(cancellationToken).ConfigureAwait(false);
+            if (!response.IsSuccessStatusCode)
+            {
+                throw new TimeBackApiException(response.StatusCode, content, $"Token request failed with status {(int)response.StatusCode}");
+            }
+
+            using var document = JsonDocument.Parse(content);
+            var token = document.RootElement.GetProperty("access_token").GetString()
+                ?? throw new TimeBackApiException(response.StatusCode, content, "Token response did not include an access_token");
+            var expiresIn = document.RootElement.TryGetProperty("expires_in", out var expires) ? expires.GetInt32() : 3600;
+            // Refresh a minute early so requests never race the expiry
+            _token = token;
+            _expiresAt = DateTimeOffset.UtcNow.AddSeconds(expiresIn - 60);
+            return token;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public void Invalidate(string token)
+    {
+        if (_token == token)
+        {
+            _token = null;
+        }
+    }
+}
+`;
+
+    const exceptionFile = `${fileHeader}#nullable enable
+using System;
+using System.Net;
+
+namespace ${namespace};
+
+public sealed class TimeBackApiException : Exception
+{
+    public TimeBackApiException(HttpStatusCode statusCode, string body, string message)
+        : base(message)
+    {
+        StatusCode = statusCode;
+        Body = body;
+    }
+
+    public HttpStatusCode StatusCode { get; }
+
+    public string Body { get; }
+}
+`;
+
+    const project = `<Project Sdk="Microsoft.NET.Sdk">
+
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+    <Nullable>enable</Nullable>
+    <ImplicitUsings>disable</ImplicitUsings>
+    <RootNamespace>${namespace}</RootNamespace>
+    <Version>${model.version}</Version>
+  </PropertyGroup>
+
+</Project>
+`;
+
+    const paginated = model.operations.find(operation => operation.pagination && operation.pathParams.length === 0);
+    const readme = `# ${namespace}
+
+Typed C# client for the ${model.title} (version ${model.version}), generated from its OpenAPI specification. Targets .NET 8.
+
+\`\`\`csharp
+using ${namespace};
+
+var client = ${model.clientName}.WithClientCredentials(
+    Environment.GetEnvironmentVariable("CLIENT_ID")!,
+    Environment.GetEnvironmentVariable("CLIENT_SECRET")!);
+${paginated ? `await foreach (var item in client.${pascalCase(paginated.pagination!.iteratorName)}Async())\n{\n    Console.WriteLine(item);\n}\n` : ''}\`\`\`
+
+- ${resolver.types.length} records and value sets in \`Models.cs\`, ${model.operations.length} operations on \`${model.clientName}\`
+- Paginated list operations get an \`Iterate...Async()\` method returning \`IAsyncEnumerable\` over limit/offset pages
+- Tokens are fetched with the OAuth2 client-credentials grant, cached, and refreshed once on a 401
+`;
+
+    return [
+      { path: 'Models.cs', content: modelsFile },
+      { path: 'ClientCredentialsTokenProvider.cs', content: authFile },
+      { path: 'TimeBackApiException.cs', content: exceptionFile },
+      { path: `${model.clientName}.cs`, content: clientFile },
+      { path: `${namespace}.csproj`, content: project },
+      { path: 'README.md', content: readme },
+    ];
+  }
+
+  private queryMembers(type: Extract<SdkNamedType, { kind: 'object' }>, names: Map<string, string>, resolver: SdkTypeResolver): string {
+    const yields = type.properties.map(property => {
+      const member = names.get(property.name)!;
+      let value: string;
+      switch (property.ref.kind) {
+        case 'string':
+          value = member;
+          break;
+        case 'boolean':
+          value = `${member}.Value ? "true" : "false"`;
+          break;
+        case 'array':
+          value = `string.Join(",", ${member})`;
+          break;
+        case 'named':
+          value = resolver.isEnum(property.ref) ? member : `JsonSerializer.Serialize(${member})`;
+          break;
+        case 'int':
+        case 'long':
+        case 'double':
+          value = `${member}.Value.ToString(CultureInfo.InvariantCulture)`;
+          break;
+        default:
+          value = `Convert.ToString(${member}, CultureInfo.InvariantCulture) ?? string.Empty`;
+      }
+      if (property.required && ['int', 'long', 'double', 'boolean'].includes(property.ref.kind)) {
+        return `        yield return new(${quoted(property.name)}, ${value.replace(`${member}.Value`, member)});`;
+      }
+      return `        if (${member} is not null)\n        {\n            yield return new(${quoted(property.name)}, ${value});\n        }`;
+    });
+
+    return `    public IEnumerable<KeyValuePair<string, string>> ToQueryParameters()
+    {
+${yields.join('\n')}
+    }`;
+  }
+
+  private csType(ref: SdkTypeRef, resolver: SdkTypeResolver): string {
+    switch (ref.kind) {
+      case 'named':
+        return resolver.isEnum(ref) ? 'string' : ref.name;
+      case 'string':
+        return 'string';
+      case 'int':
+        return 'int';
+      case 'long':
+        return 'long';
+      case 'double':
+        return 'double';
+      case 'boolean':
+        return 'bool';
+      case 'array':
+        return `List<${this.csType(ref.items, resolver)}>`;
+      case 'map':
+        return `Dictionary<string, ${this.csType(ref.values, resolver)}>`;
+      default:
+        return 'JsonElement';
+    }
+  }
+
+  private identifier(name: string): string {
+    const identifier = camelCase(name);
+    return CSHARP_KEYWORDS.has(identifier) ? `@${identifier}` : identifier;
+  }
+
+  private pathExpression(operation: SdkOperation, args: Array<{ parameter: SdkParameter; identifier: string; type: string }>): string {
+    if (args.length === 0) return quoted(operation.path);
+    const path = operation.path.replace(/[{}]/g, match => match + match).replace(/\{\{([^}]+)\}\}/g, (_match, name) => {
+      const arg = args.find(candidate => candidate.parameter.name === name)!;
+      const value = arg.type === 'string' ? arg.identifier : `Convert.ToString(${arg.identifier}, CultureInfo.InvariantCulture)!`;
+      return `{Uri.EscapeDataString(${value})}`;
+    });
+    return `$${quoted(path)}`;
+  }
+
+  private summary(text: string | undefined, indent: string, escape = true): string {
+    if (!text?.trim()) return '';
+    const lines = (escape ? this.xml(text.trim()) : text.trim()).split('\n');
+    if (lines.length === 1) {
+      return `${indent}/// <summary>${lines[0]}</summary>\n`;
+    }
+    return `${indent}/// <summary>\n${lines.map(line => `${indent}/// ${line}`.trimEnd()).join('\n')}\n${indent}/// </summary>\n`;
+  }
+
+  private xml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
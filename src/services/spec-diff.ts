@@ -0,0 +1,443 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import { OpenAPIV3 } from 'openapi-types';
+import * as yaml from 'js-yaml';
+import { OpenAPIParser } from './openapi-parser.js';
+import { StoredEndpoint } from './documentation-store.js';
+import { ParsedEndpoint } from '../types/index.js';
+
+export type ChangeSeverity = 'breaking' | 'non-breaking';
+
+export type SpecChangeKind =
+  | 'operation-added'
+  | 'operation-removed'
+  | 'parameter-added'
+  | 'parameter-removed'
+  | 'parameter-required'
+  | 'parameter-optional'
+  | 'request-body-added'
+  | 'request-body-removed'
+  | 'request-body-required'
+  | 'request-body-optional'
+  | 'property-added'
+  | 'property-removed'
+  | 'property-required'
+  | 'property-optional'
+  | 'type-changed'
+  | 'enum-narrowed'
+  | 'enum-widened'
+  | 'response-added'
+  | 'response-removed';
+
+export interface SpecChange {
+  kind: SpecChangeKind;
+  severity: ChangeSeverity;
+  operation: string;
+  location?: string;
+  message: string;
+  before?: any;
+  after?: any;
+}
+
+export interface SpecDiffReport {
+  hasBreakingChanges: boolean;
+  summary: {
+    total: number;
+    breaking: number;
+    nonBreaking: number;
+    operationsAdded: number;
+    operationsRemoved: number;
+  };
+  changes: SpecChange[];
+}
+
+type Direction = 'request' | 'response';
+
+const MAX_SCHEMA_DEPTH = 10;
+
+export class SpecDiffer {
+  async diffSpecTexts(oldSpecText: string, newSpecText: string): Promise<SpecDiffReport> {
+    const [oldSpec, newSpec] = await Promise.all([
+      this.parseSpecText(oldSpecText),
+      this.parseSpecText(newSpecText),
+    ]);
+    return this.diffSpecs(oldSpec, newSpec);
+  }
+
+  diffSpecs(oldSpec: OpenAPIV3.Document, newSpec: OpenAPIV3.Document): SpecDiffReport {
+    const parser = new OpenAPIParser();
+    parser.loadFromDocument('old', oldSpec, '');
+    parser.loadFromDocument('new', newSpec, '');
+    return this.diffEndpoints(parser.getEndpoints('old'), parser.getEndpoints('new'));
+  }
+
+  diffStoredEndpoints(oldEndpoints: StoredEndpoint[], newEndpoints: StoredEndpoint[]): SpecDiffReport {
+    // Crawled endpoints only carry parameter names and types, so body and response changes are not visible
+    const toParsed = (endpoint: StoredEndpoint): ParsedEndpoint => ({
+      path: endpoint.path,
+      method: endpoint.method.toUpperCase(),
+      operationId: endpoint.operationId,
+      parameters: endpoint.parameters?.map(parameter => ({
+        name: parameter.name,
+        in: parameter.in,
+        required: parameter.required,
+        schema: { type: parameter.type } as OpenAPIV3.SchemaObject,
+      })),
+      responses: {},
+      api: '',
+    });
+    return this.diffEndpoints(oldEndpoints.map(toParsed), newEndpoints.map(toParsed));
+  }
+
+  diffEndpoints(oldEndpoints: ParsedEndpoint[], newEndpoints: ParsedEndpoint[]): SpecDiffReport {
+    const changes: SpecChange[] = [];
+    const oldOperations = new Map(oldEndpoints.map(endpoint => [this.operationKey(endpoint), endpoint]));
+    const newOperations = new Map(newEndpoints.map(endpoint => [this.operationKey(endpoint), endpoint]));
+
+    for (const [key, oldEndpoint] of oldOperations) {
+      const operation = `${oldEndpoint.method} ${oldEndpoint.path}`;
+      const newEndpoint = newOperations.get(key);
+      if (!newEndpoint) {
+        changes.push({ kind: 'operation-removed', severity: 'breaking', operation, message: `Removed operation ${operation}` });
+        continue;
+      }
+
+      this.diffParameters(oldEndpoint, newEndpoint, `${newEndpoint.method} ${newEndpoint.path}`, changes);
+      this.diffRequestBody(oldEndpoint, newEndpoint, `${newEndpoint.method} ${newEndpoint.path}`, changes);
+      this.diffResponses(oldEndpoint, newEndpoint, `${newEndpoint.method} ${newEndpoint.path}`, changes);
+    }
+
+    for (const [key, newEndpoint] of newOperations) {
+      if (!oldOperations.has(key)) {
+        const operation = `${newEndpoint.method} ${newEndpoint.path}`;
+        changes.push({ kind: 'operation-added', severity: 'non-breaking', operation, message: `Added operation ${operation}` });
+      }
+    }
+
+    const breaking = changes.filter(change => change.severity === 'breaking').length;
+    return {
+      hasBreakingChanges: breaking > 0,
+      summary: {
+        total: changes.length,
+        breaking,
+        nonBreaking: changes.length - breaking,
+        operationsAdded: changes.filter(change => change.kind === 'operation-added').length,
+        operationsRemoved: changes.filter(change => change.kind === 'operation-removed').length,
+      },
+      changes,
+    };
+  }
+
+  private async parseSpecText(specText: string): Promise<OpenAPIV3.Document> {
+    const document = yaml.load(specText);
+    if (!document || typeof document !== 'object') {
+      throw new Error('OpenAPI specification could not be parsed');
+    }
+    return await SwaggerParser.dereference(document as OpenAPIV3.Document) as OpenAPIV3.Document;
+  }
+
+  private diffParameters(oldEndpoint: ParsedEndpoint, newEndpoint: ParsedEndpoint, operation: string, changes: SpecChange[]): void {
+    const oldParameters = this.parameterMap(oldEndpoint);
+    const newParameters = this.parameterMap(newEndpoint);
+
+    for (const [key, oldParameter] of oldParameters) {
+      const location = `${oldParameter.in} parameter "${oldParameter.name}"`;
+      const newParameter = newParameters.get(key);
+
+      if (!newParameter) {
+        changes.push({ kind: 'parameter-removed', severity: 'breaking', operation, location, message: `${operation}: removed ${location}` });
+        continue;
+      }
+
+      const wasRequired = Boolean(oldParameter.required || oldParameter.in === 'path');
+      const isRequired = Boolean(newParameter.required || newParameter.in === 'path');
+      if (!wasRequired && isRequired) {
+        changes.push({ kind: 'parameter-required', severity: 'breaking', operation, location, message: `${operation}: ${location} is now required` });
+      } else if (wasRequired && !isRequired) {
+        changes.push({ kind: 'parameter-optional', severity: 'non-breaking', operation, location, message: `${operation}: ${location} is now optional` });
+      }
+
+      this.diffSchemas(
+        oldParameter.schema as OpenAPIV3.SchemaObject | undefined,
+        newParameter.schema as OpenAPIV3.SchemaObject | undefined,
+        location,
+        'request',
+        operation,
+        changes
+      );
+    }
+
+    for (const [key, newParameter] of newParameters) {
+      if (oldParameters.has(key)) continue;
+
+      const location = `${newParameter.in} parameter "${newParameter.name}"`;
+      const required = Boolean(newParameter.required || newParameter.in === 'path');
+      changes.push({
+        kind: 'parameter-added',
+        severity: required ? 'breaking' : 'non-breaking',
+        operation,
+        location,
+        message: `${operation}: added ${required ? 'required' : 'optional'} ${location}`,
+      });
+    }
+  }
+
+  private diffRequestBody(oldEndpoint: ParsedEndpoint, newEndpoint: ParsedEndpoint, operation: string, changes: SpecChange[]): void {
+    const oldBody = oldEndpoint.requestBody;
+    const newBody = newEndpoint.requestBody;
+    const location = 'request body';
+
+    if (!oldBody && !newBody) return;
+
+    if (!oldBody) {
+      changes.push({
+        kind: 'request-body-added',
+        severity: newBody!.required ? 'breaking' : 'non-breaking',
+        operation,
+        location,
+        message: `${operation}: added ${newBody!.required ? 'required' : 'optional'} request body`,
+      });
+      return;
+    }
+
+    if (!newBody) {
+      changes.push({ kind: 'request-body-removed', severity: 'breaking', operation, location, message: `${operation}: removed request body` });
+      return;
+    }
+
+    if (!oldBody.required && newBody.required) {
+      changes.push({ kind: 'request-body-required', severity: 'breaking', operation, location, message: `${operation}: request body is now required` });
+    } else if (oldBody.required && !newBody.required) {
+      changes.push({ kind: 'request-body-optional', severity: 'non-breaking', operation, location, message: `${operation}: request body is now optional` });
+    }
+
+    this.diffSchemas(this.getMediaSchema(oldBody.content), this.getMediaSchema(newBody.content), 'body', 'request', operation, changes);
+  }
+
+  private diffResponses(oldEndpoint: ParsedEndpoint, newEndpoint: ParsedEndpoint, operation: string, changes: SpecChange[]): void {
+    const oldResponses = oldEndpoint.responses || {};
+    const newResponses = newEndpoint.responses || {};
+
+    for (const [status, oldResponse] of Object.entries(oldResponses)) {
+      const location = `response ${status}`;
+      const newResponse = newResponses[status] as OpenAPIV3.ResponseObject | undefined;
+
+      if (!newResponse) {
+        // Dropping an error response rarely breaks clients; dropping a success response does
+        const severity: ChangeSeverity = status.startsWith('2') ? 'breaking' : 'non-breaking';
+        changes.push({ kind: 'response-removed', severity, operation, location, message: `${operation}: removed ${location}` });
+        continue;
+      }
+
+      this.diffSchemas(
+        this.getMediaSchema((oldResponse as OpenAPIV3.ResponseObject).content),
+        this.getMediaSchema(newResponse.content),
+        location,
+        'response',
+        operation,
+        changes
+      );
+    }
+
+    for (const status of Object.keys(newResponses)) {
+      if (!oldResponses[status]) {
+        changes.push({ kind: 'response-added', severity: 'non-breaking', operation, location: `response ${status}`, message: `${operation}: added response ${status}` });
+      }
+    }
+  }
+
+  private diffSchemas(
+    oldSchema: OpenAPIV3.SchemaObject | undefined,
+    newSchema: OpenAPIV3.SchemaObject | undefined,
+    location: string,
+    direction: Direction,
+    operation: string,
+    changes: SpecChange[],
+    visited: Set<object> = new Set(),
+    depth = 0
+  ): void {
+    if (!oldSchema || !newSchema || depth >= MAX_SCHEMA_DEPTH) return;
+
+    // Dereferenced specs can be cyclic; each old schema is compared once per path
+    if (visited.has(oldSchema)) return;
+    const nextVisited = new Set(visited).add(oldSchema);
+
+    const oldFlat = this.flatten(oldSchema);
+    const newFlat = this.flatten(newSchema);
+
+    if (oldFlat.type && newFlat.type && oldFlat.type !== newFlat.type) {
+      changes.push({
+        kind: 'type-changed',
+        severity: 'breaking',
+        operation,
+        location,
+        message: `${operation}: ${location} changed type from ${oldFlat.type} to ${newFlat.type}`,
+        before: oldFlat.type,
+        after: newFlat.type,
+      });
+      return;
+    }
+
+    this.diffEnums(oldFlat.enum, newFlat.enum, location, direction, operation, changes);
+
+    for (const [name, oldProperty] of Object.entries(oldFlat.properties)) {
+      const propertyLocation = `${location}.${name}`;
+      const newProperty = newFlat.properties[name];
+
+      if (!newProperty) {
+        changes.push({ kind: 'property-removed', severity: 'breaking', operation, location: propertyLocation, message: `${operation}: removed ${propertyLocation}` });
+        continue;
+      }
+
+      const wasRequired = oldFlat.required.includes(name);
+      const isRequired = newFlat.required.includes(name);
+      if (!wasRequired && isRequired) {
+        // New required inputs break callers; new guaranteed outputs do not
+        changes.push({
+          kind: 'property-required',
+          severity: direction === 'request' ? 'breaking' : 'non-breaking',
+          operation,
+          location: propertyLocation,
+          message: `${operation}: ${propertyLocation} is now required`,
+        });
+      } else if (wasRequired && !isRequired) {
+        changes.push({
+          kind: 'property-optional',
+          severity: direction === 'request' ? 'non-breaking' : 'breaking',
+          operation,
+          location: propertyLocation,
+          message: `${operation}: ${propertyLocation} is no longer required`,
+        });
+      }
+
+      this.diffSchemas(oldProperty, newProperty, propertyLocation, direction, operation, changes, nextVisited, depth + 1);
+    }
+
+    for (const name of Object.keys(newFlat.properties)) {
+      if (oldFlat.properties[name]) continue;
+
+      const propertyLocation = `${location}.${name}`;
+      const required = newFlat.required.includes(name);
+      changes.push({
+        kind: 'property-added',
+        severity: direction === 'request' && required ? 'breaking' : 'non-breaking',
+        operation,
+        location: propertyLocation,
+        message: `${operation}: added ${required ? 'required' : 'optional'} ${propertyLocation}`,
+      });
+    }
+
+    if (oldFlat.items && newFlat.items) {
+      this.diffSchemas(oldFlat.items, newFlat.items, `${location}[]`, direction, operation, changes, nextVisited, depth + 1);
+    }
+  }
+
+  private diffEnums(
+    oldEnum: any[] | undefined,
+    newEnum: any[] | undefined,
+    location: string,
+    direction: Direction,
+    operation: string,
+    changes: SpecChange[]
+  ): void {
+    if (!oldEnum && !newEnum) return;
+
+    if (!oldEnum) {
+      changes.push({
+        kind: 'enum-narrowed',
+        severity: direction === 'request' ? 'breaking' : 'non-breaking',
+        operation,
+        location,
+        message: `${operation}: ${location} is now limited to ${newEnum!.join(', ')}`,
+        after: newEnum,
+      });
+      return;
+    }
+
+    if (!newEnum) {
+      changes.push({
+        kind: 'enum-widened',
+        severity: direction === 'request' ? 'non-breaking' : 'breaking',
+        operation,
+        location,
+        message: `${operation}: ${location} is no longer limited to ${oldEnum.join(', ')}`,
+        before: oldEnum,
+      });
+      return;
+    }
+
+    const removed = oldEnum.filter(value => !newEnum.includes(value));
+    const added = newEnum.filter(value => !oldEnum.includes(value));
+
+    // Callers can no longer send removed values; clients may not handle values a response newly returns
+    if (removed.length > 0) {
+      changes.push({
+        kind: 'enum-narrowed',
+        severity: direction === 'request' ? 'breaking' : 'non-breaking',
+        operation,
+        location,
+        message: `${operation}: ${location} no longer allows ${removed.join(', ')}`,
+        before: oldEnum,
+        after: newEnum,
+      });
+    }
+    if (added.length > 0) {
+      changes.push({
+        kind: 'enum-widened',
+        severity: direction === 'request' ? 'non-breaking' : 'breaking',
+        operation,
+        location,
+        message: `${operation}: ${location} now allows ${added.join(', ')}`,
+        before: oldEnum,
+        after: newEnum,
+      });
+    }
+  }
+
+  private flatten(schema: OpenAPIV3.SchemaObject): {
+    type?: string;
+    enum?: any[];
+    properties: Record<string, OpenAPIV3.SchemaObject>;
+    required: string[];
+    items?: OpenAPIV3.SchemaObject;
+  } {
+    const flat = {
+      type: schema.type as string | undefined,
+      enum: schema.enum,
+      properties: { ...(schema.properties || {}) } as Record<string, OpenAPIV3.SchemaObject>,
+      required: [...(schema.required || [])],
+      items: (schema as OpenAPIV3.ArraySchemaObject).items as OpenAPIV3.SchemaObject | undefined,
+    };
+
+    for (const subSchema of (schema.allOf || []) as OpenAPIV3.SchemaObject[]) {
+      const sub = this.flatten(subSchema);
+      flat.type = flat.type || sub.type;
+      flat.enum = flat.enum || sub.enum;
+      flat.items = flat.items || sub.items;
+      Object.assign(flat.properties, sub.properties);
+      flat.required.push(...sub.required);
+    }
+
+    return flat;
+  }
+
+  private operationKey(endpoint: ParsedEndpoint): string {
+    // Renamed path parameters ({id} -> {sourcedId}) still describe the same operation
+    return `${endpoint.method.toUpperCase()} ${endpoint.path.replace(/\{[^}]+\}/g, '{}')}`;
+  }
+
+  private parameterMap(endpoint: ParsedEndpoint): Map<string, OpenAPIV3.ParameterObject> {
+    const map = new Map<string, OpenAPIV3.ParameterObject>();
+    let pathIndex = 0;
+    for (const parameter of endpoint.parameters || []) {
+      const key = parameter.in === 'path' ? `path#${pathIndex++}` : `${parameter.in}:${parameter.name}`;
+      map.set(key, parameter);
+    }
+    return map;
+  }
+
+  private getMediaSchema(content?: Record<string, OpenAPIV3.MediaTypeObject>): OpenAPIV3.SchemaObject | undefined {
+    if (!content) return undefined;
+    const mediaType = Object.keys(content).find(type => type.includes('json')) || Object.keys(content)[0];
+    return mediaType ? content[mediaType].schema as OpenAPIV3.SchemaObject | undefined : undefined;
+  }
+}
@@ -0,0 +1,515 @@
+import { OpenAPIParser } from './openapi-parser.js';
+import { EndpointExecutor } from './endpoint-executor.js';
+import { PowerPathPlanner } from './powerpath-planner.js';
+import { OneRosterPaginator } from './oneroster-paginator.js';
+import { OneRosterQueryBuilder } from './oneroster-query-builder.js';
+import { ParsedEndpoint } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+export type StudentProfileSection = 'demographics' | 'enrollments' | 'results' | 'events' | 'progress';
+export type SourceStatus = 'ok' | 'failed' | 'skipped';
+
+/** What one API call contributed to a profile; `skipped` sources were not loaded, not in the spec or not requested. */
+export interface SourceReport {
+  source: string;
+  api: string;
+  status: SourceStatus;
+  operation?: string;
+  target?: string;
+  records?: number;
+  durationMs?: number;
+  error?: string;
+  warnings?: string[];
+}
+
+export interface StudentEnrollment {
+  classId: string;
+  enrollmentId?: string;
+  title?: string;
+  classCode?: string;
+  courseId?: string;
+  schoolId?: string;
+  role?: string;
+  primary?: boolean;
+  beginDate?: string;
+  endDate?: string;
+  status?: string;
+}
+
+export interface StudentResult {
+  id?: string;
+  assessment?: string;
+  title?: string;
+  score?: number;
+  status?: string;
+  date?: string;
+}
+
+export interface StudentEvent {
+  id?: string;
+  type: string;
+  action?: string;
+  object?: string;
+  eventTime?: string;
+}
+
+export interface StudentCourseProgress {
+  courseId: string;
+  title: string;
+  lessons: number;
+  completed: number;
+  percentComplete: number;
+  placement?: string;
+  nextLesson?: string;
+}
+
+export interface StudentProfile {
+  sourcedId: string;
+  generatedAt: string;
+  // True when at least one source failed; the sections it feeds may be empty or incomplete
+  partial: boolean;
+  student?: Record<string, any>;
+  demographics?: Record<string, any>;
+  enrollments: StudentEnrollment[];
+  results: StudentResult[];
+  events: StudentEvent[];
+  progress: StudentCourseProgress[];
+  summary: {
+    activeEnrollments: number;
+    assessmentResults: number;
+    averageScore?: number;
+    coursesTracked: number;
+    averageCompletion?: number;
+    lastActiveAt?: string;
+  };
+  provenance: Record<string, string[]>;
+  sources: SourceReport[];
+}
+
+export interface StudentProfileOptions {
+  include?: StudentProfileSection[];
+  eventLimit?: number;
+  masteryThreshold?: number;
+  profile?: string;
+}
+
+interface ProfileSource {
+  api: string;
+  pattern: RegExp;
+  label: string;
+  // Query-parameter sources take the student through a parameter such as studentId or actorId
+  byQuery?: boolean;
+}
+
+const PROFILE_SOURCES: Record<string, ProfileSource> = {
+  'oneroster.user': { api: 'oneroster', pattern: /\/users\/\{[^}]+\}$/, label: 'GET .../users/{sourcedId}' },
+  'oneroster.demographics': { api: 'oneroster', pattern: /\/demographics\/\{[^}]+\}$/, label: 'GET .../demographics/{sourcedId}' },
+  // Only the top-level search; school- and class-scoped enrollment paths need ids the profile does not have
+  'oneroster.enrollments': { api: 'oneroster', pattern: /\/rostering\/[^/{}]+\/enrollments$/, label: 'GET .../rostering/v1p2/enrollments' },
+  'oneroster.classes': { api: 'oneroster', pattern: /\/(students|users)\/\{[^}]+\}\/classes$/, label: 'GET .../students/{sourcedId}/classes' },
+  'qti.results': { api: 'qti', pattern: /results$/i, label: 'GET .../results', byQuery: true },
+  'caliper.events': { api: 'caliper', pattern: /\/events$/, label: 'GET .../events', byQuery: true },
+};
+
+const STUDENT_PARAMETER = /^(student|candidate|learner|user|actor)(_?(sourced)?_?id)?$/i;
+
+const RACE_FLAGS = [
+  'americanIndianOrAlaskaNative',
+  'asian',
+  'blackOrAfricanAmerican',
+  'nativeHawaiianOrOtherPacificIslander',
+  'white',
+  'demographicRaceTwoOrMoreRaces',
+];
+
+const ALL_SECTIONS: StudentProfileSection[] = ['demographics', 'enrollments', 'results', 'events', 'progress'];
+const DEFAULT_EVENT_LIMIT = 20;
+
+export class StudentProfileAggregator {
+  constructor(
+    private openApiParser: OpenAPIParser,
+    private endpointExecutor: EndpointExecutor,
+    private oneRosterPaginator: OneRosterPaginator,
+    private powerPathPlanner = new PowerPathPlanner(openApiParser, endpointExecutor),
+    private oneRosterQueryBuilder = new OneRosterQueryBuilder(openApiParser)
+  ) {}
+
+  /** Fans out to every loaded TimeBack API for one student and joins the answers; a failing source never fails the profile. */
+  async getProfile(sourcedId: string, options: StudentProfileOptions = {}): Promise<StudentProfile> {
+    const include = new Set(options.include || ALL_SECTIONS);
+    const eventLimit = options.eventLimit || DEFAULT_EVENT_LIMIT;
+    const wants = (section: StudentProfileSection) => include.has(section) || (section === 'enrollments' && include.has('progress'));
+
+    const [user, demographics, enrollments, classes, results, events] = await Promise.all([
+      this.call('oneroster.user', sourcedId, options),
+      wants('demographics') ? this.call('oneroster.demographics', sourcedId, options) : this.skip('oneroster.demographics'),
+      wants('enrollments') ? this.fetchEnrollments(sourcedId, options) : this.skip('oneroster.enrollments'),
+      wants('enrollments') ? this.call('oneroster.classes', sourcedId, options) : this.skip('oneroster.classes'),
+      wants('results') ? this.call('qti.results', sourcedId, options) : this.skip('qti.results'),
+      wants('events') ? this.call('caliper.events', sourcedId, options, { limit: eventLimit }) : this.skip('caliper.events'),
+    ]);
+
+    const profile: StudentProfile = {
+      sourcedId,
+      generatedAt: new Date().toISOString(),
+      partial: false,
+      enrollments: [],
+      results: [],
+      events: [],
+      progress: [],
+      summary: { activeEnrollments: 0, assessmentResults: 0, coursesTracked: 0 },
+      provenance: {},
+      sources: [user.report, demographics.report, enrollments.report, classes.report, results.report, events.report],
+    };
+
+    const normalize = <T>(call: { report: SourceReport; body?: any }, normalizer: (body: any) => T): T | undefined => {
+      if (call.report.status !== 'ok') {
+        return undefined;
+      }
+      try {
+        const normalized = normalizer(call.body);
+        call.report.records = Array.isArray(normalized) ? normalized.length : 1;
+        return normalized;
+      } catch (error) {
+        call.report.status = 'failed';
+        call.report.error = `Unexpected response: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        return undefined;
+      }
+    };
+
+    profile.student = normalize(user, body => this.normalizeUser(body));
+    profile.demographics = normalize(demographics, body => this.normalizeDemographics(body));
+    profile.enrollments = this.joinEnrollments(
+      normalize(enrollments, body => this.records(body, 'enrollments')) || [],
+      normalize(classes, body => this.records(body, 'classes')) || []
+    );
+    profile.results = normalize(results, body => this.normalizeResults(body)) || [];
+    profile.events = (normalize(events, body => this.normalizeEvents(body)) || []).slice(0, eventLimit);
+
+    if (include.has('progress')) {
+      const progress = await this.loadProgress(sourcedId, profile.enrollments, options);
+      profile.progress = progress.progress;
+      profile.sources.push(...progress.reports);
+    } else {
+      profile.sources.push(this.skip('powerpath.progress').report);
+    }
+
+    profile.partial = profile.sources.some(report => report.status === 'failed');
+    profile.provenance = this.provenance(profile.sources);
+    profile.summary = this.summarize(profile);
+
+    logger.info('Built student profile', {
+      sourcedId,
+      ok: profile.sources.filter(report => report.status === 'ok').length,
+      failed: profile.sources.filter(report => report.status === 'failed').length,
+    });
+    return profile;
+  }
+
+  private async call(name: string, sourcedId: string, options: StudentProfileOptions, query: Record<string, any> = {}): Promise<{ report: SourceReport; body?: any }> {
+    const source = PROFILE_SOURCES[name];
+    const report: SourceReport = { source: name, api: source.api, status: 'skipped' };
+    const endpoint = this.findEndpoint(source, report);
+    if (!endpoint) {
+      return { report };
+    }
+
+    try {
+      const pathParams = Object.fromEntries((endpoint.path.match(/\{([^}]+)\}/g) || []).map(param => [param.slice(1, -1), sourcedId]));
+      const result = await this.endpointExecutor.execute({
+        api: source.api,
+        method: 'GET',
+        path: endpoint.path,
+        pathParams,
+        query: { ...(source.byQuery && this.studentQuery(endpoint, sourcedId)), ...this.declaredQuery(endpoint, query) },
+        profile: options.profile,
+        validationMode: 'warn',
+      });
+
+      report.durationMs = result.durationMs;
+      const warnings = (result.validation?.response || []).map(violation => violation.message);
+      if (warnings.length) {
+        report.warnings = warnings;
+      }
+      if (result.status >= 400) {
+        throw new Error(`${result.status} ${result.statusText}`.trim());
+      }
+
+      report.status = 'ok';
+      return { report, body: result.body };
+    } catch (error) {
+      report.status = 'failed';
+      report.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Student profile source ${name} failed`, { sourcedId, error: report.error });
+      return { report };
+    }
+  }
+
+  // Enrollments are a filtered search that can span several pages, so they go through the paginator
+  private async fetchEnrollments(sourcedId: string, options: StudentProfileOptions): Promise<{ report: SourceReport; body?: any }> {
+    const source = PROFILE_SOURCES['oneroster.enrollments'];
+    const report: SourceReport = { source: 'oneroster.enrollments', api: source.api, status: 'skipped' };
+    const endpoint = this.findEndpoint(source, report);
+    if (!endpoint) {
+      return { report };
+    }
+
+    const startedAt = Date.now();
+    try {
+      const filter = this.oneRosterQueryBuilder.renderFilter({
+        logic: 'AND',
+        predicates: [{ field: 'user.sourcedId', operator: '=', value: sourcedId }],
+      });
+      const baseUrl = this.openApiParser.getAPI(source.api)!.baseUrl.replace(/\/+$/, '');
+      const collection = await this.oneRosterPaginator.fetchAll(`${baseUrl}${endpoint.path}`, {
+        query: { filter },
+        collectionKey: 'enrollments',
+        profile: options.profile,
+      });
+      if (collection.truncated) {
+        report.warnings = [`Stopped after ${collection.records.length} enrollments; the rest were not fetched`];
+      }
+
+      report.status = 'ok';
+      return { report, body: { enrollments: collection.records } };
+    } catch (error) {
+      report.status = 'failed';
+      report.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Student profile source oneroster.enrollments failed', { sourcedId, error: report.error });
+      return { report };
+    } finally {
+      report.durationMs = Date.now() - startedAt;
+    }
+  }
+
+  private findEndpoint(source: ProfileSource, report: SourceReport): ParsedEndpoint | undefined {
+    if (!this.openApiParser.getAPI(source.api)) {
+      report.error = `No OpenAPI specification loaded for ${source.api}`;
+      return undefined;
+    }
+    const endpoint = this.openApiParser.getEndpoints(source.api)
+      .find(candidate => candidate.method === 'GET' && source.pattern.test(candidate.path));
+    if (!endpoint) {
+      report.error = `The loaded ${source.api} spec has no ${source.label} operation`;
+      return undefined;
+    }
+    report.operation = `GET ${endpoint.path}`;
+    return endpoint;
+  }
+
+  private skip(name: string): { report: SourceReport } {
+    return { report: { source: name, api: PROFILE_SOURCES[name]?.api || 'powerpath', status: 'skipped', error: 'Not requested' } };
+  }
+
+  private studentQuery(endpoint: ParsedEndpoint, sourcedId: string): Record<string, string> {
+    const parameter = (endpoint.parameters || []).find(candidate => candidate.in === 'query' && STUDENT_PARAMETER.test(candidate.name));
+    if (!parameter) {
+      throw new Error(`${endpoint.path} has no student query parameter (studentId, candidateId, userId or actorId)`);
+    }
+    return { [parameter.name]: sourcedId };
+  }
+
+  // Only send the optional parameters (filter, limit) an operation actually declares
+  private declaredQuery(endpoint: ParsedEndpoint, query: Record<string, any>): Record<string, any> {
+    const names = new Set((endpoint.parameters || []).filter(parameter => parameter.in === 'query').map(parameter => parameter.name));
+    return Object.fromEntries(Object.entries(query).filter(([name]) => names.has(name)));
+  }
+
+  private async loadProgress(sourcedId: string, enrollments: StudentEnrollment[], options: StudentProfileOptions): Promise<{ progress: StudentCourseProgress[]; reports: SourceReport[] }> {
+    const courseIds = [...new Set(enrollments.map(enrollment => enrollment.courseId).filter((id): id is string => Boolean(id)))];
+    if (!this.openApiParser.getAPI('powerpath')) {
+      return { progress: [], reports: [{ source: 'powerpath.progress', api: 'powerpath', status: 'skipped', error: 'No OpenAPI specification loaded for powerpath' }] };
+    }
+    if (!courseIds.length) {
+      return { progress: [], reports: [{ source: 'powerpath.progress', api: 'powerpath', status: 'skipped', error: 'No enrolled courses to read progress for' }] };
+    }
+
+    const outcomes = await Promise.all(courseIds.map(async courseId => {
+      const report: SourceReport = { source: 'powerpath.progress', api: 'powerpath', status: 'ok', target: courseId };
+      const startedAt = Date.now();
+      try {
+        const { course, warnings: courseWarnings } = await this.powerPathPlanner.loadCourse(courseId, { profile: options.profile });
+        const { results, warnings } = await this.powerPathPlanner.loadProgress(courseId, sourcedId, { profile: options.profile });
+        const plan = this.powerPathPlanner.plan(course, results, { masteryThreshold: options.masteryThreshold });
+
+        report.records = results.length;
+        if (courseWarnings.length || warnings.length) {
+          report.warnings = [...courseWarnings, ...warnings];
+        }
+        const progress: StudentCourseProgress = {
+          courseId,
+          title: plan.title,
+          lessons: plan.totals.lessons,
+          completed: plan.totals.completed,
+          percentComplete: plan.totals.percentComplete,
+          ...(plan.placement && { placement: plan.placement.title }),
+          ...(plan.nextLesson && { nextLesson: plan.nextLesson.title }),
+        };
+        return { report, progress };
+      } catch (error) {
+        report.status = 'failed';
+        report.error = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn('Student profile source powerpath.progress failed', { sourcedId, courseId, error: report.error });
+        return { report };
+      } finally {
+        report.durationMs = Date.now() - startedAt;
+      }
+    }));
+
+    return {
+      progress: outcomes.flatMap(outcome => outcome.progress ? [outcome.progress] : []),
+      reports: outcomes.map(outcome => outcome.report),
+    };
+  }
+
+  private normalizeUser(body: any): Record<string, any> {
+    const user = body?.user ?? body;
+    if (!user?.sourcedId) {
+      throw new Error('no user.sourcedId');
+    }
+    const roles: any[] = Array.isArray(user.roles) ? user.roles : [];
+    const orgs: any[] = [...(user.orgs || []), ...roles.map(role => role.org)].filter(Boolean);
+    return {
+      sourcedId: user.sourcedId,
+      name: [user.preferredFirstName || user.givenName, user.familyName].filter(Boolean).join(' '),
+      givenName: user.givenName,
+      familyName: user.familyName,
+      email: user.email,
+      username: user.username,
+      identifier: user.identifier,
+      status: user.status,
+      enabledUser: user.enabledUser === undefined ? undefined : String(user.enabledUser) === 'true',
+      roles: [...new Set([user.role, ...roles.map(role => role.role)].filter(Boolean))],
+      grades: user.grades || [],
+      orgs: [...new Set(orgs.map(org => org.sourcedId))],
+    };
+  }
+
+  private normalizeDemographics(body: any): Record<string, any> {
+    const demographics = body?.demographics ?? body;
+    const flag = (value: any) => value === undefined || value === null || value === '' ? undefined : String(value) === 'true';
+    return {
+      birthDate: demographics.birthDate,
+      sex: demographics.sex,
+      race: RACE_FLAGS.filter(name => flag(demographics[name])),
+      hispanicOrLatinoEthnicity: flag(demographics.hispanicOrLatinoEthnicity),
+      countryOfBirthCode: demographics.countryOfBirthCode,
+      stateOfBirthAbbreviation: demographics.stateOfBirthAbbreviation,
+      cityOfBirth: demographics.cityOfBirth,
+      publicSchoolResidenceStatus: demographics.publicSchoolResidenceStatus,
+    };
+  }
+
+  private joinEnrollments(enrollments: any[], classes: any[]): StudentEnrollment[] {
+    const classesById = new Map(classes.map(entry => [entry.sourcedId, entry]));
+    const joined: StudentEnrollment[] = enrollments.map(enrollment => {
+      const classId = enrollment.class?.sourcedId ?? enrollment.classSourcedId;
+      const entry = classesById.get(classId);
+      classesById.delete(classId);
+      return {
+        classId,
+        enrollmentId: enrollment.sourcedId,
+        title: entry?.title,
+        classCode: entry?.classCode,
+        courseId: entry?.course?.sourcedId,
+        schoolId: enrollment.school?.sourcedId ?? entry?.school?.sourcedId,
+        role: enrollment.role,
+        primary: enrollment.primary === undefined ? undefined : String(enrollment.primary) === 'true',
+        beginDate: enrollment.beginDate,
+        endDate: enrollment.endDate,
+        status: enrollment.status,
+      };
+    });
+
+    // Classes the enrollment search missed (or every class, when it failed) are still listed
+    for (const entry of classesById.values()) {
+      joined.push({
+        classId: entry.sourcedId,
+        title: entry.title,
+        classCode: entry.classCode,
+        courseId: entry.course?.sourcedId,
+        schoolId: entry.school?.sourcedId,
+        status: entry.status,
+      });
+    }
+    return joined;
+  }
+
+  private normalizeResults(body: any): StudentResult[] {
+    return this.records(body)
+      .map(result => ({
+        id: result.sourcedId ?? result.id ?? result.identifier,
+        assessment: result.assessmentTestId ?? result.assessmentLineItem?.sourcedId ?? result.lineItem?.sourcedId ?? result.assessmentId ?? result.testId,
+        title: result.title ?? result.assessmentTitle,
+        score: this.number(result.score ?? result.scoreValue ?? result.outcomes?.SCORE),
+        status: result.scoreStatus ?? result.status,
+        date: result.scoreDate ?? result.completedAt ?? result.dateLastModified,
+      }))
+      .sort((a, b) => (b.date || '').localeCompare(a.date || ''));
+  }
+
+  private normalizeEvents(body: any): StudentEvent[] {
+    return this.records(body, 'events')
+      .map(event => ({
+        id: event.id,
+        type: event.type,
+        action: event.action,
+        object: typeof event.object === 'string' ? event.object : event.object?.id,
+        eventTime: event.eventTime,
+      }))
+      .sort((a, b) => (b.eventTime || '').localeCompare(a.eventTime || ''));
+  }
+
+  private records(body: any, key?: string): any[] {
+    if (Array.isArray(body)) {
+      return body;
+    }
+    const collection = key && Array.isArray(body?.[key]) ? body[key] : Object.values(body || {}).find(Array.isArray);
+    if (!collection) {
+      throw new Error(`no ${key || 'record'} array`);
+    }
+    return collection as any[];
+  }
+
+  private provenance(reports: SourceReport[]): Record<string, string[]> {
+    const sections: Record<string, string[]> = {
+      student: ['oneroster.user'],
+      demographics: ['oneroster.demographics'],
+      enrollments: ['oneroster.enrollments', 'oneroster.classes'],
+      results: ['qti.results'],
+      events: ['caliper.events'],
+      progress: ['powerpath.progress'],
+    };
+    const ok = new Set(reports.filter(report => report.status === 'ok').map(report => report.source));
+    return Object.fromEntries(Object.entries(sections).map(([section, sources]) => [section, sources.filter(source => ok.has(source))]));
+  }
+
+  private summarize(profile: StudentProfile): StudentProfile['summary'] {
+    const today = new Date().toISOString().slice(0, 10);
+    const scores = profile.results.map(result => result.score).filter((score): score is number => score !== undefined);
+    const activity = [...profile.events.map(event => event.eventTime), ...profile.results.map(result => result.date)]
+      .filter((date): date is string => Boolean(date))
+      .sort();
+
+    return {
+      activeEnrollments: profile.enrollments.filter(enrollment =>
+        enrollment.status !== 'tobedeleted' && (!enrollment.endDate || enrollment.endDate.slice(0, 10) >= today)).length,
+      assessmentResults: profile.results.length,
+      ...(scores.length && { averageScore: this.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) }),
+      coursesTracked: profile.progress.length,
+      ...(profile.progress.length && {
+        averageCompletion: this.round(profile.progress.reduce((sum, course) => sum + course.percentComplete, 0) / profile.progress.length),
+      }),
+      ...(activity.length && { lastActiveAt: activity[activity.length - 1] }),
+    };
+  }
+
+  private number(value: any): number | undefined {
+    const parsed = typeof value === 'number' ? value : parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
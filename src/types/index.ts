@@ -33,12 +33,61 @@ export interface AuthToken {
   expires_at: number;
 }
 
+export interface FieldMapping {
+  sourceField: string;
+  targetField: string;
+  confidence: number;
+  rationale: string[];
+}
+
 export interface DataModelMapping {
   sourceApi: string;
   targetApi: string;
   sourceSchema: string;
   targetSchema: string;
+  confidence: number;
   fieldMappings: Record<string, string>;
+  mappings: FieldMapping[];
+  unmappedSourceFields: string[];
+  unmappedTargetFields: string[];
+}
+
+export type TransformValueType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'date-time' | 'array';
+
+export interface TransformRule {
+  target: string;
+  source?: string | string[];
+  value?: any;
+  join?: string;
+  split?: string;
+  index?: number;
+  flatten?: boolean;
+  valueMap?: Record<string, any>;
+  lookup?: string;
+  type?: TransformValueType;
+  default?: any;
+  required?: boolean;
+}
+
+export interface TransformationSpec {
+  name?: string;
+  sourceApi?: string;
+  sourceSchema?: string;
+  targetApi?: string;
+  targetSchema?: string;
+  rules: TransformRule[];
+  lookups?: Record<string, Record<string, any>>;
+}
+
+export interface TransformIssue {
+  record?: number;
+  target: string;
+  message: string;
+}
+
+export interface TransformResult {
+  output: any;
+  errors: TransformIssue[];
 }
 
 export interface IntegrationValidationResult {
@@ -47,3 +96,47 @@ export interface IntegrationValidationResult {
   warnings: string[];
   suggestions: string[];
 }
+
+export interface EndpointCallArguments {
+  pathParams?: Record<string, any>;
+  query?: Record<string, any>;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
+export interface EndpointCallRequest extends EndpointCallArguments {
+  api: string;
+  operationId?: string;
+  method?: string;
+  path?: string;
+  profile?: string;
+  validationMode?: ValidationMode;
+}
+
+export interface EndpointCallResult {
+  api: string;
+  operationId?: string;
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: any;
+  durationMs: number;
+  validation?: EndpointValidationReport;
+}
+
+export type ValidationMode = 'off' | 'warn' | 'strict';
+
+export interface SchemaViolation {
+  pointer: string;
+  expected: string;
+  actual?: any;
+  message: string;
+}
+
+export interface EndpointValidationReport {
+  mode: ValidationMode;
+  request: SchemaViolation[];
+  response: SchemaViolation[];
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AuthService } from '../../src/services/auth.js';
+
+describe('AuthService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let tokenRequests: URLSearchParams[] = [];
+  let apiRequests: { path: string; authorization?: string }[] = [];
+  let revokeRequests: URLSearchParams[] = [];
+  let tokenLifetime = 3600;
+  let tokenDelayMs = 0;
+  let unauthorizedResponses = 0;
+
+  const createService = () => new AuthService(
+    {
+      tokenUrl: `${baseUrl}/oauth2/token`,
+      clientId: 'default-client',
+      clientSecret: 'default-secret',
+      revokeUrl: `${baseUrl}/oauth2/revoke`,
+      apis: {
+        oneroster: { clientId: 'rostering-client', clientSecret: 'rostering-secret', scope: 'roster.readonly' },
+        qti: { tokenUrl: `${baseUrl}/qti/oauth2/token` },
+      },
+      profiles: {
+        district: { clientId: 'district-client', clientSecret: 'district-secret' },
+      },
+    },
+    {
+      oneroster: `${baseUrl}/api`,
+      powerpath: `${baseUrl}/api`,
+      qti: `${baseUrl}/qti/api`,
+    }
+  );
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        if (req.url!.endsWith('/oauth2/token')) {
+          const form = new URLSearchParams(body);
+          form.set('endpoint', req.url!);
+          tokenRequests.push(form);
+          setTimeout(() => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+              access_token: `token-for-${form.get('client_id')}`,
+              token_type: 'Bearer',
+              expires_in: tokenLifetime,
+            }));
+          }, tokenDelayMs);
+          return;
+        }
+
+        if (req.url === '/oauth2/revoke') {
+          revokeRequests.push(new URLSearchParams(body));
+          res.writeHead(200);
+          res.end();
+          return;
+        }
+
+        apiRequests.push({ path: req.url!, authorization: req.headers.authorization });
+        if (unauthorizedResponses > 0) {
+          unauthorizedResponses--;
+          res.writeHead(401, { 'Content-Type': 'application/json' });
+          res.end('{"error":"invalid_token"}');
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{}');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    tokenRequests = [];
+    apiRequests = [];
+    revokeRequests = [];
+    tokenLifetime = 3600;
+    tokenDelayMs = 0;
+    unauthorizedResponses = 0;
+  });
+
+  it('should pick per-API credentials from the request URL', async () => {
+    const auth = createService();
+
+    await auth.makeAuthenticatedRequest(`${baseUrl}/api/ims/oneroster/rostering/v1p2/users`);
+    await auth.makeAuthenticatedRequest(`${baseUrl}/api/powerpath/lessonPlans`);
+
+    expect(apiRequests.map(request => request.authorization)).toEqual([
+      'Bearer token-for-rostering-client',
+      'Bearer token-for-default-client',
+    ]);
+    expect(tokenRequests[0].get('scope')).toBe('roster.readonly');
+    expect(tokenRequests[1].get('scope')).toBeNull();
+  });
+
+  it('should cache tokens per credential set', async () => {
+    const auth = createService();
+
+    await auth.getAccessToken({ api: 'oneroster' });
+    await auth.getAccessToken({ api: 'oneroster' });
+    await auth.getAccessToken({ profile: 'district' });
+    await auth.getAccessToken();
+
+    expect(tokenRequests.map(form => form.get('client_id'))).toEqual([
+      'rostering-client',
+      'district-client',
+      'default-client',
+    ]);
+    expect(auth.isAuthenticated({ profile: 'district' })).toBe(true);
+
+    auth.clearToken({ profile: 'district' });
+    expect(auth.isAuthenticated({ profile: 'district' })).toBe(false);
+    expect(auth.isAuthenticated({ api: 'oneroster' })).toBe(true);
+  });
+
+  it('should use per-API token URLs with the default client', async () => {
+    const auth = createService();
+
+    await auth.makeAuthenticatedRequest(`${baseUrl}/qti/api/assessment-tests`);
+
+    expect(tokenRequests[0].get('endpoint')).toBe('/qti/oauth2/token');
+    expect(tokenRequests[0].get('client_id')).toBe('default-client');
+  });
+
+  it('should resolve APIs sharing a base URL by path', () => {
+    const auth = createService();
+
+    expect(auth.resolveApiForUrl(`${baseUrl}/api/ims/oneroster/rostering/v1p2/classes`)).toBe('oneroster');
+    expect(auth.resolveApiForUrl(`${baseUrl}/api/powerpath/syllabus`)).toBe('powerpath');
+    expect(auth.resolveApiForUrl(`${baseUrl}/api/unknown`)).toBeUndefined();
+    expect(auth.resolveApiForUrl(`${baseUrl}/qti/api/items`)).toBe('qti');
+  });
+
+  it('should reject unknown profiles', async () => {
+    await expect(createService().getAccessToken({ profile: 'missing' }))
+      .rejects.toThrow('Unknown credential profile: missing');
+  });
+
+  it('should share a single token request between concurrent callers', async () => {
+    const auth = createService();
+    tokenDelayMs = 50;
+
+    const tokens = await Promise.all(Array.from({ length: 5 }, () => auth.getAccessToken()));
+
+    expect(new Set(tokens)).toEqual(new Set(['token-for-default-client']));
+    expect(tokenRequests).toHaveLength(1);
+  });
+
+  it('should refresh and retry once after a 401', async () => {
+    const auth = createService();
+    unauthorizedResponses = 1;
+
+    const response = await auth.makeAuthenticatedRequest(`${baseUrl}/api/powerpath/syllabus`);
+
+    expect(response.status).toBe(200);
+    expect(apiRequests).toHaveLength(2);
+    expect(tokenRequests).toHaveLength(2);
+  });
+
+  it('should retry a 401 when the caller accepts every status', async () => {
+    const auth = createService();
+    unauthorizedResponses = 2;
+
+    const response = await auth.makeAuthenticatedRequest(`${baseUrl}/api/powerpath/syllabus`, {
+      validateStatus: () => true,
+    });
+
+    // A second 401 is returned to the caller rather than retried again
+    expect(response.status).toBe(401);
+    expect(apiRequests).toHaveLength(2);
+  });
+
+  it('should refresh tokens in the background before they expire', async () => {
+    const auth = createService();
+    tokenLifetime = 61; // one second after the expiry buffer
+
+    const first = await auth.getAccessToken();
+    await new Promise(resolve => setTimeout(resolve, 800));
+    const second = await auth.getAccessToken();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(second).toBe(first);
+    expect(tokenRequests).toHaveLength(2);
+  });
+
+  it('should revoke cached tokens and clear them', async () => {
+    const auth = createService();
+    await auth.getAccessToken();
+    await auth.getAccessToken({ api: 'oneroster' });
+
+    await auth.revoke({ api: 'oneroster' });
+    expect(revokeRequests.map(form => form.get('token'))).toEqual(['token-for-rostering-client']);
+    expect(revokeRequests[0].get('token_type_hint')).toBe('access_token');
+    expect(auth.isAuthenticated({ api: 'oneroster' })).toBe(false);
+    expect(auth.isAuthenticated()).toBe(true);
+
+    await auth.revoke();
+    expect(revokeRequests).toHaveLength(2);
+    expect(auth.isAuthenticated()).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals';
+import { CALIPER_CONTEXT, CaliperEventBuilder, CaliperEventValidator } from '../../src/services/caliper-events.js';
+
+const edApp = 'https://app.example.com';
+const learner = 'https://example.com/users/554433';
+const assessment = 'https://example.com/assessments/quiz-1';
+
+describe('CaliperEventBuilder', () => {
+  const builder = new CaliperEventBuilder(edApp);
+  const validator = new CaliperEventValidator();
+
+  it('should build a valid AssessmentEvent with an attempt', () => {
+    const event = builder.assessmentEvent({
+      actorId: learner,
+      action: 'Submitted',
+      assessmentId: assessment,
+      assessmentName: 'Quiz 1',
+      attemptId: `${assessment}/attempts/1`,
+      attemptCount: 1,
+      eventTime: '2024-05-01T10:00:00.000Z',
+    });
+
+    expect(event).toMatchObject({
+      '@context': CALIPER_CONTEXT,
+      type: 'AssessmentEvent',
+      action: 'Submitted',
+      actor: { id: learner, type: 'Person' },
+      object: { id: assessment, type: 'Assessment', name: 'Quiz 1' },
+      generated: { type: 'Attempt', assignee: learner, assignable: assessment, count: 1 },
+      edApp: { id: edApp, type: 'SoftwareApplication' },
+      eventTime: '2024-05-01T10:00:00.000Z',
+    });
+    expect(event.id).toMatch(/^urn:uuid:/);
+    expect(validator.validateEvent(event)).toEqual([]);
+  });
+
+  it('should build valid item, grade, session and navigation events', () => {
+    const events = [
+      builder.assessmentItemEvent({ actorId: learner, action: 'Completed', itemId: `${assessment}/items/3`, assessmentId: assessment, response: ['B'] }),
+      builder.gradeEvent({ actorId: edApp, learnerId: learner, attemptId: `${assessment}/attempts/1`, assessmentId: assessment, scoreGiven: 8, maxScore: 10 }),
+      builder.sessionEvent({ actorId: learner, action: 'LoggedIn' }),
+      builder.sessionEvent({ actorId: learner, action: 'TimedOut', sessionId: 'https://app.example.com/sessions/1' }),
+      builder.navigationEvent({ actorId: learner, objectId: 'https://example.com/lessons/1', objectType: 'WebPage' }),
+    ];
+
+    expect(events.map(event => validator.validateEvent(event))).toEqual([[], [], [], [], []]);
+    expect(events[0].generated).toMatchObject({ type: 'Response', extensions: { value: ['B'] } });
+    expect(events[1]).toMatchObject({
+      action: 'Graded',
+      actor: { type: 'SoftwareApplication' },
+      object: { type: 'Attempt', assignee: { id: learner } },
+      generated: { type: 'Score', scoreGiven: 8, maxScore: 10 },
+    });
+    expect(events[3]).toMatchObject({ actor: { id: edApp, type: 'SoftwareApplication' }, object: { type: 'Session' } });
+  });
+
+  it('should wrap events in an envelope', () => {
+    const event = builder.navigationEvent({ actorId: learner, objectId: 'https://example.com/lessons/1' });
+    const envelope = builder.envelope([event], 'https://example.com/sensors/1', '2024-05-01T10:00:00.000Z');
+
+    expect(envelope).toEqual({ sensor: 'https://example.com/sensors/1', sendTime: '2024-05-01T10:00:00.000Z', dataVersion: CALIPER_CONTEXT, data: [event] });
+    expect(validator.validateEnvelope(envelope)).toEqual([]);
+  });
+});
+
+describe('CaliperEventValidator', () => {
+  const builder = new CaliperEventBuilder();
+  const validator = new CaliperEventValidator();
+
+  it('should reject actions and entity types the profile does not allow', () => {
+    const event = builder.assessmentEvent({ actorId: learner, action: 'Started', assessmentId: assessment });
+    const invalid = { ...event, action: 'Graded', object: { id: assessment, type: 'AssessmentItem' }, eventTime: '2024-05-01' };
+
+    expect(validator.validateEvent(invalid).map(v => v.pointer)).toEqual(['/eventTime', '/action', '/object/type']);
+  });
+
+  it('should apply action-specific actor rules and report missing entities', () => {
+    const timedOut = { ...builder.sessionEvent({ actorId: learner, action: 'LoggedIn', edAppId: edApp }), action: 'TimedOut' };
+    const { actor, ...withoutActor } = builder.navigationEvent({ actorId: learner, objectId: 'not an iri' });
+
+    expect(validator.validateEvent(timedOut)).toEqual([
+      expect.objectContaining({ pointer: '/actor/type', expected: 'one of: SoftwareApplication' }),
+      expect.objectContaining({ pointer: '/object/type', expected: 'one of: Session' }),
+    ]);
+    expect(validator.validateEvent(withoutActor).map(v => v.message)).toEqual(['actor is required', 'object.id must be an IRI']);
+    expect(actor.type).toBe('Person');
+  });
+
+  it('should point into the envelope for invalid events', () => {
+    const event = builder.gradeEvent({ actorId: edApp, attemptId: 'urn:attempt:1', assessmentId: assessment, scoreGiven: 1, maxScore: 2 });
+    const envelope = { sensor: 'sensor', sendTime: 'now', dataVersion: CALIPER_CONTEXT, data: [{ ...event, type: 'ViewEvent' }] };
+
+    expect(validator.validateEnvelope(envelope).map(v => v.pointer)).toEqual(['/sensor', '/sendTime', '/data/0/type']);
+    expect(() => builder.sessionEvent({ actorId: learner, action: 'LoggedIn' })).toThrow('SessionEvent requires edAppId');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { CaliperSender } from '../../src/services/caliper-sender.js';
+import { CaliperEventBuilder } from '../../src/services/caliper-events.js';
+import { SchemaValidationError } from '../../src/services/schema-validator.js';
+import { AuthService } from '../../src/services/auth.js';
+
+describe('CaliperSender', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let envelopes: any[] = [];
+  let failBatch = 0;
+
+  const builder = new CaliperEventBuilder('https://app.example.com');
+  const events = Array.from({ length: 5 }, (_, i) =>
+    builder.navigationEvent({ actorId: 'https://example.com/users/1', objectId: `https://example.com/pages/${i}` })
+  );
+
+  const authService = {
+    makeAuthenticatedRequest: (url: string, options: any) => axios({ ...options, url }),
+  } as unknown as AuthService;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        envelopes.push({ path: req.url, ...JSON.parse(body) });
+        res.writeHead(envelopes.length === failBatch ? 500 : 200, { 'Content-Type': 'application/json' });
+        res.end('{}');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  const sender = () => new CaliperSender(authService, { baseUrl, eventPath: '/caliper/event', sensorId: 'urn:sensor:test', batchSize: 2 });
+
+  it('should send events in envelopes of at most batchSize events', async () => {
+    envelopes = [];
+    failBatch = 0;
+
+    const result = await sender().send(events);
+
+    expect(result).toEqual({
+      sent: 5,
+      failed: 0,
+      batches: [
+        { batch: 1, events: 2, status: 200 },
+        { batch: 2, events: 2, status: 200 },
+        { batch: 3, events: 1, status: 200 },
+      ],
+    });
+    expect(envelopes.map(envelope => envelope.data.length)).toEqual([2, 2, 1]);
+    expect(envelopes[0]).toMatchObject({ path: '/caliper/event', sensor: 'urn:sensor:test', dataVersion: 'http://purl.imsglobal.org/ctx/caliper/v1p2' });
+    expect(envelopes.flatMap(envelope => envelope.data.map((event: any) => event.id))).toEqual(events.map(event => event.id));
+  });
+
+  it('should record failed batches and keep sending the rest', async () => {
+    envelopes = [];
+    failBatch = 2;
+
+    const result = await sender().send(events, { batchSize: 3 });
+
+    expect(result.sent).toBe(3);
+    expect(result.failed).toBe(2);
+    expect(result.batches[1]).toMatchObject({ batch: 2, events: 2, status: 500 });
+  });
+
+  it('should refuse to send invalid events', async () => {
+    envelopes = [];
+
+    await expect(sender().send([{ ...events[0], action: 'Viewed' }])).rejects.toThrow(SchemaValidationError);
+    expect(envelopes).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import path from 'path';
+import { CaseNavigator, CFPackage } from '../../src/services/case-navigator.js';
+
+const fixture = path.resolve(process.cwd(), 'tests/fixtures/case-package.json');
+
+const ccss: CFPackage = {
+  CFDocument: { identifier: 'doc-ccss', uri: 'https://ccss.example.com/uri/doc-ccss', title: 'CCSS Math' },
+  CFItems: [{
+    identifier: 'ccss-3-oa-a-1',
+    uri: 'https://ccss.example.com/uri/ccss-3-oa-a-1',
+    humanCodingScheme: '3.OA.A.1',
+    fullStatement: 'Interpret products of whole numbers.',
+  }],
+  CFAssociations: [],
+};
+
+describe('CaseNavigator', () => {
+  let navigator: CaseNavigator;
+
+  beforeEach(async () => {
+    navigator = new CaseNavigator();
+    await navigator.loadFromFile(fixture);
+  });
+
+  it('should summarize a loaded package', () => {
+    expect(navigator.listFrameworks()).toEqual([{
+      documentId: 'doc-math',
+      title: 'Example Math Standards',
+      uri: 'https://case.example.com/uri/doc-math',
+      items: 6,
+      associations: 7,
+      topLevelItems: 1,
+      associationTypes: { isChildOf: 6, exactMatchOf: 1 },
+    }]);
+  });
+
+  it('should browse children in sequence order and walk back up to the document', () => {
+    expect(navigator.children('3').map(node => node.humanCodingScheme)).toEqual(['3.OA', '3.NBT']);
+    expect(navigator.children('g3-oa').map(node => node.humanCodingScheme)).toEqual(['3.OA.A.1', '3.OA.A.2']);
+    expect(navigator.parents('3.oa.a.2')).toEqual([expect.objectContaining({ identifier: 'g3-oa', itemType: 'Domain' })]);
+    expect(navigator.path('3.OA.A.2').map(node => node.humanCodingScheme || node.statement)).toEqual(['Example Math Standards', '3', '3.OA', '3.OA.A.2']);
+    expect(() => navigator.find('9.ZZ')).toThrow('No CASE item or document matches 9.ZZ');
+  });
+
+  it('should search by coding scheme and by statement', () => {
+    expect(navigator.search('3.OA').map(result => [result.humanCodingScheme, result.score])).toEqual([
+      ['3.OA', 1],
+      ['3.OA.A.1', 0.8],
+      ['3.OA.A.2', 0.8],
+    ]);
+    expect(navigator.search('whole numbers', { field: 'fullStatement' }).map(result => result.humanCodingScheme)).toEqual(['3.OA.A.1', '3.OA.A.2']);
+    expect(navigator.search('interpret', { itemType: 'standard', limit: 1 })).toHaveLength(1);
+  });
+
+  it('should resolve exactMatchOf associations across loaded frameworks', () => {
+    const [unresolved] = navigator.associations('3.OA.A.1', { associationType: 'exactMatchOf' });
+    expect(unresolved.node).toBeUndefined();
+    expect(unresolved.link.title).toBe('CCSS.MATH.3.OA.A.1');
+
+    navigator.load({ CFPackage: ccss });
+    expect(() => navigator.find('3.OA.A.1')).toThrow('3.OA.A.1 matches 2 items in doc-math, doc-ccss; pass documentId');
+
+    const associations = navigator.associations('3.OA.A.1', { documentId: 'doc-math' });
+    expect(associations.map(association => [association.associationType, association.direction, association.node?.documentId])).toEqual([
+      ['isChildOf', 'outgoing', 'doc-math'],
+      ['exactMatchOf', 'outgoing', 'doc-ccss'],
+    ]);
+    expect(navigator.associations('ccss-3-oa-a-1')).toEqual([expect.objectContaining({ direction: 'incoming', node: expect.objectContaining({ identifier: 'g3-oa-a-1' }) })]);
+  });
+
+  it('should export a subtree as a nested tree or a CFPackage', () => {
+    const tree = navigator.exportTree('3', { depth: 1 });
+    expect(tree.children.map(child => [child.humanCodingScheme, child.children.length])).toEqual([['3.OA', 0], ['3.NBT', 0]]);
+
+    const pkg = navigator.exportPackage('3.OA');
+    expect(pkg.CFItems!.map(item => item.humanCodingScheme)).toEqual(['3.OA', '3.OA.A.1', '3.OA.A.2']);
+    expect(pkg.CFAssociations!.map(association => association.identifier).sort()).toEqual(['as-4', 'as-5']);
+  });
+});
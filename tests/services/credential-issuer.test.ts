@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CredentialIssuer } from '../../src/services/credential-issuer.js';
+import { CredentialVerifier } from '../../src/services/credential-verifier.js';
+import { SchemaValidationError } from '../../src/services/schema-validator.js';
+import { sha256 } from '../../src/services/credential-crypto.js';
+
+const fractions = {
+  id: 'https://school.example.com/achievements/fractions',
+  name: 'Fractions Mastery',
+  description: 'Understands fractions as numbers on the number line.',
+  criteria: 'Score at least 80% on the grade 3 fractions unit assessment.',
+  achievementType: 'Competency',
+  resultDescription: [{ id: 'urn:uuid:0c4e9a7d-1f2b-4a36-8d1e-5b9f3a6c2e01', type: ['ResultDescription'], name: 'Unit score', resultType: 'Percent' }],
+};
+
+const multiplication = {
+  id: 'https://school.example.com/achievements/multiplication',
+  type: ['Achievement'],
+  name: 'Multiplication Facts',
+  description: 'Fluently multiplies within 100.',
+  criteria: { narrative: 'Complete the multiplication facts checkpoint.' },
+};
+
+describe('CredentialIssuer', () => {
+  const verifier = new CredentialVerifier();
+  let dir: string;
+  let edKeyPath: string;
+  let ecKeyPath: string;
+  let ecPublicJwk: JsonWebKey;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'credential-issuer-'));
+    edKeyPath = path.join(dir, 'issuer.pem');
+    fs.writeFileSync(edKeyPath, crypto.generateKeyPairSync('ed25519').privateKey.export({ format: 'pem', type: 'pkcs8' }));
+
+    const ec = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    ecKeyPath = path.join(dir, 'issuer.jwk.json');
+    fs.writeFileSync(ecKeyPath, JSON.stringify(ec.privateKey.export({ format: 'jwk' })));
+    ecPublicJwk = ec.publicKey.export({ format: 'jwk' }) as JsonWebKey;
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should issue an eddsa-jcs-2022 badge from a did:key issuer to a hashed email recipient', async () => {
+    const issuer = new CredentialIssuer(verifier, { signingKeyPath: edKeyPath, name: 'Springfield Elementary' });
+    const issued = await issuer.issueBadge({
+      achievement: fractions,
+      recipient: { identifier: 'Jane.Doe@example.com', salt: 'pepper' },
+      results: [{ resultDescription: 'urn:uuid:0c4e9a7d-1f2b-4a36-8d1e-5b9f3a6c2e01', value: '92' }],
+      validFrom: '2025-09-15T12:00:00Z',
+    });
+    const credential = issued.credential as Record<string, any>;
+
+    expect(issued).toMatchObject({ kind: 'OpenBadgeCredential', encoding: 'data-integrity', verification: { verified: true } });
+    expect(credential.issuer).toEqual({ id: expect.stringMatching(/^did:key:z6Mk/), type: ['Profile'], name: 'Springfield Elementary' });
+    expect(credential.proof).toMatchObject({ type: 'DataIntegrityProof', cryptosuite: 'eddsa-jcs-2022', verificationMethod: issued.verificationMethod.id });
+    expect(credential.credentialSubject.achievement).toMatchObject({ type: ['Achievement'], criteria: { narrative: fractions.criteria } });
+    expect(credential.credentialSubject.identifier).toEqual([{
+      type: 'IdentityObject',
+      hashed: true,
+      identityHash: `sha256$${sha256('jane.doe@example.com' + 'pepper').toString('hex')}`,
+      identityType: 'emailAddress',
+      salt: 'pepper',
+    }]);
+
+    // did:key issuers verify without any supplied keys
+    expect(verifier.verify(credential).verified).toBe(true);
+  });
+
+  it('should issue an ES256 JWT-VC for a configured did:web issuer', async () => {
+    const issuer = new CredentialIssuer(verifier, {
+      signingKeyPath: ecKeyPath,
+      id: 'did:web:school.example.com',
+      verificationMethod: 'did:web:school.example.com#key-1',
+    });
+    const issued = await issuer.issueBadge({ achievement: multiplication, recipient: 'did:example:student-1', encoding: 'jwt', validUntil: '2099-01-01T00:00:00Z' });
+
+    expect(typeof issued.credential).toBe('string');
+    expect(issued.verificationMethod).toEqual({ id: 'did:web:school.example.com#key-1', controller: 'did:web:school.example.com', publicKeyJwk: ecPublicJwk });
+    expect(verifier.inspect(issued.credential).jwt).toMatchObject({ alg: 'ES256', kid: 'did:web:school.example.com#key-1', iss: 'did:web:school.example.com', sub: 'did:example:student-1' });
+
+    const didDocuments = [{ id: 'did:web:school.example.com', verificationMethod: [issued.verificationMethod] }];
+    expect(verifier.verify(issued.credential, { didDocuments }).verified).toBe(true);
+    expect(verifier.verify(issued.credential).verified).toBe(false);
+  });
+
+  it('should refuse to sign invalid credentials or sign without a usable key', async () => {
+    const issuer = new CredentialIssuer(verifier, { signingKeyPath: edKeyPath });
+    const { criteria: _criteria, ...incomplete } = fractions;
+
+    const error = await issuer.issueBadge({ achievement: incomplete, recipient: 'did:example:student-1' }).catch(caught => caught);
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.violations).toContainEqual(expect.objectContaining({ pointer: '/credentialSubject/achievement/criteria' }));
+
+    await expect(issuer.issueBadge({ achievement: fractions, recipient: {} })).rejects.toThrow('Recipient needs an id');
+    await expect(new CredentialIssuer(verifier, {}).issueBadge({ achievement: fractions, recipient: 'did:example:student-1' }))
+      .rejects.toThrow('No signing key is configured');
+    await expect(new CredentialIssuer(verifier, { signingKeyPath: ecKeyPath }).issueBadge({ achievement: fractions, recipient: 'did:example:student-1' }))
+      .rejects.toThrow('CREDENTIAL_ISSUER_ID is required unless the signing key is an Ed25519 key');
+    await expect(new CredentialIssuer(verifier, { signingKeyPath: ecKeyPath, id: 'did:web:school.example.com', verificationMethod: 'did:web:school.example.com#key-1' })
+      .issueBadge({ achievement: fractions, recipient: 'did:example:student-1' })).rejects.toThrow('needs an Ed25519 signing key');
+  });
+
+  it('should bundle achievements into a signed CLR', async () => {
+    const issuer = new CredentialIssuer(verifier, { signingKeyPath: edKeyPath });
+    const earlier = await issuer.issueBadge({ achievement: multiplication, recipient: 'did:example:student-1', encoding: 'jwt' });
+
+    const issued = await issuer.issueClr({
+      name: 'Grade 3 Math Record',
+      recipient: 'did:example:student-1',
+      achievements: [fractions],
+      credentials: [earlier.credential],
+      associations: [{ associationType: 'isPeerOf', sourceId: fractions.id, targetId: multiplication.id }],
+    });
+    const clr = issued.credential as Record<string, any>;
+
+    expect(issued).toMatchObject({ kind: 'ClrCredential', verification: { verified: true } });
+    expect(clr['@context']).toEqual([
+      'https://www.w3.org/ns/credentials/v2',
+      'https://purl.imsglobal.org/spec/clr/v2p0/context-2.0.1.json',
+      'https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json',
+    ]);
+    expect(clr.credentialSubject.achievement.map((achievement: any) => achievement.id)).toEqual([fractions.id, multiplication.id]);
+    expect(clr.credentialSubject.verifiableCredential).toHaveLength(2);
+    expect(typeof clr.credentialSubject.verifiableCredential[1]).toBe('string');
+    expect(verifier.verify(clr).nested!.map(result => result.verified)).toEqual([true, true]);
+
+    const written = await issuer.save(issued, path.join(dir, 'out', 'clr.json'));
+    expect(JSON.parse(fs.readFileSync(written, 'utf-8')).id).toBe(issued.id);
+  });
+});
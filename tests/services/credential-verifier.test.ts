@@ -0,0 +1,166 @@
+import { describe, it, expect } from '@jest/globals';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CredentialVerifier } from '../../src/services/credential-verifier.js';
+import { DidDocument, ed25519Multibase, jcsProofHash, multibaseEncode, signJws } from '../../src/services/credential-crypto.js';
+
+const fixture = path.resolve(process.cwd(), 'tests/fixtures/open-badge-credential.json');
+const badge = () => JSON.parse(fs.readFileSync(fixture, 'utf-8'));
+const now = new Date('2026-01-01T00:00:00Z');
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+const keyId = 'did:web:school.example.com#key-1';
+const didDocument: DidDocument = {
+  id: 'did:web:school.example.com',
+  verificationMethod: [{ id: keyId, controller: 'did:web:school.example.com', publicKeyMultibase: ed25519Multibase(publicKey) }],
+};
+
+const sign = (credential: Record<string, any>, verificationMethod = keyId) => {
+  const proof: Record<string, any> = {
+    type: 'DataIntegrityProof',
+    cryptosuite: 'eddsa-jcs-2022',
+    created: '2025-09-15T12:00:00Z',
+    verificationMethod,
+    proofPurpose: 'assertionMethod',
+  };
+  proof.proofValue = multibaseEncode(crypto.sign(null, jcsProofHash(credential, proof), privateKey));
+  return { ...credential, proof };
+};
+
+const statuses = (checks: { check: string; status: string }[]) => Object.fromEntries(checks.map(check => [check.check, check.status]));
+
+describe('CredentialVerifier', () => {
+  const verifier = new CredentialVerifier();
+
+  it('should summarize an OpenBadgeCredential', () => {
+    expect(verifier.inspect(sign(badge()))).toEqual({
+      format: 'json-ld',
+      kind: 'OpenBadgeCredential',
+      id: 'urn:uuid:8f1d6c1e-3b5a-4d5e-9a0b-2f6f0c7d1a11',
+      name: 'Fractions Mastery',
+      issuer: { id: 'did:web:school.example.com', name: 'Springfield Elementary' },
+      subject: { id: 'did:example:student-1' },
+      validFrom: '2025-09-15T12:00:00Z',
+      validUntil: '2027-09-15T12:00:00Z',
+      achievements: [{
+        id: 'https://school.example.com/achievements/fractions',
+        name: 'Fractions Mastery',
+        achievementType: 'Competency',
+        criteria: 'Score at least 80% on the grade 3 fractions unit assessment.',
+        alignments: ['3.NF.A.2'],
+        results: [{ resultDescription: 'urn:uuid:0c4e9a7d-1f2b-4a36-8d1e-5b9f3a6c2e01', value: '92', status: undefined }],
+      }],
+      proofs: [{
+        type: 'DataIntegrityProof',
+        cryptosuite: 'eddsa-jcs-2022',
+        verificationMethod: keyId,
+        proofPurpose: 'assertionMethod',
+        created: '2025-09-15T12:00:00Z',
+      }],
+    });
+    expect(() => verifier.inspect({ type: ['VerifiableCredential'] })).toThrow('Not an OpenBadgeCredential or ClrCredential (type: VerifiableCredential)');
+  });
+
+  it('should verify an eddsa-jcs-2022 proof with a supplied DID document and reject tampering', () => {
+    const signed = sign(badge());
+    const result = verifier.verify(signed, { didDocuments: [didDocument], now });
+
+    expect(result.verified).toBe(true);
+    expect(statuses(result.checks)).toEqual({ format: 'passed', context: 'passed', schema: 'passed', validity: 'passed', achievement: 'passed', proof: 'passed' });
+
+    const tampered = { ...signed, name: 'Calculus Mastery' };
+    expect(verifier.verify(tampered, { didDocuments: [didDocument], now }).checks).toContainEqual(expect.objectContaining({
+      check: 'proof',
+      status: 'failed',
+      message: `eddsa-jcs-2022 signature does not verify with ${keyId}`,
+    }));
+    expect(verifier.verify(signed, { now }).checks).toContainEqual(expect.objectContaining({
+      check: 'proof',
+      message: `No key or DID document was supplied for ${keyId}`,
+    }));
+  });
+
+  it('should verify a JWT-VC signed by a did:key issuer', () => {
+    const did = `did:key:${ed25519Multibase(publicKey)}`;
+    const { issuer: _issuer, ...vc } = badge();
+    const token = signJws(
+      { alg: 'EdDSA', typ: 'JWT', kid: `${did}#${ed25519Multibase(publicKey)}` },
+      { iss: did, jti: vc.id, sub: 'did:example:student-1', nbf: 1757937600, exp: 1821009600, vc },
+      privateKey
+    );
+
+    const result = verifier.verify(token, { now });
+    expect(result).toMatchObject({ verified: true, format: 'jwt', issuer: did });
+    expect(verifier.inspect(token).jwt).toEqual({
+      alg: 'EdDSA',
+      kid: `${did}#${ed25519Multibase(publicKey)}`,
+      iss: did,
+      sub: 'did:example:student-1',
+      nbf: '2025-09-15T12:00:00.000Z',
+      exp: '2027-09-15T12:00:00.000Z',
+    });
+
+    const other = crypto.generateKeyPairSync('ed25519');
+    const forged = signJws({ alg: 'EdDSA', kid: `${did}#${ed25519Multibase(publicKey)}` }, { iss: did, vc }, other.privateKey);
+    expect(verifier.verify(forged, { now }).checks).toContainEqual(expect.objectContaining({ check: 'proof', status: 'failed' }));
+  });
+
+  it('should report schema, date and achievement structure problems', () => {
+    const credential = badge();
+    delete credential.credentialSubject.achievement.criteria;
+    credential.credentialSubject.result[0].resultDescription = 'urn:uuid:unknown';
+    credential.validUntil = '2025-12-01T00:00:00Z';
+
+    const result = verifier.verify(sign(credential), { didDocuments: [didDocument], now });
+
+    expect(result.verified).toBe(false);
+    expect(result.checks.find(check => check.check === 'schema')!.details).toContainEqual(expect.objectContaining({
+      pointer: '/credentialSubject/achievement/criteria',
+      message: 'credential.credentialSubject.achievement.criteria is required',
+    }));
+    expect(result.checks).toContainEqual({ check: 'validity', status: 'failed', message: 'Expired at 2025-12-01T00:00:00Z' });
+    expect(result.checks).toContainEqual(expect.objectContaining({
+      check: 'achievement',
+      status: 'failed',
+      message: 'credentialSubject.result[0].resultDescription urn:uuid:unknown does not match a resultDescription of the achievement',
+    }));
+  });
+
+  it('should verify the credentials nested in a CLR and check its associations', () => {
+    const nested = sign(badge());
+    const clr = {
+      '@context': ['https://www.w3.org/ns/credentials/v2', 'https://purl.imsglobal.org/spec/clr/v2p0/context-2.0.1.json'],
+      id: 'urn:uuid:3d0c9b2a-7e41-4f5a-b8c6-1a2b3c4d5e6f',
+      type: ['VerifiableCredential', 'ClrCredential'],
+      name: 'Grade 3 Math Record',
+      issuer: { id: 'did:web:school.example.com', type: ['Profile'], name: 'Springfield Elementary' },
+      validFrom: '2025-12-20T00:00:00Z',
+      credentialSubject: {
+        id: 'did:example:student-1',
+        type: ['ClrSubject'],
+        verifiableCredential: [nested, { ...nested, validFrom: '2026-06-01T00:00:00Z' }],
+        association: [{
+          type: 'Association',
+          associationType: 'isChildOf',
+          sourceId: 'https://school.example.com/achievements/fractions',
+          targetId: 'https://school.example.com/achievements/grade-3-math',
+        }],
+      },
+    };
+
+    const result = verifier.verify(sign(clr), { didDocuments: [didDocument], now });
+
+    expect(result.kind).toBe('ClrCredential');
+    expect(result.nested!.map(nestedResult => nestedResult.verified)).toEqual([true, false]);
+    expect(result.checks).toContainEqual({ check: 'nested', status: 'failed', message: '1 of 2 nested credentials verified' });
+    expect(result.checks).toContainEqual(expect.objectContaining({
+      check: 'achievement',
+      message: 'credentialSubject.association[0].targetId https://school.example.com/achievements/grade-3-math does not match an achievement in the CLR',
+    }));
+    expect(verifier.inspect(clr).credentials).toHaveLength(2);
+
+    const rdfc = { ...nested, proof: { ...nested.proof, cryptosuite: 'eddsa-rdfc-2022' } };
+    expect(verifier.verify(rdfc, { didDocuments: [didDocument], now }).checks).toContainEqual(expect.objectContaining({ check: 'proof', status: 'unsupported' }));
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from '@jest/globals';
+import { DataTransformer } from '../../src/services/data-transformer.js';
+import { TransformationSpec } from '../../src/types/index.js';
+
+const user = {
+  sourcedId: 'u-1',
+  status: 'active',
+  givenName: 'Ada',
+  familyName: 'Lovelace',
+  grades: '09, 10',
+  enabledUser: 'true',
+  dateLastModified: '2024-03-01T12:30:00Z',
+  roles: [
+    { roleType: 'primary', role: 'student', org: { sourcedId: 'org-1' } },
+    { roleType: 'secondary', role: 'aide', org: { sourcedId: 'org-2' } },
+  ],
+};
+
+// Roster user → assessment candidate
+const spec: TransformationSpec = {
+  name: 'User → Candidate',
+  rules: [
+    { source: 'sourcedId', target: 'identifier', required: true },
+    { source: ['givenName', 'familyName'], join: ' ', target: 'profile.displayName' },
+    { source: 'status', target: 'active', valueMap: { active: true, tobedeleted: false } },
+    { source: 'grades', split: ',', target: 'gradeLevels', type: 'integer' },
+    { source: 'enabledUser', target: 'enabled', type: 'boolean' },
+    { source: 'dateLastModified', target: 'updatedOn', type: 'date' },
+    { source: 'roles[].role', target: 'memberships[].kind', lookup: 'roles' },
+    { source: 'roles[].org.sourcedId', target: 'memberships[].schoolId' },
+    { source: 'locale', target: 'language', default: 'en-US' },
+    { value: 'timeback', target: 'origin' },
+  ],
+  lookups: {
+    roles: { student: 'learner', teacher: 'instructor', '*': 'other' },
+  },
+};
+
+describe('DataTransformer', () => {
+  const transformer = new DataTransformer();
+
+  it('should apply renames, value maps, coercion, defaults, concat/split and lookups', () => {
+    const result = transformer.transform(spec, user);
+
+    expect(result.errors).toEqual([]);
+    expect(result.output).toEqual({
+      identifier: 'u-1',
+      profile: { displayName: 'Ada Lovelace' },
+      active: true,
+      gradeLevels: [9, 10],
+      enabled: true,
+      updatedOn: '2024-03-01',
+      memberships: [
+        { kind: 'learner', schoolId: 'org-1' },
+        { kind: 'other', schoolId: 'org-2' },
+      ],
+      language: 'en-US',
+      origin: 'timeback',
+    });
+  });
+
+  it('should transform every record of an array and report failures per record', () => {
+    const result = transformer.transform(spec, [user, { ...user, sourcedId: undefined, grades: 'K', status: 'archived' }]);
+
+    expect(result.output).toHaveLength(2);
+    expect(result.output[1]).not.toHaveProperty('identifier');
+    expect(result.errors).toEqual([
+      { record: 1, target: 'identifier', message: 'No value for required field identifier' },
+      { record: 1, target: 'active', message: 'No entry for "archived" in value map for active' },
+      { record: 1, target: 'gradeLevels', message: 'Cannot convert "K" to integer' },
+    ]);
+  });
+
+  it('should flatten nested arrays and pick array elements by index', () => {
+    const input = { classes: [{ students: ['a', 'b'] }, { students: ['c'] }] };
+
+    const result = transformer.transform({
+      rules: [
+        { source: 'classes[].students', target: 'learners', flatten: true },
+        { source: 'classes[0].students[1]', target: 'first.second' },
+        { source: ['nickname', 'classes[1].students[0]'], target: 'fallback' },
+      ],
+    }, input);
+
+    expect(result.output).toEqual({ learners: ['a', 'b', 'c'], first: { second: 'b' }, fallback: 'c' });
+  });
+
+  it('should build rename rules from a suggested mapping', () => {
+    const spec = DataTransformer.fromMapping({
+      sourceApi: 'oneroster',
+      targetApi: 'powerpath',
+      sourceSchema: 'User',
+      targetSchema: 'Learner',
+      confidence: 0.9,
+      fieldMappings: { sourcedId: 'identifier', 'roles[].role': 'roles[].kind' },
+      mappings: [],
+      unmappedSourceFields: [],
+      unmappedTargetFields: [],
+    });
+
+    expect(spec.targetSchema).toBe('Learner');
+    expect(transformer.transform(spec, user).output).toEqual({ identifier: 'u-1', roles: [{ kind: 'student' }, { kind: 'aide' }] });
+  });
+
+  it('should reject specs that reference unknown lookup tables or invalid paths', () => {
+    expect(() => transformer.transform({ rules: [{ source: 'role', target: 'kind', lookup: 'missing' }] }, user))
+      .toThrow('Unknown lookup table missing in rule for kind');
+    expect(() => transformer.transform({ rules: [{ source: 'roles[x]', target: 'kind' }] }, user))
+      .toThrow('Invalid path: roles[x]');
+    expect(() => transformer.transform({ rules: [{ target: 'kind' }] }, user))
+      .toThrow('Rule for kind needs a source, value or default');
+  });
+
+  it('should refuse paths that would write to or read from Object.prototype', () => {
+    expect(() => transformer.transform({ rules: [{ target: '__proto__.polluted', value: true }] }, user))
+      .toThrow('Invalid path: __proto__.polluted (__proto__ is not allowed)');
+    expect(() => transformer.transform({ rules: [{ target: 'roles[].constructor.prototype.polluted', value: true }] }, user))
+      .toThrow('constructor is not allowed');
+    expect(() => transformer.transform({ rules: [{ source: 'constructor.name', target: 'kind' }] }, user))
+      .toThrow('Invalid path: constructor.name');
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
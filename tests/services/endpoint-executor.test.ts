@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import path from 'path';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { EndpointExecutor } from '../../src/services/endpoint-executor.js';
+import { AuthService } from '../../src/services/auth.js';
+
+const specPath = path.resolve(process.cwd(), 'tests/fixtures/oneroster-openapi.yaml');
+
+describe('EndpointExecutor', () => {
+  let server: http.Server;
+  let parser: OpenAPIParser;
+  let executor: EndpointExecutor;
+  const received: { method?: string; url?: string; body: string }[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ method: req.method, url: req.url, body });
+        res.writeHead(200, { 'Content-Type': 'application/json', 'X-Total-Count': '1' });
+        res.end(JSON.stringify({ users: [{ sourcedId: 'u1' }] }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    parser = new OpenAPIParser();
+    await parser.loadFromFile('oneroster', specPath, `http://127.0.0.1:${port}`);
+
+    const authService = {
+      makeAuthenticatedRequest: (url: string, options: any) => axios({ ...options, url }),
+    } as unknown as AuthService;
+    executor = new EndpointExecutor(parser, authService);
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('should merge path-level parameters into each operation', () => {
+    const endpoint = parser.findEndpoint('oneroster', { operationId: 'getUser' });
+    expect(endpoint?.parameters?.map(p => p.name)).toEqual(['sourcedId']);
+  });
+
+  it('should report missing path parameters and invalid query values', () => {
+    const endpoint = parser.findEndpoint('oneroster', { operationId: 'getUser' })!;
+    expect(executor.validateArguments(endpoint, {})).toContain('missing required path parameter "sourcedId"');
+
+    const listEndpoint = parser.findEndpoint('oneroster', { operationId: 'getAllUsers' })!;
+    expect(executor.validateArguments(listEndpoint, { query: { limit: 'ten' } }))
+      .toEqual(['query parameter "limit" must be of type integer']);
+    expect(executor.validateArguments(listEndpoint, { query: { limit: '10' } })).toEqual([]);
+  });
+
+  it('should require a body when the operation declares one', () => {
+    const endpoint = parser.findEndpoint('oneroster', { method: 'post', path: '/ims/oneroster/rostering/v1p2/users' })!;
+    expect(executor.validateArguments(endpoint, {})).toEqual(['request body is required']);
+  });
+
+  it('should execute an operation against the configured base URL', async () => {
+    const result = await executor.execute({
+      api: 'oneroster',
+      operationId: 'getUser',
+      pathParams: { sourcedId: 'user 1' },
+    });
+
+    expect(result.status).toBe(200);
+    expect(result.headers['x-total-count']).toBe('1');
+    expect(result.body.users).toHaveLength(1);
+    expect(received[received.length - 1]).toMatchObject({
+      method: 'GET',
+      url: '/ims/oneroster/rostering/v1p2/users/user%201',
+    });
+  });
+
+  it('should block invalid request bodies in strict mode', async () => {
+    const requestsBefore = received.length;
+
+    await expect(executor.execute({
+      api: 'oneroster',
+      operationId: 'createUser',
+      body: { user: { sourcedId: 'u1' } },
+      validationMode: 'strict',
+    })).rejects.toThrow('Invalid arguments for oneroster.createUser: body.user.status is required');
+    expect(received).toHaveLength(requestsBefore);
+  });
+
+  it('should annotate the result with violations in warn mode', async () => {
+    const result = await executor.execute({
+      api: 'oneroster',
+      operationId: 'getUser',
+      pathParams: { sourcedId: 'u1' },
+      query: { unexpected: 'ignored' },
+      validationMode: 'warn',
+    });
+
+    // The stub answers with a collection, so the single-user schema is not met
+    expect(result.validation?.mode).toBe('warn');
+    expect(result.validation?.request).toEqual([]);
+    expect(result.validation?.response[0]).toMatchObject({ pointer: '/user', expected: 'required property' });
+  });
+
+  it('should reject operations that are not in the spec', async () => {
+    await expect(executor.execute({ api: 'oneroster', operationId: 'missing' }))
+      .rejects.toThrow('Operation not found in oneroster API: missing');
+  });
+});
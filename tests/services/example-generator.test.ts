@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import path from 'path';
+import { OpenAPIV3 } from 'openapi-types';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { ExampleGenerator } from '../../src/services/example-generator.js';
+import { SchemaValidator } from '../../src/services/schema-validator.js';
+import { ParsedSchema } from '../../src/types/index.js';
+
+const specPath = path.resolve(process.cwd(), 'tests/fixtures/oneroster-openapi.yaml');
+
+describe('ExampleGenerator', () => {
+  const generator = new ExampleGenerator();
+  const validator = new SchemaValidator();
+  let parser: OpenAPIParser;
+  let userSchema: ParsedSchema;
+
+  beforeAll(async () => {
+    parser = new OpenAPIParser();
+    await parser.loadFromFile('oneroster', specPath, 'https://oneroster.example.com');
+    userSchema = parser.getSchemas('oneroster').find(schema => schema.name === 'User')!;
+  });
+
+  it('should produce schema-valid examples for every seed', () => {
+    for (let seed = 1; seed <= 25; seed++) {
+      const example = generator.generateForSchema(userSchema, { seed });
+      expect(validator.validate(userSchema.schema, example, 'response')).toEqual([]);
+    }
+  });
+
+  it('should be deterministic for a seed and vary between seeds', () => {
+    const first = generator.generateForSchema(userSchema, { seed: 7 });
+
+    expect(generator.generateForSchema(userSchema, { seed: 7 })).toEqual(first);
+    expect(generator.generateForSchema(userSchema, { seed: 8 })).not.toEqual(first);
+  });
+
+  it('should derive realistic values from formats and property names', () => {
+    const example = generator.generateForSchema(userSchema, { seed: 3 });
+
+    expect(example.email).toBe(`${example.givenName}.${example.familyName}@example.edu`.toLowerCase());
+    expect(example.dateLastModified).toMatch(/^2024-\d{2}-\d{2}T/);
+    expect(['active', 'tobedeleted']).toContain(example.status);
+  });
+
+  it('should honour numeric, length, array and read-only constraints', () => {
+    const schema: OpenAPIV3.SchemaObject = {
+      type: 'object',
+      required: ['id', 'score', 'code', 'tags'],
+      properties: {
+        id: { type: 'string', format: 'uuid', readOnly: true },
+        score: { type: 'number', minimum: 0, maximum: 1, exclusiveMaximum: true },
+        attempts: { type: 'integer', minimum: 3, maximum: 5 },
+        code: { type: 'string', minLength: 12, maxLength: 12 },
+        tags: { type: 'array', minItems: 2, maxItems: 3, uniqueItems: true, items: { type: 'string', enum: ['a', 'b', 'c'] } },
+        secret: { type: 'string', writeOnly: true },
+      },
+    };
+
+    for (let seed = 1; seed <= 10; seed++) {
+      const request = generator.generate(schema, { seed, direction: 'request' });
+      const response = generator.generate(schema, { seed, direction: 'response' });
+
+      expect(request.id).toBeUndefined();
+      expect(response.secret).toBeUndefined();
+      expect(validator.validate(schema, request, 'request')).toEqual([]);
+      expect(validator.validate(schema, response, 'response')).toEqual([]);
+    }
+  });
+
+  it('should only emit required properties when optional ones are excluded', () => {
+    const example = generator.generateForSchema(userSchema, { includeOptional: false });
+
+    expect(Object.keys(example).sort()).toEqual(['familyName', 'givenName', 'roles', 'sourcedId', 'status']);
+  });
+
+  it('should generate request bodies and responses for operations', () => {
+    const createUser = parser.findEndpoint('oneroster', { operationId: 'createUser' })!;
+    const body = generator.generateRequestBody(createUser, { seed: 2 });
+    const response = generator.generateResponse(createUser);
+
+    expect(validator.validateRequest(createUser, { body })).toEqual([]);
+    expect(response?.status).toBe('201');
+    expect(validator.validateResponse(createUser, 201, response?.example)).toEqual([]);
+  });
+
+  it('should include example payloads in generated API documentation', () => {
+    const doc = parser.generateAPIDocumentation('oneroster');
+
+    expect(doc).toContain('Example request body:');
+    expect(doc).toContain('"givenName"');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from '@jest/globals';
+import path from 'path';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { MappingEngine } from '../../src/services/mapping-engine.js';
+import { ParsedSchema } from '../../src/types/index.js';
+
+const learner: ParsedSchema = {
+  name: 'Learner',
+  api: 'powerpath',
+  schema: {
+    type: 'object',
+    required: ['identifier', 'firstName'],
+    properties: {
+      identifier: { type: 'string', description: 'Unique identifier of the learner' },
+      firstName: { type: 'string' },
+      lastName: { type: 'string' },
+      emailAddress: { type: 'string', format: 'email' },
+      lastModified: { type: 'string', format: 'date-time' },
+      xp: { type: 'integer' },
+    },
+  },
+};
+
+describe('MappingEngine', () => {
+  const engine = new MappingEngine();
+
+  it('should map 1EdTech synonyms with confidence and rationale', async () => {
+    const parser = new OpenAPIParser();
+    await parser.loadFromFile('oneroster', path.resolve(process.cwd(), 'tests/fixtures/oneroster-openapi.yaml'), 'https://example.com');
+    const user = parser.getSchemas('oneroster').find(schema => schema.name === 'User')!;
+
+    const mapping = engine.mapSchemas(user, learner);
+
+    expect(mapping.fieldMappings).toMatchObject({
+      sourcedId: 'identifier',
+      givenName: 'firstName',
+      familyName: 'lastName',
+      email: 'emailAddress',
+      dateLastModified: 'lastModified',
+    });
+    const sourcedId = mapping.mappings.find(m => m.sourceField === 'sourcedId')!;
+    expect(sourcedId.confidence).toBeGreaterThan(0.9);
+    expect(sourcedId.rationale).toContain('1EdTech synonym (sourcedId ↔ identifier)');
+    expect(mapping.mappings.find(m => m.sourceField === 'email')!.rationale).toContain('formats match (email)');
+    expect(mapping.unmappedTargetFields).toEqual(['xp']);
+    expect(mapping.unmappedSourceFields).toContain('roles[].role');
+  });
+
+  it('should rank field pairs by confidence and pair each field at most once', () => {
+    const source: ParsedSchema = {
+      name: 'Score',
+      api: 'qti',
+      schema: {
+        type: 'object',
+        properties: {
+          scoreValue: { type: 'number' },
+          score: { type: 'number' },
+        },
+      },
+    };
+    const target: ParsedSchema = {
+      name: 'Result',
+      api: 'oneroster',
+      schema: { type: 'object', properties: { score: { type: 'number' } } },
+    };
+
+    const mapping = engine.mapSchemas(source, target);
+
+    expect(mapping.mappings).toEqual([
+      expect.objectContaining({ sourceField: 'score', targetField: 'score', confidence: 1 }),
+    ]);
+    expect(mapping.unmappedSourceFields).toEqual(['scoreValue']);
+  });
+
+  it('should penalise incompatible types and drop pairs below the minimum confidence', () => {
+    const source: ParsedSchema = { name: 'A', api: 'qti', schema: { type: 'object', properties: { grades: { type: 'array', items: { type: 'string' } } } } };
+    const target: ParsedSchema = { name: 'B', api: 'case', schema: { type: 'object', properties: { gradeLevel: { type: 'integer' } } } };
+
+    expect(engine.mapSchemas(source, target).mappings).toEqual([]);
+    const loose = engine.mapSchemas(source, target, { minConfidence: 0 });
+    expect(loose.mappings[0]).toMatchObject({ sourceField: 'grades', targetField: 'gradeLevel' });
+    expect(loose.mappings[0].confidence).toBeLessThan(0.5);
+    expect(loose.mappings[0].rationale).toContain('types are incompatible (array<string> → integer)');
+  });
+
+  it('should pick the best target schema for each source and rank schema pairs', () => {
+    const course: ParsedSchema = {
+      name: 'Course',
+      api: 'powerpath',
+      schema: { type: 'object', properties: { id: { type: 'string' }, name: { type: 'string' }, courseCode: { type: 'string' } } },
+    };
+    const klass: ParsedSchema = {
+      name: 'Class',
+      api: 'oneroster',
+      schema: { type: 'object', properties: { sourcedId: { type: 'string' }, title: { type: 'string' }, classCode: { type: 'string' } } },
+    };
+
+    const suggestions = engine.suggestMappings([course, learner], [klass, { ...learner, api: 'oneroster', name: 'User' }], { maxMappings: 1 });
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ sourceSchema: 'Learner', targetSchema: 'User' });
+    expect(engine.suggestMappings([course], [klass])[0].fieldMappings).toEqual({ id: 'sourcedId', name: 'title', courseCode: 'classCode' });
+  });
+});
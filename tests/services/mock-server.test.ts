@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import path from 'path';
+import axios from 'axios';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { MockTimeBackServer } from '../../src/services/mock-server.js';
+import { AuthService } from '../../src/services/auth.js';
+import { EndpointExecutor } from '../../src/services/endpoint-executor.js';
+import { SchemaValidator, SchemaValidationError } from '../../src/services/schema-validator.js';
+
+const specPath = path.resolve(process.cwd(), 'tests/fixtures/oneroster-openapi.yaml');
+
+const user = {
+  sourcedId: 'u1',
+  status: 'active',
+  givenName: 'Ada',
+  familyName: 'Lovelace',
+  roles: [{ roleType: 'primary', role: 'student' }],
+};
+
+describe('MockTimeBackServer', () => {
+  let mockServer: MockTimeBackServer;
+  let parser: OpenAPIParser;
+  let executor: EndpointExecutor;
+  let url: string;
+
+  beforeAll(async () => {
+    const specParser = new OpenAPIParser();
+    await specParser.loadFromFile('oneroster', specPath, 'http://unused');
+    mockServer = new MockTimeBackServer(specParser, {
+      port: 0,
+      clientCredentials: { clientId: 'mock-client', clientSecret: 'mock-secret' },
+    });
+    url = await mockServer.start();
+
+    parser = new OpenAPIParser();
+    await parser.loadFromFile('oneroster', specPath, url);
+    const authService = new AuthService(
+      { tokenUrl: `${url}/oauth2/token`, clientId: 'mock-client', clientSecret: 'mock-secret', apis: {}, profiles: {} },
+      { oneroster: url }
+    );
+    executor = new EndpointExecutor(parser, authService, new SchemaValidator(), 'strict');
+  });
+
+  afterAll(async () => {
+    await mockServer.stop();
+  });
+
+  beforeEach(() => {
+    mockServer.reset();
+  });
+
+  it('should keep CRUD state for collection resources through an authenticated client', async () => {
+    const created = await executor.execute({ api: 'oneroster', operationId: 'createUser', body: { user } });
+    expect(created.status).toBe(201);
+    expect(created.body).toEqual({ user });
+    expect(created.validation?.response).toEqual([]);
+
+    const fetched = await executor.execute({ api: 'oneroster', operationId: 'getUser', pathParams: { sourcedId: 'u1' } });
+    expect(fetched.body.user.givenName).toBe('Ada');
+
+    const listed = await executor.execute({ api: 'oneroster', operationId: 'getAllUsers', query: { limit: 10 } });
+    expect(listed.body.users).toHaveLength(1);
+    expect(listed.headers['x-total-count']).toBe('1');
+
+    const deleted = await executor.execute({ api: 'oneroster', operationId: 'deleteUser', pathParams: { sourcedId: 'u1' } });
+    expect(deleted.status).toBe(204);
+
+    const missing = await executor.execute({ api: 'oneroster', operationId: 'getUser', pathParams: { sourcedId: 'u1' } });
+    expect(missing.status).toBe(404);
+  });
+
+  it('should serve schema-valid examples for operations without state', async () => {
+    const result = await executor.execute({ api: 'oneroster', operationId: 'getAllClasses' });
+
+    expect(result.status).toBe(200);
+    expect(result.body.classes.length).toBeGreaterThan(0);
+    expect(typeof result.body.classes[0].title).toBe('string');
+    expect(result.validation?.response).toEqual([]);
+  });
+
+  it('should reject invalid requests and missing tokens', async () => {
+    const invalid = await axios.post(`${url}/oauth2/token`, new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: 'mock-client',
+      client_secret: 'mock-secret',
+    })).then(({ data }) => axios.post(
+      `${url}/ims/oneroster/rostering/v1p2/users`,
+      { user: { ...user, status: 'deleted' } },
+      { headers: { Authorization: `Bearer ${data.access_token}` }, validateStatus: () => true }
+    ));
+    expect(invalid.status).toBe(400);
+    expect(invalid.data.violations[0].pointer).toBe('/body/user/status');
+
+    const unauthorized = await axios.get(`${url}/ims/oneroster/rostering/v1p2/users`, { validateStatus: () => true });
+    expect(unauthorized.status).toBe(401);
+
+    const badClient = await axios.post(`${url}/oauth2/token`, new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: 'mock-client',
+      client_secret: 'wrong',
+    }), { validateStatus: () => true });
+    expect(badClient.status).toBe(401);
+    expect(badClient.data.error).toBe('invalid_client');
+  });
+
+  it('should let strict client-side validation stop bad calls before they reach the server', async () => {
+    await expect(executor.execute({ api: 'oneroster', operationId: 'createUser', body: {} }))
+      .rejects.toBeInstanceOf(SchemaValidationError);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { OpenAPIV3 } from 'openapi-types';
+import { OneRosterCsvService } from '../../src/services/oneroster-csv.js';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { AuthService } from '../../src/services/auth.js';
+import { readZip, writeZip } from '../../src/utils/zip.js';
+
+const fixtureDir = path.resolve(process.cwd(), 'tests/fixtures/oneroster-csv');
+const fixtureFiles = () => Object.fromEntries(fs.readdirSync(fixtureDir).map(name => [name, fs.readFileSync(path.join(fixtureDir, name), 'utf-8')]));
+
+const orgSpec: OpenAPIV3.Document = {
+  openapi: '3.0.0',
+  info: { title: 'OneRoster', version: '1.2' },
+  paths: {
+    '/ims/oneroster/rostering/v1p2/orgs/{sourcedId}': {
+      get: {
+        parameters: [{ name: 'sourcedId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': {
+            description: 'OK',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    org: {
+                      type: 'object',
+                      required: ['sourcedId', 'status', 'dateLastModified', 'name', 'type'],
+                      properties: {
+                        sourcedId: { type: 'string' },
+                        status: { type: 'string', enum: ['active', 'tobedeleted'] },
+                        dateLastModified: { type: 'string', format: 'date-time' },
+                        name: { type: 'string' },
+                        type: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+describe('OneRosterCsvService', () => {
+  const parser = new OpenAPIParser();
+  parser.loadFromDocument('oneroster', orgSpec, 'https://api.example.com');
+  const service = new OneRosterCsvService(parser, undefined, undefined, 'https://api.example.com');
+
+  it('should load and validate a clean bundle from a directory', async () => {
+    const bundle = await service.loadBundle(fixtureDir);
+
+    expect(Object.keys(bundle.files)).toEqual(expect.arrayContaining(['orgs', 'users', 'classes', 'enrollments', 'roles']));
+    expect(bundle.files.classes!.rows[0]).toMatchObject({ title: 'Math 3, Section A', periods: '1,2' });
+    expect(service.validate(bundle)).toEqual([]);
+  });
+
+  it('should report manifest, header, enum, duplicate and reference problems', () => {
+    const files = fixtureFiles();
+    files['manifest.csv'] = files['manifest.csv'].replace('oneroster.version,1.2', 'oneroster.version,1.1').replace('file.courses,bulk', 'file.courses,absent');
+    files['orgs.csv'] = files['orgs.csv'].replace(',school,', ',campus,').replace('identifier,', 'code,');
+    files['enrollments.csv'] += 'enr-1,,,class-missing,school-1,student-9,student,maybe,,\n';
+    delete files['courses.csv'];
+
+    const issues = service.validate(service.readBundle(files));
+    const messages = issues.map(issue => `${issue.severity} ${issue.file}${issue.row ? `:${issue.row}` : ''} ${issue.message}`);
+
+    expect(messages).toEqual(expect.arrayContaining([
+      'error manifest.csv oneroster.version must be 1.2 (found 1.1)',
+      'error orgs.csv:1 Unknown column code',
+      'warning orgs.csv:1 Missing column identifier',
+      'error orgs.csv:3 type must be one of department, school, district, local, state, national (found campus)',
+      'error enrollments.csv:4 Duplicate sourcedId enr-1',
+      'error enrollments.csv:4 classSourcedId class-missing does not match a sourcedId in classes.csv',
+      'error enrollments.csv:4 userSourcedId student-9 does not match a sourcedId in users.csv',
+      'error enrollments.csv:4 primary must be true or false (found maybe)',
+    ]));
+    // courses.csv is absent, so classes cannot be checked against it
+    expect(messages.some(message => message.includes('courseSourcedId'))).toBe(false);
+  });
+
+  it('should convert rows to REST resources and validate them against the loaded schemas', async () => {
+    const data = service.toRest(await service.loadBundle(fixtureDir), '2025-09-01T00:00:00Z');
+
+    expect(data.classes[0]).toEqual({
+      sourcedId: 'class-math-a',
+      status: 'active',
+      dateLastModified: '2025-09-01T00:00:00Z',
+      title: 'Math 3, Section A',
+      grades: ['03'],
+      course: { href: 'https://api.example.com/ims/oneroster/rostering/v1p2/courses/course-math', sourcedId: 'course-math', type: 'course' },
+      classCode: 'MATH3-A',
+      classType: 'scheduled',
+      location: 'Room 12',
+      school: { href: 'https://api.example.com/ims/oneroster/rostering/v1p2/orgs/school-1', sourcedId: 'school-1', type: 'org' },
+      terms: [{ href: 'https://api.example.com/ims/oneroster/rostering/v1p2/academicSessions/fall-2025', sourcedId: 'fall-2025', type: 'academicSession' }],
+      subjects: ['Mathematics'],
+      periods: ['1', '2'],
+    });
+    expect(data.users[1]).toMatchObject({
+      enabledUser: true,
+      userIds: [{ type: 'LDAP', identifier: 'bs001' }, { type: 'SIS', identifier: '10001' }],
+      roles: [{ roleType: 'primary', role: 'student', org: { sourcedId: 'school-1', type: 'org' } }],
+    });
+    expect(data.enrollments[1]).toMatchObject({ role: 'student', primary: false, user: { sourcedId: 'student-1' } });
+
+    delete data.orgs[1].name;
+    const issues = service.validateRest(data);
+    expect(issues).toContainEqual(expect.objectContaining({ severity: 'error', file: 'orgs.csv', row: 3 }));
+    expect(issues).toContainEqual(expect.objectContaining({ severity: 'warning', file: 'users.csv', message: 'No user schema in the loaded OneRoster spec; records were not validated' }));
+  });
+
+  it('should export REST resources back to a CSV bundle that reads the same', async () => {
+    const data = service.toRest(await service.loadBundle(fixtureDir), '2025-09-01T00:00:00Z');
+    const files = service.fromRest(data);
+    const output = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'oneroster-csv-')), 'bundle.zip');
+    await service.saveBundle(files, output);
+
+    const archive = readZip(fs.readFileSync(output));
+    expect([...archive.keys()]).toEqual(expect.arrayContaining(['manifest.csv', 'users.csv', 'roles.csv']));
+    expect(archive.get('classes.csv')!.toString('utf-8')).toContain('"Math 3, Section A",03,course-math');
+
+    const reloaded = await service.loadBundle(output);
+    expect(service.validate(reloaded)).toEqual([]);
+    expect(service.toRest(reloaded, '2025-09-01T00:00:00Z')).toEqual(data);
+    fs.rmSync(path.dirname(output), { recursive: true, force: true });
+  });
+
+  it('should refuse zip bundles that inflate past their limit or declared size', () => {
+    const archive = writeZip({ 'users.csv': 'sourcedId\n'.repeat(100000) });
+    expect(archive.length).toBeLessThan(10000);
+    expect(readZip(archive).get('users.csv')!.length).toBe(1000000);
+    expect(() => readZip(archive, 500000)).toThrow('Zip archive is too large: more than 500000 bytes uncompressed');
+
+    // A central directory that understates the size cannot be used to inflate unbounded data
+    const understated = Buffer.from(archive);
+    understated.writeUInt32LE(100, understated.lastIndexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+    expect(() => readZip(understated)).toThrow('Corrupt zip archive: users.csv inflates past its declared size of 100 bytes');
+  });
+
+  describe('pushing deltas', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const requests: { method?: string; url?: string; body?: any }[] = [];
+
+    const authService = {
+      makeAuthenticatedRequest: (url: string, options: any) => axios({ ...options, url }),
+    } as unknown as AuthService;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+          requests.push({ method: req.method, url: req.url, ...(body && { body: JSON.parse(body) }) });
+          res.writeHead(req.url?.endsWith('/enr-2') ? 404 : 200, { 'Content-Type': 'application/json' });
+          res.end('{}');
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    it('should PUT changed records and DELETE removed ones, continuing past failures', async () => {
+      const pusher = new OneRosterCsvService(parser, authService, undefined, baseUrl);
+      const bundle = pusher.readBundle({
+        'manifest.csv': 'propertyName,value\nmanifest.version,1.0\noneroster.version,1.2\nfile.orgs,bulk\nfile.enrollments,delta\n',
+        'orgs.csv': 'sourcedId,status,dateLastModified,name,type,identifier,parentSourcedId\nschool-1,,,Springfield Elementary,school,,\n',
+        'enrollments.csv': [
+          'sourcedId,status,dateLastModified,classSourcedId,schoolSourcedId,userSourcedId,role,primary,beginDate,endDate',
+          'enr-3,active,2025-09-02T08:00:00Z,class-math-a,school-1,student-2,student,false,,',
+          'enr-2,tobedeleted,2025-09-02T08:00:00Z,class-math-a,school-1,student-1,student,false,,',
+        ].join('\n'),
+      });
+      expect(pusher.validate(bundle).filter(issue => issue.severity === 'error')).toEqual([]);
+
+      const operations = pusher.planPush(bundle, pusher.toRest(bundle));
+      expect(operations.map(op => `${op.method} ${op.collection}/${op.sourcedId}`)).toEqual(['PUT enrollments/enr-3', 'DELETE enrollments/enr-2']);
+
+      const result = await pusher.push(operations);
+
+      expect(result).toMatchObject({ succeeded: 1, failed: 1 });
+      expect(result.operations[1]).toMatchObject({ method: 'DELETE', sourcedId: 'enr-2', status: 404 });
+      expect(requests[0]).toMatchObject({
+        method: 'PUT',
+        url: '/ims/oneroster/rostering/v1p2/enrollments/enr-3',
+        body: { enrollment: { sourcedId: 'enr-3', status: 'active', role: 'student', class: { sourcedId: 'class-math-a' } } },
+      });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { OneRosterPaginator } from '../../src/services/oneroster-paginator.js';
+import { AuthService } from '../../src/services/auth.js';
+
+const users = Array.from({ length: 25 }, (_, i) => ({ sourcedId: `user-${i + 1}` }));
+
+describe('OneRosterPaginator', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: string[] = [];
+
+  const authService = {
+    makeAuthenticatedRequest: (url: string, options: any) => axios({ ...options, url }),
+  } as unknown as AuthService;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push(url.pathname + url.search);
+      const limit = Number(url.searchParams.get('limit') || 100);
+      const offset = Number(url.searchParams.get('offset') || 0);
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+      if (url.pathname === '/redirected') {
+        headers.Link = `<https://collector.example.com/users?offset=${offset + limit}>; rel="next"`;
+      } else if (url.pathname === '/linked') {
+        // Link-header pagination without a total count
+        if (offset + limit < users.length) {
+          headers.Link = `</linked?limit=${limit}&offset=${offset + limit}>; rel="next"`;
+        }
+      } else {
+        headers['X-Total-Count'] = String(users.length);
+      }
+
+      res.writeHead(200, headers);
+      res.end(JSON.stringify({ users: users.slice(offset, offset + limit) }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('should fetch every page using X-Total-Count', async () => {
+    requests = [];
+    const paginator = new OneRosterPaginator(authService, { pageSize: 10, maxRecords: 1000 });
+    const progress: number[] = [];
+
+    const result = await paginator.fetchAll(`${baseUrl}/users`, {
+      query: { filter: "role='student'" },
+      onProgress: p => progress.push(p.fetched),
+    });
+
+    expect(result.collectionKey).toBe('users');
+    expect(result.records).toHaveLength(25);
+    expect(result.totalCount).toBe(25);
+    expect(result.pagesFetched).toBe(3);
+    expect(result.truncated).toBe(false);
+    expect(progress).toEqual([10, 20, 25]);
+    expect(requests[0]).toContain('filter=role%3D%27student%27');
+  });
+
+  it('should follow Link headers when no total is returned', async () => {
+    const paginator = new OneRosterPaginator(authService, { pageSize: 10, maxRecords: 1000 });
+    const result = await paginator.fetchAll(`${baseUrl}/linked`);
+
+    expect(result.records.map(user => user.sourcedId)).toEqual(users.map(user => user.sourcedId));
+    expect(result.totalCount).toBeUndefined();
+  });
+
+  it('should refuse to follow a next link to another origin', async () => {
+    requests = [];
+    const paginator = new OneRosterPaginator(authService, { pageSize: 10, maxRecords: 1000 });
+
+    await expect(paginator.fetchAll(`${baseUrl}/redirected`)).rejects.toThrow('Refusing to follow OneRoster next link to https://collector.example.com');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should only join collection paths that stay on the OneRoster host', () => {
+    const paginator = new OneRosterPaginator(authService, { pageSize: 10, maxRecords: 1000 });
+
+    expect(paginator.collectionUrl('https://api.example.com/', '/ims/oneroster/rostering/v1p2/users'))
+      .toBe('https://api.example.com/ims/oneroster/rostering/v1p2/users');
+    expect(() => paginator.collectionUrl('https://api.example.com', '@evil.example/x'))
+      .toThrow('Invalid OneRoster collection path @evil.example/x; it must be a path under https://api.example.com');
+    expect(() => paginator.collectionUrl('https://api.example.com', '.evil.example/x')).toThrow('Invalid OneRoster collection path');
+  });
+
+  it('should stop after the requested number of records', async () => {
+    const paginator = new OneRosterPaginator(authService, { pageSize: 10, maxRecords: 1000 });
+    const result = await paginator.fetchAll(`${baseUrl}/users`, { maxRecords: 15 });
+
+    expect(result.records).toHaveLength(15);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should never exceed the safety cap', async () => {
+    const paginator = new OneRosterPaginator(authService, { pageSize: 10, maxRecords: 12 });
+    const result = await paginator.fetchAll(`${baseUrl}/users`, { maxRecords: 500 });
+
+    expect(result.records).toHaveLength(12);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should stream pages one at a time', async () => {
+    const paginator = new OneRosterPaginator(authService, { pageSize: 20, maxRecords: 1000 });
+    const pageSizes: number[] = [];
+
+    for await (const page of paginator.pages(`${baseUrl}/users`)) {
+      pageSizes.push(page.records.length);
+    }
+
+    expect(pageSizes).toEqual([20, 5]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import path from 'path';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { OneRosterQueryBuilder } from '../../src/services/oneroster-query-builder.js';
+
+const specPath = path.resolve(process.cwd(), 'tests/fixtures/oneroster-openapi.yaml');
+
+describe('OneRosterQueryBuilder', () => {
+  let builder: OneRosterQueryBuilder;
+
+  beforeAll(async () => {
+    const parser = new OpenAPIParser();
+    await parser.loadFromFile('oneroster', specPath, 'https://oneroster.example.com');
+    builder = new OneRosterQueryBuilder(parser);
+  });
+
+  it('should render predicates, sort and fields', () => {
+    const result = builder.build({
+      filter: [
+        { field: 'status', operator: '=', value: 'active' },
+        { field: 'roles.role', operator: '=', value: 'student' },
+      ],
+      sort: 'familyName',
+      orderBy: 'desc',
+      fields: ['sourcedId', 'givenName'],
+      limit: 50,
+    }, 'User');
+
+    expect(result.errors).toEqual([]);
+    expect(result.params).toEqual({
+      filter: "status='active' AND roles.role='student'",
+      sort: 'familyName',
+      orderBy: 'desc',
+      fields: 'sourcedId,givenName',
+      limit: '50',
+    });
+    expect(result.queryString).toContain('fields=sourcedId%2CgivenName');
+  });
+
+  it('should escape quotes in values', () => {
+    const result = builder.build({
+      filter: { logic: 'OR', predicates: [
+        { field: 'familyName', operator: '=', value: "O'Brien" },
+        { field: 'familyName', operator: '~', value: 'Smith' },
+      ] },
+    }, 'User');
+
+    expect(result.params.filter).toBe("familyName='O''Brien' OR familyName~'Smith'");
+  });
+
+  it('should report unknown fields and disallowed enum values', () => {
+    const result = builder.build({
+      filter: [
+        { field: 'grade', operator: '=', value: '5' },
+        { field: 'status', operator: '=', value: 'deleted' },
+        { field: 'enabledUser', operator: '~', value: 'true' },
+      ],
+      sort: 'nickname',
+    }, 'User');
+
+    expect(result.errors).toEqual([
+      'Unknown filter field "grade"',
+      'Value "deleted" is not allowed for status; expected one of: active, tobedeleted',
+      'Operator "~" requires a string field, but enabledUser is boolean',
+      'Unknown sort field "nickname"',
+    ]);
+  });
+
+  it('should parse filters back into predicates', () => {
+    const rendered = builder.renderFilter({
+      logic: 'AND',
+      predicates: [
+        { field: 'familyName', operator: '!=', value: "O'Brien" },
+        { field: 'dateLastModified', operator: '>=', value: '2024-01-01' },
+      ],
+    });
+
+    expect(builder.parseFilter(rendered)).toEqual({
+      logic: 'AND',
+      predicates: [
+        { field: 'familyName', operator: '!=', value: "O'Brien" },
+        { field: 'dateLastModified', operator: '>=', value: '2024-01-01' },
+      ],
+    });
+  });
+
+  it('should explain filters and reject malformed ones', () => {
+    const explanation = builder.explainFilter("roles.role='student' and status='active'", 'User');
+    expect(explanation.errors).toEqual([]);
+    expect(explanation.explanation).toBe('Records where roles.role equals "student", and status equals "active"');
+
+    expect(() => builder.parseFilter("role='student' AND status='active' OR role='teacher'"))
+      .toThrow('cannot mix AND and OR');
+    expect(() => builder.parseFilter("role='student")).toThrow('unterminated quoted value');
+    expect(() => builder.parseFilter("role 'student'")).toThrow('expected one of');
+  });
+});
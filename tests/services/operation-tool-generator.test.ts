@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import path from 'path';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { OperationToolGenerator } from '../../src/services/operation-tool-generator.js';
+
+const specPath = path.resolve(process.cwd(), 'tests/fixtures/oneroster-openapi.yaml');
+
+describe('OperationToolGenerator', () => {
+  let parser: OpenAPIParser;
+  const generator = new OperationToolGenerator();
+
+  beforeAll(async () => {
+    parser = new OpenAPIParser();
+    await parser.loadFromFile('oneroster', specPath, 'https://oneroster.example.com');
+  });
+
+  it('should generate one tool per operation named after the operationId', () => {
+    const tools = generator.generateTools(parser.getEndpoints());
+    expect(tools.map(tool => tool.name)).toEqual([
+      'oneroster.getAllUsers',
+      'oneroster.createUser',
+      'oneroster.getUser',
+      'oneroster.deleteUser',
+      'oneroster.getAllClasses',
+    ]);
+  });
+
+  it('should filter tools by api and tag', () => {
+    expect(generator.generateTools(parser.getEndpoints(), { tags: ['classes'] }).map(tool => tool.name))
+      .toEqual(['oneroster.getAllClasses']);
+    expect(generator.generateTools(parser.getEndpoints(), { apis: ['qti'] })).toHaveLength(0);
+  });
+
+  it('should derive the input schema from parameters and request body', () => {
+    const [getUser] = generator.generateTools(parser.getEndpoints(), { tags: ['Users'] })
+      .filter(tool => tool.name === 'oneroster.getUser');
+    expect(getUser.inputSchema.required).toEqual(['sourcedId']);
+    expect(getUser.inputSchema.properties.sourcedId.type).toBe('string');
+
+    const [createUser] = generator.generateTools(parser.getEndpoints())
+      .filter(tool => tool.name === 'oneroster.createUser');
+    expect(createUser.inputSchema.required).toEqual(['body']);
+    expect(createUser.inputSchema.properties.body.properties.user.properties.status.enum)
+      .toEqual(['active', 'tobedeleted']);
+  });
+
+  it('should map tool arguments back to an endpoint call', () => {
+    const [getAllUsers] = generator.generateTools(parser.getEndpoints())
+      .filter(tool => tool.name === 'oneroster.getAllUsers');
+
+    expect(generator.toCallRequest(getAllUsers, { limit: 10, filter: "role='student'" })).toMatchObject({
+      api: 'oneroster',
+      method: 'GET',
+      path: '/ims/oneroster/rostering/v1p2/users',
+      query: { limit: 10, filter: "role='student'" },
+    });
+    expect(() => generator.toCallRequest(getAllUsers, { unknown: true })).toThrow('Unknown argument "unknown"');
+  });
+});
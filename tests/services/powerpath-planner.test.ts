@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { OpenAPIV3 } from 'openapi-types';
+import { PowerPathPlanner } from '../../src/services/powerpath-planner.js';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { EndpointExecutor } from '../../src/services/endpoint-executor.js';
+import { AuthService } from '../../src/services/auth.js';
+
+const fixture = (name: string) => JSON.parse(fs.readFileSync(path.resolve(process.cwd(), 'tests/fixtures', name), 'utf-8'));
+const syllabus = fixture('powerpath-syllabus.json');
+const progress = fixture('powerpath-progress.json');
+
+const jsonResponse = (schema: OpenAPIV3.SchemaObject): OpenAPIV3.ResponsesObject => ({
+  '200': { description: 'OK', content: { 'application/json': { schema } } },
+});
+
+const powerPathSpec: OpenAPIV3.Document = {
+  openapi: '3.0.0',
+  info: { title: 'PowerPath', version: '1.0' },
+  paths: {
+    '/powerpath/syllabus/{courseSourcedId}': {
+      get: {
+        operationId: 'getCourseSyllabus',
+        parameters: [{ name: 'courseSourcedId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: jsonResponse({
+          type: 'object',
+          required: ['syllabus'],
+          properties: {
+            syllabus: {
+              type: 'object',
+              required: ['course', 'subComponents'],
+              properties: { course: { type: 'object' }, subComponents: { type: 'array', items: { type: 'object' } } },
+            },
+          },
+        }),
+      },
+    },
+    '/powerpath/lessonPlans/getCourseProgress/{courseId}/student/{studentId}': {
+      get: {
+        operationId: 'getCourseProgress',
+        parameters: [
+          { name: 'courseId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'studentId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: jsonResponse({
+          type: 'object',
+          required: ['lineItems'],
+          properties: { lineItems: { type: 'array', items: { type: 'object', required: ['title'] } } },
+        }),
+      },
+    },
+  },
+};
+
+describe('PowerPathPlanner', () => {
+  const parser = new OpenAPIParser();
+  const planner = new PowerPathPlanner(parser);
+
+  beforeAll(() => {
+    parser.loadFromDocument('powerpath', powerPathSpec, 'https://api.example.com');
+  });
+
+  it('should normalize the syllabus into sorted units, sub-components and lessons', async () => {
+    const { course, warnings } = await planner.loadCourse('course-math-3', { data: syllabus });
+    const summary = planner.summarize(course);
+
+    expect(warnings).toEqual([]);
+    expect(summary).toMatchObject({ courseId: 'course-math-3', title: 'Math 3', units: 3, components: 4, lessons: 8, xp: 100 });
+    expect(summary.tree.map(unit => unit.id)).toEqual(['unit-1', 'unit-2', 'unit-3']);
+    expect(summary.tree[0].lessons.map((lesson: any) => lesson.id)).toEqual(['cr-1-1', 'cr-1-2', 'cr-1-3']);
+    expect(summary.tree[2]).toMatchObject({ prerequisites: ['unit-2', 'unit-1'], prerequisiteCriteria: 'ANY', unlockDate: '2026-03-01T00:00:00Z' });
+
+    const { warnings: invalid } = await planner.loadCourse('course-math-3', { data: { syllabus: { subComponents: [] } } });
+    expect(invalid).toEqual(['syllabus: response.syllabus.course is required']);
+  });
+
+  it('should place the student and list the remaining mastery path with locks', async () => {
+    const { course } = await planner.loadCourse('course-math-3', { data: syllabus });
+    const { results } = await planner.loadProgress('course-math-3', 'student-1', { data: progress });
+    const plan = planner.plan(course, results, { startDate: '2026-01-10', lessonsPerWeek: 3 });
+
+    expect(results).toContainEqual({ id: 'cr-1-1', scope: 'lesson', score: 95, scoreStatus: 'fully graded', scoreDate: '2026-01-06T15:00:00Z' });
+    expect(plan.totals).toEqual({ lessons: 8, completed: 1, remaining: 7, percentComplete: 12.5, xpRemaining: 90 });
+    expect(plan.placement).toEqual({ componentId: 'unit-1', title: 'Unit 1: Multiplication', path: ['Unit 1: Multiplication'], lessonsCompleted: 1, lessons: 3 });
+    expect(plan.nextLesson).toMatchObject({ id: 'cr-1-2', status: 'in-progress', score: 70, locked: false });
+    expect(plan.remaining.map(lesson => lesson.id)).toEqual(['cr-1-2', 'cr-1-3', 'cr-2-1', 'cr-2-2', 'cr-2-3', 'cr-3-1', 'cr-3-2']);
+    expect(plan.remaining[2]).toMatchObject({ unit: 'Unit 2: Division > Division Facts', locked: true, blockedBy: ['unit-1'] });
+    expect(plan.remaining[5].blockedBy).toEqual(['unit-2', 'unit-1', 'unlockDate 2026-03-01T00:00:00Z']);
+    expect(plan.projection).toEqual({ lessonsPerWeek: 3, weeks: 3, completionDate: '2026-01-31' });
+
+    // A component-level test-out masters every lesson below it
+    const testedOut = planner.plan(course, [...results, { id: 'unit-1', scope: 'component', score: 90, scoreStatus: 'fully graded' }], { startDate: '2026-01-10' });
+    expect(testedOut.nextLesson?.id).toBe('cr-2-1');
+  });
+
+  it('should simulate how path changes affect completion', async () => {
+    const { course } = await planner.loadCourse('course-math-3', { data: syllabus });
+    const { results } = await planner.loadProgress('course-math-3', 'student-1', { data: progress });
+    const options = { startDate: '2026-01-10', lessonsPerWeek: 3 };
+
+    const testOut = planner.simulate(course, results, [{ type: 'master', id: 'cr-1-2' }, { type: 'skip', id: 'cr-1-3' }], options);
+    expect(testOut.applied).toEqual(['Mastered 1 lesson in cr-1-2', 'Skipped 1 lesson in cr-1-3']);
+    expect(testOut.impact).toEqual({
+      remainingLessons: -2,
+      weeks: -1,
+      completionDate: { baseline: '2026-01-31', scenario: '2026-01-24' },
+      nextLesson: { baseline: 'cr-1-2', scenario: 'cr-2-1' },
+      unlocked: ['unit-2-facts', 'unit-2'],
+      locked: [],
+    });
+    expect(testOut.scenario.remaining.find(lesson => lesson.id === 'cr-3-1')!.blockedBy).toEqual(['unlockDate 2026-03-01T00:00:00Z']);
+
+    const restructure = planner.simulate(course, results, [
+      { type: 'remove', id: 'unit-2' },
+      { type: 'add', componentId: 'unit-1', lesson: { id: 'cr-1-4', title: 'Review', xp: 5 }, position: 2 },
+      { type: 'move', id: 'cr-3-2', componentId: 'unit-1' },
+      { type: 'pace', lessonsPerWeek: 5 },
+    ], options);
+    expect(restructure.scenario.remaining.map(lesson => lesson.id)).toEqual(['cr-1-2', 'cr-1-4', 'cr-1-3', 'cr-3-2', 'cr-3-1']);
+    expect(restructure.scenario.projection).toEqual({ lessonsPerWeek: 5, weeks: 1, completionDate: '2026-01-17' });
+    expect(restructure.impact.unlocked).toEqual([]);
+    // The original course is left untouched
+    expect(planner.plan(course, results, options).remaining).toHaveLength(7);
+
+    expect(() => planner.simulate(course, results, [{ type: 'skip', id: 'cr-9' }])).toThrow('No lesson or component cr-9 in course course-math-3');
+  });
+
+  describe('reading from the PowerPath API', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const urls: string[] = [];
+
+    const authService = {
+      makeAuthenticatedRequest: (url: string, options: any) => axios({ ...options, url }),
+    } as unknown as AuthService;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        urls.push(req.url!);
+        const body = req.url!.includes('/syllabus/') ? syllabus : req.url!.includes('/student/') ? { lineItems: [{ componentResourceSourcedId: 'cr-1-1', results: [] }] } : undefined;
+        res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body ?? { error: 'not found' }));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    it('should call the spec operations and report response schema violations', async () => {
+      const apiParser = new OpenAPIParser();
+      apiParser.loadFromDocument('powerpath', powerPathSpec, baseUrl);
+      const apiPlanner = new PowerPathPlanner(apiParser, new EndpointExecutor(apiParser, authService, undefined, 'strict'));
+
+      const { course } = await apiPlanner.loadCourse('course-math-3');
+      const { results, warnings } = await apiPlanner.loadProgress('course math 3', 'student-1');
+
+      expect(course.components).toHaveLength(3);
+      expect(results).toEqual([]);
+      expect(warnings).toEqual(['progress: response.lineItems[0].title is required']);
+      expect(urls).toEqual([
+        '/powerpath/syllabus/course-math-3',
+        '/powerpath/lessonPlans/getCourseProgress/course%20math%203/student/student-1',
+      ]);
+
+      await expect(new PowerPathPlanner(new OpenAPIParser()).loadCourse('course-math-3')).rejects.toThrow('No OpenAPI specification loaded for powerpath');
+    });
+  });
+});
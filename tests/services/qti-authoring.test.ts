@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import { QtiItemAuthor } from '../../src/services/qti-authoring.js';
+import { QtiParser } from '../../src/services/qti-parser.js';
+
+describe('QtiItemAuthor', () => {
+  const author = new QtiItemAuthor();
+  const parser = new QtiParser();
+
+  it('should produce a valid choice item with match_correct processing', () => {
+    const { xml, issues } = author.generate({
+      identifier: 'fractions-1',
+      title: 'Fractions',
+      type: 'choice',
+      stimulus: 'Pizza is cut into 8 slices.\n\nSam eats 2 < 3 slices.',
+      prompt: 'Which fractions equal 1/2?',
+      choices: [{ text: '2/4', correct: true }, { text: '3/8' }, { text: '4/8', correct: true }],
+    });
+
+    expect(issues).toEqual([]);
+    expect(xml).toContain('<qti-choice-interaction response-identifier="RESPONSE" shuffle="false" max-choices="0">');
+    expect(xml).toContain('<p>Sam eats 2 &lt; 3 slices.</p>');
+    const item = parser.parseItem(xml);
+    expect(item.responseDeclarations[0]).toMatchObject({ cardinality: 'multiple', baseType: 'identifier', correctResponse: ['A', 'C'] });
+    expect(item.interactions[0].choices.map(choice => choice.text)).toEqual(['2/4', '3/8', '4/8']);
+    expect(item.responseProcessing?.templateName).toBe('match_correct');
+    expect(item.outcomeDeclarations.map(outcome => outcome.identifier)).toEqual(['SCORE', 'MAXSCORE']);
+  });
+
+  it('should put a text-entry blank where the prompt has underscores and map alternatives', () => {
+    const { xml } = author.generate({
+      identifier: 'capital-fr',
+      title: 'Capital of France',
+      type: 'text-entry',
+      prompt: 'The capital of France is ___.',
+      correctResponse: 'Paris',
+      alternatives: { 'Paris, France': 0.5 },
+      points: 2,
+    });
+
+    expect(xml).toContain('<p>The capital of France is <qti-text-entry-interaction response-identifier="RESPONSE"/>.</p>');
+    const item = parser.parseItem(xml);
+    expect(item.responseDeclarations[0].mapping!.entries).toEqual([
+      { mapKey: 'Paris', mappedValue: 2, caseSensitive: false },
+      { mapKey: 'Paris, France', mappedValue: 0.5, caseSensitive: false },
+    ]);
+    expect(item.responseProcessing?.templateName).toBe('map_response');
+    expect(item.outcomeDeclarations[1].defaultValue).toEqual(['2']);
+  });
+
+  it('should produce an extended-text item without response processing', () => {
+    const { xml } = author.generate({
+      identifier: 'essay-1',
+      title: 'Essay',
+      type: 'extended-text',
+      prompt: 'Explain photosynthesis.',
+      expectedLines: 10,
+      language: 'en',
+    });
+
+    const item = parser.parseItem(xml);
+    expect(item.interactions[0]).toMatchObject({ type: 'extendedText', prompt: 'Explain photosynthesis.', attributes: { 'expected-lines': '10' } });
+    expect(item.responseProcessing).toBeUndefined();
+    expect(parser.validateItem(item)).toEqual([]);
+  });
+
+  it('should reject descriptions that cannot become valid items', () => {
+    expect(() => author.generate({ identifier: 'q', title: 'Q', type: 'choice', prompt: 'Pick', choices: [{ text: 'a' }, { text: 'b' }] }))
+      .toThrow('Choice item q needs at least one correct choice');
+    expect(() => author.generate({ identifier: 'q', title: 'Q', type: 'text-entry', prompt: 'Type' }))
+      .toThrow('Text entry item q needs exactly one correctResponse');
+    expect(() => author.generate({ identifier: '1q', title: 'Q', type: 'extended-text', prompt: 'Write' }))
+      .toThrow('Generated QTI item 1q is invalid: Item identifier 1q is not a valid QTI identifier');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { QtiParser } from '../../src/services/qti-parser.js';
+
+const choiceItemXml = fs.readFileSync(path.resolve(process.cwd(), 'tests/fixtures/qti-choice-item.xml'), 'utf-8');
+
+const testXml = `<qti-assessment-test identifier="unit-1" title="Unit 1">
+  <qti-outcome-declaration identifier="SCORE" cardinality="single" base-type="float"/>
+  <qti-test-part identifier="part-1" navigation-mode="linear" submission-mode="individual">
+    <qti-assessment-section identifier="section-1" title="Geography">
+      <qti-assessment-item-ref identifier="capitals-1" href="items/capitals-1.xml" category="geography core"/>
+      <qti-assessment-section identifier="section-1a" visible="false">
+        <qti-assessment-item-ref identifier="capitals-1" href=""/>
+      </qti-assessment-section>
+    </qti-assessment-section>
+  </qti-test-part>
+</qti-assessment-test>`;
+
+describe('QtiParser', () => {
+  const parser = new QtiParser();
+
+  it('should parse declarations, interactions and response processing', () => {
+    const item = parser.parseItem(choiceItemXml);
+
+    expect(item).toMatchObject({ identifier: 'capitals-1', title: 'Capitals', language: 'en', adaptive: false });
+    expect(item.responseDeclarations[0]).toEqual({ identifier: 'RESPONSE', cardinality: 'single', baseType: 'identifier', correctResponse: ['B'] });
+    expect(item.responseDeclarations[1].mapping).toEqual({
+      defaultValue: 0,
+      lowerBound: undefined,
+      upperBound: 1,
+      entries: [{ mapKey: 'Paris', mappedValue: 1, caseSensitive: false }],
+    });
+    expect(item.outcomeDeclarations).toEqual([{ identifier: 'SCORE', cardinality: 'single', baseType: 'float', defaultValue: ['0'] }]);
+    expect(item.interactions.map(i => [i.type, i.responseIdentifier])).toEqual([['choice', 'RESPONSE'], ['textEntry', 'CITY']]);
+    expect(item.interactions[0]).toMatchObject({ prompt: 'What is the capital of Italy?', attributes: { shuffle: 'true', 'max-choices': '1' } });
+    expect(item.interactions[0].choices[1]).toEqual({ identifier: 'B', text: 'Rome', content: '<b>Rome</b>', fixed: false });
+    expect(item.responseProcessing!.rules[0].name).toBe('qti-response-condition');
+    expect(item.responseProcessing!.rules[0].children[0].children[1]).toMatchObject({
+      name: 'qti-set-outcome-value',
+      attributes: { identifier: 'SCORE' },
+      children: [{ name: 'qti-base-value', attributes: { 'base-type': 'float' }, children: [], text: '1' }],
+    });
+    expect(parser.validateItem(item)).toEqual([]);
+  });
+
+  it('should report structural problems', () => {
+    const broken = choiceItemXml
+      .replace('cardinality="single" base-type="identifier"', 'cardinality="multiple" base-type="string"')
+      .replace('<qti-value>B</qti-value>', '<qti-value>Z</qti-value>')
+      .replace('identifier="C" fixed="true"', 'identifier="A"')
+      .replace('response-identifier="CITY"', 'response-identifier="TOWN"')
+      .replace('<qti-variable identifier="RESPONSE"/>', '<qti-variable identifier="ANSWER"/>');
+
+    const issues = parser.validateItem(parser.parseItem(broken));
+
+    expect(issues.map(issue => `${issue.severity} ${issue.path}: ${issue.message}`)).toEqual([
+      'error interactions[0]: choice interaction cannot use base-type string (expected identifier)',
+      'warning interactions[0]: max-choices is 1 but response RESPONSE has multiple cardinality',
+      'error interactions[0].choices[2]: Choice identifier A is used more than once',
+      'error interactions[1]: Interaction textEntry refers to undeclared response TOWN',
+      'warning responseDeclarations[1]: Response CITY is not bound to any interaction',
+      'error responseProcessing.rules[0].children[0].children[0].children[0]: qti-variable refers to undeclared variable ANSWER',
+    ]);
+  });
+
+  it('should require what standard templates rely on', () => {
+    const templated = choiceItemXml
+      .replace(/<qti-response-processing>[\s\S]*<\/qti-response-processing>/, '<qti-response-processing template="https://purl.imsglobal.org/spec/qti/v3p0/rptemplates/map_response.xml"/>')
+      .replace(/<qti-outcome-declaration[\s\S]*?<\/qti-outcome-declaration>/, '');
+
+    const item = parser.parseItem(templated);
+
+    expect(item.responseProcessing).toEqual({ template: expect.stringContaining('map_response.xml'), templateName: 'map_response', rules: [] });
+    expect(parser.validateItem(item).map(issue => issue.message)).toEqual([
+      'Standard response processing templates require a SCORE outcome declaration',
+      'map_response requires a mapping for RESPONSE',
+    ]);
+  });
+
+  it('should parse and validate assessment tests', () => {
+    const document = parser.parse(testXml);
+    expect(document.kind).toBe('test');
+
+    const test = parser.parseTest(testXml);
+    expect(test.testParts[0]).toMatchObject({ identifier: 'part-1', navigationMode: 'linear', submissionMode: 'individual' });
+    expect(test.testParts[0].sections[0].itemRefs[0]).toEqual({ identifier: 'capitals-1', href: 'items/capitals-1.xml', categories: ['geography', 'core'] });
+    expect(test.testParts[0].sections[0].sections[0].visible).toBe(false);
+    expect(parser.validate(document).map(issue => issue.message)).toEqual([
+      'Identifier capitals-1 is used more than once',
+      'Item reference capitals-1 has no href',
+    ]);
+  });
+
+  it('should reject documents that are not QTI 3.0 items or tests', () => {
+    expect(() => parser.parse('<assessmentItem identifier="x"/>')).toThrow('found <assessmentitem>');
+    expect(() => parser.parseItem(testXml)).toThrow('Expected a qti-assessment-item document');
+  });
+});
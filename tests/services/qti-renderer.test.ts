@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { QtiParser } from '../../src/services/qti-parser.js';
+import { QtiRenderer } from '../../src/services/qti-renderer.js';
+
+const item = new QtiParser().parseItem(fs.readFileSync(path.resolve(process.cwd(), 'tests/fixtures/qti-choice-item.xml'), 'utf-8'));
+
+describe('QtiRenderer', () => {
+  const renderer = new QtiRenderer();
+
+  it('should render a plain-text preview with interactions inline', () => {
+    expect(renderer.renderText(item)).toBe([
+      'Capitals',
+      '========',
+      '',
+      'Answer both questions & check your spelling.',
+      '',
+      'What is the capital of Italy?',
+      '  ( ) A. Milan',
+      '  ( ) B. Rome',
+      '  ( ) C. Naples',
+      '',
+      'The capital of France is [________].',
+    ].join('\n'));
+  });
+
+  it('should mark correct answers when asked', () => {
+    const text = renderer.renderText(item, { showAnswers: true });
+
+    expect(text).toContain('  ( ) B. Rome ✓');
+    expect(text).toContain('The capital of France is [Paris].');
+  });
+
+  it('should render an HTML preview with form controls and no feedback', () => {
+    const html = renderer.renderHtml(item, { showAnswers: true });
+
+    expect(html).toMatch(/^<article class="qti-item" data-identifier="capitals-1" lang="en"><h1>Capitals<\/h1>/);
+    expect(html).toContain('<p class="qti-prompt">What is the capital of Italy?</p>');
+    expect(html).toContain('<label class="qti-correct"><input type="radio" name="RESPONSE" value="B"/> <b>Rome</b></label>');
+    expect(html).toContain('<p>The capital of France is <input type="text" name="CITY" size="8" value="Paris"/>.</p>');
+    expect(html).toContain('Answer both questions &amp; check your spelling.');
+    expect(html).not.toContain('qti-feedback-block');
+    expect(html).not.toContain('Hint');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { QtiParser } from '../../src/services/qti-parser.js';
+import { QtiItemAuthor } from '../../src/services/qti-authoring.js';
+import { QtiScoringEngine } from '../../src/services/qti-scoring.js';
+
+const parser = new QtiParser();
+const fixture = parser.parseItem(fs.readFileSync(path.resolve(process.cwd(), 'tests/fixtures/qti-choice-item.xml'), 'utf-8'));
+
+function item(declarations: string, processing: string) {
+  return parser.parseItem(`<qti-assessment-item identifier="item-1" adaptive="false" time-dependent="false">
+    ${declarations}
+    <qti-outcome-declaration identifier="SCORE" cardinality="single" base-type="float"/>
+    <qti-item-body><p>Item</p></qti-item-body>
+    ${processing}
+  </qti-assessment-item>`);
+}
+
+describe('QtiScoringEngine', () => {
+  const engine = new QtiScoringEngine();
+
+  it('should run custom response processing rules', () => {
+    const correct = engine.score(fixture, { RESPONSE: 'B', CITY: 'paris' });
+    const wrong = engine.score(fixture, { RESPONSE: 'A' });
+
+    expect(correct).toMatchObject({
+      identifier: 'capitals-1',
+      responseProcessing: 'custom',
+      score: 1,
+      maxScore: 1,
+      outcomes: { SCORE: 1, MAXSCORE: 1 },
+      responses: [
+        { identifier: 'RESPONSE', value: 'B', correct: true },
+        { identifier: 'CITY', value: 'paris', correct: false },
+      ],
+    });
+    expect(wrong.score).toBe(0);
+    expect(wrong.responses[1]).toEqual({ identifier: 'CITY', value: null, correct: false });
+  });
+
+  it('should score match_correct items regardless of choice order and fall back to the correct responses', () => {
+    const { xml } = new QtiItemAuthor(parser).generate({
+      identifier: 'primes',
+      title: 'Primes',
+      type: 'choice',
+      prompt: 'Which are prime?',
+      points: 2,
+      choices: [{ text: '2', correct: true }, { text: '4' }, { text: '5', correct: true }],
+    });
+    const primes = parser.parseItem(xml);
+
+    expect(engine.score(primes, { RESPONSE: ['C', 'A'] })).toMatchObject({ template: 'match_correct', score: 1, maxScore: 2 });
+    expect(engine.score(primes, { RESPONSE: ['A'] }).score).toBe(0);
+    expect(engine.score(primes).score).toBe(1);
+  });
+
+  it('should apply mappings once per entry and clamp to the bounds', () => {
+    const mapped = item(`
+      <qti-response-declaration identifier="RESPONSE" cardinality="multiple" base-type="identifier">
+        <qti-correct-response><qti-value>A</qti-value><qti-value>B</qti-value></qti-correct-response>
+        <qti-mapping default-value="-1" lower-bound="0" upper-bound="3">
+          <qti-map-entry map-key="A" mapped-value="2"/>
+          <qti-map-entry map-key="B" mapped-value="2"/>
+        </qti-mapping>
+      </qti-response-declaration>`,
+    '<qti-response-processing template="https://purl.imsglobal.org/spec/qti/v3p0/rptemplates/map_response.xml"/>');
+
+    expect(engine.score(mapped, { RESPONSE: ['A', 'A'] }).score).toBe(2);
+    expect(engine.score(mapped, { RESPONSE: ['A', 'B'] }).score).toBe(3);
+    expect(engine.score(mapped, { RESPONSE: ['C', 'D'] }).score).toBe(0);
+    expect(engine.score(mapped, { RESPONSE: ['A', 'C'] }).score).toBe(1);
+    expect(engine.score(mapped, { RESPONSE: [] }).score).toBe(0);
+    expect(engine.score(mapped).maxScore).toBe(3);
+  });
+
+  it('should score points against area mappings', () => {
+    const hotspot = item(`
+      <qti-response-declaration identifier="RESPONSE" cardinality="single" base-type="point">
+        <qti-area-mapping default-value="0">
+          <qti-area-map-entry shape="circle" coords="50,50,10" mapped-value="1"/>
+          <qti-area-map-entry shape="poly" coords="100,0,200,0,150,100" mapped-value="0.5"/>
+        </qti-area-mapping>
+      </qti-response-declaration>`,
+    '<qti-response-processing template="https://purl.imsglobal.org/spec/qti/v3p0/rptemplates/map_response_point.xml"/>');
+
+    expect(engine.score(hotspot, { RESPONSE: '55 45' }).score).toBe(1);
+    expect(engine.score(hotspot, { RESPONSE: '150 20' }).score).toBe(0.5);
+    expect(engine.score(hotspot, { RESPONSE: '10 90' }).score).toBe(0);
+    expect(engine.score(hotspot, { RESPONSE: '10 90' }).maxScore).toBe(1);
+  });
+
+  it('should evaluate arithmetic and comparisons and reject undeclared responses', () => {
+    const numeric = item(`
+      <qti-response-declaration identifier="RESPONSE" cardinality="single" base-type="integer">
+        <qti-correct-response><qti-value>12</qti-value></qti-correct-response>
+      </qti-response-declaration>`, `
+      <qti-response-processing>
+        <qti-response-condition>
+          <qti-response-if>
+            <qti-is-null><qti-variable identifier="RESPONSE"/></qti-is-null>
+            <qti-exit-response/>
+          </qti-response-if>
+          <qti-response-else-if>
+            <qti-equal><qti-variable identifier="RESPONSE"/><qti-correct identifier="RESPONSE"/></qti-equal>
+            <qti-set-outcome-value identifier="SCORE"><qti-base-value base-type="integer">2</qti-base-value></qti-set-outcome-value>
+          </qti-response-else-if>
+          <qti-response-else>
+            <qti-set-outcome-value identifier="SCORE">
+              <qti-sum>
+                <qti-base-value base-type="float">0.5</qti-base-value>
+                <qti-base-value base-type="float">0.5</qti-base-value>
+              </qti-sum>
+            </qti-set-outcome-value>
+          </qti-response-else>
+        </qti-response-condition>
+      </qti-response-processing>`);
+
+    expect(engine.score(numeric, { RESPONSE: '12' }).score).toBe(2);
+    expect(engine.score(numeric, { RESPONSE: 7 }).score).toBe(1);
+    expect(engine.score(numeric, {}).score).toBe(0);
+    expect(engine.score(numeric, {}).maxScore).toBe(2);
+    expect(() => engine.score(numeric, { RESPONSE: '1.5' })).toThrow('Response RESPONSE: "1.5" is not a valid integer');
+    expect(() => engine.score(numeric, { ANSWER: '12' })).toThrow('Response ANSWER is not declared in item item-1');
+  });
+
+  it('should decide and/or from a definite operand even when another is NULL', () => {
+    const logic = item(`
+      <qti-response-declaration identifier="RESPONSE" cardinality="single" base-type="integer"/>
+      <qti-response-declaration identifier="OTHER" cardinality="single" base-type="integer"/>`, `
+      <qti-response-processing>
+        <qti-response-condition>
+          <qti-response-if>
+            <qti-not>
+              <qti-and>
+                <qti-equal><qti-variable identifier="RESPONSE"/><qti-base-value base-type="integer">12</qti-base-value></qti-equal>
+                <qti-equal><qti-variable identifier="OTHER"/><qti-base-value base-type="integer">3</qti-base-value></qti-equal>
+              </qti-and>
+            </qti-not>
+            <qti-set-outcome-value identifier="SCORE"><qti-base-value base-type="float">1</qti-base-value></qti-set-outcome-value>
+          </qti-response-if>
+        </qti-response-condition>
+        <qti-response-condition>
+          <qti-response-if>
+            <qti-or>
+              <qti-equal><qti-variable identifier="RESPONSE"/><qti-base-value base-type="integer">12</qti-base-value></qti-equal>
+              <qti-equal><qti-variable identifier="OTHER"/><qti-base-value base-type="integer">3</qti-base-value></qti-equal>
+            </qti-or>
+            <qti-set-outcome-value identifier="SCORE"><qti-base-value base-type="float">2</qti-base-value></qti-set-outcome-value>
+          </qti-response-if>
+        </qti-response-condition>
+      </qti-response-processing>`);
+
+    // and(false, NULL) is false, so its negation sets SCORE
+    expect(engine.score(logic, { RESPONSE: 7 }).score).toBe(1);
+    // or(true, NULL) is true
+    expect(engine.score(logic, { RESPONSE: 12 }).score).toBe(2);
+    // Without a definite operand both stay NULL and neither rule fires
+    expect(engine.score(logic, {}).score).toBe(0);
+  });
+});
@@ -0,0 +1,305 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import path from 'path';
+import http from 'http';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { RosterReconciler, RosterSnapshot } from '../../src/services/roster-reconciler.js';
+import { OneRosterCsvService } from '../../src/services/oneroster-csv.js';
+import { OneRosterPaginator } from '../../src/services/oneroster-paginator.js';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { AuthService } from '../../src/services/auth.js';
+
+const fixtureDir = path.resolve(process.cwd(), 'tests/fixtures/oneroster-csv');
+const ref = (type: string, sourcedId: string) => ({ sourcedId, type, href: `https://sis.example.com/${type}s/${sourcedId}` });
+
+// Our own system's export of the same school, drifted from the SIS CSV
+const exported = {
+  users: [
+    {
+      sourcedId: 'teacher-1',
+      status: 'active',
+      dateLastModified: '2025-09-01T00:00:00Z',
+      enabledUser: 'true',
+      username: 'ekrabappel',
+      userIds: [{ type: 'LDAP', identifier: 'ek001' }],
+      givenName: 'Edna',
+      familyName: 'Krabappel',
+      identifier: 'T-1',
+      email: 'edna.k@example.com',
+      primaryOrg: ref('org', 'school-1'),
+      pronouns: 'she/her',
+      roles: [{ roleType: 'primary', role: 'teacher', beginDate: '2025-08-15', org: ref('org', 'school-1') }],
+    },
+    { sourcedId: 'student-1-old', status: 'active', enabledUser: true, givenName: 'Bart', familyName: 'Simpson', email: 'BART@example.com' },
+    { sourcedId: 'student-2', status: 'active', enabledUser: true, givenName: 'Lisa', familyName: 'Simpson', email: 'lisa@example.com' },
+    { sourcedId: 'student-3', status: 'active', enabledUser: true, givenName: 'Lisa', familyName: 'Simpson', email: 'Lisa@Example.com' },
+  ],
+  classes: [
+    {
+      sourcedId: 'class-math-a',
+      status: 'active',
+      title: 'Math 3 - Section A',
+      grades: ['03'],
+      course: ref('course', 'course-math'),
+      classCode: 'MATH3-A',
+      classType: 'scheduled',
+      location: 'Room 12',
+      school: ref('org', 'school-1'),
+      terms: [ref('academicSession', 'fall-2025')],
+      subjects: ['Mathematics'],
+      periods: ['2', '1'],
+    },
+  ],
+  enrollments: [
+    { sourcedId: 'enr-1', status: 'active', class: ref('class', 'class-math-a'), school: ref('org', 'school-1'), user: ref('user', 'teacher-1'), role: 'teacher', primary: true, beginDate: '2025-08-15' },
+    { sourcedId: 'enr-9', status: 'active', class: ref('class', 'class-math-a'), school: ref('org', 'school-1'), user: ref('user', 'student-9'), role: 'student' },
+  ],
+};
+
+const snapshot = (label: string, data: RosterSnapshot['data'], partial: RosterSnapshot['partial'] = []): RosterSnapshot => ({ label, origin: 'json', data, partial, issues: [] });
+const plan = (operations: { action: string; collection: string; sourcedId: string }[]) => operations.map(({ action, collection, sourcedId }) => `${action} ${collection}/${sourcedId}`);
+
+describe('RosterReconciler', () => {
+  const csvService = new OneRosterCsvService(new OpenAPIParser(), undefined, undefined, 'https://api.example.com');
+  const reconciler = new RosterReconciler(csvService, undefined, 'https://api.example.com');
+
+  it('should diff a CSV bundle against a JSON export and plan the calls that converge it', async () => {
+    const result = await reconciler.reconcileSources(
+      { type: 'csv', path: fixtureDir, label: 'sis' },
+      { type: 'json', data: exported, label: 'ours' }
+    );
+
+    expect(result.source).toEqual({ label: 'sis', origin: 'csv', records: { classes: 1, users: 2, enrollments: 2 }, partial: [], issues: [] });
+    expect(result.collections.users).toEqual({
+      added: ['student-1'],
+      removed: ['student-1-old', 'student-2', 'student-3'],
+      changed: [{ sourcedId: 'teacher-1', changes: [{ field: 'email', from: 'edna.k@example.com', to: 'edna@example.com' }] }],
+      unchanged: 0,
+    });
+    expect(result.collections.classes).toEqual({
+      added: [],
+      removed: [],
+      changed: [{ sourcedId: 'class-math-a', changes: [{ field: 'title', from: 'Math 3 - Section A', to: 'Math 3, Section A' }] }],
+      unchanged: 0,
+    });
+    expect(result.collections.enrollments).toEqual({ added: ['enr-2'], removed: ['enr-9'], changed: [], unchanged: 1 });
+    expect(result.summary).toEqual({ added: 2, removed: 4, changed: 2, unchanged: 1, operations: 8 });
+
+    expect(result.orphanedEnrollments).toEqual([{ snapshot: 'target', sourcedId: 'enr-9', missing: ['user student-9'] }]);
+    expect(result.duplicateIdentities).toEqual([
+      { snapshot: 'target', field: 'email', value: 'lisa@example.com', sourcedIds: ['student-2', 'student-3'] },
+      { snapshot: 'both', field: 'email', value: 'bart@example.com', sourcedIds: ['student-1-old', 'student-1'] },
+    ]);
+
+    expect(result.operations.map(({ action, method, collection, sourcedId }) => `${action} ${method} ${collection}/${sourcedId}`)).toEqual([
+      'update PUT classes/class-math-a',
+      'create PUT users/student-1',
+      'update PUT users/teacher-1',
+      'create PUT enrollments/enr-2',
+      'delete DELETE enrollments/enr-9',
+      'delete DELETE users/student-3',
+      'delete DELETE users/student-2',
+      'delete DELETE users/student-1-old',
+    ]);
+    const create = result.operations[1];
+    expect(create.url).toBe('https://api.example.com/ims/oneroster/rostering/v1p2/users/student-1');
+    expect(create.body!.user).toMatchObject({ sourcedId: 'student-1', status: 'active', email: 'bart@example.com', roles: [{ role: 'student' }] });
+    expect(result.operations[2].fields).toEqual(['email']);
+  });
+
+  it('should report field-level updates and ignore bookkeeping, blanks, list order and GUID ref shape', () => {
+    const target = snapshot('ours', {
+      users: [{
+        sourcedId: 'u-1',
+        status: 'active',
+        dateLastModified: '2025-01-01T00:00:00Z',
+        enabledUser: 'true',
+        givenName: 'Jon',
+        phone: '555-0100',
+        sms: '',
+        grades: ['04', '03'],
+        primaryOrg: ref('org', 'school-1'),
+        password: 'old',
+        metadata: { ext: { house: 'red' } },
+      }],
+    });
+    const source = snapshot('sis', {
+      users: [{
+        sourcedId: 'u-1',
+        status: 'active',
+        dateLastModified: '2026-01-01T00:00:00Z',
+        enabledUser: true,
+        givenName: 'John',
+        middleName: 'Q',
+        grades: ['03', '04'],
+        primaryOrg: { sourcedId: 'school-1' },
+        password: 'new',
+        metadata: { ext: { house: 'blue' } },
+      }],
+    });
+
+    const result = reconciler.reconcile(source, target, { collections: ['users'], ignoreFields: ['password'] });
+
+    expect(result.collections.users!.changed).toEqual([{
+      sourcedId: 'u-1',
+      changes: [
+        { field: 'givenName', from: 'Jon', to: 'John' },
+        { field: 'metadata.ext.house', from: 'red', to: 'blue' },
+        { field: 'middleName', to: 'Q' },
+        { field: 'phone', from: '555-0100' },
+      ],
+    }]);
+    expect(result.operations).toHaveLength(1);
+    expect(result.operations[0]).toMatchObject({ action: 'update', method: 'PUT', fields: ['givenName', 'metadata.ext.house', 'middleName', 'phone'] });
+    expect(result.operations[0].body!.user).toMatchObject({ sourcedId: 'u-1', givenName: 'John', password: 'new', status: 'active' });
+  });
+
+  it('should plan creates and updates first and delete dependents before what they point at', () => {
+    const target = snapshot('ours', {
+      orgs: [{ sourcedId: 'school-old', name: 'Old School' }],
+      classes: [{ sourcedId: 'class-1', title: 'Math' }, { sourcedId: 'class-old', title: 'Gone' }],
+      users: [{ sourcedId: 'u-old', givenName: 'Gone' }],
+      enrollments: [{ sourcedId: 'enr-old', user: ref('user', 'u-old'), class: ref('class', 'class-old') }],
+    });
+    const source = snapshot('sis', {
+      orgs: [{ sourcedId: 'school-new', name: 'New School' }],
+      classes: [{ sourcedId: 'class-1', title: 'Math 3' }],
+      users: [{ sourcedId: 'u-new', givenName: 'New' }],
+      enrollments: [{ sourcedId: 'enr-new', user: ref('user', 'u-new'), class: ref('class', 'class-1') }],
+    });
+
+    const result = reconciler.reconcile(source, target, { collections: ['enrollments', 'users', 'classes', 'orgs'] });
+
+    expect(plan(result.operations)).toEqual([
+      'create orgs/school-new',
+      'update classes/class-1',
+      'create users/u-new',
+      'create enrollments/enr-new',
+      'delete enrollments/enr-old',
+      'delete users/u-old',
+      'delete classes/class-old',
+      'delete orgs/school-old',
+    ]);
+    expect(result.summary).toEqual({ added: 3, removed: 4, changed: 1, unchanged: 0, operations: 8 });
+    expect(result.orphanedEnrollments).toEqual([]);
+  });
+
+  it('should flag enrollments pointing at missing users or classes and not create them', () => {
+    const target = snapshot('ours', { users: [], classes: [], enrollments: [] });
+    const source = snapshot('sis', {
+      users: [{ sourcedId: 'u-1' }, { sourcedId: 'u-gone', status: 'tobedeleted' }],
+      classes: [{ sourcedId: 'class-1' }],
+      enrollments: [
+        { sourcedId: 'enr-ok', user: ref('user', 'u-1'), class: ref('class', 'class-1') },
+        { sourcedId: 'enr-no-user', user: ref('user', 'u-gone'), class: ref('class', 'class-1') },
+        { sourcedId: 'enr-no-either', userSourcedId: 'u-9', classSourcedId: 'class-9' },
+      ],
+    });
+
+    const result = reconciler.reconcile(source, target);
+
+    expect(result.orphanedEnrollments).toEqual([
+      { snapshot: 'source', sourcedId: 'enr-no-user', missing: ['user u-gone'] },
+      { snapshot: 'source', sourcedId: 'enr-no-either', missing: ['user u-9', 'class class-9'] },
+    ]);
+    expect(result.collections.enrollments!.added).toEqual(['enr-ok', 'enr-no-user', 'enr-no-either']);
+    expect(plan(result.operations)).toEqual(['create classes/class-1', 'create users/u-1', 'create enrollments/enr-ok']);
+
+    // Users from a delta file may exist elsewhere, so only the class reference can be called missing
+    const delta = reconciler.reconcile(snapshot('delta', source.data, ['users']), target);
+    expect(delta.orphanedEnrollments).toEqual([{ snapshot: 'source', sourcedId: 'enr-no-either', missing: ['class class-9'] }]);
+  });
+
+  it('should report sourcedIds that appear more than once in a snapshot', () => {
+    const target = snapshot('ours', {
+      users: [
+        { sourcedId: 'u-1', givenName: 'Maggie' },
+        { sourcedId: 'u-2', givenName: 'Marge' },
+        { sourcedId: 'u-2', givenName: 'Marjorie' },
+      ],
+    });
+    const source = snapshot('sis', {
+      users: [
+        { sourcedId: 'u-1', givenName: 'Maggie' },
+        { sourcedId: 'u-1', givenName: 'Maggie', status: 'tobedeleted' },
+        { sourcedId: 'u-2', givenName: 'Marge' },
+      ],
+    });
+
+    const result = reconciler.reconcile(source, target, { collections: ['users'] });
+
+    expect(result.duplicateIdentities).toEqual([
+      { snapshot: 'source', field: 'sourcedId', value: 'u-1', sourcedIds: ['u-1'] },
+      { snapshot: 'target', field: 'sourcedId', value: 'u-2', sourcedIds: ['u-2'] },
+    ]);
+  });
+
+  describe('against a live OneRoster pull', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const users = [
+      { sourcedId: 'u-1', status: 'active', enabledUser: true, givenName: 'Milhouse', familyName: 'Van Houten', email: 'milhouse@example.com' },
+      { sourcedId: 'u-2', status: 'active', enabledUser: true, givenName: 'Nelson', familyName: 'Muntz', email: 'nelson@example.com' },
+      { sourcedId: 'u-3', status: 'active', enabledUser: true, givenName: 'Ralph', familyName: 'Wiggum', email: 'ralph@example.com' },
+    ];
+
+    const authService = {
+      makeAuthenticatedRequest: (url: string, options: any) => axios({ ...options, url }),
+    } as unknown as AuthService;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        const collection = new URL(req.url!, 'http://localhost').pathname.split('/').pop()!;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ [collection]: collection === 'users' ? users : [] }));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    it('should only delete what a delta file marks tobedeleted', async () => {
+      const reconciler = new RosterReconciler(csvService, new OneRosterPaginator(authService, { pageSize: 100, maxRecords: 1000 }), baseUrl);
+      const delta = {
+        'manifest.csv': 'propertyName,value\nmanifest.version,1.0\noneroster.version,1.2\nfile.users,delta\n',
+        'users.csv': [
+          'sourcedId,status,dateLastModified,enabledUser,givenName,familyName,email',
+          'u-1,active,2026-01-05T00:00:00Z,true,Milhouse,Van Houten,mvh@example.com',
+          'u-2,tobedeleted,2026-01-05T00:00:00Z,true,Nelson,Muntz,nelson@example.com',
+        ].join('\n'),
+      };
+
+      const result = await reconciler.reconcileSources(
+        { type: 'csv', files: delta, label: 'delta' },
+        { type: 'api', baseUrl, label: 'live' },
+        { collections: ['users', 'classes'] }
+      );
+
+      expect(result.source.partial).toEqual(['users']);
+      expect(result.skipped).toEqual(['classes: not in delta']);
+      expect(result.collections.users).toEqual({
+        added: [],
+        removed: ['u-2'],
+        changed: [{ sourcedId: 'u-1', changes: [{ field: 'email', from: 'milhouse@example.com', to: 'mvh@example.com' }] }],
+        unchanged: 0,
+      });
+      expect(result.operations.map(({ method, url }) => `${method} ${url}`)).toEqual([
+        `PUT ${baseUrl}/ims/oneroster/rostering/v1p2/users/u-1`,
+        `DELETE ${baseUrl}/ims/oneroster/rostering/v1p2/users/u-2`,
+      ]);
+
+      await expect(new RosterReconciler(csvService).loadSnapshot({ type: 'api' })).rejects.toThrow('requires an authenticated OneRoster client');
+    });
+
+    it('should only pull from another base URL with an explicit credential profile', async () => {
+      const reconciler = new RosterReconciler(csvService, new OneRosterPaginator(authService, { pageSize: 100, maxRecords: 1000 }), 'https://api.example.com');
+
+      await expect(reconciler.loadSnapshot({ type: 'api', baseUrl }, ['users'])).rejects.toThrow(`${baseUrl} is not the configured OneRoster base URL`);
+      const snapshot = await reconciler.loadSnapshot({ type: 'api', baseUrl, profile: 'district' }, ['users']);
+      expect(snapshot.data.users!.map(user => user.sourcedId)).toEqual(['u-1', 'u-2', 'u-3']);
+    });
+  });
+});
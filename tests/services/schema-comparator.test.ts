@@ -0,0 +1,120 @@
+import { describe, it, expect } from '@jest/globals';
+import path from 'path';
+import { OpenAPIV3 } from 'openapi-types';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { SchemaComparator } from '../../src/services/schema-comparator.js';
+
+const person: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['id', 'roles'],
+  properties: {
+    id: { type: 'string' },
+    age: { type: 'integer' },
+    status: { type: 'string', enum: ['active', 'inactive'] },
+    roles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['role'],
+        properties: { role: { type: 'string', enum: ['student', 'teacher'] } },
+      },
+    },
+  },
+};
+
+describe('SchemaComparator', () => {
+  const comparator = new SchemaComparator();
+  const statusOf = (result: ReturnType<SchemaComparator['compare']>, at: string) =>
+    result.paths.find(entry => entry.path === at)?.compatibility;
+
+  it('should report identical schemas at every path', () => {
+    const result = comparator.compare(person, structuredClone(person));
+
+    expect(result.compatibility).toBe('identical');
+    expect(result.differences).toEqual([]);
+    expect(result.paths.map(entry => entry.path)).toEqual(
+      ['$', '$.id', '$.age', '$.status', '$.roles', '$.roles[]', '$.roles[].role']
+    );
+  });
+
+  it('should classify widening and narrowing changes per path', () => {
+    const target = structuredClone(person);
+    target.required = ['id'];
+    target.properties!.age = { type: 'number' };
+    target.properties!.status = { type: 'string', enum: ['active'] };
+
+    const result = comparator.compare(person, target);
+
+    expect(statusOf(result, '$.age')).toBe('widening');
+    expect(statusOf(result, '$.status')).toBe('narrowing');
+    expect(result.differences.find(d => d.path === '$.roles')).toMatchObject({ aspect: 'required', compatibility: 'widening' });
+    expect(statusOf(result, '$.id')).toBe('identical');
+    expect(result.compatibility).toBe('narrowing');
+  });
+
+  it('should walk into array items and roll nested differences up to their parents', () => {
+    const target = structuredClone(person);
+    (target.properties!.roles as OpenAPIV3.ArraySchemaObject).items = {
+      type: 'object',
+      required: ['role'],
+      properties: { role: { type: 'integer' } },
+    };
+
+    const result = comparator.compare(person, target);
+
+    expect(result.differences).toEqual([
+      expect.objectContaining({ path: '$.roles[].role', aspect: 'type', compatibility: 'incompatible' }),
+    ]);
+    expect(statusOf(result, '$.roles')).toBe('incompatible');
+    expect(statusOf(result, '$.id')).toBe('identical');
+  });
+
+  it('should flatten allOf and report properties present on one side only', () => {
+    const target: OpenAPIV3.SchemaObject = {
+      allOf: [
+        { type: 'object', required: ['id'], properties: { id: { type: 'string' } } },
+        { type: 'object', required: ['email'], properties: { email: { type: 'string', format: 'email' }, roles: person.properties!.roles } },
+      ],
+    };
+
+    const result = comparator.compare(person, target);
+
+    expect(result.uniqueToSource).toEqual(['age', 'status']);
+    expect(result.uniqueToTarget).toEqual(['email']);
+    expect(statusOf(result, '$.age')).toBe('narrowing');
+    expect(statusOf(result, '$.email')).toBe('incompatible');
+  });
+
+  it('should match oneOf variants to their best counterpart', () => {
+    const source: OpenAPIV3.SchemaObject = { oneOf: [{ type: 'string' }, { type: 'integer' }] };
+    const target: OpenAPIV3.SchemaObject = { oneOf: [{ type: 'number' }, { type: 'string' }, { type: 'boolean' }] };
+
+    const result = comparator.compare(source, target);
+
+    expect(statusOf(result, '$<0>')).toBe('identical');
+    expect(statusOf(result, '$<1>')).toBe('widening');
+    expect(result.differences).toContainEqual(expect.objectContaining({ path: '$', aspect: 'variant', compatibility: 'widening' }));
+  });
+
+  it('should stop on recursive schemas', () => {
+    const node: OpenAPIV3.SchemaObject = { type: 'object', properties: { name: { type: 'string' } } };
+    node.properties!.children = { type: 'array', items: node };
+
+    const result = comparator.compare(node, node);
+
+    expect(result.compatibility).toBe('identical');
+    expect(result.paths.map(entry => entry.path)).toContain('$.children[]');
+  });
+
+  it('should compare loaded component schemas by name', async () => {
+    const parser = new OpenAPIParser();
+    await parser.loadFromFile('oneroster', path.resolve(process.cwd(), 'tests/fixtures/oneroster-openapi.yaml'), 'https://example.com');
+
+    const result = parser.compareSchemas('User', 'oneroster', 'Class', 'oneroster');
+
+    expect(result.source).toEqual({ name: 'User', api: 'oneroster' });
+    expect(result.commonProperties).toEqual(['sourcedId', 'status']);
+    expect(statusOf(result, '$.title')).toBe('incompatible');
+    expect(() => parser.compareSchemas('Missing', 'oneroster', 'Class', 'oneroster')).toThrow('Schema Missing not found');
+  });
+});
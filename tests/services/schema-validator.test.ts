@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import path from 'path';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { SchemaValidator } from '../../src/services/schema-validator.js';
+import { ParsedEndpoint } from '../../src/types/index.js';
+
+const specPath = path.resolve(process.cwd(), 'tests/fixtures/oneroster-openapi.yaml');
+
+const validUser = {
+  sourcedId: 'u1',
+  status: 'active',
+  givenName: 'Ada',
+  familyName: 'Lovelace',
+  roles: [{ roleType: 'primary', role: 'student' }],
+};
+
+describe('SchemaValidator', () => {
+  const validator = new SchemaValidator();
+  let createUser: ParsedEndpoint;
+  let getUser: ParsedEndpoint;
+  let getAllUsers: ParsedEndpoint;
+
+  beforeAll(async () => {
+    const parser = new OpenAPIParser();
+    await parser.loadFromFile('oneroster', specPath, 'https://oneroster.example.com');
+    createUser = parser.findEndpoint('oneroster', { operationId: 'createUser' })!;
+    getUser = parser.findEndpoint('oneroster', { operationId: 'getUser' })!;
+    getAllUsers = parser.findEndpoint('oneroster', { operationId: 'getAllUsers' })!;
+  });
+
+  it('should accept a request body that matches the schema', () => {
+    expect(validator.validateRequest(createUser, { body: { user: validUser } })).toEqual([]);
+  });
+
+  it('should report body violations with JSON pointers', () => {
+    const violations = validator.validateRequest(createUser, {
+      body: {
+        user: {
+          ...validUser,
+          status: 'deleted',
+          enabledUser: 'yes',
+          email: 'not-an-email',
+          roles: [{ roleType: 'primary' }],
+        },
+      },
+    });
+
+    expect(violations).toEqual([
+      {
+        pointer: '/body/user/status',
+        expected: 'one of: active, tobedeleted',
+        actual: 'deleted',
+        message: 'body.user.status must be one of: active, tobedeleted',
+      },
+      {
+        pointer: '/body/user/roles/0/role',
+        expected: 'required property',
+        actual: undefined,
+        message: 'body.user.roles[0].role is required',
+      },
+      {
+        pointer: '/body/user/enabledUser',
+        expected: 'boolean',
+        actual: 'yes',
+        message: 'body.user.enabledUser must be of type boolean',
+      },
+      {
+        pointer: '/body/user/email',
+        expected: 'format email',
+        actual: 'not-an-email',
+        message: 'body.user.email must be a valid email',
+      },
+    ]);
+  });
+
+  it('should coerce string parameters before checking them', () => {
+    expect(validator.validateRequest(getAllUsers, { query: { limit: '25', offset: 0 } })).toEqual([]);
+    expect(validator.validateRequest(getAllUsers, { query: { limit: '0' } })).toEqual([
+      {
+        pointer: '/query/limit',
+        expected: '>= 1',
+        actual: 0,
+        message: 'query parameter "limit" must be at least 1',
+      },
+    ]);
+  });
+
+  it('should validate responses against the schema for their status', () => {
+    expect(validator.validateResponse(getUser, 200, { user: validUser })).toEqual([]);
+    expect(validator.validateResponse(getUser, 200, { user: { ...validUser, givenName: null } })).toEqual([
+      {
+        pointer: '/user/givenName',
+        expected: 'string',
+        actual: null,
+        message: 'response.user.givenName must not be null',
+      },
+    ]);
+    expect(validator.validateResponse(getUser, 500, {})[0]).toMatchObject({
+      expected: 'documented status (200)',
+      actual: 500,
+    });
+  });
+
+  it('should enforce readOnly properties only in requests', () => {
+    const schema = {
+      type: 'object' as const,
+      required: ['id', 'name'],
+      properties: {
+        id: { type: 'string' as const, readOnly: true },
+        name: { type: 'string' as const },
+      },
+      additionalProperties: false,
+    };
+
+    expect(validator.validate(schema, { name: 'x' }, 'request')).toEqual([]);
+    expect(validator.validate(schema, { name: 'x' }, 'response').map(v => v.pointer)).toEqual(['/id']);
+    expect(validator.validate(schema, { id: '1', name: 'x', extra: true }, 'request').map(v => v.message)).toEqual([
+      'value.id is read-only',
+      'value.extra is not a declared property',
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { SdkArtifact, SdkGenerator } from '../../src/services/sdk-generator.js';
+
+const specPath = path.resolve(process.cwd(), 'tests/fixtures/oneroster-openapi.yaml');
+
+describe('SdkGenerator', () => {
+  let generator: SdkGenerator;
+  let artifact: SdkArtifact;
+  let outputDir: string;
+
+  const file = (name: string) => artifact.files.find(f => f.path === name)!.content;
+
+  beforeAll(async () => {
+    const parser = new OpenAPIParser();
+    await parser.loadFromFile('oneroster', specPath, 'https://oneroster.example.com');
+    generator = new SdkGenerator(parser);
+    artifact = generator.generate('oneroster', 'typescript');
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sdk-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('should emit interfaces for every component schema', () => {
+    const models = file('models.ts');
+
+    expect(artifact.models).toBe(2);
+    expect(models).toContain('export interface User {');
+    expect(models).toContain("  status: 'active' | 'tobedeleted';");
+    expect(models).toContain('  roles: {');
+    expect(models).toContain('  email?: string;');
+  });
+
+  it('should emit one method per operation and pagination iterators', () => {
+    const client = file('client.ts');
+
+    expect(artifact.operations).toBe(5);
+    expect(client).toContain('export class OneRosterClient {');
+    expect(client).toContain('async getUser(sourcedId: string, options?: RequestOptions): Promise<GetUserResponse> {');
+    expect(client).toContain('async createUser(body: CreateUserRequest, options?: RequestOptions): Promise<CreateUserResponse> {');
+    expect(client).toContain('async deleteUser(sourcedId: string, options?: RequestOptions): Promise<void> {');
+    expect(client).toContain("iterateAllUsers(query: Omit<GetAllUsersQuery, 'limit' | 'offset'> = {}, pageSize = 100");
+    expect(file('operations.ts')).toContain('export type GetAllUsersResponse = {\n  users: User[];\n};');
+  });
+
+  it('should write a client that type-checks under strict mode', async () => {
+    const written = await generator.writeArtifact(artifact, outputDir);
+    expect(written.map(p => path.basename(p))).toEqual(
+      ['models.ts', 'operations.ts', 'auth.ts', 'pagination.ts', 'client.ts', 'index.ts', 'README.md']
+    );
+
+    const program = ts.createProgram(written.filter(p => p.endsWith('.ts')), {
+      strict: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.NodeNext,
+      moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+      types: [],
+    });
+    const diagnostics = ts.getPreEmitDiagnostics(program)
+      .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should reject APIs that are not loaded', () => {
+    expect(() => generator.generate('qti', 'typescript')).toThrow('API qti is not loaded');
+  });
+
+  it('should emit pydantic models and an httpx client for python', () => {
+    const python = generator.generate('oneroster', 'python');
+    const content = (name: string) => python.files.find(f => f.path === `timeback_oneroster_client/${name}`)!.content;
+
+    expect(python.packageName).toBe('timeback_oneroster_client');
+    expect(content('models.py')).toContain('class User(BaseModel):');
+    expect(content('models.py')).toContain('    sourced_id: str = Field(alias="sourcedId")');
+    expect(content('models.py')).toContain('class UserStatus(str, Enum):\n    ACTIVE = "active"');
+    expect(content('models.py')).toContain('    roles: list[UserRolesItem]');
+    expect(content('client.py')).toContain('    def get_user(self, sourced_id: str) -> GetUserResponse:');
+    expect(content('client.py')).toContain('f"/ims/oneroster/rostering/v1p2/users/{_segment(sourced_id)}"');
+    expect(content('client.py')).toContain('    def iterate_all_users(\n        self,\n        *,\n        filter: Optional[str] = None,\n        page_size: int = 100,\n    ) -> Iterator[User]:');
+    expect(content('auth.py')).toContain('class ClientCredentialsAuth(httpx.Auth):');
+  });
+
+  it('should emit records and a java.net.http client for java', () => {
+    const java = generator.generate('oneroster', 'java');
+    const content = (name: string) => java.files.find(f => f.path === `src/main/java/com/timeback/oneroster/${name}`)!.content;
+
+    expect(java.packageName).toBe('com.timeback.oneroster');
+    expect(content('model/User.java')).toContain('public record User(\n    @JsonProperty("sourcedId") String sourcedId,');
+    expect(content('model/UserStatus.java')).toContain('    @JsonProperty("tobedeleted")\n    TOBEDELETED("tobedeleted");');
+    // Class would clash with java.lang.Class
+    expect(content('model/ClassModel.java')).toContain('public record ClassModel(');
+    expect(content('model/GetAllUsersQuery.java')).toContain('return new GetAllUsersQuery(limit, offset, filter);');
+    expect(content('OneRosterClient.java')).toContain('public GetUserResponse getUser(String sourcedId) throws IOException, InterruptedException {');
+    expect(content('OneRosterClient.java')).toContain('public Iterable<User> iterateAllUsers(GetAllUsersQuery query, int pageSize) {');
+    expect(java.files.map(f => f.path)).toContain('pom.xml');
+  });
+
+  it('should emit records and an HttpClient client for csharp', () => {
+    const csharp = generator.generate('oneroster', 'csharp', { clientName: 'RosterClient' });
+    const content = (name: string) => csharp.files.find(f => f.path === name)!.content;
+
+    expect(csharp.packageName).toBe('TimeBack.OneRoster');
+    expect(content('Models.cs')).toContain('    [JsonPropertyName("sourcedId")]\n    public required string SourcedId { get; init; }');
+    expect(content('Models.cs')).toContain('    public string? Email { get; init; }');
+    expect(content('Models.cs')).toContain('public static class UserStatus\n{\n    public const string Active = "active";');
+    expect(content('RosterClient.cs')).toContain('public Task<GetUserResponse> GetUserAsync(string sourcedId, CancellationToken cancellationToken = default)');
+    expect(content('RosterClient.cs')).toContain('public async IAsyncEnumerable<User> IterateAllUsersAsync(GetAllUsersQuery? query = null, int pageSize = 100');
+    expect(content('RosterClient.cs')).toContain('baseQuery with { Limit = (long)pageSize, Offset = (long)offset }');
+  });
+
+  it('should reject package names the target language cannot use', () => {
+    expect(() => generator.generate('oneroster', 'python', { packageName: 'timeback-client' }))
+      .toThrow('Invalid python package name: timeback-client');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import * as yaml from 'js-yaml';
+import { SpecDiffer } from '../../src/services/spec-diff.js';
+import { DocumentationStore } from '../../src/services/documentation-store.js';
+
+const specPath = path.resolve(process.cwd(), 'tests/fixtures/oneroster-openapi.yaml');
+
+describe('SpecDiffer', () => {
+  const differ = new SpecDiffer();
+  let oldSpecText: string;
+
+  const mutate = (change: (spec: any) => void): string => {
+    const spec = yaml.load(oldSpecText) as any;
+    change(spec);
+    return yaml.dump(spec);
+  };
+
+  beforeAll(async () => {
+    oldSpecText = await fs.readFile(specPath, 'utf-8');
+  });
+
+  it('should report no changes for identical specs', async () => {
+    const report = await differ.diffSpecTexts(oldSpecText, oldSpecText);
+
+    expect(report.hasBreakingChanges).toBe(false);
+    expect(report.changes).toEqual([]);
+  });
+
+  it('should classify removed operations and required parameters as breaking', async () => {
+    const newSpecText = mutate(spec => {
+      delete spec.paths['/ims/oneroster/rostering/v1p2/users/{sourcedId}'].delete;
+      spec.paths['/ims/oneroster/rostering/v1p2/users'].get.parameters.push({
+        name: 'schoolSourcedId',
+        in: 'query',
+        required: true,
+        schema: { type: 'string' },
+      });
+      spec.paths['/ims/oneroster/rostering/v1p2/classes'].get.parameters.push({
+        name: 'search',
+        in: 'query',
+        schema: { type: 'string' },
+      });
+    });
+
+    const report = await differ.diffSpecTexts(oldSpecText, newSpecText);
+    const summary = report.changes.map(change => [change.kind, change.severity]);
+
+    expect(report.hasBreakingChanges).toBe(true);
+    expect(summary).toEqual(expect.arrayContaining([
+      ['operation-removed', 'breaking'],
+      ['parameter-added', 'breaking'],
+      ['parameter-added', 'non-breaking'],
+    ]));
+    expect(report.summary.operationsRemoved).toBe(1);
+  });
+
+  it('should weigh enum and required changes by direction', async () => {
+    const newSpecText = mutate(spec => {
+      spec.components.schemas.User.properties.status.enum = ['active'];
+      spec.components.schemas.User.required = spec.components.schemas.User.required.filter((name: string) => name !== 'familyName');
+      spec.components.schemas.User.properties.middleName = { type: 'string' };
+    });
+
+    const report = await differ.diffSpecTexts(oldSpecText, newSpecText);
+    const createUserChanges = report.changes.filter(change => change.operation === 'POST /ims/oneroster/rostering/v1p2/users');
+    const getUserChanges = report.changes.filter(change => change.operation === 'GET /ims/oneroster/rostering/v1p2/users/{sourcedId}');
+
+    expect(createUserChanges.find(change => change.location === 'body.user.status')).toMatchObject({
+      kind: 'enum-narrowed',
+      severity: 'breaking',
+    });
+    expect(createUserChanges.find(change => change.location === 'body.user.familyName')).toMatchObject({
+      kind: 'property-optional',
+      severity: 'non-breaking',
+    });
+    expect(getUserChanges.find(change => change.location === 'response 200.user.familyName')).toMatchObject({
+      kind: 'property-optional',
+      severity: 'breaking',
+    });
+    expect(report.changes.filter(change => change.kind === 'property-added').every(change => change.severity === 'non-breaking')).toBe(true);
+  });
+});
+
+describe('DocumentationStore.diffVersions', () => {
+  let storePath: string;
+
+  afterEach(async () => {
+    await fs.rm(storePath, { recursive: true, force: true });
+  });
+
+  it('should diff a stored version against the current document', async () => {
+    storePath = await fs.mkdtemp(path.join(os.tmpdir(), 'spec-diff-'));
+    const store = new DocumentationStore(storePath);
+    await store.initialize();
+
+    const oldSpecText = await fs.readFile(specPath, 'utf-8');
+    const newSpec = yaml.load(oldSpecText) as any;
+    delete newSpec.paths['/ims/oneroster/rostering/v1p2/classes'];
+
+    const crawled = (openApiSpec: string) => ({
+      url: 'https://api.example.com/oneroster/openapi.yaml',
+      title: 'OneRoster API',
+      content: 'OneRoster specification',
+      type: 'swagger' as const,
+      metadata: { openApiSpec },
+      extractedAt: new Date(),
+    });
+
+    const original = await store.storeDocument(crawled(oldSpecText));
+    await store.storeDocument(crawled(yaml.dump(newSpec)));
+
+    const versions = await store.getDocumentVersions(original.id);
+    expect(versions).toHaveLength(1);
+    expect(versions[0].changes).toContain('BREAKING: Removed operation GET /ims/oneroster/rostering/v1p2/classes');
+
+    const diff = await store.diffVersions(original.id, '1.0.0');
+    expect(diff).toMatchObject({
+      fromVersion: '1.0.0',
+      toVersion: '1.0.1',
+      source: 'openapi',
+      hasBreakingChanges: true,
+    });
+    expect(diff.summary.operationsRemoved).toBe(1);
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { OpenAPIV3 } from 'openapi-types';
+import { StudentProfileAggregator } from '../../src/services/student-profile.js';
+import { OpenAPIParser } from '../../src/services/openapi-parser.js';
+import { EndpointExecutor } from '../../src/services/endpoint-executor.js';
+import { AuthService } from '../../src/services/auth.js';
+import { OneRosterPaginator } from '../../src/services/oneroster-paginator.js';
+
+const fixture = (name: string) => JSON.parse(fs.readFileSync(path.resolve(process.cwd(), 'tests/fixtures', name), 'utf-8'));
+
+const pathParam = (name: string): OpenAPIV3.ParameterObject => ({ name, in: 'path', required: true, schema: { type: 'string' } });
+const queryParam = (name: string): OpenAPIV3.ParameterObject => ({ name, in: 'query', schema: { type: 'string' } });
+
+const get = (operationId: string, parameters: OpenAPIV3.ParameterObject[], schema: OpenAPIV3.SchemaObject = { type: 'object' }): OpenAPIV3.PathItemObject => ({
+  get: { operationId, parameters, responses: { '200': { description: 'OK', content: { 'application/json': { schema } } } } },
+});
+
+const spec = (title: string, paths: OpenAPIV3.PathsObject): OpenAPIV3.Document => ({ openapi: '3.0.0', info: { title, version: '1.0' }, paths });
+
+const oneRosterSpec = spec('OneRoster', {
+  '/ims/oneroster/rostering/v1p2/users/{sourcedId}': get('getUser', [pathParam('sourcedId')], {
+    type: 'object',
+    properties: { user: { type: 'object', required: ['sourcedId', 'givenName'] } },
+  }),
+  '/ims/oneroster/rostering/v1p2/demographics/{sourcedId}': get('getDemographics', [pathParam('sourcedId')]),
+  '/ims/oneroster/rostering/v1p2/schools/{schoolSourcedId}/enrollments': get('getEnrollmentsForSchool', [pathParam('schoolSourcedId'), queryParam('filter')]),
+  '/ims/oneroster/rostering/v1p2/enrollments': get('getAllEnrollments', [queryParam('filter'), queryParam('limit')]),
+  '/ims/oneroster/rostering/v1p2/students/{studentSourcedId}/classes': get('getClassesForStudent', [pathParam('studentSourcedId')]),
+});
+
+const qtiSpec = spec('QTI', { '/assessment-results': get('getAssessmentResults', [queryParam('studentId')]) });
+const caliperSpec = spec('Caliper', { '/caliper/events': get('getEvents', [queryParam('actorId'), queryParam('limit')]) });
+const powerPathSpec = spec('PowerPath', {
+  '/powerpath/syllabus/{courseSourcedId}': get('getCourseSyllabus', [pathParam('courseSourcedId')]),
+  '/powerpath/lessonPlans/getCourseProgress/{courseId}/student/{studentId}': get('getCourseProgress', [pathParam('courseId'), pathParam('studentId')]),
+});
+
+const responses: Record<string, any> = {
+  '/ims/oneroster/rostering/v1p2/users/student-1': {
+    user: {
+      sourcedId: 'student-1',
+      status: 'active',
+      enabledUser: 'true',
+      givenName: 'Ada',
+      preferredFirstName: 'Addie',
+      familyName: 'Lovelace',
+      email: 'ada@example.com',
+      roles: [{ roleType: 'primary', role: 'student', org: { sourcedId: 'school-1' } }],
+      grades: ['03'],
+    },
+  },
+  '/ims/oneroster/rostering/v1p2/users/student-2': { user: { sourcedId: 'student-2', familyName: 'Hopper' } },
+  '/ims/oneroster/rostering/v1p2/demographics/student-1': {
+    demographics: { sourcedId: 'student-1', birthDate: '2017-04-02', sex: 'female', asian: 'true', white: 'false', hispanicOrLatinoEthnicity: false },
+  },
+  '/ims/oneroster/rostering/v1p2/enrollments': {
+    enrollments: [
+      { sourcedId: 'enr-1', class: { sourcedId: 'class-math' }, school: { sourcedId: 'school-1' }, role: 'student', primary: 'false', beginDate: '2025-08-20', endDate: '2099-06-01', status: 'active' },
+      { sourcedId: 'enr-2', class: { sourcedId: 'class-reading' }, role: 'student', endDate: '2025-01-15', status: 'active' },
+    ],
+  },
+  '/ims/oneroster/rostering/v1p2/students/student-1/classes': {
+    classes: [
+      { sourcedId: 'class-math', title: 'Math 3 - Period 1', classCode: 'M3-1', course: { sourcedId: 'course-math-3' } },
+      { sourcedId: 'class-reading', title: 'Reading 3', course: { sourcedId: 'course-reading-3' } },
+    ],
+  },
+  '/assessment-results': {
+    assessmentResults: [
+      { sourcedId: 'ar-1', assessmentLineItem: { sourcedId: 'ali-fractions' }, score: 80, scoreStatus: 'fully graded', scoreDate: '2026-01-07T15:10:00Z' },
+      { sourcedId: 'ar-2', assessmentTestId: 'test-arrays', title: 'Arrays Check', score: '92.5', status: 'completed', completedAt: '2026-01-09T10:00:00Z' },
+    ],
+  },
+  '/caliper/events': {
+    events: [
+      { id: 'urn:uuid:e-1', type: 'AssessmentEvent', action: 'Submitted', object: { id: 'https://example.com/tests/fractions' }, eventTime: '2026-01-07T15:00:00Z' },
+      { id: 'urn:uuid:e-2', type: 'SessionEvent', action: 'LoggedIn', object: 'https://example.com/app', eventTime: '2026-01-08T14:00:00Z' },
+      { id: 'urn:uuid:e-3', type: 'NavigationEvent', action: 'NavigatedTo', object: 'https://example.com/lessons/arrays', eventTime: '2026-01-08T14:05:00Z' },
+    ],
+  },
+  '/powerpath/syllabus/course-math-3': fixture('powerpath-syllabus.json'),
+  '/powerpath/lessonPlans/getCourseProgress/course-math-3/student/student-1': fixture('powerpath-progress.json'),
+};
+
+describe('StudentProfileAggregator', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: URL[] = [];
+
+  const authService = {
+    makeAuthenticatedRequest: (url: string, options: any) => axios({ ...options, url }),
+  } as unknown as AuthService;
+
+  const aggregator = (documents: Record<string, OpenAPIV3.Document>, pageSize = 100) => {
+    const parser = new OpenAPIParser();
+    for (const [api, document] of Object.entries(documents)) {
+      parser.loadFromDocument(api, document, baseUrl);
+    }
+    const paginator = new OneRosterPaginator(authService, { pageSize, maxRecords: 1000 });
+    return new StudentProfileAggregator(parser, new EndpointExecutor(parser, authService), paginator);
+  };
+
+  // A student whose enrollments span several pages and whose id needs escaping in a filter
+  const quotedStudent = "o'brien";
+  const quotedEnrollments = ['enr-a', 'enr-b', 'enr-c'].map(sourcedId => ({ sourcedId, class: { sourcedId: `class-${sourcedId}` }, role: 'student', status: 'active' }));
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push(url);
+      if (url.pathname.endsWith('/enrollments') && url.searchParams.get('filter') === "user.sourcedId='o''brien'") {
+        const offset = Number(url.searchParams.get('offset'));
+        const limit = Number(url.searchParams.get('limit'));
+        res.writeHead(200, { 'Content-Type': 'application/json', 'X-Total-Count': String(quotedEnrollments.length) });
+        res.end(JSON.stringify({ enrollments: quotedEnrollments.slice(offset, offset + limit) }));
+        return;
+      }
+      const body = responses[url.pathname];
+      res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body ?? { error: 'not found' }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('should join every source into one profile and report the sources that failed', async () => {
+    const profile = await aggregator({ oneroster: oneRosterSpec, qti: qtiSpec, caliper: caliperSpec, powerpath: powerPathSpec })
+      .getProfile('student-1', { eventLimit: 2 });
+
+    expect(profile.student).toMatchObject({ sourcedId: 'student-1', name: 'Addie Lovelace', enabledUser: true, roles: ['student'], grades: ['03'], orgs: ['school-1'] });
+    expect(profile.demographics).toMatchObject({ birthDate: '2017-04-02', sex: 'female', race: ['asian'], hispanicOrLatinoEthnicity: false });
+    expect(profile.enrollments).toEqual([
+      { classId: 'class-math', enrollmentId: 'enr-1', title: 'Math 3 - Period 1', classCode: 'M3-1', courseId: 'course-math-3', schoolId: 'school-1', role: 'student', primary: false, beginDate: '2025-08-20', endDate: '2099-06-01', status: 'active' },
+      { classId: 'class-reading', enrollmentId: 'enr-2', title: 'Reading 3', courseId: 'course-reading-3', role: 'student', endDate: '2025-01-15', status: 'active' },
+    ]);
+    expect(profile.events.map(event => event.id)).toEqual(['urn:uuid:e-3', 'urn:uuid:e-2']);
+    expect(profile.events[1]).toEqual({ id: 'urn:uuid:e-2', type: 'SessionEvent', action: 'LoggedIn', object: 'https://example.com/app', eventTime: '2026-01-08T14:00:00Z' });
+    expect(profile.progress).toEqual([
+      { courseId: 'course-math-3', title: 'Math 3', lessons: 8, completed: 1, percentComplete: 12.5, placement: 'Unit 1: Multiplication', nextLesson: 'Arrays' },
+    ]);
+    expect(profile.results).toEqual([
+      { id: 'ar-2', assessment: 'test-arrays', title: 'Arrays Check', score: 92.5, status: 'completed', date: '2026-01-09T10:00:00Z' },
+      { id: 'ar-1', assessment: 'ali-fractions', score: 80, status: 'fully graded', date: '2026-01-07T15:10:00Z' },
+    ]);
+
+    expect(profile.partial).toBe(true);
+    expect(profile.sources.map(({ source, status, target }) => target ? `${source}:${target} ${status}` : `${source} ${status}`)).toEqual([
+      'oneroster.user ok',
+      'oneroster.demographics ok',
+      'oneroster.enrollments ok',
+      'oneroster.classes ok',
+      'qti.results ok',
+      'caliper.events ok',
+      'powerpath.progress:course-math-3 ok',
+      'powerpath.progress:course-reading-3 failed',
+    ]);
+    expect(profile.sources[4]).toMatchObject({ api: 'qti', operation: 'GET /assessment-results', records: 2 });
+    expect(profile.sources[5].records).toBe(3);
+    expect(profile.sources[7].error).toContain('returned 404');
+    expect(profile.provenance).toEqual({
+      student: ['oneroster.user'],
+      demographics: ['oneroster.demographics'],
+      enrollments: ['oneroster.enrollments', 'oneroster.classes'],
+      results: ['qti.results'],
+      events: ['caliper.events'],
+      progress: ['powerpath.progress'],
+    });
+    expect(profile.summary).toEqual({
+      activeEnrollments: 1,
+      assessmentResults: 2,
+      averageScore: 86.3,
+      coursesTracked: 1,
+      averageCompletion: 12.5,
+      lastActiveAt: '2026-01-09T10:00:00Z',
+    });
+
+    expect(requests.some(url => url.pathname.includes('/schools/'))).toBe(false);
+    const query = (pathname: string) => Object.fromEntries(requests.find(url => url.pathname === pathname)!.searchParams);
+    expect(query('/ims/oneroster/rostering/v1p2/enrollments')).toEqual({ filter: "user.sourcedId='student-1'", limit: '100', offset: '0' });
+    expect(query('/assessment-results')).toEqual({ studentId: 'student-1' });
+    expect(query('/caliper/events')).toEqual({ actorId: 'student-1', limit: '2' });
+  });
+
+  it('should skip sources that are not loaded or not requested and flag schema mismatches', async () => {
+    requests.length = 0;
+    const profile = await aggregator({ oneroster: oneRosterSpec, powerpath: powerPathSpec })
+      .getProfile('student-1', { include: ['results', 'events'] });
+
+    expect(profile.partial).toBe(false);
+    expect(profile.sources.map(({ source, status, error }) => ({ source, status, error }))).toEqual([
+      { source: 'oneroster.user', status: 'ok', error: undefined },
+      { source: 'oneroster.demographics', status: 'skipped', error: 'Not requested' },
+      { source: 'oneroster.enrollments', status: 'skipped', error: 'Not requested' },
+      { source: 'oneroster.classes', status: 'skipped', error: 'Not requested' },
+      { source: 'qti.results', status: 'skipped', error: 'No OpenAPI specification loaded for qti' },
+      { source: 'caliper.events', status: 'skipped', error: 'No OpenAPI specification loaded for caliper' },
+      { source: 'powerpath.progress', status: 'skipped', error: 'Not requested' },
+    ]);
+    expect(requests.map(url => url.pathname)).toEqual(['/ims/oneroster/rostering/v1p2/users/student-1']);
+
+    const mismatched = await aggregator({ oneroster: oneRosterSpec }).getProfile('student-2', { include: [] });
+    expect(mismatched.student).toMatchObject({ sourcedId: 'student-2', name: 'Hopper' });
+    expect(mismatched.sources[0]).toMatchObject({ status: 'ok', records: 1, warnings: ['response.user.givenName is required'] });
+
+    const missing = await aggregator({ oneroster: oneRosterSpec }).getProfile('student-9', { include: [] });
+    expect(missing.partial).toBe(true);
+    expect(missing.student).toBeUndefined();
+    expect(missing.sources[0]).toMatchObject({ status: 'failed', error: '404 Not Found' });
+  });
+
+  it('should escape the student id in the enrollment filter and read every page', async () => {
+    requests.length = 0;
+    const profile = await aggregator({ oneroster: oneRosterSpec }, 2).getProfile(quotedStudent, { include: ['enrollments'] });
+
+    expect(profile.enrollments.map(enrollment => enrollment.enrollmentId)).toEqual(['enr-a', 'enr-b', 'enr-c']);
+    expect(profile.sources[2]).toMatchObject({ source: 'oneroster.enrollments', status: 'ok', records: 3 });
+    expect(requests.filter(url => url.pathname.endsWith('/enrollments')).map(url => url.searchParams.get('offset'))).toEqual(['0', '2']);
+  });
+});